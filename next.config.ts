@@ -8,6 +8,13 @@ const nextConfig: NextConfig = {
   eslint: {
     ignoreDuringBuilds: true,
   },
+  experimental: {
+    serverActions: {
+      // Resume files (up to MAX_RESUME_FILE_SIZE, 10 MB) reach the flows as base64 data URIs, which are a third
+      // larger (about 13.4 MB), next to the resume and job offer texts. The default limit is 1 MB.
+      bodySizeLimit: '15mb',
+    },
+  },
   images: {
     remotePatterns: [
       {
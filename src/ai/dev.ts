@@ -4,5 +4,8 @@ config();
 import '@/ai/flows/automated-job-search.ts';
 import '@/ai/flows/resume-compatibility-analysis.ts';
 import '@/ai/flows/ai-resume-builder.ts';
+import '@/ai/flows/cover-letter-generator.ts';
+import '@/ai/flows/resume-section-rewriter.ts';
+import '@/ai/flows/batch-compatibility-analysis.ts';
 import '@/ai/tools/content-extraction-tools.ts';
 import '@/ai/tools/find-jobs-tool.ts'; // Added import for the new tool
@@ -3,14 +3,21 @@
 /**
  * @fileOverview Generates a Harvard-style resume tailored to a job description.
  *
- * - aiResumeBuilder - A function that generates a tailored resume.
+ * - aiResumeBuilder - A function that generates a tailored resume as a structured document plus its plain-text rendering.
+ *   A second pass checks every factual claim of the new resume against the original one and returns the claims it
+ *   does not back as unsupportedClaims, for the user to confirm or delete before downloading.
  * - AIResumeBuilderInput - The input type for the aiResumeBuilder function.
  * - AIResumeBuilderOutput - The return type for the aiResumeBuilder function.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
-import { fetchTextFromUrlTool, extractTextFromFileTool, type ExtractTextFromFileOutput, type ExtractTextFromFileInput } from '@/ai/tools/content-extraction-tools';
+import { fetchTextFromUrlTool, extractTextFromFileTool, describeFileExtraction, type ExtractTextFromFileOutput, type ExtractTextFromFileInput } from '@/ai/tools/content-extraction-tools';
+import { isSupportedResumeMimeType, SUPPORTED_RESUME_MIME_TYPES } from '@/lib/resume-file-types';
+import { ResumeDocumentSchema } from '@/ai/schemas/resume-document';
+import { renderResumeText } from '@/lib/resume-document';
+import { ResumeClaimCheckSchema, UnsupportedResumeClaimSchema } from '@/ai/schemas/resume-claims';
+import { reviewResumeClaims, type UnsupportedResumeClaim } from '@/lib/resume-claims';
 
 
 const AIResumeBuilderInputSchema = z.object({
@@ -30,14 +37,14 @@ const AIResumeBuilderInputSchema = z.object({
   resumeFileDataUri:
     z.string()
     .optional()
-    .describe("The resume PDF file as a data URI. Used if resume text is not provided. Expected format: 'data:application/pdf;base64,<encoded_data>'."),
+    .describe("The resume file (PDF, DOCX, ODT or RTF) as a data URI. Used if resume text is not provided. Expected format: 'data:<mimetype>;base64,<encoded_data>'."),
   resumeFileMimeType:
     z.string()
     .optional()
-    .refine(val => !val || val === 'application/pdf', {
-        message: "If resumeFileMimeType is provided, it must be 'application/pdf'."
+    .refine(val => !val || isSupportedResumeMimeType(val), {
+        message: `If resumeFileMimeType is provided, it must be one of: ${SUPPORTED_RESUME_MIME_TYPES.join(', ')}.`
     })
-    .describe('The MIME type of the uploaded resume file (must be "application/pdf" if provided). Required if resumeFileDataUri is provided.'),
+    .describe('The MIME type of the uploaded resume file (PDF, DOCX, ODT or RTF). Required if resumeFileDataUri is provided.'),
   profilePhotoDataUri: z
     .string()
     .optional()
@@ -53,19 +60,32 @@ const AIResumeBuilderInputSchema = z.object({
 }).refine(data => data.resume || data.resumeFileDataUri, {
   message: "Either resume text or resumeFileDataUri must be provided.",
   path: ["resume"],
-}).refine(data => data.resumeFileDataUri ? (!!data.resumeFileMimeType && data.resumeFileMimeType === 'application/pdf') : true, {
-  message: "resumeFileMimeType ('application/pdf') is required if resumeFileDataUri is provided.",
+}).refine(data => data.resumeFileDataUri ? isSupportedResumeMimeType(data.resumeFileMimeType) : true, {
+  message: "A supported resumeFileMimeType (PDF, DOCX, ODT or RTF) is required if resumeFileDataUri is provided.",
   path: ["resumeFileMimeType"],
 });
 
 export type AIResumeBuilderInput = z.infer<typeof AIResumeBuilderInputSchema>;
 
-const AIResumeBuilderOutputSchema = z.object({
-  tailoredResume: z.string().describe('The generated resume, structured according to the specified sections.'),
+const AIResumeBuilderPromptOutputSchema = z.object({
+  resume: ResumeDocumentSchema.describe('The tailored resume as a structured document.'),
   explanation: z
     .string()
     .describe('Explanation of the modifications made to the resume.'),
 });
+
+const AIResumeBuilderOutputSchema = AIResumeBuilderPromptOutputSchema.extend({
+  tailoredResume: z.string().describe('Plain-text rendering of the resume document, with localized section titles.'),
+  jobDescriptionText: z.string().describe('The job description the resume was tailored to, fetched from jobOfferUrl when needed. Reused by the cover letter flow.'),
+  originalResumeText: z
+    .string()
+    .optional()
+    .describe('The candidate resume text the claims were checked against, extracted from resumeFileDataUri when needed. Missing from results saved before it was returned.'),
+  unsupportedClaims: z
+    .array(UnsupportedResumeClaimSchema)
+    .optional()
+    .describe('Claims of the tailored resume the original resume does not back. Missing when the check could not run.'),
+});
 export type AIResumeBuilderOutput = z.infer<typeof AIResumeBuilderOutputSchema>;
 
 export async function aiResumeBuilder(input: AIResumeBuilderInput): Promise<AIResumeBuilderOutput> {
@@ -84,35 +104,26 @@ const ProcessedAIResumeBuilderInputSchema = z.object({
 const prompt = ai.definePrompt({
   name: 'aiResumeBuilderPrompt',
   input: {schema: ProcessedAIResumeBuilderInputSchema},
-  output: {schema: AIResumeBuilderOutputSchema},
+  output: {schema: AIResumeBuilderPromptOutputSchema},
   prompt: `You are an expert resume writer, specializing in creating professional resumes tailored to specific job descriptions, following a clear two-column layout.
 
   Your primary task is to generate a new resume based on the provided job description and existing resume. This new resume must highlight the candidate's strengths and qualifications most relevant to the job.
-  Crucially, ensure you create a concise and impactful "PROFESSIONAL PROFILE" (or "PERFIL PROFESIONAL" if in Spanish) section that summarizes the candidate's key value for the role. This section is vital and should be generated even if the original resume doesn't explicitly have one or if it's brief.
+  Crucially, ensure you write a concise and impactful professional profile ('profile') that summarizes the candidate's key value for the role. This field is vital and must be filled even if the original resume doesn't explicitly have one or if it's brief.
 
   Additionally, you must include an explanation of the modifications made to the resume, focusing on why each change was made to better align the resume with the job description.
 
-  The resume MUST include the following sections, in the order presented, using the exact section titles as specified below for the given language.
-
-  For English:
-  1. Candidate's Full Name (The very first line of the entire resume output should *only* be the candidate's full name. Do NOT include any prefix like 'Candidate's Full Name:'.)
-  2. CONTACT INFORMATION: (Include Email, Phone, Address, GitHub link, Date of Birth if available in the input resume)
-  3. PROFESSIONAL PROFILE: (A brief summary of experience, skills, and professional goals. This section is mandatory and should be compelling.)
-  4. WORK EXPERIENCE: (Reverse chronological order. For each job: Position, Company, Location on one line. Dates (e.g., YYYY-MM to YYYY-MM or YYYY to Present) on the next line. Then a brief description of responsibilities and achievements.)
-  5. EDUCATION: (Reverse chronological order. For each entry: Degree/Title, Institution, Location on one line. Dates on the next line.)
-  6. SKILLS: (Sub-categorize into "Technical:" and "Soft:" if appropriate. List skills.)
-  7. LANGUAGES: (List languages and their proficiency level, e.g., "Spanish - Native", "English - Fluent".)
-  8. INTERESTS: (List a few professional or relevant personal interests.)
-
-  For Spanish:
-  1. Nombre Completo del Candidato (La primera línea de toda la respuesta debe ser *únicamente* el nombre completo del candidato. No incluyas ningún prefijo como 'Nombre Completo del Candidato:'.)
-  2. DETALLES PERSONALES: (Incluir Email, Teléfono, Dirección, Enlace de GitHub, Fecha de Nacimiento si está disponible en el currículum de entrada)
-  3. PERFIL PROFESIONAL: (Un breve resumen de experiencia, habilidades y metas profesionales. Esta sección es obligatoria y debe ser convincente.)
-  4. EXPERIENCIA LABORAL: (Orden cronológico inverso. Para cada trabajo: Puesto, Empresa, Localidad en una línea. Fechas (ej. AAAA-MM a AAAA-MM o AAAA a Actual) en la siguiente línea. Luego una breve descripción de responsabilidades y logros.)
-  5. FORMACIÓN: (Orden cronológico inverso. Para cada entrada: Título/Certificación, Institución, Localidad en una línea. Fechas en la siguiente línea.)
-  6. HABILIDADES: (Sub-categorizar en "Técnicas:" y "Blandas:" si es apropiado. Listar habilidades.)
-  7. IDIOMAS: (Listar idiomas y su nivel de competencia, ej. "Español - Nativo", "Inglés - Fluido".)
-  8. INTERESES: (Listar algunos intereses personales relevantes o profesionales.)
+  Return the resume as a structured document ('resume') with these fields:
+  1. 'fullName': The candidate's full name only, with no label.
+  2. 'headline': Optional short professional title for the target role.
+  3. 'contact': Email, phone, location/address, website, LinkedIn, GitHub and date of birth, only when available in the original resume. Never invent contact details.
+  4. 'profile': A brief summary of experience, skills, and professional goals. Mandatory and compelling.
+  5. 'experience': Reverse chronological order. For each job: 'position', 'company', 'location', 'startDate' and 'endDate' (YYYY-MM or YYYY; for a current job use "Present" in English or "Actualidad" in Spanish), a brief 'description' and the key achievements as 'highlights'.
+  6. 'education': Reverse chronological order. For each entry: 'degree', 'institution', 'location', 'startDate', 'endDate'.
+  7. 'skills': Grouped by 'category' (e.g., "Technical" and "Soft" in English, "Técnicas" and "Blandas" in Spanish), each with its 'items'.
+  8. 'languages': Each with its 'proficiency' (e.g., "Native", "Fluent" / "Nativo", "Fluido").
+  9. 'interests': A few professional or relevant personal interests.
+  Fields with no information in the original resume must be left empty (empty string or empty list) rather than invented.
+  Only use facts found in the original resume: never add employers, job titles, dates, degrees, certifications, skills or figures it does not contain. Every claim of the new resume is checked against the original one.
 
   {{#if jobDescriptionOriginUrl}}
   The job description was fetched from the URL: {{{jobDescriptionOriginUrl}}}
@@ -122,10 +133,48 @@ const prompt = ai.definePrompt({
   {{#if profilePhotoDataUri}}Profile Photo context: {{media url=profilePhotoDataUri}} {{!-- This is for AI context only, photo is handled separately for PDF --}}{{/if}}
   Language: {{{language}}}
 
-  **Important Instruction for Language and Structure:** You MUST generate the new resume AND the explanation of modifications strictly in the language specified in the 'Language' field above. Adhere to the section titles and order specified for that language. The candidate's full name must be the very first line of the output, with no preceding text or labels on that line. Ensure each subsequent section starts with its designated title (e.g., "PROFESSIONAL PROFILE:" or "PERFIL PROFESIONAL:").
+  **Important Instruction for Language:** You MUST write every text field of the resume AND the explanation of modifications strictly in the language specified in the 'Language' field above. Do not add section titles or labels inside the field values; the application adds them.
   `,
 });
 
+const ResumeClaimCheckInputSchema = z.object({
+  originalResume: z.string().describe("The candidate's own resume text."),
+  tailoredResume: z.string().describe('The tailored resume text to check.'),
+});
+
+const claimCheckPrompt = ai.definePrompt({
+  name: 'resumeClaimCheckPrompt',
+  input: {schema: ResumeClaimCheckInputSchema},
+  output: {schema: z.object({ claims: z.array(ResumeClaimCheckSchema) })},
+  prompt: `You are a meticulous fact checker. A resume was rewritten for a job offer, and the rewrite must not claim anything the candidate's original resume does not state.
+
+  List every factual claim of the tailored resume: employers, job titles, dates and durations, degrees and institutions, certifications, skills and tools, spoken languages, figures (numbers, percentages, team or budget sizes) and concrete achievements. Leave out the name, the contact details and purely subjective wording such as "passionate" or "results-driven".
+
+  For each claim:
+  1. Copy it character for character from the tailored resume, as a short span (one bullet, one skill, one date range), never a whole section.
+  2. Look for the passage of the original resume that supports it and copy that passage character for character as the evidence, in the original resume's own language. A faithful translation or rewording counts as support; a stronger title, a longer period, a new figure, a new tool or a new degree does not.
+  3. Mark it as supported only when the evidence states or clearly implies it; otherwise leave the evidence empty and say what is missing in the reason, in the language of the tailored resume.
+
+  Original Resume: {{{originalResume}}}
+
+  Tailored Resume: {{{tailoredResume}}}
+  `,
+});
+
+/** Claims of the tailored resume the original does not back, or undefined when the check failed; it never fails the build. */
+async function checkResumeClaims(originalResume: string, tailoredResume: string): Promise<UnsupportedResumeClaim[] | undefined> {
+  try {
+    const {output} = await claimCheckPrompt({ originalResume, tailoredResume });
+    if (!output) throw new Error('The claim check returned no output.');
+    const unsupportedClaims = reviewResumeClaims(output.claims, tailoredResume, originalResume);
+    console.log(`[AIResumeBuilderFlow] Checked ${output.claims.length} claims, ${unsupportedClaims.length} unsupported.`);
+    return unsupportedClaims;
+  } catch (error) {
+    console.error('[AIResumeBuilderFlow] Claim check failed:', error);
+    return undefined;
+  }
+}
+
 const aiResumeBuilderFlow = ai.defineFlow(
   {
     name: 'aiResumeBuilderFlow',
@@ -146,35 +195,35 @@ const aiResumeBuilderFlow = ai.defineFlow(
     }
 
     if (!resumeText && input.resumeFileDataUri && input.resumeFileMimeType) {
-      if (input.resumeFileMimeType !== 'application/pdf') {
-        throw new Error(`Unsupported resume file type: ${input.resumeFileMimeType}. Only PDF is supported.`);
+      if (!isSupportedResumeMimeType(input.resumeFileMimeType)) {
+        throw new Error(`Unsupported resume file type: ${input.resumeFileMimeType}. Supported types are PDF, DOCX, ODT and RTF.`);
       }
-      console.log(`[AIResumeBuilderFlow] Extracting resume text from PDF Data URI.`);
+      console.log(`[AIResumeBuilderFlow] Extracting resume text from ${input.resumeFileMimeType} Data URI.`);
       const fileOutput: ExtractTextFromFileOutput = await extractTextFromFileTool({
         fileDataUri: input.resumeFileDataUri,
-        mimeType: input.resumeFileMimeType as 'application/pdf' 
+        mimeType: input.resumeFileMimeType,
       });
       
-      console.log('[AIResumeBuilderFlow] Output from extractTextFromFileTool:', JSON.stringify(fileOutput, null, 2));
+      console.log(`[AIResumeBuilderFlow] Extracted resume file: ${describeFileExtraction(input.resumeFileMimeType, fileOutput)}`);
 
       if (!fileOutput) {
-        throw new Error('PDF Extraction Tool Error: The tool failed to return any output. This often indicates a severe issue with the PDF file itself (e.g., corruption, very complex structure) or a low-level crash in the PDF processing library. Please check server logs for detailed error messages from the PDF library, and try a different PDF file if possible.');
+        throw new Error('File Extraction Tool Error: The tool failed to return any output. This often indicates a severe issue with the file itself (e.g., corruption, very complex structure) or a low-level crash in the document processing library. Please check server logs for detailed error messages, and try a different file if possible.');
       }
       if (typeof fileOutput.extractedText !== 'string') {
-        throw new Error('PDF text extraction tool returned an invalid output format (extractedText is not a string).');
+        throw new Error('File text extraction tool returned an invalid output format (extractedText is not a string).');
       }
 
       if (fileOutput.extractedText === "Error: PDF_PROCESSING_FAILED_INTERNAL_TOOL_ERROR_SEE_SERVER_LOGS") {
          // This means the tool caught a critical internal error.
-        throw new Error("An internal error occurred while processing the PDF. Please check server logs for details or try a different PDF file.");
+        throw new Error("An internal error occurred while processing the resume file. Please check server logs for details or try a different file.");
       } else if (fileOutput.extractedText.startsWith('Error extracting text:')) {
         throw new Error(fileOutput.extractedText);
       } else if (fileOutput.extractedText.trim() === "") {
-        throw new Error('No text content found in the uploaded PDF. The PDF might be image-based or empty.');
+        throw new Error('No text content found in the uploaded resume file. It might be image-based or empty.');
       }
       resumeText = fileOutput.extractedText;
     } else if (!resumeText && input.resumeFileDataUri && !input.resumeFileMimeType) {
-        throw new Error("Resume file MIME type ('application/pdf') is missing, cannot extract text from file.");
+        throw new Error("Resume file MIME type is missing, cannot extract text from file.");
     }
 
 
@@ -194,7 +243,17 @@ const aiResumeBuilderFlow = ai.defineFlow(
     };
 
     const {output} = await prompt(processedInput);
-    return output!;
+    if (!output) {
+      throw new Error("AI failed to produce a tailored resume.");
+    }
+    const tailoredResume = renderResumeText(output.resume, input.language);
+    return {
+      ...output,
+      tailoredResume,
+      jobDescriptionText,
+      originalResumeText: resumeText,
+      unsupportedClaims: await checkResumeClaims(resumeText, tailoredResume),
+    };
   }
 );
 
@@ -5,14 +5,18 @@
 /**
  * @fileOverview Flow for searching job postings using the generated CV content and an optional job title.
  *
- * - automatedJobSearch - A function that takes CV text and an optional job title, and searches for relevant jobs.
+ * - automatedJobSearch - A function that takes CV text and an optional job title, searches for relevant jobs
+ *   and ranks them by compatibility with the CV.
  * - AutomatedJobSearchInput - The input type for the automatedJobSearch function.
  * - AutomatedJobSearchOutput - The return type for the automatedJobSearch function.
+ * - ValidatedJobPosting - A job posting together with the result of checking its link and its compatibility score.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
-import {findJobsTool, type JobPosting, JobPostingSchema} from '@/ai/tools/find-jobs-tool';
+import {findJobsTool, JobPostingSchema} from '@/ai/tools/find-jobs-tool';
+import {DEFAULT_JOB_SEARCH_COUNTRY, WORK_MODES} from '@/lib/job-search-countries';
+import {getLinkValidator} from '@/lib/link-validation';
 
 const AutomatedJobSearchInputSchema = z.object({
   resume: z
@@ -22,6 +26,28 @@ const AutomatedJobSearchInputSchema = z.object({
     .string()
     .optional()
     .describe('A specific job title provided by the user to refine the search.'),
+  country: z
+    .string()
+    .default(DEFAULT_JOB_SEARCH_COUNTRY)
+    .describe('The ISO 3166-1 alpha-2 code of the country to search in (e.g., "ES", "MX").'),
+  city: z
+    .string()
+    .optional()
+    .describe('The city to search around.'),
+  radiusKm: z
+    .number()
+    .positive()
+    .max(200)
+    .optional()
+    .describe('The search radius around the city, in kilometers.'),
+  workMode: z
+    .enum(WORK_MODES)
+    .default('any')
+    .describe('The accepted work arrangement: "any", "remote", "hybrid" or "onsite".'),
+  language: z
+    .string()
+    .default('English')
+    .describe('The language for the "why it matches" explanations, e.g., "English", "Spanish".'),
 });
 export type AutomatedJobSearchInput = z.infer<typeof AutomatedJobSearchInputSchema>;
 
@@ -30,16 +56,49 @@ const SearchToolOutputSchema = z.object({
   jobSearchResults: z.array(JobPostingSchema).describe('A list of relevant job postings found by the tool, up to 10. Jobs should be less than 30 days old.')
 });
 
-// Final output schema for the flow (array of unique links)
+const LinkStatusSchema = z.enum(['valid', 'invalid', 'unverified']).describe(
+  'Result of checking the posting link: "valid" if it answered with a 2xx status (to HEAD, or to a ranged GET when the host rejects HEAD), "invalid" if it answered with an error status, "unverified" if it timed out or could not be reached.'
+);
+export type LinkStatus = z.infer<typeof LinkStatusSchema>;
+
+const ValidatedJobPostingSchema = JobPostingSchema.extend({
+  linkStatus: LinkStatusSchema,
+  redirectedTo: z.string().optional().describe('The final URL when the posting link redirected elsewhere.'),
+  compatibilityScore: z.number().min(0).max(100).optional().describe('Compatibility (0-100) between the resume and the posting. Missing if the posting could not be scored.'),
+  matchReason: z.string().optional().describe('One sentence explaining why the posting matches the resume.'),
+});
+export type ValidatedJobPosting = z.infer<typeof ValidatedJobPostingSchema>;
+
+// Final output schema for the flow (unique postings with their link validation status)
 const AutomatedJobSearchOutputSchema = z.object({
   jobPostings: z
-    .array(z.string().describe('A direct, publicly accessible URL string to a job posting search results page. This must be a valid URL.'))
-    .min(0) 
-    .max(10, "No more than 10 unique job posting links should be returned.") 
-    .describe('A list of unique, direct links to relevant job posting search results pages in Spain.'),
+    .array(ValidatedJobPostingSchema)
+    .min(0)
+    .max(10, "No more than 10 unique job postings should be returned.")
+    .describe('A list of unique, relevant job postings, each with its link validation status.'),
 });
 export type AutomatedJobSearchOutput = z.infer<typeof AutomatedJobSearchOutputSchema>;
 
+const JobMatchInputSchema = z.object({
+  resumeText: z.string(),
+  language: z.string(),
+  postings: z.array(z.object({
+    id: z.number(),
+    title: z.string(),
+    company: z.string().optional(),
+    location: z.string(),
+    descriptionSnippet: z.string().optional(),
+  })),
+});
+
+const JobMatchOutputSchema = z.object({
+  matches: z.array(z.object({
+    id: z.number().describe('The id of the posting being scored, exactly as given.'),
+    compatibilityScore: z.number().min(0).max(100).describe('A percentage (0-100) representing the compatibility between the resume and the posting.'),
+    matchReason: z.string().describe('One short sentence explaining why the posting matches (or does not match) the resume.'),
+  })),
+});
+
 
 export async function automatedJobSearch(input: AutomatedJobSearchInput): Promise<AutomatedJobSearchOutput> {
   return searchJobsFlow(input);
@@ -68,20 +127,72 @@ You MUST pass the provided "{{jobTitle}}" as the 'jobTitle' parameter to the 'fi
 You MUST pass the extracted keywords from the resume to the 'keywords' parameter of the 'findJobsTool'.
 {{/if}}
 
-The search should be conducted for jobs in "Spain".
-The tool will automatically search InfoJobs, LinkedIn, and Indeed.
-Aim to find up to 10 job postings that appear to be distinct based on their (simulated) details.
-The job postings should ideally be less than 30 days old (the tool will simulate this).
+The search should be conducted for jobs in the country with ISO code "{{country}}"{{#if city}}, around the city "{{city}}"{{/if}}.
+You MUST pass these search filters unchanged to the 'findJobsTool': 'country' = "{{country}}", {{#if city}}'city' = "{{city}}", {{/if}}{{#if radiusKm}}'radiusKm' = {{radiusKm}}, {{/if}}'workMode' = "{{workMode}}".
+The tool will automatically search every configured job board and the portals of that country.
+Aim to find up to 10 distinct job postings.
+The job postings should ideally be less than 30 days old (the tool filters older postings when the board reports a date).
 
-Return the list of found job postings. IMPORTANT: For each job posting in the result, the 'link' field MUST be the exact search results page URL that the 'findJobsTool' provides. Do NOT attempt to create or modify this link.
+Return the list of found job postings. IMPORTANT: For each job posting in the result, the 'link' field MUST be the exact URL that the 'findJobsTool' provides for that posting. Do NOT attempt to create or modify this link.
 `,
 });
 
+// Same criteria as resumeCompatibilityPrompt, but scoring every posting in a single call.
+const jobMatchPrompt = ai.definePrompt({
+  name: 'jobMatchPrompt',
+  input: {schema: JobMatchInputSchema},
+  output: {schema: JobMatchOutputSchema},
+  prompt: `You are an AI assistant that analyzes the compatibility between job postings and a resume.
+
+Candidate's Resume:
+{{{resumeText}}}
+
+Job postings:
+{{#each postings}}
+- id: {{id}}
+  Title: {{title}}{{#if company}} at {{company}}{{/if}} ({{location}})
+  {{#if descriptionSnippet}}Description: {{{descriptionSnippet}}}{{/if}}
+{{/each}}
+
+For EVERY posting, return its 'id', a realistic 'compatibilityScore' (0-100) and a 'matchReason': one short sentence naming the skills or experience from the resume that fit the posting, or the main gap if the fit is poor.
+When a posting only has a title, base the score on how well the title fits the resume's experience.
+The 'matchReason' MUST be in {{{language}}}.
+`,
+});
+
+async function scorePostings(postings: ValidatedJobPosting[], resumeText: string, language: string): Promise<ValidatedJobPosting[]> {
+  if (postings.length === 0) return postings;
+  try {
+    const {output} = await jobMatchPrompt({
+      resumeText,
+      language,
+      postings: postings.map((posting, id) => ({
+        id,
+        title: posting.title,
+        company: posting.company,
+        location: posting.location,
+        descriptionSnippet: posting.descriptionSnippet,
+      })),
+    });
+    const matchesById = new Map((output?.matches || []).map(match => [match.id, match]));
+    return postings.map((posting, id) => {
+      const match = matchesById.get(id);
+      return match
+        ? { ...posting, compatibilityScore: Math.round(match.compatibilityScore), matchReason: match.matchReason }
+        : posting;
+    });
+  } catch (error: any) {
+    // Unscored postings are still useful; keep them in link-status order.
+    console.error('[searchJobsFlow] Could not score postings against the resume:', error.message);
+    return postings;
+  }
+}
+
 const searchJobsFlow = ai.defineFlow(
   {
     name: 'searchJobsFlow',
     inputSchema: AutomatedJobSearchInputSchema,
-    outputSchema: AutomatedJobSearchOutputSchema, // Final output is array of strings
+    outputSchema: AutomatedJobSearchOutputSchema, // Final output is array of validated postings
   },
   async (input) => {
     try {
@@ -89,50 +200,39 @@ const searchJobsFlow = ai.defineFlow(
       const llmResponse = await searchJobsPrompt(input);
 
       if (llmResponse.output?.jobSearchResults && llmResponse.output.jobSearchResults.length > 0) {
-        const allLinks = llmResponse.output.jobSearchResults.map(job => job.link).filter(link => !!link);
-        const uniqueLinks = Array.from(new Set(allLinks));
-        const validatedLinks: string[] = [];
-
-        console.log(`[searchJobsFlow] Found ${uniqueLinks.length} unique links to validate.`);
-
-        for (const link of uniqueLinks) {
-          if (validatedLinks.length >= 10) break; // Stop if we already have 10 valid links
-
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), 7000); // 7-second timeout
-
-          try {
-            console.log(`[searchJobsFlow] Validating link: ${link}`);
-            const response = await fetch(link, {
-              method: 'HEAD',
-              headers: {
-                'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-                'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
-                'Accept-Language': 'en-US,en;q=0.9',
-              },
-              signal: controller.signal,
-              redirect: 'follow', // Follow redirects
-            });
-            clearTimeout(timeoutId);
-
-            if (response.ok) { // response.ok is true if status is 200-299
-              validatedLinks.push(link);
-              console.log(`[searchJobsFlow] Link OK: ${link} (Status: ${response.status})`);
-            } else {
-              console.warn(`[searchJobsFlow] Link NOT OK (Status ${response.status}): ${link}`);
-            }
-          } catch (fetchError: any) {
-            clearTimeout(timeoutId);
-            if (fetchError.name === 'AbortError') {
-              console.error(`[searchJobsFlow] Timeout fetching link ${link}`);
-            } else {
-              console.error(`[searchJobsFlow] Error fetching link ${link}:`, fetchError.message);
-            }
-          }
-        }
-        
-        console.log(`[searchJobsFlow] Returning ${validatedLinks.length} validated links.`);
-        return { jobPostings: validatedLinks.slice(0, 10) }; // Ensure limit after validation
+        const seenLinks = new Set<string>();
+        const uniquePostings = llmResponse.output.jobSearchResults.filter(job => {
+          if (!job.link || seenLinks.has(job.link)) return false;
+          seenLinks.add(job.link);
+          return true;
+        });
+        console.log(`[searchJobsFlow] Found ${uniquePostings.length} unique postings to validate.`);
+        const linkResults = await getLinkValidator().validateAll(uniquePostings.map(posting => posting.link));
+        const validatedPostings: ValidatedJobPosting[] = uniquePostings.map(posting => {
+          const linkResult = linkResults.get(posting.link);
+          return {
+            ...posting,
+            linkStatus: linkResult?.status ?? 'unverified',
+            redirectedTo: linkResult?.redirectedTo,
+          };
+        });
+
+        // Keep reachable postings first when trimming to 10, then rank what is left by compatibility.
+        const statusRank: Record<LinkStatus, number> = { valid: 0, unverified: 1, invalid: 2 };
+        const topPostings = validatedPostings
+          .map((posting, index) => ({ posting, index }))
+          .sort((a, b) => statusRank[a.posting.linkStatus] - statusRank[b.posting.linkStatus] || a.index - b.index)
+          .map(({ posting }) => posting)
+          .slice(0, 10);
+
+        const scoredPostings = await scorePostings(topPostings, input.resume, input.language);
+        const jobPostings = scoredPostings
+          .map((posting, index) => ({ posting, index }))
+          .sort((a, b) => (b.posting.compatibilityScore ?? -1) - (a.posting.compatibilityScore ?? -1) || a.index - b.index)
+          .map(({ posting }) => posting);
+
+        console.log(`[searchJobsFlow] Returning ${jobPostings.length} postings (${jobPostings.filter(p => p.linkStatus === 'valid').length} with validated links).`);
+        return { jobPostings };
       }
       
       console.warn('[searchJobsFlow] LLM response output was missing jobSearchResults or it was empty:', JSON.stringify(llmResponse.output, null, 2).substring(0,300));
@@ -0,0 +1,158 @@
+'use server';
+/**
+ * @fileOverview Compares one resume against many job offers in a single run.
+ *
+ * - analyzeCompatibilityBatch - A function that runs the compatibility analysis of the resume for every job offer,
+ *   a few offers at a time, and returns one result per offer in input order. An offer that fails does not stop the batch.
+ * - BatchCompatibilityInput - The input type for the analyzeCompatibilityBatch function.
+ * - BatchCompatibilityOutput - The return type for the analyzeCompatibilityBatch function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import { analyzeCompatibility, type CompatibilityInput, type CompatibilityOutput } from '@/ai/flows/resume-compatibility-analysis';
+import { extractTextFromFileTool } from '@/ai/tools/content-extraction-tools';
+import { ScoringWeightsSchema } from '@/ai/schemas/compatibility-score';
+import { getBatchConcurrency, getBatchJobOfferLabel, MAX_BATCH_JOB_OFFERS } from '@/lib/batch-job-offers';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { isSupportedResumeMimeType } from '@/lib/resume-file-types';
+
+const BatchJobOfferSchema = z.object({
+  jobDescription: z.string().optional().describe('The job description text.'),
+  jobOfferUrl: z.string().url().optional().describe('URL of the job offer. Used if jobDescription is not provided.'),
+}).refine(data => data.jobDescription || data.jobOfferUrl, {
+  message: "Each job offer needs a jobDescription or a jobOfferUrl.",
+});
+
+const BatchCompatibilityInputSchema = z.object({
+  jobOffers: z
+    .array(BatchJobOfferSchema)
+    .min(1)
+    .max(MAX_BATCH_JOB_OFFERS)
+    .describe(`The job offers to compare the resume against (at most ${MAX_BATCH_JOB_OFFERS}).`),
+  resume: z
+    .string()
+    .optional()
+    .describe('The resume as a string. If not provided, resumeFileDataUri will be used.'),
+  resumeFileDataUri: z
+    .string()
+    .optional()
+    .describe("The resume file (PDF, DOCX, ODT or RTF) as a data URI. Also used for the ATS layout checks when resume text is given."),
+  resumeFileMimeType: z
+    .string()
+    .optional()
+    .describe('The MIME type of the uploaded resume file. Required if resumeFileDataUri is provided.'),
+  resumeFileName: z
+    .string()
+    .optional()
+    .describe("The original name of the uploaded resume file."),
+  atsLayoutCheckSkipped: z
+    .boolean()
+    .optional()
+    .describe('Set when the resume file was not sent because it was too large; the ATS reports then note that its layout was not checked.'),
+  language: z
+    .string()
+    .describe('The language for the explanations, e.g., "English", "Spanish". Must be provided.'),
+  scoringWeights: ScoringWeightsSchema
+    .optional()
+    .describe('Overrides the weights of the hybrid score for every offer.'),
+  storageConsent: z
+    .boolean()
+    .optional()
+    .describe('Whether the user agreed to have the resume and the analyses stored.'),
+  dataAccessKey: z
+    .string()
+    .min(16)
+    .optional()
+    .describe('Secret that lets the user export or erase the stored analyses. Required with storageConsent.'),
+}).refine(data => data.resume || data.resumeFileDataUri, {
+  message: "Either resume text or resumeFileDataUri must be provided.",
+  path: ["resume"],
+}).refine(data => data.resumeFileDataUri ? isSupportedResumeMimeType(data.resumeFileMimeType) : true, {
+  message: "A supported resumeFileMimeType (PDF, DOCX, ODT or RTF) is required if resumeFileDataUri is provided.",
+  path: ["resumeFileMimeType"],
+});
+export type BatchCompatibilityInput = z.infer<typeof BatchCompatibilityInputSchema>;
+
+const BatchCompatibilityResultSchema = z.object({
+  offerIndex: z.number().describe('Position of the offer in the input list.'),
+  label: z.string().describe('Short name of the offer: the host and path of its URL or the first line of its text.'),
+  jobDescription: z.string().optional(),
+  jobOfferUrl: z.string().optional(),
+  analysis: z
+    .custom<CompatibilityOutput>()
+    .optional()
+    .describe('The result of the compatibility analysis, when it succeeded.'),
+  error: z.string().optional().describe('Why the analysis of this offer failed.'),
+});
+export type BatchCompatibilityResult = z.infer<typeof BatchCompatibilityResultSchema>;
+
+const BatchCompatibilityOutputSchema = z.object({
+  results: z.array(BatchCompatibilityResultSchema).describe('One result per job offer, in input order.'),
+});
+export type BatchCompatibilityOutput = z.infer<typeof BatchCompatibilityOutputSchema>;
+
+export async function analyzeCompatibilityBatch(input: BatchCompatibilityInput): Promise<BatchCompatibilityOutput> {
+  return batchCompatibilityAnalysisFlow(input);
+}
+
+const batchCompatibilityAnalysisFlow = ai.defineFlow(
+  {
+    name: 'batchCompatibilityAnalysisFlow',
+    inputSchema: BatchCompatibilityInputSchema,
+    outputSchema: BatchCompatibilityOutputSchema,
+  },
+  async (input) => {
+    let resumeText = input.resume;
+    let resumeFileExtraction: CompatibilityInput['resumeFileExtraction'];
+
+    // Read the file once instead of once per offer: for the text when none was given, and for the ATS layout checks.
+    // Every offer then gets the result, never the file itself.
+    if (input.resumeFileDataUri && isSupportedResumeMimeType(input.resumeFileMimeType)) {
+      console.log(`[batchCompatibilityAnalysisFlow] Extracting resume file ${input.resumeFileName || 'unknown'} (${input.resumeFileMimeType}).`);
+      const fileOutput = await extractTextFromFileTool({
+        fileDataUri: input.resumeFileDataUri,
+        mimeType: input.resumeFileMimeType,
+      });
+      const failed = !fileOutput?.extractedText || fileOutput.extractedText.startsWith('Error');
+      if (!resumeText) {
+        // Without text there is nothing to compare: a file that cannot be read fails the whole batch.
+        if (failed) throw new Error(fileOutput?.extractedText || 'Could not extract text from the uploaded resume file.');
+        resumeText = fileOutput.extractedText;
+      }
+      resumeFileExtraction = { layout: fileOutput?.layout, failed };
+    }
+
+    const concurrency = getBatchConcurrency();
+    console.log(`[batchCompatibilityAnalysisFlow] Analyzing ${input.jobOffers.length} job offers, ${concurrency} at a time.`);
+
+    const results = await mapWithConcurrency(input.jobOffers, concurrency, async (offer, offerIndex): Promise<BatchCompatibilityResult> => {
+      const result: BatchCompatibilityResult = {
+        offerIndex,
+        label: getBatchJobOfferLabel(offer),
+        jobDescription: offer.jobDescription,
+        jobOfferUrl: offer.jobOfferUrl,
+      };
+      try {
+        result.analysis = await analyzeCompatibility({
+          jobDescription: offer.jobDescription,
+          jobOfferUrl: offer.jobDescription ? undefined : offer.jobOfferUrl,
+          resume: resumeText,
+          resumeFileExtraction,
+          resumeFileName: input.resumeFileName,
+          atsLayoutCheckSkipped: input.atsLayoutCheckSkipped,
+          language: input.language,
+          scoringWeights: input.scoringWeights,
+          storageConsent: input.storageConsent,
+          dataAccessKey: input.dataAccessKey,
+        });
+      } catch (error) {
+        console.error(`[batchCompatibilityAnalysisFlow] Offer ${offerIndex + 1} (${result.label}) failed:`, error);
+        result.error = error instanceof Error ? error.message : String(error);
+      }
+      return result;
+    });
+
+    return { results };
+  }
+);
@@ -0,0 +1,108 @@
+'use server';
+/**
+ * @fileOverview Writes a cover letter for the job offer the resume was tailored to.
+ *
+ * - generateCoverLetter - A function that generates a cover letter from the processed job description and resume text.
+ * - CoverLetterInput - The input type for the generateCoverLetter function.
+ * - CoverLetterOutput - The return type for the generateCoverLetter function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import { COVER_LETTER_LENGTHS, COVER_LETTER_TONES, COVER_LETTER_WORD_RANGES } from '@/lib/cover-letter';
+
+const CoverLetterInputSchema = z.object({
+  jobDescription: z
+    .string()
+    .min(1)
+    .describe('The job description text, as already processed by the resume builder (fetched from the job offer URL if needed).'),
+  resume: z
+    .string()
+    .min(1)
+    .describe("The candidate's resume text, normally the tailored (and possibly edited) resume."),
+  tone: z
+    .enum(COVER_LETTER_TONES)
+    .optional()
+    .describe('The tone of the letter. Defaults to "professional".'),
+  length: z
+    .enum(COVER_LETTER_LENGTHS)
+    .optional()
+    .describe('The target length of the letter. Defaults to "medium".'),
+  addressee: z
+    .string()
+    .optional()
+    .describe('Name or role of the person the letter is addressed to, e.g., "Ms. Laura Gómez" or "Hiring Manager". A generic greeting is used when omitted.'),
+  language: z
+    .string()
+    .describe('The language for the cover letter, e.g., "English", "Spanish". Must be provided.'),
+});
+export type CoverLetterInput = z.infer<typeof CoverLetterInputSchema>;
+
+const CoverLetterOutputSchema = z.object({
+  coverLetter: z
+    .string()
+    .describe('The full cover letter: greeting, body paragraphs separated by blank lines, closing and the candidate name.'),
+});
+export type CoverLetterOutput = z.infer<typeof CoverLetterOutputSchema>;
+
+export async function generateCoverLetter(input: CoverLetterInput): Promise<CoverLetterOutput> {
+  return coverLetterFlow(input);
+}
+
+const CoverLetterPromptInputSchema = CoverLetterInputSchema.extend({
+  tone: z.enum(COVER_LETTER_TONES),
+  minWords: z.number(),
+  maxWords: z.number(),
+});
+
+const prompt = ai.definePrompt({
+  name: 'coverLetterPrompt',
+  input: {schema: CoverLetterPromptInputSchema},
+  output: {schema: CoverLetterOutputSchema},
+  prompt: `You are an expert career coach who writes persuasive, honest cover letters.
+
+  Write a cover letter for the candidate below, applying for the job described below.
+
+  Requirements:
+  1. Address the letter to {{#if addressee}}"{{{addressee}}}"{{else}}the hiring team, with a generic greeting appropriate for the language{{/if}}.
+  2. Use a {{{tone}}} tone.
+  3. The body must be between {{minWords}} and {{maxWords}} words, not counting the greeting and closing.
+  4. Open with the role being applied for and a strong reason for the application, connect the two or three most relevant achievements or skills of the candidate to the key requirements of the job, and close with a call to action.
+  5. Use only facts that appear in the resume. Never invent employers, dates, degrees, numbers or skills.
+  6. Finish with a polite closing and the candidate's name as it appears in the resume.
+  7. Return plain text only (no Markdown, no placeholders like "[Company]"); separate paragraphs with a blank line. Do not include the sender address or date; the application adds them.
+
+  Job Description: {{{jobDescription}}}
+  Resume: {{{resume}}}
+  Language: {{{language}}}
+
+  **Important Instruction for Language:** You MUST write the whole cover letter, including greeting and closing, strictly in the language specified in the 'Language' field above.
+  `,
+});
+
+const coverLetterFlow = ai.defineFlow(
+  {
+    name: 'coverLetterFlow',
+    inputSchema: CoverLetterInputSchema,
+    outputSchema: CoverLetterOutputSchema,
+  },
+  async (input) => {
+    const tone = input.tone ?? 'professional';
+    const length = input.length ?? 'medium';
+    const [minWords, maxWords] = COVER_LETTER_WORD_RANGES[length];
+    console.log(`[coverLetterFlow] Writing a ${length} ${tone} cover letter in ${input.language}.`);
+
+    const {output} = await prompt({
+      ...input,
+      tone,
+      length,
+      addressee: input.addressee?.trim() || undefined,
+      minWords,
+      maxWords,
+    });
+    if (!output?.coverLetter?.trim()) {
+      throw new Error("AI failed to produce a cover letter.");
+    }
+    return { coverLetter: output.coverLetter.trim() };
+  }
+);
@@ -6,15 +6,26 @@
  * and extracts structured candidate information.
  *
  * - analyzeCompatibility - A function that takes a job description, a resume, and a language as input,
- *   and returns a compatibility score, explanation, and structured candidate data.
+ *   and returns a compatibility score, explanation, a per-requirement breakdown with resume evidence,
+ *   and structured candidate data. The score is the reproducible hybrid score from compatibility-scoring.ts;
+ *   the LLM's own score is returned as llmCompatibilityScore. An ATS-readiness report (keyword gap and
+ *   parse hazards of the uploaded file) is returned as atsReport. The candidate data is only stored when the user
+ *   gave storageConsent, together with a hash of their dataAccessKey so they can later export or erase it.
  * - CompatibilityInput - The input type for the analyzeCompatibility function.
  * - CompatibilityOutput - The return type for the analyzeCompatibility function.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
-import { fetchTextFromUrlTool, extractTextFromFileTool, type ExtractTextFromFileOutput, type ExtractTextFromFileInput } from '@/ai/tools/content-extraction-tools';
-import { saveCandidateDataToMongoDB } from '@/lib/mongodb-candidate-storage';
+import { fetchTextFromUrlTool, extractTextFromFileTool, describeFileExtraction, type ExtractTextFromFileOutput, type ExtractTextFromFileInput } from '@/ai/tools/content-extraction-tools';
+import { isSupportedResumeMimeType, SUPPORTED_RESUME_MIME_TYPES } from '@/lib/resume-file-types';
+import { getCandidateRepository, type NewCandidateRecord } from '@/lib/candidate-repository';
+import { hashDataAccessKey, runRetentionPurgeIfDue } from '@/lib/candidate-repository/data-protection';
+import { RequirementAssessmentSchema, type RequirementAssessment } from '@/ai/schemas/compatibility-requirement';
+import { ScoreBreakdownSchema, ScoringWeightsSchema } from '@/ai/schemas/compatibility-score';
+import { computeHybridScore, getScoringWeights } from '@/lib/compatibility-scoring';
+import { AtsReportSchema, DocumentLayoutSchema } from '@/ai/schemas/ats-report';
+import { buildAtsReport, type DocumentLayout } from '@/lib/ats-report';
 
 
 const CompatibilityInputSchema = z.object({
@@ -34,30 +45,56 @@ const CompatibilityInputSchema = z.object({
   resumeFileDataUri:
     z.string()
     .optional()
-    .describe("The resume PDF file as a data URI. Used if resume text is not provided. Expected format: 'data:application/pdf;base64,<encoded_data>'."),
+    .describe("The resume file (PDF, DOCX, ODT or RTF) as a data URI. Used if resume text is not provided. Expected format: 'data:<mimetype>;base64,<encoded_data>'."),
   resumeFileMimeType:
     z.string()
     .optional()
-    .refine(val => !val || val === 'application/pdf', {
-        message: "If resumeFileMimeType is provided, it must be 'application/pdf'."
+    .refine(val => !val || isSupportedResumeMimeType(val), {
+        message: `If resumeFileMimeType is provided, it must be one of: ${SUPPORTED_RESUME_MIME_TYPES.join(', ')}.`
     })
-    .describe('The MIME type of the uploaded resume file (must be "application/pdf" if provided). Required if resumeFileDataUri is provided.'),
+    .describe('The MIME type of the uploaded resume file (PDF, DOCX, ODT or RTF). Required if resumeFileDataUri is provided.'),
   resumeFileName:
     z.string()
     .optional()
-    .describe("The original name of the uploaded resume PDF file."),
+    .describe("The original name of the uploaded resume file."),
+  resumeFileExtraction: z
+    .object({
+      layout: DocumentLayoutSchema.optional(),
+      failed: z.boolean().describe('Whether no text could be extracted from the file.'),
+    })
+    .optional()
+    .describe('What the caller found when it already read the resume file (the batch flow does, once for every offer). Used for the ATS layout checks in place of resumeFileDataUri.'),
+  atsLayoutCheckSkipped: z
+    .boolean()
+    .optional()
+    .describe('Set when the resume text was extracted from a file that was not sent because it was too large; the ATS report then notes that its layout was not checked.'),
   language: z
     .string()
     .describe('The language for the explanation and structured data extraction, e.g., "English", "Spanish". Must be provided.'),
+  scoringWeights: ScoringWeightsSchema
+    .optional()
+    .describe('Overrides the weights of the hybrid score (by default taken from COMPATIBILITY_SCORE_WEIGHTS).'),
+  storageConsent: z
+    .boolean()
+    .optional()
+    .describe('Whether the user agreed to have the resume and the analysis stored. Nothing is stored without it.'),
+  dataAccessKey: z
+    .string()
+    .min(16)
+    .optional()
+    .describe('Secret kept by the user\'s browser; its hash is stored with the record so only its owner can export or erase it. Required with storageConsent.'),
 }).refine(data => data.jobDescription || data.jobOfferUrl, {
   message: "Either jobDescription text or jobOfferUrl must be provided.",
   path: ["jobDescription"],
 }).refine(data => data.resume || data.resumeFileDataUri, {
   message: "Either resume text or resumeFileDataUri must be provided.",
   path: ["resume"],
-}).refine(data => data.resumeFileDataUri ? (!!data.resumeFileMimeType && data.resumeFileMimeType === 'application/pdf') : true, {
-  message: "resumeFileMimeType ('application/pdf') is required if resumeFileDataUri is provided.",
+}).refine(data => data.resumeFileDataUri ? isSupportedResumeMimeType(data.resumeFileMimeType) : true, {
+  message: "A supported resumeFileMimeType (PDF, DOCX, ODT or RTF) is required if resumeFileDataUri is provided.",
   path: ["resumeFileMimeType"],
+}).refine(data => !data.storageConsent || data.dataAccessKey, {
+  message: "A dataAccessKey is required when storageConsent is given.",
+  path: ["dataAccessKey"],
 });
 
 export type CompatibilityInput = z.infer<typeof CompatibilityInputSchema>;
@@ -76,7 +113,7 @@ const EducacionSchema = z.object({
   fechas: z.string().optional().describe("Dates of attendance or graduation (e.g., '2018-2020', 'Graduated May 2018').")
 });
 
-const CompatibilityOutputSchema = z.object({
+const CompatibilityPromptOutputSchema = z.object({
   compatibilityScore: z
     .number()
     .min(0).max(100)
@@ -88,6 +125,7 @@ const CompatibilityOutputSchema = z.object({
     .describe(
       'A brief explanation of the compatibility score, highlighting the strengths of the resume in relation to the job description, in the specified language.'
     ),
+  requirements: z.array(RequirementAssessmentSchema).optional().describe("The individual requirements of the job offer, each assessed against the resume with its evidence."),
   nombre: z.string().optional().describe("The candidate's full name as extracted from the resume."),
   email: z.string().optional().describe("The candidate's email address as extracted from the resume."),
   experienciaLaboral: z.array(ExperienciaLaboralSchema).optional().describe("A list of work experiences extracted from the resume."),
@@ -95,6 +133,20 @@ const CompatibilityOutputSchema = z.object({
   habilidades: z.array(z.string()).optional().describe("A list of skills extracted from the resume."),
   cvTextoCrudo: z.string().optional().describe("The full raw text of the resume used for extraction, if available.")
 });
+
+const CompatibilityOutputSchema = CompatibilityPromptOutputSchema.extend({
+  compatibilityScore: z
+    .number()
+    .min(0).max(100)
+    .describe('Hybrid 0-100 score: deterministic keyword, experience, seniority and language checks blended with the LLM score.'),
+  llmCompatibilityScore: z
+    .number()
+    .min(0).max(100)
+    .describe('The score returned by the LLM, kept for auditing the hybrid score.'),
+  scoreBreakdown: ScoreBreakdownSchema.describe('The components and weights behind compatibilityScore.'),
+  atsReport: AtsReportSchema.describe('Keyword gap against the job offer and things that may keep an ATS from parsing the resume.'),
+  jobDescriptionText: z.string().describe('The job description the resume was compared with, fetched from jobOfferUrl when needed. Reused when screening several resumes against the same offer.'),
+});
 export type CompatibilityOutput = z.infer<typeof CompatibilityOutputSchema>;
 
 export async function analyzeCompatibility(
@@ -114,7 +166,9 @@ const ProcessedCompatibilityInputSchema = z.object({
 const prompt = ai.definePrompt({
   name: 'resumeCompatibilityPrompt',
   input: {schema: ProcessedCompatibilityInputSchema},
-  output: {schema: CompatibilityOutputSchema},
+  output: {schema: CompatibilityPromptOutputSchema},
+  // Keep the LLM-judged part of the score as repeatable as the model allows.
+  config: {temperature: 0},
   prompt: `You are an AI assistant that analyzes the compatibility between a job description and a resume, and extracts structured information from the resume.
 
   {{#if jobDescriptionOriginUrl}}
@@ -130,7 +184,15 @@ const prompt = ai.definePrompt({
 
   Tasks:
   1.  **Compatibility Analysis**: Provide a compatibility score (0-100) and a brief explanation of the score. The explanation should highlight the resume's strengths relative to the job description and MUST be in the specified 'Language for the output'.
-  2.  **Structured Information Extraction from Resume**: From the 'Candidate's Resume' text, extract the following information. If a field is not explicitly found, omit it or leave it as an empty string/array where appropriate.
+  2.  **Requirement Breakdown** ('requirements'): Split the job description into its individual requirements (skills, years of experience, education, certifications, languages, responsibilities the candidate must have done before). For each one:
+      *   'requirement': The requirement, phrased concisely.
+      *   'importance': "must-have" if the offer presents it as required, "nice-to-have" if it is preferred, a plus or optional.
+      *   'status': "matched", "partial" or "missing", judged only from the resume.
+      *   'weight': 1 (minor) to 5 (critical) for this role.
+      *   'evidence': The sentence or line from the resume that supports the status, copied verbatim (do not paraphrase). Leave it empty when the status is "missing".
+      *   'comment': A short note on what is covered or what is missing.
+      List between 5 and 15 requirements, must-haves first. The compatibility score must be consistent with this breakdown.
+  3.  **Structured Information Extraction from Resume**: From the 'Candidate's Resume' text, extract the following information. If a field is not explicitly found, omit it or leave it as an empty string/array where appropriate.
       *   'nombre': The candidate's full name.
       *   'email': The candidate's email address.
       *   'experienciaLaboral': An array of work experiences. Each item should be an object with 'puesto', 'empresa', 'fechas', and 'descripcion'.
@@ -139,12 +201,25 @@ const prompt = ai.definePrompt({
       *   'cvTextoCrudo': Include the full 'Candidate's Resume' text here.
 
   The compatibility score must be realistic.
-  All textual output, including the explanation and any extracted text within the structured fields (like descriptions in experienciaLaboral), MUST be in the language specified in the 'Language for the output' field.
+  All textual output, including the explanation, the requirements and comments, and any extracted text within the structured fields (like descriptions in experienciaLaboral), MUST be in the language specified in the 'Language for the output' field, except 'evidence', which quotes the resume as written.
+  The 'importance' and 'status' values must be used exactly as given above, in English.
 
   Output the entire response as a single JSON object adhering to the defined output schema.
   `,
 });
 
+// Must-haves first, then by weight; evidence is only meaningful for covered requirements.
+function normalizeRequirements(requirements: RequirementAssessment[] | undefined): RequirementAssessment[] {
+  return (requirements || [])
+    .filter(item => item.requirement?.trim())
+    .map(item => ({
+      ...item,
+      requirement: item.requirement.trim(),
+      evidence: item.status === 'missing' ? undefined : item.evidence?.trim() || undefined,
+    }))
+    .sort((a, b) => Number(a.importance === 'nice-to-have') - Number(b.importance === 'nice-to-have') || b.weight - a.weight);
+}
+
 const compatibilityAnalysisFlow = ai.defineFlow(
   {
     name: 'compatibilityAnalysisFlow',
@@ -159,6 +234,8 @@ const compatibilityAnalysisFlow = ai.defineFlow(
     let resumeSource: 'text' | 'file' = input.resume ? 'text' : 'file';
     let resumeIdentifier = input.resume || input.resumeFileName || 'unknown_resume';
     let jobDescriptionOriginUrl: string | undefined = undefined;
+    let resumeLayout: DocumentLayout | undefined = undefined;
+    let resumeExtractionFailed = false;
 
 
     if (!jobDescriptionText && input.jobOfferUrl) {
@@ -174,37 +251,49 @@ const compatibilityAnalysisFlow = ai.defineFlow(
     }
 
     if (!resumeText && input.resumeFileDataUri && input.resumeFileMimeType) {
-      if (input.resumeFileMimeType !== 'application/pdf') {
-        throw new Error(`Unsupported resume file type: ${input.resumeFileMimeType}. Only PDF is supported.`);
+      if (!isSupportedResumeMimeType(input.resumeFileMimeType)) {
+        throw new Error(`Unsupported resume file type: ${input.resumeFileMimeType}. Supported types are PDF, DOCX, ODT and RTF.`);
       }
-      console.log(`[CompatibilityAnalysisFlow] Extracting resume text from PDF Data URI. File: ${input.resumeFileName || 'unknown'}`);
+      console.log(`[CompatibilityAnalysisFlow] Extracting resume text from ${input.resumeFileMimeType} Data URI. File: ${input.resumeFileName || 'unknown'}`);
       const fileOutput: ExtractTextFromFileOutput = await extractTextFromFileTool({
         fileDataUri: input.resumeFileDataUri,
-        mimeType: input.resumeFileMimeType as 'application/pdf',
+        mimeType: input.resumeFileMimeType,
       });
       
-      console.log('[CompatibilityAnalysisFlow] Output from extractTextFromFileTool:', JSON.stringify(fileOutput, null, 2));
+      console.log(`[CompatibilityAnalysisFlow] Extracted resume file: ${describeFileExtraction(input.resumeFileMimeType, fileOutput)}`);
 
       if (!fileOutput) {
-        throw new Error('PDF Extraction Tool Error: The tool failed to return any output. This often indicates a severe issue with the PDF file itself (e.g., corruption, very complex structure) or a low-level crash in the PDF processing library. Please check server logs for detailed error messages from the PDF library, and try a different PDF file if possible.');
+        throw new Error('File Extraction Tool Error: The tool failed to return any output. This often indicates a severe issue with the file itself (e.g., corruption, very complex structure) or a low-level crash in the document processing library. Please check server logs for detailed error messages, and try a different file if possible.');
       }
       if (typeof fileOutput.extractedText !== 'string') {
-        throw new Error('PDF text extraction tool returned an invalid output format (extractedText is not a string).');
+        throw new Error('File text extraction tool returned an invalid output format (extractedText is not a string).');
       }
 
       if (fileOutput.extractedText === "Error: PDF_PROCESSING_FAILED_INTERNAL_TOOL_ERROR_SEE_SERVER_LOGS") {
         // This means the tool caught a critical internal error.
-        throw new Error("An internal error occurred while processing the PDF. Please check server logs for details or try a different PDF file.");
+        throw new Error("An internal error occurred while processing the resume file. Please check server logs for details or try a different file.");
       } else if (fileOutput.extractedText.startsWith('Error extracting text:')) { // Specific errors reported by the tool's logic
         throw new Error(fileOutput.extractedText);
       } else if (fileOutput.extractedText.trim() === "") {
         // This specific case ("No text content found...") should ideally be an "Error extracting text:" from the tool
-        throw new Error('No text content found in the uploaded PDF. The PDF might be image-based or empty.');
+        throw new Error('No text content found in the uploaded resume file. It might be image-based or empty.');
       }
       resumeText = fileOutput.extractedText;
-      resumeIdentifier = input.resumeFileName || 'uploaded_pdf_file';
+      resumeLayout = fileOutput.layout;
+      resumeIdentifier = input.resumeFileName || 'uploaded_resume_file';
+    } else if (resumeText && input.resumeFileExtraction) {
+      resumeLayout = input.resumeFileExtraction.layout;
+      resumeExtractionFailed = input.resumeFileExtraction.failed;
+    } else if (resumeText && input.resumeFileDataUri && isSupportedResumeMimeType(input.resumeFileMimeType)) {
+      // The text was already extracted on the client; read the file again only for the ATS layout checks.
+      const fileOutput = await extractTextFromFileTool({
+        fileDataUri: input.resumeFileDataUri,
+        mimeType: input.resumeFileMimeType,
+      });
+      resumeLayout = fileOutput?.layout;
+      resumeExtractionFailed = !fileOutput || fileOutput.extractedText.startsWith('Error');
     } else if (!resumeText && input.resumeFileDataUri && !input.resumeFileMimeType) {
-        throw new Error("Resume file MIME type ('application/pdf') is missing, cannot extract text from file.");
+        throw new Error("Resume file MIME type is missing, cannot extract text from file.");
     }
 
     if (!jobDescriptionText) {
@@ -221,33 +310,70 @@ const compatibilityAnalysisFlow = ai.defineFlow(
       language: input.language
     });
 
-    if (promptOutput) {
-        console.log('[CompatibilityAnalysisFlow] Attempting to save candidate data to MongoDB. Prompt output received:', JSON.stringify(promptOutput, null, 2).substring(0, 500) + "...");
-        const candidateDataToSave = {
-            jobDescriptionSource,
-            jobOfferIdentifier: jobOfferIdentifier.substring(0, 500),
-            resumeSource,
-            resumeIdentifier: resumeIdentifier.substring(0,500),
-            compatibilityScore: promptOutput.compatibilityScore,
-            compatibilityExplanation: promptOutput.explanation,
-            nombre: promptOutput.nombre,
-            email: promptOutput.email,
-            experienciaLaboral: promptOutput.experienciaLaboral,
-            educacion: promptOutput.educacion,
-            habilidades: promptOutput.habilidades,
-            cvTextoCrudo: resumeText, 
-            fullJobDescriptionText: jobDescriptionText, 
-            // fullResumeText: resumeText, // Already captured in cvTextoCrudo if resumeSource is 'file'
-            resumeLanguage: input.language,
-        };
-        saveCandidateDataToMongoDB(candidateDataToSave).catch(err => {
-            console.error("[CompatibilityAnalysisFlow] Error saving candidate data to MongoDB in background:", err);
-        });
-    } else {
+    if (!promptOutput) {
         console.warn('[CompatibilityAnalysisFlow] No promptOutput received from AI, skipping MongoDB save.');
         throw new Error("AI failed to produce an output for compatibility analysis and data extraction.");
     }
-    return promptOutput!;
+
+    const hybridScore = computeHybridScore({
+      jobDescription: jobDescriptionText,
+      resume: resumeText,
+      llmScore: promptOutput.compatibilityScore,
+      weights: { ...getScoringWeights(), ...input.scoringWeights },
+    });
+    console.log(`[CompatibilityAnalysisFlow] Hybrid score ${hybridScore.score} (LLM score ${promptOutput.compatibilityScore}).`);
+    const output: CompatibilityOutput = {
+      ...promptOutput,
+      requirements: normalizeRequirements(promptOutput.requirements),
+      compatibilityScore: hybridScore.score,
+      llmCompatibilityScore: promptOutput.compatibilityScore,
+      scoreBreakdown: { components: hybridScore.components, weights: hybridScore.weights },
+      atsReport: buildAtsReport({
+        jobDescription: jobDescriptionText,
+        resumeText,
+        layout: resumeLayout,
+        extractionFailed: resumeExtractionFailed,
+        layoutCheckSkipped: !!input.atsLayoutCheckSkipped && !input.resumeFileDataUri && !input.resumeFileExtraction,
+      }),
+      jobDescriptionText,
+    };
+
+    if (!input.storageConsent || !input.dataAccessKey) {
+      return output;
+    }
+    const candidateDataToSave: NewCandidateRecord = {
+        jobDescriptionSource,
+        jobOfferIdentifier: jobOfferIdentifier.substring(0, 500),
+        resumeSource,
+        resumeIdentifier: resumeIdentifier.substring(0,500),
+        compatibilityScore: output.compatibilityScore,
+        llmCompatibilityScore: output.llmCompatibilityScore,
+        compatibilityExplanation: output.explanation,
+        nombre: output.nombre,
+        email: output.email,
+        experienciaLaboral: output.experienciaLaboral,
+        educacion: output.educacion,
+        habilidades: output.habilidades,
+        cvTextoCrudo: resumeText, 
+        fullJobDescriptionText: jobDescriptionText, 
+        // fullResumeText: resumeText, // Already captured in cvTextoCrudo if resumeSource is 'file'
+        resumeLanguage: input.language,
+        consentGivenAt: new Date().toISOString(),
+        dataAccessKeyHash: hashDataAccessKey(input.dataAccessKey),
+    };
+    // Stored in the background: a storage failure must not fail the analysis.
+    getCandidateRepository()
+      .then(async repository => {
+        if (!repository) return null;
+        const record = await repository.save(candidateDataToSave);
+        await runRetentionPurgeIfDue(repository);
+        return record;
+      })
+      .then(record => record && console.log(`[CompatibilityAnalysisFlow] Candidate data saved with id ${record.id}.`))
+      .catch(err => {
+        console.error("[CompatibilityAnalysisFlow] Error saving candidate data in background:", err);
+      });
+    return output;
   }
 );
 
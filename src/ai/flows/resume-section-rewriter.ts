@@ -0,0 +1,146 @@
+'use server';
+/**
+ * @fileOverview Rewrites one part of the tailored resume (the whole resume, a section or a single entry) for the job offer.
+ *
+ * - rewriteResumeSection - A function that rewrites the selected text and explains the changes.
+ * - ResumeSectionRewriteInput - The input type for the rewriteResumeSection function.
+ * - ResumeSectionRewriteOutput - The return type for the rewriteResumeSection function.
+ */
+
+import {ai} from '@/ai/genkit';
+import {z} from 'genkit';
+import { RESUME_REWRITE_ACTIONS, RESUME_REWRITE_SCOPES, type ResumeRewriteAction, type ResumeRewriteScope } from '@/lib/resume-rewrite';
+
+const ResumeSectionRewriteInputSchema = z.object({
+  jobDescription: z
+    .string()
+    .min(1)
+    .describe('The job description text, as already processed by the resume builder.'),
+  resume: z
+    .string()
+    .min(1)
+    .describe('The full tailored resume text, given as context.'),
+  originalResume: z
+    .string()
+    .optional()
+    .describe("The candidate's own resume text, the source of truth for facts and figures."),
+  scope: z
+    .enum(RESUME_REWRITE_SCOPES)
+    .describe('Whether sectionText is the whole resume, one section or one entry of a section.'),
+  sectionTitle: z
+    .string()
+    .optional()
+    .describe('Title of the section the text belongs to, e.g., "WORK EXPERIENCE". Omitted for the whole resume.'),
+  sectionText: z
+    .string()
+    .min(1)
+    .describe('The text to rewrite, without its section title.'),
+  action: z
+    .enum(RESUME_REWRITE_ACTIONS)
+    .describe('What to do with the text.'),
+  instructions: z
+    .string()
+    .optional()
+    .describe('The user\'s own instruction. Required when action is "custom".'),
+  language: z
+    .string()
+    .describe('The language of the resume, e.g., "English", "Spanish". Must be provided.'),
+});
+export type ResumeSectionRewriteInput = z.infer<typeof ResumeSectionRewriteInputSchema>;
+
+const ResumeSectionRewriteOutputSchema = z.object({
+  rewrittenText: z
+    .string()
+    .describe('The rewritten text, in the same plain-text layout as the input and without the section title.'),
+  explanation: z
+    .string()
+    .describe('A short explanation of the changes.'),
+});
+export type ResumeSectionRewriteOutput = z.infer<typeof ResumeSectionRewriteOutputSchema>;
+
+export async function rewriteResumeSection(input: ResumeSectionRewriteInput): Promise<ResumeSectionRewriteOutput> {
+  return resumeSectionRewriteFlow(input);
+}
+
+const ACTION_INSTRUCTIONS: Record<Exclude<ResumeRewriteAction, 'custom'>, Record<ResumeRewriteScope, string>> = {
+  rewrite: {
+    resume: 'Rewrite the resume so it speaks directly to the key requirements of the job, with stronger wording and the job\'s keywords where they truthfully apply.',
+    section: 'Rewrite this section so it speaks directly to the key requirements of the job, with stronger wording and the job\'s keywords where they truthfully apply.',
+    entry: 'Rewrite this entry so it speaks directly to the key requirements of the job, with stronger wording and the job\'s keywords where they truthfully apply.',
+  },
+  quantify: {
+    resume: 'Make the achievements measurable: bring out the figures, sizes, percentages and results already stated anywhere in the resumes, and lead each bullet with its impact.',
+    section: 'Make the achievements in this section measurable: bring out the figures, sizes, percentages and results already stated anywhere in the resumes, and lead each bullet with its impact.',
+    entry: 'Make the achievements of this entry measurable: bring out the figures, sizes, percentages and results already stated anywhere in the resumes, and lead each bullet with its impact.',
+  },
+  shorten: {
+    resume: 'Shorten the resume so it fits on one page (about 450 words): keep what matters most for this job, merge or drop the rest.',
+    section: 'Shorten this section to about half its length, keeping what matters most for this job.',
+    entry: 'Shorten this entry to about half its length, keeping what matters most for this job.',
+  },
+};
+
+const ResumeSectionRewritePromptInputSchema = ResumeSectionRewriteInputSchema.extend({
+  task: z.string(),
+});
+
+const prompt = ai.definePrompt({
+  name: 'resumeSectionRewritePrompt',
+  input: {schema: ResumeSectionRewritePromptInputSchema},
+  output: {schema: ResumeSectionRewriteOutputSchema},
+  prompt: `You are an expert resume writer editing one part of a resume that was already tailored to a job offer.
+
+  Task: {{{task}}}
+
+  Rules:
+  1. Only rewrite the "Text to rewrite" below; the rest of the resume is context.
+  2. Use only facts that appear in the resumes. Never invent employers, dates, degrees, numbers or skills; when a figure is not stated, describe the impact without one.
+  3. Keep the plain-text layout of the input: entry lines like "Position | Company | Location", date lines, bullets starting with "- " and blank lines between entries{{#if sectionTitle}}. Do not repeat the section title{{else}}, with the section titles written exactly as in the input{{/if}}.
+  4. Return plain text only (no Markdown).
+
+  Job Description: {{{jobDescription}}}
+  {{#if originalResume}}Candidate's Own Resume (source of truth): {{{originalResume}}}{{/if}}
+  Tailored Resume (context): {{{resume}}}
+  {{#if sectionTitle}}Section: {{{sectionTitle}}}{{/if}}
+  Text to rewrite:
+  {{{sectionText}}}
+  Language: {{{language}}}
+
+  **Important Instruction for Language:** You MUST write the rewritten text and the explanation strictly in the language specified in the 'Language' field above.
+  `,
+});
+
+const resumeSectionRewriteFlow = ai.defineFlow(
+  {
+    name: 'resumeSectionRewriteFlow',
+    inputSchema: ResumeSectionRewriteInputSchema,
+    outputSchema: ResumeSectionRewriteOutputSchema,
+  },
+  async (input) => {
+    const instructions = input.instructions?.trim();
+    if (input.action === 'custom' && !instructions) {
+      throw new Error('An instruction is required for a custom rewrite.');
+    }
+    const task = input.action === 'custom' ? instructions! : ACTION_INSTRUCTIONS[input.action][input.scope];
+    console.log(`[resumeSectionRewriteFlow] ${input.action} on ${input.scope}${input.sectionTitle ? ` "${input.sectionTitle}"` : ''} in ${input.language}.`);
+
+    const {output} = await prompt({
+      ...input,
+      instructions,
+      sectionTitle: input.scope === 'resume' ? undefined : input.sectionTitle,
+      originalResume: input.originalResume?.trim() || undefined,
+      task,
+    });
+    let rewrittenText = output?.rewrittenText?.trim();
+    if (!rewrittenText) {
+      throw new Error("AI failed to rewrite the selected text.");
+    }
+    // Models sometimes repeat the section title despite the instruction.
+    const title = input.sectionTitle?.trim().replace(/:$/, '');
+    if (input.scope === 'section' && title) {
+      const [firstLine, ...rest] = rewrittenText.split('\n');
+      if (firstLine.trim().replace(/:$/, '').toLowerCase() === title.toLowerCase()) rewrittenText = rest.join('\n').trim();
+    }
+    return { rewrittenText, explanation: output!.explanation?.trim() || '' };
+  }
+);
@@ -0,0 +1,34 @@
+/**
+ * @fileOverview Zod schemas for the ATS-readiness report built in src/lib/ats-report.ts.
+ *
+ * - DocumentLayoutSchema - Layout facts reported by the resume file extractors.
+ * - AtsReportSchema - Keyword gap and parse hazards of a resume for a job offer.
+ */
+
+import {z} from 'genkit';
+import { ATS_HAZARD_CODES, ATS_HAZARD_SEVERITIES, ATS_READINESS_LEVELS } from '@/lib/ats-report';
+
+export const DocumentLayoutSchema = z.object({
+  pageCount: z.number().optional().describe('Number of pages (PDF only).'),
+  textlessPages: z.array(z.number()).optional().describe('1-based pages without a text layer, usually scanned or image-only.'),
+  multiColumnPages: z.array(z.number()).optional().describe('1-based pages whose text is laid out in columns.'),
+  hasTables: z.boolean().optional().describe('Whether the document uses tables.'),
+  imageCount: z.number().optional().describe('Number of embedded images.'),
+});
+
+export const AtsReportSchema = z.object({
+  readiness: z.enum(ATS_READINESS_LEVELS).describe('"poor" if any high-severity hazard was found, "fair" for medium ones, otherwise "good".'),
+  keywords: z.array(z.object({
+    keyword: z.string(),
+    synonyms: z.array(z.string()),
+    found: z.boolean(),
+    matchedAs: z.string().optional().describe('The synonym found in the resume, when it was not the keyword itself.'),
+  })).describe('The main terms of the job offer and whether the resume contains them.'),
+  hazards: z.array(z.object({
+    code: z.enum(ATS_HAZARD_CODES),
+    severity: z.enum(ATS_HAZARD_SEVERITIES),
+    pages: z.array(z.number()).optional(),
+    items: z.array(z.string()).optional(),
+  })).describe('Things that can keep an applicant tracking system from parsing the resume correctly.'),
+  layoutCheckSkipped: z.boolean().optional().describe('True when the layout of the uploaded file was not checked because the file was not sent.'),
+});
@@ -0,0 +1,26 @@
+/**
+ * @fileOverview Per-requirement compatibility assessment shared by the compatibility flow and the UI.
+ *
+ * - REQUIREMENT_IMPORTANCES - Whether a job requirement is a must-have or a nice-to-have.
+ * - REQUIREMENT_STATUSES - How well the resume covers a requirement.
+ * - RequirementAssessmentSchema - The Zod schema for one assessed job requirement.
+ * - RequirementAssessment - The type for one assessed job requirement.
+ */
+
+import {z} from 'genkit';
+
+export const REQUIREMENT_IMPORTANCES = ['must-have', 'nice-to-have'] as const;
+export type RequirementImportance = typeof REQUIREMENT_IMPORTANCES[number];
+
+export const REQUIREMENT_STATUSES = ['matched', 'partial', 'missing'] as const;
+export type RequirementStatus = typeof REQUIREMENT_STATUSES[number];
+
+export const RequirementAssessmentSchema = z.object({
+  requirement: z.string().describe('One individual requirement of the job offer, phrased concisely (e.g., "3+ years of React").'),
+  importance: z.enum(REQUIREMENT_IMPORTANCES).describe('"must-have" for required qualifications, "nice-to-have" for preferred or optional ones.'),
+  status: z.enum(REQUIREMENT_STATUSES).describe('"matched" if the resume fully covers the requirement, "partial" if only in part, "missing" if not at all.'),
+  weight: z.number().int().min(1).max(5).describe('Relative importance of the requirement for the role, from 1 (minor) to 5 (critical).'),
+  evidence: z.string().optional().describe('The sentence from the resume that supports the status, quoted verbatim. Empty when the status is "missing".'),
+  comment: z.string().optional().describe('A short note on what is covered or what is missing.'),
+});
+export type RequirementAssessment = z.infer<typeof RequirementAssessmentSchema>;
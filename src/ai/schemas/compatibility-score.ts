@@ -0,0 +1,48 @@
+/**
+ * @fileOverview Zod schemas for the hybrid compatibility score computed in src/lib/compatibility-scoring.ts.
+ *
+ * - ScoringWeightsSchema - Optional per-component weight overrides accepted by the compatibility flow.
+ * - ScoreBreakdownSchema - The components and weights behind a hybrid compatibility score.
+ */
+
+import {z} from 'genkit';
+import { SCORE_COMPONENT_KEYS, SENIORITY_LEVELS } from '@/lib/compatibility-scoring';
+
+export const ScoringWeightsSchema = z.object({
+  keywords: z.number().min(0).optional(),
+  experience: z.number().min(0).optional(),
+  seniority: z.number().min(0).optional(),
+  languages: z.number().min(0).optional(),
+  llm: z.number().min(0).optional(),
+}).describe('Relative weights of the score components. Missing components keep the configured weight.');
+
+const ScoreComponentSchema = z.object({
+  key: z.enum(SCORE_COMPONENT_KEYS),
+  score: z.number().nullable().describe('0-100, or null when the job offer gives nothing to measure for this component.'),
+  weight: z.number().describe('Share of the final score (0-1) after dropping components without a score.'),
+  details: z.object({
+    matchedKeywords: z.array(z.string()).optional(),
+    missingKeywords: z.array(z.string()).optional(),
+    requiredYears: z.number().optional(),
+    candidateYears: z.number().optional(),
+    jobLevel: z.enum(SENIORITY_LEVELS).optional(),
+    candidateLevel: z.enum(SENIORITY_LEVELS).optional(),
+    languages: z.array(z.object({
+      language: z.string(),
+      requiredLevel: z.string().optional(),
+      candidateLevel: z.string().optional(),
+      met: z.boolean(),
+    })).optional(),
+  }).optional(),
+});
+
+export const ScoreBreakdownSchema = z.object({
+  components: z.array(ScoreComponentSchema),
+  weights: z.object({
+    keywords: z.number(),
+    experience: z.number(),
+    seniority: z.number(),
+    languages: z.number(),
+    llm: z.number(),
+  }).describe('Configured weights, before dropping components without a score.'),
+});
@@ -0,0 +1,23 @@
+/**
+ * @fileOverview Zod schemas for the claim check of tailored resumes, reviewed in src/lib/resume-claims.ts.
+ *
+ * - ResumeClaimCheckSchema - One claim of the tailored resume with the evidence found for it in the original resume.
+ * - UnsupportedResumeClaimSchema - A claim the original resume does not back.
+ */
+
+import {z} from 'genkit';
+import { RESUME_CLAIM_CATEGORIES } from '@/lib/resume-claims';
+
+export const ResumeClaimCheckSchema = z.object({
+  claim: z.string().describe('The claim, copied character for character from the tailored resume: a short span such as one bullet, one skill or one date range.'),
+  category: z.enum(RESUME_CLAIM_CATEGORIES).describe('What the claim is about.'),
+  evidence: z.string().describe('The passage of the original resume that supports the claim, copied character for character. Empty when nothing supports it.'),
+  supported: z.boolean().describe('Whether the original resume states or clearly implies the claim.'),
+  reason: z.string().optional().describe('For unsupported claims, what is missing or different in the original resume.'),
+});
+
+export const UnsupportedResumeClaimSchema = z.object({
+  claim: z.string().describe('The claim as written in the tailored resume.'),
+  category: z.enum(RESUME_CLAIM_CATEGORIES),
+  reason: z.string().optional().describe('Why the claim was flagged; missing when no supporting text was found in the original resume.'),
+});
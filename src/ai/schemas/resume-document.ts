@@ -0,0 +1,60 @@
+/**
+ * @fileOverview Typed resume document shared by the resume flows and the exporters.
+ *
+ * - ResumeDocumentSchema - The Zod schema for a structured resume.
+ * - ResumeDocument - The type for a structured resume.
+ */
+
+import {z} from 'genkit';
+
+const ResumeContactSchema = z.object({
+  email: z.string().optional().describe('Email address.'),
+  phone: z.string().optional().describe('Phone number.'),
+  location: z.string().optional().describe('Address or city and country.'),
+  website: z.string().optional().describe('Personal website or portfolio URL.'),
+  linkedin: z.string().optional().describe('LinkedIn profile URL.'),
+  github: z.string().optional().describe('GitHub profile URL.'),
+  dateOfBirth: z.string().optional().describe('Date of birth, only if present in the original resume.'),
+});
+
+const ResumeExperienceSchema = z.object({
+  position: z.string().describe('Job title/position.'),
+  company: z.string().optional().describe('Company name.'),
+  location: z.string().optional().describe('City and/or country of the job.'),
+  startDate: z.string().optional().describe('Start date, preferably YYYY-MM or YYYY.'),
+  endDate: z.string().optional().describe('End date, preferably YYYY-MM or YYYY, or the word for "Present" in the resume language.'),
+  description: z.string().optional().describe('Brief description of the role.'),
+  highlights: z.array(z.string()).optional().describe('Key responsibilities and achievements, one per item.'),
+});
+
+const ResumeEducationSchema = z.object({
+  degree: z.string().describe('Degree, title or certification obtained.'),
+  institution: z.string().optional().describe('Educational institution name.'),
+  location: z.string().optional().describe('City and/or country of the institution.'),
+  startDate: z.string().optional().describe('Start date, preferably YYYY-MM or YYYY.'),
+  endDate: z.string().optional().describe('End or graduation date, preferably YYYY-MM or YYYY.'),
+  description: z.string().optional().describe('Relevant coursework, honors or thesis.'),
+});
+
+const ResumeSkillGroupSchema = z.object({
+  category: z.string().optional().describe('Skill category, e.g., "Technical" or "Soft" (in the resume language).'),
+  items: z.array(z.string()).describe('Skills in this category.'),
+});
+
+const ResumeLanguageSchema = z.object({
+  language: z.string().describe('Language name.'),
+  proficiency: z.string().optional().describe('Proficiency level, e.g., "Native", "Fluent", "B2".'),
+});
+
+export const ResumeDocumentSchema = z.object({
+  fullName: z.string().describe("The candidate's full name."),
+  headline: z.string().optional().describe('A short professional title shown under the name, e.g., "Senior Backend Engineer".'),
+  contact: ResumeContactSchema.describe('Contact details found in the original resume.'),
+  profile: z.string().describe('Professional profile: a concise, compelling summary of experience, skills and goals for the target role.'),
+  experience: z.array(ResumeExperienceSchema).describe('Work experience in reverse chronological order.'),
+  education: z.array(ResumeEducationSchema).describe('Education in reverse chronological order.'),
+  skills: z.array(ResumeSkillGroupSchema).describe('Skills grouped by category.'),
+  languages: z.array(ResumeLanguageSchema).describe('Spoken languages and proficiency.'),
+  interests: z.array(z.string()).describe('Professional or relevant personal interests.'),
+});
+export type ResumeDocument = z.infer<typeof ResumeDocumentSchema>;
@@ -1,14 +1,17 @@
 
 /**
- * @fileOverview Tools for extracting text content from URLs and PDF files.
+ * @fileOverview Tools for extracting text content from URLs and resume files.
  *
  * - fetchTextFromUrlTool - Fetches and extracts text content from a given URL.
- * - extractTextFromFileTool - Extracts text from a PDF file data URI.
+ * - extractTextFromFileTool - Extracts text from a PDF, DOCX, ODT or RTF file data URI.
+ * - describeFileExtraction - Summarizes an extraction for the logs without the resume text.
  */
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
-// pdf-parse is imported dynamically within the tool function
+import {extractDocumentText} from '@/ai/tools/document-extractors';
+import {SUPPORTED_RESUME_MIME_TYPES} from '@/lib/resume-file-types';
+import {DocumentLayoutSchema} from '@/ai/schemas/ats-report';
 
 export const fetchTextFromUrlTool = ai.defineTool(
   {
@@ -69,89 +72,70 @@ export const fetchTextFromUrlTool = ai.defineTool(
 
 
 export const ExtractTextFromFileInputSchema = z.object({
-  fileDataUri: z.string().describe("The PDF file content as a data URI. Expected format: 'data:application/pdf;base64,<encoded_data>'."),
-  mimeType: z.literal('application/pdf').describe('The MIME type of the file (must be "application/pdf").'),
+  fileDataUri: z.string().describe("The resume file content as a data URI. Expected format: 'data:<mimetype>;base64,<encoded_data>'."),
+  mimeType: z.enum(SUPPORTED_RESUME_MIME_TYPES).describe('The MIME type of the file: PDF, DOCX, ODT or RTF.'),
 });
 export type ExtractTextFromFileInput = z.infer<typeof ExtractTextFromFileInputSchema>;
 
 export const ExtractTextFromFileOutputSchema = z.object({
-  extractedText: z.string().describe('The extracted text content from the PDF file. If an error occurs during extraction, this will contain an error message starting with "Error extracting text:".'),
+  extractedText: z.string().describe('The extracted text content of the file, with headings as "# Title" lines and bullets as "- item" lines. If an error occurs during extraction, this will contain an error message starting with "Error extracting text:".'),
+  layout: DocumentLayoutSchema.optional().describe('Layout facts found while extracting the text (pages without text, columns, tables, images), used by the ATS report.'),
 });
 export type ExtractTextFromFileOutput = z.infer<typeof ExtractTextFromFileOutputSchema>;
 
 export const extractTextFromFileTool = ai.defineTool(
   {
     name: 'extractTextFromFileTool',
-    description: 'Extracts text content from a PDF file provided as a data URI using pdf-parse.',
+    description: 'Extracts text content from a PDF, DOCX, ODT or RTF file provided as a data URI, keeping headings and bullet lists.',
     inputSchema: ExtractTextFromFileInputSchema,
     outputSchema: ExtractTextFromFileOutputSchema,
   },
   async ({ fileDataUri, mimeType }) => {
-    console.log('[extractTextFromFileTool] Tool invoked with pdf-parse.');
+    console.log('[extractTextFromFileTool] Tool invoked.');
     try {
       console.log(`[extractTextFromFileTool] Received fileDataUri length: ${fileDataUri?.length}`);
-      // console.log(`[extractTextFromFileTool] Data URI start: ${fileDataUri?.substring(0, 100)}`); // Be careful with PII
       console.log(`[extractTextFromFileTool] Received mimeType: ${mimeType}`);
 
-      if (!fileDataUri || !fileDataUri.startsWith('data:application/pdf;base64,')) {
-        const errorMsg = 'Error extracting text: Invalid PDF data URI format. Must start with "data:application/pdf;base64,".';
+      // The declared mimeType decides the extractor; browsers sometimes encode .odt/.rtf files as application/octet-stream.
+      if (!fileDataUri || !/^data:[^;,]*;base64,/.test(fileDataUri)) {
+        const errorMsg = 'Error extracting text: Invalid data URI format. Must start with "data:<mimetype>;base64,".';
         console.error(`[extractTextFromFileTool] ${errorMsg}`);
         return { extractedText: errorMsg };
       }
-      const parts = fileDataUri.split(',');
-      if (parts.length < 2 || !parts[1]) {
-        const errorMsg = 'Error extracting text: Invalid data URI format for PDF - missing base64 data part.';
-        console.error(`[extractTextFromFileTool] ${errorMsg}`);
-        return { extractedText: errorMsg };
-      }
-      const base64Data = parts[1];
+      const base64Data = fileDataUri.slice(fileDataUri.indexOf(',') + 1);
       console.log(`[extractTextFromFileTool] Base64 data length: ${base64Data.length}`);
       if (base64Data.length === 0) {
-        const errorMsg = 'Error extracting text: Base64 data part of PDF Data URI is empty.';
+        const errorMsg = 'Error extracting text: Base64 data part of the file Data URI is empty.';
         console.error(`[extractTextFromFileTool] ${errorMsg}`);
         return { extractedText: errorMsg };
       }
 
       const buffer = Buffer.from(base64Data, 'base64');
-      console.log(`[extractTextFromFileTool] PDF buffer created. Length: ${buffer.length}`);
-      
-      if (buffer.length < 20) { // Heuristic: very small buffer likely means invalid PDF data
-        const errorMsg = `Error extracting text: PDF buffer is too small (length: ${buffer.length} bytes) after base64 decoding, likely malformed or invalid PDF.`;
+      console.log(`[extractTextFromFileTool] File buffer created. Length: ${buffer.length}`);
+
+      if (buffer.length < 20) { // Heuristic: very small buffer likely means invalid file data
+        const errorMsg = `Error extracting text: File buffer is too small (length: ${buffer.length} bytes) after base64 decoding, likely malformed or invalid file.`;
         console.error(`[extractTextFromFileTool] ${errorMsg}`);
         return { extractedText: errorMsg };
       }
-      
-      // Dynamically import pdf-parse
-      console.log('[extractTextFromFileTool] Attempting to dynamically import pdf-parse...');
-      const pdfParser = (await import('pdf-parse')).default;
-      console.log('[extractTextFromFileTool] pdf-parse imported successfully.');
-      
-      console.log('[extractTextFromFileTool] Calling pdfParser with buffer...');
-      const data = await pdfParser(buffer);
-      console.log('[extractTextFromFileTool] pdfParser processing finished.');
-
-
-      if (!data || typeof data.text !== 'string') {
-        const errorMsg = 'Error extracting text: pdf-parse failed to return valid data or text structure.';
-        console.error(`[extractTextFromFileTool] ${errorMsg} Data received from pdf-parse:`, JSON.stringify(data, null, 2).substring(0, 300));
-        return { extractedText: errorMsg };
-      }
 
-      const extractedText = data.text.trim();
+      const { text: extractedText, layout } = await extractDocumentText(buffer, mimeType);
       if (extractedText === "") {
-        console.warn('[extractTextFromFileTool] Successfully processed PDF with pdf-parse, but no text content was found. PDF might be image-based or empty.');
-        return { extractedText: "Error extracting text: No text content found in the uploaded PDF. The PDF might be image-based or empty." };
+        console.warn(`[extractTextFromFileTool] Processed ${mimeType} file, but no text content was found.`);
+        return { extractedText: mimeType === 'application/pdf'
+          ? "Error extracting text: No text content found in the uploaded PDF. The PDF might be image-based or empty."
+          : "Error extracting text: No text content found in the uploaded file. The document might be empty.", layout };
       }
-      
-      console.log('[extractTextFromFileTool] Successfully extracted text from PDF using pdf-parse.');
-      return { extractedText };
+
+      console.log(`[extractTextFromFileTool] Successfully extracted text from ${mimeType} file. Length: ${extractedText.length}`);
+      return { extractedText, layout };
 
     } catch (error: unknown) {
-      let errorMessage = "PDF_PROCESSING_FAILED_INTERNAL_TOOL_ERROR_PDF_PARSE"; 
+      let errorMessage = "FILE_PROCESSING_FAILED_INTERNAL_TOOL_ERROR";
       let errorStack = "Stack not available";
 
       if (error instanceof Error) {
-        errorMessage = error.message; // This should capture the "ENOENT..." message
+        errorMessage = error.message;
         errorStack = error.stack || "Stack not available";
       } else if (typeof error === 'string') {
         errorMessage = error;
@@ -159,10 +143,25 @@ export const extractTextFromFileTool = ai.defineTool(
         errorMessage = JSON.stringify(error);
       }
       // Log the specific error message and part of the stack.
-      console.error('[extractTextFromFileTool] CRITICAL ERROR during PDF processing with pdf-parse:', errorMessage, 'Stack:', errorStack.substring(0,500));
+      console.error(`[extractTextFromFileTool] CRITICAL ERROR during ${mimeType} processing:`, errorMessage, 'Stack:', errorStack.substring(0,500));
       // Ensure the returned error message starts with "Error extracting text:"
       return { extractedText: `Error extracting text: ${errorMessage}.` };
     }
   }
 );
 
+/**
+ * One log line about an extraction: the format, the text length and what went wrong. The text itself is the
+ * candidate's resume and never goes to the logs, which are neither encrypted nor erased on request.
+ */
+export function describeFileExtraction(mimeType: string, output: ExtractTextFromFileOutput | undefined): string {
+  const text = output?.extractedText;
+  if (typeof text !== 'string') return `${mimeType}, no text returned`;
+  const warnings = [
+    text.startsWith('Error') ? text : '',
+    output?.layout?.textlessPages?.length ? `${output.layout.textlessPages.length} page(s) without text` : '',
+    output?.layout?.multiColumnPages?.length ? `${output.layout.multiColumnPages.length} page(s) in columns` : '',
+    output?.layout?.hasTables ? 'tables' : '',
+  ].filter(Boolean);
+  return `${mimeType}, ${text.length} characters${warnings.length ? `; warnings: ${warnings.join(', ')}` : ''}`;
+}
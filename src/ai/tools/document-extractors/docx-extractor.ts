@@ -0,0 +1,25 @@
+/**
+ * @fileOverview Word (.docx) text extraction with mammoth.
+ *
+ * - extractDocxText - Converts the document to HTML, which keeps Word heading styles and lists,
+ *   and then to structured text. Tables and images are reported as layout information.
+ */
+
+import {htmlToStructuredText} from '@/ai/tools/document-extractors/structured-text';
+import type {DocumentExtraction} from '@/lib/ats-report';
+
+export async function extractDocxText(buffer: Buffer): Promise<DocumentExtraction> {
+  const mammoth = (await import('mammoth')).default;
+  const result = await mammoth.convertToHtml({ buffer }, { ignoreEmptyParagraphs: true });
+  const errors = result.messages.filter(message => message.type === 'error');
+  if (errors.length > 0) {
+    console.warn('[extractDocxText] mammoth reported errors:', errors.map(message => message.message).join('; '));
+  }
+  return {
+    text: htmlToStructuredText(result.value),
+    layout: {
+      hasTables: /<table\b/i.test(result.value),
+      imageCount: (result.value.match(/<img\b/gi) || []).length,
+    },
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * @fileOverview MIME-dispatching text extractor for uploaded resume files.
+ *
+ * - extractDocumentText - Extracts structured text and layout information (pages without text, columns,
+ *   tables, images) from a PDF, DOCX, ODT or RTF buffer.
+ *
+ * Every extractor keeps as much of the document structure as the format exposes: headings become
+ * "# Title" lines and list items become "- item" lines, so the LLM sees the sections of the resume.
+ */
+
+import type {ResumeMimeType} from '@/lib/resume-file-types';
+import type {DocumentExtraction} from '@/lib/ats-report';
+import {extractPdfText} from '@/ai/tools/document-extractors/pdf-extractor';
+import {extractDocxText} from '@/ai/tools/document-extractors/docx-extractor';
+import {extractOdtText} from '@/ai/tools/document-extractors/odt-extractor';
+import {extractRtfText} from '@/ai/tools/document-extractors/rtf-extractor';
+
+const EXTRACTORS: Record<ResumeMimeType, (buffer: Buffer) => Promise<DocumentExtraction> | DocumentExtraction> = {
+  'application/pdf': extractPdfText,
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': extractDocxText,
+  'application/vnd.oasis.opendocument.text': extractOdtText,
+  'application/rtf': extractRtfText,
+};
+
+export async function extractDocumentText(buffer: Buffer, mimeType: ResumeMimeType): Promise<DocumentExtraction> {
+  const extractor = EXTRACTORS[mimeType];
+  if (!extractor) {
+    throw new Error(`Unsupported file type: ${mimeType}.`);
+  }
+  const {text, layout} = await extractor(buffer);
+  return {text: text.trim(), layout};
+}
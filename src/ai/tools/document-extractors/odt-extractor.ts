@@ -0,0 +1,54 @@
+/**
+ * @fileOverview OpenDocument Text (.odt) extraction.
+ *
+ * - extractOdtText - Reads content.xml from the ODT package and maps its headings, lists, paragraphs
+ *   and tables to HTML before converting them to structured text. Tables and images are reported as
+ *   layout information.
+ */
+
+import {htmlToStructuredText} from '@/ai/tools/document-extractors/structured-text';
+import type {DocumentExtraction} from '@/lib/ats-report';
+
+/** Opening heading tags depend on their outline level, so they are mapped before the fixed replacements below. */
+const toHtmlHeadings = (xml: string): string =>
+  xml.replace(/<text:h\b([^>]*)>/g, (_match, attributes: string) =>
+    `<h${Math.min(6, Number(attributes.match(/text:outline-level="(\d+)"/)?.[1] || 1))}>`);
+
+const ODF_TO_HTML: Array<[RegExp, string]> = [
+  // The HTML converter only looks at tag names, so any closing heading tag works.
+  [/<\/text:h>/g, '</h6>'],
+  [/<text:list(?=[\s/>])[^>]*>/g, '<ul>'],
+  [/<\/text:list>/g, '</ul>'],
+  [/<text:list-item(?=[\s/>])[^>]*>/g, '<li>'],
+  [/<\/text:list-item>/g, '</li>'],
+  [/<text:p(?=[\s/>])[^>]*\/>/g, '<p></p>'],
+  [/<text:p(?=[\s/>])[^>]*>/g, '<p>'],
+  [/<\/text:p>/g, '</p>'],
+  [/<text:line-break\s*\/>/g, '<br>'],
+  [/<text:(tab|s)(?=[\s/>])[^>]*\/>/g, ' '],
+  [/<table:table-row(?=[\s/>])[^>]*>/g, '<tr>'],
+  [/<\/table:table-row>/g, '</tr>'],
+  [/<table:table-cell(?=[\s/>])[^>]*>/g, '<td>'],
+  [/<\/table:table-cell>/g, '</td>'],
+  // Drop everything else (spans, frames, annotations) but keep their text.
+  [/<\/?(?:text|table|office|draw|style|svg|fo|loext):[^>]*>/g, ''],
+];
+
+export async function extractOdtText(buffer: Buffer): Promise<DocumentExtraction> {
+  const JSZip = (await import('jszip')).default;
+  const zip = await JSZip.loadAsync(buffer);
+  const contentFile = zip.file('content.xml');
+  if (!contentFile) {
+    throw new Error('The ODT file has no content.xml; it may be corrupted or not an OpenDocument text file.');
+  }
+  const xml = await contentFile.async('string');
+  const body = xml.match(/<office:text(?=[\s/>])[^>]*>([\s\S]*)<\/office:text>/)?.[1] ?? xml;
+  const html = ODF_TO_HTML.reduce((markup, [pattern, replacement]) => markup.replace(pattern, replacement), toHtmlHeadings(body));
+  return {
+    text: htmlToStructuredText(html),
+    layout: {
+      hasTables: /<table:table[\s>]/.test(body),
+      imageCount: (body.match(/<draw:image\b/g) || []).length,
+    },
+  };
+}
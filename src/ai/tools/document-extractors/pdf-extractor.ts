@@ -0,0 +1,84 @@
+/**
+ * @fileOverview PDF text extraction with pdf-parse.
+ *
+ * - extractPdfText - Returns the text layer of a PDF and, per page, whether it has text and whether
+ *   its text is laid out in columns (which ATS parsers often read in the wrong order).
+ */
+
+import type {DocumentExtraction} from '@/lib/ats-report';
+
+interface PdfTextItem {
+  str: string;
+  transform: number[];
+  width?: number;
+}
+
+// Share of the page width a text run must start at, away from the left margin, to count as a second column.
+const COLUMN_MIN_X = 0.25;
+const COLUMN_MAX_X = 0.75;
+const COLUMN_BUCKET = 0.05;
+
+/**
+ * Two or more columns show up as many text runs starting at the same x position in the middle of the page,
+ * separated from the text on their left by a wide gap.
+ */
+function isMultiColumn(items: PdfTextItem[], pageWidth: number): boolean {
+  const lines = new Map<number, PdfTextItem[]>();
+  items.filter(item => item.str.trim()).forEach(item => {
+    const y = Math.round(item.transform[5]);
+    lines.set(y, [...(lines.get(y) || []), item]);
+  });
+  if (lines.size < 8) return false;
+
+  const runStarts = new Map<number, number>();
+  lines.forEach(lineItems => {
+    const sorted = [...lineItems].sort((a, b) => a.transform[4] - b.transform[4]);
+    sorted.forEach((item, index) => {
+      const x = item.transform[4];
+      const previous = sorted[index - 1];
+      const gap = previous ? x - (previous.transform[4] + (previous.width || 0)) : x;
+      if (index > 0 && gap < pageWidth * COLUMN_BUCKET) return;
+      const relativeX = x / pageWidth;
+      if (relativeX >= COLUMN_MIN_X && relativeX <= COLUMN_MAX_X) {
+        const bucket = Math.floor(relativeX / COLUMN_BUCKET);
+        runStarts.set(bucket, (runStarts.get(bucket) || 0) + 1);
+      }
+    });
+  });
+  const largestColumn = Math.max(0, ...runStarts.values());
+  return largestColumn >= Math.max(5, lines.size * 0.25);
+}
+
+export async function extractPdfText(buffer: Buffer): Promise<DocumentExtraction> {
+  // pdf-parse is imported dynamically so it is only loaded when a PDF is uploaded.
+  const pdfParser = (await import('pdf-parse')).default;
+  const textlessPages: number[] = [];
+  const multiColumnPages: number[] = [];
+  let pageNumber = 0;
+
+  const data = await pdfParser(buffer, {
+    // Same text output as pdf-parse's default renderer, plus the per-page layout checks.
+    pagerender: async (pageData: any) => {
+      const page = ++pageNumber;
+      const textContent = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+      const items: PdfTextItem[] = textContent.items;
+      let lastY: number | undefined;
+      let text = '';
+      for (const item of items) {
+        text += lastY === undefined || lastY === item.transform[5] ? item.str : `\n${item.str}`;
+        lastY = item.transform[5];
+      }
+      const pageWidth = pageData.view?.[2] || Math.max(1, ...items.map(item => item.transform[4] + (item.width || 0)));
+      if (!text.trim()) textlessPages.push(page);
+      else if (isMultiColumn(items, pageWidth)) multiColumnPages.push(page);
+      return text;
+    },
+  });
+  if (!data || typeof data.text !== 'string') {
+    throw new Error('pdf-parse failed to return valid data or text structure.');
+  }
+  return {
+    text: data.text.trim(),
+    layout: { pageCount: data.numpages, textlessPages, multiColumnPages },
+  };
+}
@@ -0,0 +1,181 @@
+/**
+ * @fileOverview Rich Text Format (.rtf) text extraction.
+ *
+ * - extractRtfText - Walks the RTF control words, skipping font/color/style tables, pictures and other
+ *   destinations, and keeps paragraphs, outline-level headings and list bullets as structured text.
+ *   Tables and embedded pictures are reported as layout information.
+ */
+
+import type {DocumentExtraction} from '@/lib/ats-report';
+
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'header', 'headerl', 'headerr', 'headerf',
+  'footer', 'footerl', 'footerr', 'footerf', 'listtable', 'listoverridetable', 'rsidtbl', 'generator',
+  'xmlnstbl', 'themedata', 'colorschememapping', 'latentstyles', 'datastore', 'fldinst', 'footnote',
+]);
+
+// Groups holding the rendered list marker ("•", "1.") in front of a list paragraph.
+const LIST_MARKER_DESTINATIONS = new Set(['listtext', 'pntext']);
+
+const SYMBOLS: Record<string, string> = {
+  emdash: '—', endash: '–', bullet: '•', lquote: '‘', rquote: '’', ldblquote: '“', rdblquote: '”', tab: ' ',
+};
+
+interface GroupState {
+  skip: boolean;
+  listMarker: boolean;
+  unicodeSkip: number;
+}
+
+interface Paragraph {
+  text: string;
+  outlineLevel?: number;
+  listLevel?: number;
+}
+
+const cp1252 = new TextDecoder('windows-1252');
+
+export function extractRtfText(buffer: Buffer): DocumentExtraction {
+  const rtf = buffer.toString('latin1');
+  if (!rtf.startsWith('{\\rtf')) {
+    throw new Error('The file is not a valid RTF document.');
+  }
+
+  const paragraphs: Paragraph[] = [];
+  let paragraph: Paragraph = { text: '' };
+  let state: GroupState = { skip: false, listMarker: false, unicodeSkip: 1 };
+  const stack: GroupState[] = [];
+  let groupJustOpened = false;
+  let pendingSkip = 0;
+
+  const emit = (text: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (!state.skip && !state.listMarker) paragraph.text += text;
+  };
+
+  const endParagraph = () => {
+    paragraphs.push(paragraph);
+    paragraph = { text: '', outlineLevel: paragraph.outlineLevel, listLevel: paragraph.listLevel };
+  };
+
+  let i = 0;
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === '{') {
+      stack.push(state);
+      state = { ...state };
+      groupJustOpened = true;
+      i++;
+      continue;
+    }
+    if (char === '}') {
+      state = stack.pop() || state;
+      groupJustOpened = false;
+      i++;
+      continue;
+    }
+    if (char === '\r' || char === '\n') {
+      i++;
+      continue;
+    }
+    if (char !== '\\') {
+      emit(char);
+      groupJustOpened = false;
+      i++;
+      continue;
+    }
+
+    const next = rtf[i + 1];
+    if (next === '\'') {
+      emit(cp1252.decode(Uint8Array.of(parseInt(rtf.substr(i + 2, 2), 16) || 0x3f)));
+      i += 4;
+      continue;
+    }
+    if (next === '*') {
+      // Ignorable destination: unknown to most readers, skip the whole group.
+      state.skip = true;
+      i += 2;
+      continue;
+    }
+    if (next === '\\' || next === '{' || next === '}') {
+      emit(next);
+      i += 2;
+      continue;
+    }
+    if (next === '~') {
+      emit(' ');
+      i += 2;
+      continue;
+    }
+    if (next === '\n' || next === '\r') {
+      endParagraph();
+      i += 2;
+      continue;
+    }
+
+    const controlWord = rtf.slice(i + 1).match(/^([a-z]+)(-?\d+)? ?/i);
+    if (!controlWord) {
+      // Other control symbols (\-, \_, \:) carry no text we need.
+      i += 2;
+      continue;
+    }
+    i += 1 + controlWord[0].length;
+    const [, word, rawParam] = controlWord;
+    const param = rawParam === undefined ? undefined : Number(rawParam);
+    const isDestination = groupJustOpened;
+    groupJustOpened = false;
+
+    if (isDestination && SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+    } else if (isDestination && LIST_MARKER_DESTINATIONS.has(word)) {
+      state.listMarker = true;
+      paragraph.listLevel = paragraph.listLevel ?? 0;
+    } else if (word === 'par' || word === 'line' || word === 'row') {
+      endParagraph();
+    } else if (word === 'pard') {
+      paragraph.outlineLevel = undefined;
+      paragraph.listLevel = undefined;
+    } else if (word === 'outlinelevel') {
+      paragraph.outlineLevel = param;
+    } else if (word === 'ls') {
+      paragraph.listLevel = paragraph.listLevel ?? 0;
+    } else if (word === 'ilvl') {
+      paragraph.listLevel = param ?? 0;
+    } else if (word === 'cell') {
+      emit(' | ');
+    } else if (word === 'uc') {
+      state.unicodeSkip = param ?? 1;
+    } else if (word === 'u' && param !== undefined) {
+      emit(String.fromCharCode(param < 0 ? param + 65536 : param));
+      // The \u value is followed by a fallback for readers without Unicode support.
+      pendingSkip = state.unicodeSkip;
+    } else if (SYMBOLS[word]) {
+      emit(SYMBOLS[word]);
+    }
+  }
+  if (paragraph.text.trim()) paragraphs.push(paragraph);
+
+  const text = paragraphs
+    .map(({ text, outlineLevel, listLevel }) => {
+      const content = text.replace(/\s+/g, ' ').replace(/( \| )+$/, '').trim();
+      if (!content) return '';
+      if (outlineLevel !== undefined) return `\n${'#'.repeat(Math.min(6, outlineLevel + 1))} ${content}\n`;
+      if (listLevel !== undefined) return `${'  '.repeat(listLevel)}- ${content}`;
+      return content;
+    })
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return {
+    text,
+    layout: {
+      hasTables: /\\trowd/.test(rtf),
+      imageCount: (rtf.match(/\\pict\b/g) || []).length,
+    },
+  };
+}
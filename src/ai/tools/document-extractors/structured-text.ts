@@ -0,0 +1,86 @@
+/**
+ * @fileOverview Converts document markup into Markdown-like plain text for the LLM.
+ *
+ * - htmlToStructuredText - Keeps headings ("## Title"), bullets ("- item", indented when nested),
+ *   paragraphs and table rows from HTML produced by the document extractors.
+ */
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+};
+
+const decodeEntities = (text: string) => text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+  if (code[0] === '#') {
+    const value = code[1].toLowerCase() === 'x' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isNaN(value) ? entity : String.fromCodePoint(value);
+  }
+  return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+});
+
+const BLOCK_TAGS = new Set(['p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'tr', 'table', 'ul', 'ol', 'blockquote']);
+
+export function htmlToStructuredText(html: string): string {
+  // List items and table rows are "compact": consecutive ones are not separated by a blank line.
+  const blocks: { text: string; compact: boolean }[] = [];
+  let current = '';
+  let prefix = '';
+  let listDepth = 0;
+  let inCell = false;
+  let compact = false;
+
+  const flush = () => {
+    const text = current.replace(/[ \t]+/g, ' ').replace(/ *\n */g, '\n').trim();
+    if (text) blocks.push({ text: prefix + text, compact });
+    current = '';
+    prefix = '';
+    compact = false;
+  };
+
+  const tokens = html
+    .replace(/<(script|style)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .match(/<\/?[a-z][a-z0-9]*[^>]*>|[^<]+/gi) || [];
+
+  for (const token of tokens) {
+    const tag = token.match(/^<(\/?)([a-z][a-z0-9]*)/i);
+    if (!tag) {
+      current += decodeEntities(token.replace(/\s+/g, ' '));
+      continue;
+    }
+    const closing = tag[1] === '/';
+    const name = tag[2].toLowerCase();
+
+    if (name === 'br') {
+      current += '\n';
+    } else if (name === 'ul' || name === 'ol') {
+      flush();
+      listDepth = Math.max(0, listDepth + (closing ? -1 : 1));
+    } else if (name === 'li') {
+      flush();
+      if (!closing) {
+        prefix = `${'  '.repeat(Math.max(0, listDepth - 1))}- `;
+        compact = true;
+      }
+    } else if (/^h[1-6]$/.test(name)) {
+      flush();
+      if (!closing) prefix = `${'#'.repeat(Number(name[1]))} `;
+    } else if (name === 'td' || name === 'th') {
+      if (!closing && inCell) current += ' | ';
+      inCell = true;
+    } else if (name === 'tr') {
+      flush();
+      inCell = false;
+      compact = !closing;
+    } else if (name === 'p' && listDepth > 0 && prefix) {
+      // Paragraphs inside a list item belong to the bullet.
+      current += closing ? '' : ' ';
+    } else if (BLOCK_TAGS.has(name)) {
+      flush();
+    }
+  }
+  flush();
+
+  return blocks
+    .map((block, index) => (index === 0 ? '' : block.compact && blocks[index - 1].compact ? '\n' : '\n\n') + block.text)
+    .join('')
+    .trim();
+}
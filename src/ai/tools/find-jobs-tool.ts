@@ -1,8 +1,8 @@
-
 /**
- * @fileOverview A tool for finding job postings by simulating searches.
+ * @fileOverview A tool for finding job postings on the configured job boards.
  *
- * - findJobsTool - A Genkit tool that simulates searching for jobs.
+ * - findJobsTool - A Genkit tool that queries every configured JobProvider (Adzuna, Greenhouse, Lever, RSS)
+ *   and falls back to simulated portal searches when no provider is configured.
  * - JobPostingSchema - The Zod schema for a job posting.
  * - JobPosting - The type for a job posting.
  * - FindJobsToolInputSchema - The Zod schema for the input of findJobsTool.
@@ -10,103 +10,137 @@
 
 import {ai} from '@/ai/genkit';
 import {z} from 'genkit';
+import {getConfiguredJobProviders, type JobSearchQuery} from '@/ai/tools/job-providers';
+import {getPortalSearchLinks} from '@/ai/tools/job-portal-links';
+import {DEFAULT_JOB_SEARCH_COUNTRY, findJobSearchCountry, WORK_MODES} from '@/lib/job-search-countries';
 
 export const JobPostingSchema = z.object({
   title: z.string().describe('The job title.'),
   company: z.string().optional().describe('The name of the company offering the job.'),
   location: z.string().describe('The location of the job.'),
   descriptionSnippet: z.string().optional().describe('A short snippet of the job description.'),
-  link: z.string().url().describe( // Re-added .url() for stronger semantic hint
-    'The COMPLETE and EXACT search results page URL from the job portal. ' +
-    'This URL will include paths and query parameters (e.g., "https://www.example.com/jobs/search?q=keyword"). ' +
-    'It MUST NOT be just a base domain (e.g., "https://www.example.com"). ' +
-    'Use the URL provided by the search simulation as-is.'
+  link: z.string().url().describe(
+    'The COMPLETE and EXACT URL returned by the findJobsTool for this posting. ' +
+    'For job boards this is the direct link to the individual job posting; when no job board is configured ' +
+    'it is a portal search results page URL. Use the URL provided by the tool as-is.'
   ),
-  portal: z.string().describe('The job portal where the listing was conceptually found or that the link points to (e.g., InfoJobs, LinkedIn, Indeed).'),
-  postedDate: z.string().optional().describe('The approximate date the job was posted (e.g., "5 days ago", "2024-07-15").')
+  portal: z.string().describe('The job board or portal the posting comes from (e.g., Adzuna, Greenhouse, Lever, InfoJobs, LinkedIn, Indeed).'),
+  postedDate: z.string().optional().describe('The date the job was posted (e.g., "2024-07-15", "5 days ago").')
 });
 export type JobPosting = z.infer<typeof JobPostingSchema>;
 
 export const FindJobsToolInputSchema = z.object({
   jobTitle: z.string().optional().describe('The specific job title to search for, if provided by the user.'),
   keywords: z.array(z.string()).min(1).describe('An array of keywords to search for (e.g., skills, job titles from a CV).'),
-  country: z.string().describe('The country to search for jobs in (e.g., "Spain").'),
+  country: z.string().describe('The ISO 3166-1 alpha-2 code of the country to search for jobs in (e.g., "ES", "MX").'),
+  city: z.string().optional().describe('The city to search around, if the user provided one.'),
+  radiusKm: z.number().optional().describe('The search radius around the city, in kilometers.'),
+  workMode: z.enum(WORK_MODES).optional().describe('The accepted work arrangement: "any", "remote", "hybrid" or "onsite".'),
   limit: z.number().optional().default(10).describe('Maximum number of job postings to return.'),
 });
 export type FindJobsToolInput = z.infer<typeof FindJobsToolInputSchema>;
 
-export const findJobsTool = ai.defineTool(
-  {
-    name: 'findJobsTool',
-    description: 'Simulates searching for job postings on InfoJobs, LinkedIn, and Indeed based on a primary job title (if provided) and/or keywords, and location. Returns a list of mock job postings with links to real search pages on those portals. For the purpose of this simulation, assume jobs are recent (less than 30 days old).',
-    inputSchema: FindJobsToolInputSchema,
-    outputSchema: z.array(JobPostingSchema),
-  },
-  async ({ jobTitle, keywords, country, limit }) => {
-    const jobPortals = ["InfoJobs", "LinkedIn", "Indeed"];
-    const mockJobs: JobPosting[] = [];
-    const companies = ["Tech Solutions Inc.", "Global Innovations Ltd.", "Future Enterprises", "Creative Minds Co.", "Innovatech Corp", "Synergy Systems"];
-    const baseJobTitles = ["Software Engineer", "Product Manager", "Data Analyst", "UX Designer", "Marketing Specialist", "Project Manager", "Business Analyst"];
-    const locationsSpain = ["Madrid", "Barcelona", "Valencia", "Sevilla", "Zaragoza", "Malaga", "Bilbao"];
+const MAX_JOB_AGE_DAYS = 30;
 
-    let mainQuery = "";
-    if (jobTitle) {
-      mainQuery = jobTitle;
-      if (keywords && keywords.length > 0) {
-        // Optionally combine jobTitle with other keywords.
-        // For now, we'll keep it simple and let jobTitle take precedence if provided,
-        // or you could append: mainQuery += " " + keywords.join(" ");
-        // The LLM prompt might already handle the combination logic by how it passes keywords.
+async function searchConfiguredProviders(query: JobSearchQuery): Promise<JobPosting[] | null> {
+  const providers = getConfiguredJobProviders();
+  if (providers.length === 0) {
+    return null;
+  }
+
+  console.log(`[findJobsTool] Searching ${providers.length} job provider(s): ${providers.map(p => p.name).join(', ')}`);
+  const results = await Promise.allSettled(providers.map(provider => provider.search(query)));
+  const postings: JobPosting[] = [];
+  const seenLinks = new Set<string>();
+
+  // Interleave provider results so one large board does not crowd out the others.
+  const perProvider = results.map((result, index) => {
+    if (result.status === 'rejected') {
+      console.error(`[findJobsTool] Provider ${providers[index].name} failed:`, result.reason?.message || result.reason);
+      return [];
+    }
+    console.log(`[findJobsTool] Provider ${providers[index].name} returned ${result.value.length} posting(s).`);
+    return result.value;
+  });
+  const longest = Math.max(0, ...perProvider.map(list => list.length));
+  for (let i = 0; i < longest && postings.length < query.limit; i++) {
+    for (const list of perProvider) {
+      const posting = list[i];
+      if (posting && !seenLinks.has(posting.link) && postings.length < query.limit) {
+        seenLinks.add(posting.link);
+        postings.push(posting);
       }
-    } else if (keywords && keywords.length > 0) {
-      mainQuery = keywords.join(" ");
-    } else {
-      // Fallback if neither jobTitle nor keywords are provided (should be handled by input schema)
-      mainQuery = "trabajo"; // Generic term for "job"
     }
-    
-    const encodedQuery = encodeURIComponent(mainQuery);
-    const encodedCountry = encodeURIComponent(country);
+  }
+  return postings;
+}
 
-    const getPortalSearchLink = (portal: string): string => {
-      const lowerPortal = portal.toLowerCase();
-      if (lowerPortal.includes("infojobs")) {
-        return `https://www.infojobs.net/jobsearch/search-results/list.xhtml?keyword=${encodedQuery}`;
-      }
-      if (lowerPortal.includes("linkedin")) {
-        return `https://www.linkedin.com/jobs/search/?keywords=${encodedQuery}&location=${encodedCountry}`;
-      }
-      if (lowerPortal.includes("indeed")) {
-        let indeedDomain = "indeed.com";
-        if (country.toLowerCase() === "spain") {
-            indeedDomain = "es.indeed.com";
-        }
-        return `https://${indeedDomain}/jobs?q=${encodedQuery}&l=${encodedCountry}`;
-      }
-      return `https://www.google.com/search?q=${encodedQuery}+jobs+in+${encodedCountry}+site%3A${encodeURIComponent(portal)}`;
-    };
+function simulatePortalSearch(query: JobSearchQuery): JobPosting[] {
+  const { jobTitle, keywords, limit } = query;
+  const mockJobs: JobPosting[] = [];
+  const companies = ["Tech Solutions Inc.", "Global Innovations Ltd.", "Future Enterprises", "Creative Minds Co.", "Innovatech Corp", "Synergy Systems"];
+  const baseJobTitles = ["Software Engineer", "Product Manager", "Data Analyst", "UX Designer", "Marketing Specialist", "Project Manager", "Business Analyst"];
+  const country = findJobSearchCountry(query.country) || findJobSearchCountry(DEFAULT_JOB_SEARCH_COUNTRY)!;
+  const locations = query.workMode === 'remote' ? ['Remote'] : query.city ? [query.city] : country.majorCities;
+
+  let mainQuery = "";
+  if (jobTitle) {
+    mainQuery = jobTitle;
+  } else if (keywords && keywords.length > 0) {
+    mainQuery = keywords.join(" ");
+  } else {
+    // Fallback if neither jobTitle nor keywords are provided (should be handled by input schema)
+    mainQuery = "trabajo"; // Generic term for "job"
+  }
 
-    const actualLimit = limit || 10;
+  const portalLinks = getPortalSearchLinks(mainQuery, query);
+  const actualLimit = limit || 10;
 
-    for (let i = 0; i < actualLimit; i++) {
-      const portal = jobPortals[i % jobPortals.length];
-      const company = companies[i % companies.length];
-      const baseTitle = jobTitle || baseJobTitles[i % baseJobTitles.length];
-      const location = locationsSpain[i % locationsSpain.length]; 
-      const daysAgo = Math.floor(Math.random() * 28) + 1; // 1 to 28 days
-      
-      const displayJobTitle = `Mock: ${baseTitle}${keywords && keywords.length > 0 && !jobTitle ? ` (Related to: ${keywords[0]})` : ''}`;
+  for (let i = 0; i < actualLimit; i++) {
+    const { portal, link } = portalLinks[i % portalLinks.length];
+    const company = companies[i % companies.length];
+    const baseTitle = jobTitle || baseJobTitles[i % baseJobTitles.length];
+    const location = locations[i % locations.length];
+    const daysAgo = Math.floor(Math.random() * 28) + 1; // 1 to 28 days
+    
+    const displayJobTitle = `Mock: ${baseTitle}${keywords && keywords.length > 0 && !jobTitle ? ` (Related to: ${keywords[0]})` : ''}`;
+
+    mockJobs.push({
+      title: displayJobTitle,
+      company: company,
+      location: `${location}, ${country.name}`,
+      descriptionSnippet: `Simulated opportunity for a ${baseTitle} at ${company}. Seeking skills in ${mainQuery}. This is a mock job listing.`,
+      link,
+      portal,
+      postedDate: `${daysAgo} days ago`
+    });
+  }
+  return mockJobs.slice(0, actualLimit);
+}
 
-      mockJobs.push({
-        title: displayJobTitle,
-        company: company,
-        location: `${location}, ${country}`,
-        descriptionSnippet: `Simulated opportunity for a ${baseTitle} at ${company}. Seeking skills in ${mainQuery}. This is a mock job listing.`,
-        link: getPortalSearchLink(portal),
-        portal: portal,
-        postedDate: `${daysAgo} days ago`
-      });
+export const findJobsTool = ai.defineTool(
+  {
+    name: 'findJobsTool',
+    description: 'Searches the configured job boards (Adzuna, Greenhouse, Lever and RSS feeds) for postings matching a primary job title (if provided) and/or keywords, filtered by country, city, radius and work mode. Returns real postings with direct links to each job. If no job board is configured, it falls back to simulated postings that link to search pages on the main portals of the country (InfoJobs, LinkedIn, Indeed, StepStone, Computrabajo). Only jobs posted in the last 30 days are returned when the board reports a date.',
+    inputSchema: FindJobsToolInputSchema,
+    outputSchema: z.array(JobPostingSchema),
+  },
+  async ({ jobTitle, keywords, country, city, radiusKm, workMode, limit }) => {
+    const query: JobSearchQuery = {
+      jobTitle,
+      keywords,
+      country: findJobSearchCountry(country)?.code || country,
+      city,
+      radiusKm,
+      workMode,
+      limit: limit || 10,
+      maxAgeDays: MAX_JOB_AGE_DAYS,
+    };
+    const providerPostings = await searchConfiguredProviders(query);
+    if (providerPostings) {
+      return providerPostings;
     }
-    return mockJobs.slice(0, actualLimit);
+    console.warn('[findJobsTool] No job provider is configured. Returning simulated portal search postings.');
+    return simulatePortalSearch(query);
   }
 );
@@ -0,0 +1,89 @@
+/**
+ * @fileOverview Search-page URL builders for the public job portals of each supported country.
+ *
+ * - getPortalSearchLinks - Returns one search results URL per portal available in the query's country.
+ */
+
+import type {JobSearchQuery} from '@/ai/tools/job-providers/job-provider';
+import {DEFAULT_JOB_SEARCH_COUNTRY, findJobSearchCountry, type JobSearchCountry, type WorkMode} from '@/lib/job-search-countries';
+
+export interface PortalSearchLink {
+  portal: string;
+  link: string;
+}
+
+// LinkedIn's f_WT filter values.
+const LINKEDIN_WORK_TYPES: Record<Exclude<WorkMode, 'any'>, string> = { onsite: '1', remote: '2', hybrid: '3' };
+// LinkedIn only accepts these radius values (in miles).
+const LINKEDIN_DISTANCES_MILES = [5, 10, 25, 50, 100];
+// Indeed's "remote" attribute filter.
+const INDEED_REMOTE_FILTER = '032b3046-06a3-4876-8dfd-474eb5e7ed11';
+
+const slugify = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+
+const workModeKeyword = (workMode: WorkMode | undefined, language: 'en' | 'es' | 'de'): string => {
+  if (workMode === 'remote') return { en: 'remote', es: 'remoto', de: 'remote' }[language];
+  if (workMode === 'hybrid') return { en: 'hybrid', es: 'híbrido', de: 'hybrid' }[language];
+  return '';
+};
+
+const buildLinkedInLink = (keywords: string, country: JobSearchCountry, query: JobSearchQuery): string => {
+  const params = new URLSearchParams({
+    keywords,
+    location: query.city ? `${query.city}, ${country.name}` : country.name,
+  });
+  if (query.city && query.radiusKm) {
+    const miles = query.radiusKm / 1.609;
+    params.set('distance', String(LINKEDIN_DISTANCES_MILES.find(d => d >= miles) ?? 100));
+  }
+  if (query.workMode && query.workMode !== 'any') params.set('f_WT', LINKEDIN_WORK_TYPES[query.workMode]);
+  return `https://www.linkedin.com/jobs/search/?${params.toString()}`;
+};
+
+const buildIndeedLink = (keywords: string, domain: string, country: JobSearchCountry, query: JobSearchQuery): string => {
+  const params = new URLSearchParams({
+    q: query.workMode === 'hybrid' ? `${keywords} hybrid` : keywords,
+    l: query.city || country.name,
+  });
+  if (query.city && query.radiusKm) params.set('radius', String(query.radiusKm));
+  if (query.workMode === 'remote') params.set('remotejob', INDEED_REMOTE_FILTER);
+  return `https://${domain}/jobs?${params.toString()}`;
+};
+
+const buildInfoJobsLink = (keywords: string, domain: string, query: JobSearchQuery): string => {
+  const params = new URLSearchParams({
+    keyword: [keywords, query.city, workModeKeyword(query.workMode, 'es')].filter(Boolean).join(' '),
+  });
+  return `https://${domain}/jobsearch/search-results/list.xhtml?${params.toString()}`;
+};
+
+const buildStepStoneLink = (keywords: string, domain: string, query: JobSearchQuery): string => {
+  const path = `/jobs/${slugify([keywords, workModeKeyword(query.workMode, 'de')].filter(Boolean).join(' '))}`;
+  if (!query.city) return `https://${domain}${path}`;
+  const radius = query.radiusKm ? `?radius=${query.radiusKm}` : '';
+  return `https://${domain}${path}/in-${slugify(query.city)}${radius}`;
+};
+
+const buildComputrabajoLink = (keywords: string, domain: string, query: JobSearchQuery): string => {
+  const what = slugify([keywords, workModeKeyword(query.workMode, 'es')].filter(Boolean).join(' '));
+  const where = query.city ? `-en-${slugify(query.city)}` : '';
+  return `https://${domain}/trabajo-de-${what}${where}`;
+};
+
+/**
+ * Builds the search results page URL of every portal available in the query's country, with the
+ * city, radius and work-mode filters applied where the portal supports them.
+ */
+export function getPortalSearchLinks(mainQuery: string, query: JobSearchQuery): PortalSearchLink[] {
+  const country = findJobSearchCountry(query.country) || findJobSearchCountry(DEFAULT_JOB_SEARCH_COUNTRY)!;
+  const links: PortalSearchLink[] = [];
+
+  if (country.infojobsDomain) links.push({ portal: 'InfoJobs', link: buildInfoJobsLink(mainQuery, country.infojobsDomain, query) });
+  links.push({ portal: 'LinkedIn', link: buildLinkedInLink(mainQuery, country, query) });
+  if (country.indeedDomain) links.push({ portal: 'Indeed', link: buildIndeedLink(mainQuery, country.indeedDomain, country, query) });
+  if (country.stepstoneDomain) links.push({ portal: 'StepStone', link: buildStepStoneLink(mainQuery, country.stepstoneDomain, query) });
+  if (country.computrabajoDomain) links.push({ portal: 'Computrabajo', link: buildComputrabajoLink(mainQuery, country.computrabajoDomain, query) });
+
+  return links;
+}
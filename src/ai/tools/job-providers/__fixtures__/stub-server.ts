@@ -0,0 +1,50 @@
+import {readFileSync} from 'node:fs';
+import http from 'node:http';
+import type {AddressInfo} from 'node:net';
+import path from 'node:path';
+
+export const readFixture = (name: string): string => readFileSync(path.join(__dirname, name), 'utf8');
+
+export interface StubRequest {
+  method: string;
+  /** Path and query string, as received. */
+  url: string;
+  headers: http.IncomingHttpHeaders;
+}
+
+export interface StubServer {
+  /** e.g. "http://127.0.0.1:53117", to use as a provider base URL. */
+  baseUrl: string;
+  requests: StubRequest[];
+  close(): Promise<void>;
+}
+
+const CONTENT_TYPES: Record<string, string> = { '.json': 'application/json', '.xml': 'application/xml' };
+
+/**
+ * Starts an HTTP server on an ephemeral local port that answers each request with the fixture (or status code)
+ * mapped to the first path prefix it matches, 404 when none does, and records the requests it received.
+ */
+export async function startStubServer(routes: Record<string, string | number>): Promise<StubServer> {
+  const requests: StubRequest[] = [];
+  const server = http.createServer((req, res) => {
+    const url = req.url || '/';
+    requests.push({ method: req.method || 'GET', url, headers: req.headers });
+    const response = Object.entries(routes).find(([prefix]) => url.startsWith(prefix))?.[1] ?? 404;
+    if (typeof response === 'number') {
+      res.writeHead(response).end();
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[path.extname(response)] || 'text/plain' }).end(readFixture(response));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+
+  return {
+    baseUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: async () => {
+      server.closeAllConnections();
+      await new Promise(resolve => server.close(resolve));
+    },
+  };
+}
@@ -0,0 +1,70 @@
+import {afterEach, describe, expect, it} from 'vitest';
+import {createAdzunaProvider} from '@/ai/tools/job-providers/adzuna-provider';
+import {startStubServer, type StubServer} from '@/ai/tools/job-providers/__fixtures__/stub-server';
+
+describe('createAdzunaProvider', () => {
+  let stub: StubServer;
+
+  const createProvider = async (routes: Record<string, string | number>) => {
+    stub = await startStubServer(routes);
+    return createAdzunaProvider({ appId: 'test-id', appKey: 'test key', baseUrl: `${stub.baseUrl}/v1/api/` });
+  };
+
+  afterEach(async () => {
+    await stub?.close();
+  });
+
+  it('builds the search request and maps the results', async () => {
+    const provider = await createProvider({ '/v1/api/jobs/es/search/1?': 'adzuna-search.json' });
+
+    const postings = await provider.search({ jobTitle: 'React', keywords: ['TypeScript'], country: 'ES', city: 'Madrid', radiusKm: 25, limit: 5, maxAgeDays: 3650 });
+
+    expect(stub.requests).toHaveLength(1);
+    expect(stub.requests[0]).toMatchObject({ method: 'GET', headers: { accept: 'application/json' } });
+    const url = new URL(stub.requests[0].url, stub.baseUrl);
+    expect(url.pathname).toBe('/v1/api/jobs/es/search/1');
+    expect(Object.fromEntries(url.searchParams)).toMatchObject({
+      app_id: 'test-id',
+      app_key: 'test key',
+      results_per_page: '5',
+      what_or: 'React TypeScript',
+      where: 'Madrid',
+      distance: '25',
+      max_days_old: '3650',
+    });
+    expect(postings).toEqual([
+      {
+        title: 'React Developer',
+        company: 'Umbrella',
+        location: 'Madrid, Comunidad de Madrid',
+        descriptionSnippet: 'Build React apps for our remote team.',
+        link: 'https://www.adzuna.es/land/ad/1',
+        portal: 'Adzuna',
+        postedDate: '2026-10-10',
+      },
+      expect.objectContaining({ title: 'Frontend Engineer', company: 'Hooli', link: 'https://www.adzuna.es/land/ad/2' }),
+    ]);
+  });
+
+  it('filters by work mode on its side and asks for extra results', async () => {
+    const provider = await createProvider({ '/v1/api/jobs/es/search/1?': 'adzuna-search.json' });
+
+    const postings = await provider.search({ jobTitle: 'React', keywords: [], country: 'ES', workMode: 'remote', limit: 5 });
+
+    expect(new URL(stub.requests[0].url, stub.baseUrl).searchParams.get('results_per_page')).toBe('10');
+    expect(postings.map(posting => posting.company)).toEqual(['Umbrella']);
+  });
+
+  it('skips countries Adzuna does not cover', async () => {
+    const provider = await createProvider({ '/': 'adzuna-search.json' });
+
+    expect(await provider.search({ keywords: ['React'], country: 'PT', limit: 5 })).toEqual([]);
+    expect(stub.requests).toEqual([]);
+  });
+
+  it('fails when the API answers with an error status', async () => {
+    const provider = await createProvider({ '/v1/api/jobs/es/': 500 });
+
+    await expect(provider.search({ keywords: ['React'], country: 'ES', limit: 5 })).rejects.toThrow('status 500');
+  });
+});
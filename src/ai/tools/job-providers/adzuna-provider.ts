@@ -0,0 +1,88 @@
+/**
+ * @fileOverview Adzuna job search API adapter (https://developer.adzuna.com/).
+ *
+ * - createAdzunaProvider - Builds a JobProvider backed by the Adzuna REST search endpoint.
+ */
+
+import type {JobPosting} from '@/ai/tools/find-jobs-tool';
+import {findJobSearchCountry} from '@/lib/job-search-countries';
+import {
+  type JobProvider,
+  type JobSearchQuery,
+  type ProviderHttpOptions,
+  fetchFromProvider,
+  getQueryCountryName,
+  getQueryTerms,
+  isRecent,
+  matchesLocationFilters,
+  toIsoDate,
+  toSnippet,
+} from '@/ai/tools/job-providers/job-provider';
+
+export const ADZUNA_DEFAULT_BASE_URL = 'https://api.adzuna.com/v1/api';
+
+export interface AdzunaProviderConfig extends ProviderHttpOptions {
+  appId: string;
+  appKey: string;
+}
+
+interface AdzunaJob {
+  title?: string;
+  description?: string;
+  redirect_url?: string;
+  created?: string;
+  company?: { display_name?: string };
+  location?: { display_name?: string };
+}
+
+interface AdzunaSearchResponse {
+  results?: AdzunaJob[];
+}
+
+export function createAdzunaProvider(config: AdzunaProviderConfig): JobProvider {
+  const baseUrl = (config.baseUrl || ADZUNA_DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  return {
+    name: 'Adzuna',
+    async search(query: JobSearchQuery): Promise<JobPosting[]> {
+      const adzunaCountry = findJobSearchCountry(query.country)?.adzunaCountry;
+      if (!adzunaCountry) {
+        console.log(`[AdzunaProvider] Country "${query.country}" is not covered by Adzuna, skipping.`);
+        return [];
+      }
+
+      const params = new URLSearchParams({
+        app_id: config.appId,
+        app_key: config.appKey,
+        // Work mode is filtered on our side, so ask for extra results to make up for the discarded ones.
+        results_per_page: String(query.workMode && query.workMode !== 'any' ? query.limit * 2 : query.limit),
+        what_or: getQueryTerms(query).join(' '),
+        'content-type': 'application/json',
+      });
+      if (query.maxAgeDays) params.set('max_days_old', String(query.maxAgeDays));
+      if (query.city) params.set('where', query.city);
+      if (query.city && query.radiusKm) params.set('distance', String(query.radiusKm));
+
+      const url = `${baseUrl}/jobs/${encodeURIComponent(adzunaCountry)}/search/1?${params.toString()}`;
+      const response = await fetchFromProvider('Adzuna', url, config, { headers: { Accept: 'application/json' } });
+      const body = await response.json() as AdzunaSearchResponse;
+
+      return (body.results || [])
+        .filter((job): job is AdzunaJob & { title: string; redirect_url: string } => !!job.title && !!job.redirect_url)
+        .map(job => ({
+          title: toSnippet(job.title, 200) || job.title,
+          company: job.company?.display_name,
+          location: job.location?.display_name || getQueryCountryName(query),
+          descriptionSnippet: toSnippet(job.description),
+          link: job.redirect_url,
+          portal: 'Adzuna',
+          postedDate: toIsoDate(job.created),
+        }))
+        .filter(job => isRecent(job.postedDate, query.maxAgeDays))
+        // Adzuna already applied the country, city and radius; only the work mode is checked here.
+        .filter(job => !query.workMode || query.workMode === 'any'
+          || matchesLocationFilters(job.location, `${job.title} ${job.descriptionSnippet || ''}`, { ...query, city: undefined, country: '' }))
+        .slice(0, query.limit);
+    },
+  };
+}
@@ -0,0 +1,43 @@
+import {afterEach, describe, expect, it} from 'vitest';
+import {createGreenhouseProvider} from '@/ai/tools/job-providers/greenhouse-provider';
+import {startStubServer, type StubServer} from '@/ai/tools/job-providers/__fixtures__/stub-server';
+
+describe('createGreenhouseProvider', () => {
+  let stub: StubServer;
+
+  afterEach(async () => {
+    await stub?.close();
+  });
+
+  it('reads each board and keeps the relevant postings in the query country', async () => {
+    stub = await startStubServer({ '/v1/boards/acme/jobs?': 'greenhouse-jobs.json', '/v1/boards/missing/': 404 });
+    const provider = createGreenhouseProvider({ boardTokens: ['acme', 'missing'], baseUrl: `${stub.baseUrl}/v1` });
+
+    const postings = await provider.search({ jobTitle: 'React', keywords: [], country: 'ES', limit: 10 });
+
+    expect(stub.requests.map(request => request.url).sort()).toEqual([
+      '/v1/boards/acme/jobs?content=true',
+      '/v1/boards/missing/jobs?content=true',
+    ]);
+    expect(stub.requests[0].headers.accept).toBe('application/json');
+    expect(postings).toEqual([
+      {
+        title: 'Software Engineer, React',
+        company: 'acme',
+        location: 'Barcelona, Spain',
+        descriptionSnippet: 'Join the web team building React apps.',
+        link: 'https://boards.greenhouse.io/acme/jobs/100',
+        portal: 'Greenhouse',
+        postedDate: '2026-10-12',
+      },
+    ]);
+  });
+
+  it('encodes board tokens in the request path', async () => {
+    stub = await startStubServer({});
+    const provider = createGreenhouseProvider({ boardTokens: ['acme corp/eu'], baseUrl: `${stub.baseUrl}/v1` });
+
+    expect(await provider.search({ jobTitle: 'React', keywords: [], country: 'ES', limit: 10 })).toEqual([]);
+    expect(stub.requests.map(request => request.url)).toEqual(['/v1/boards/acme%20corp%2Feu/jobs?content=true']);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * @fileOverview Greenhouse public job board adapter (https://developers.greenhouse.io/job-board.html).
+ *
+ * - createGreenhouseProvider - Builds a JobProvider that reads the public boards of the configured companies.
+ */
+
+import type {JobPosting} from '@/ai/tools/find-jobs-tool';
+import {
+  type JobProvider,
+  type JobSearchQuery,
+  type ProviderHttpOptions,
+  fetchFromProvider,
+  getQueryCountryName,
+  isRecent,
+  matchesLocationFilters,
+  matchesQuery,
+  toIsoDate,
+  toSnippet,
+} from '@/ai/tools/job-providers/job-provider';
+
+export const GREENHOUSE_DEFAULT_BASE_URL = 'https://boards-api.greenhouse.io/v1';
+
+export interface GreenhouseProviderConfig extends ProviderHttpOptions {
+  /** Board tokens as they appear in https://boards.greenhouse.io/<token>. */
+  boardTokens: string[];
+}
+
+interface GreenhouseJob {
+  title?: string;
+  absolute_url?: string;
+  updated_at?: string;
+  content?: string;
+  location?: { name?: string };
+}
+
+interface GreenhouseJobsResponse {
+  jobs?: GreenhouseJob[];
+}
+
+export function createGreenhouseProvider(config: GreenhouseProviderConfig): JobProvider {
+  const baseUrl = (config.baseUrl || GREENHOUSE_DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  const searchBoard = async (boardToken: string, query: JobSearchQuery) => {
+    const url = `${baseUrl}/boards/${encodeURIComponent(boardToken)}/jobs?content=true`;
+    const response = await fetchFromProvider('Greenhouse', url, config, { headers: { Accept: 'application/json' } });
+    const body = await response.json() as GreenhouseJobsResponse;
+
+    return (body.jobs || [])
+      .filter((job): job is GreenhouseJob & { title: string; absolute_url: string } => !!job.title && !!job.absolute_url)
+      .map(job => {
+        const posting: JobPosting = {
+          title: job.title,
+          company: boardToken,
+          location: job.location?.name || getQueryCountryName(query),
+          descriptionSnippet: toSnippet(job.content),
+          link: job.absolute_url,
+          portal: 'Greenhouse',
+          postedDate: toIsoDate(job.updated_at),
+        };
+        const searchableText = `${job.title} ${job.content || ''}`;
+        return {
+          posting,
+          relevance: matchesQuery(searchableText, query),
+          matchesLocation: matchesLocationFilters(posting.location, searchableText, query),
+        };
+      });
+  };
+
+  return {
+    name: 'Greenhouse',
+    async search(query: JobSearchQuery): Promise<JobPosting[]> {
+      const boards = await Promise.allSettled(config.boardTokens.map(token => searchBoard(token, query)));
+      const matches = boards.flatMap((board, index) => {
+        if (board.status === 'rejected') {
+          console.warn(`[GreenhouseProvider] Board "${config.boardTokens[index]}" failed:`, board.reason?.message || board.reason);
+          return [];
+        }
+        return board.value;
+      });
+
+      return matches
+        .filter(({ posting, relevance, matchesLocation }) => relevance > 0 && matchesLocation && isRecent(posting.postedDate, query.maxAgeDays))
+        .sort((a, b) => b.relevance - a.relevance)
+        .map(({ posting }) => posting)
+        .slice(0, query.limit);
+    },
+  };
+}
@@ -0,0 +1,53 @@
+/**
+ * @fileOverview Registry of the job-board providers enabled through environment variables.
+ *
+ * - getConfiguredJobProviders - Returns one JobProvider per configured job board.
+ *
+ * Environment variables:
+ * - ADZUNA_APP_ID, ADZUNA_APP_KEY, ADZUNA_API_BASE_URL (the country comes from each search)
+ * - GREENHOUSE_BOARD_TOKENS (comma-separated), GREENHOUSE_API_BASE_URL
+ * - LEVER_COMPANY_SLUGS (comma-separated), LEVER_API_BASE_URL
+ * - JOB_RSS_FEED_URLS (comma-separated)
+ * - JOB_PROVIDER_TIMEOUT_MS (default 8000)
+ *
+ * The *_BASE_URL variables let each adapter be pointed at a local HTTP stub serving recorded responses.
+ */
+
+import {createAdzunaProvider} from '@/ai/tools/job-providers/adzuna-provider';
+import {createGreenhouseProvider} from '@/ai/tools/job-providers/greenhouse-provider';
+import {createLeverProvider} from '@/ai/tools/job-providers/lever-provider';
+import {createRssProvider} from '@/ai/tools/job-providers/rss-provider';
+import {DEFAULT_PROVIDER_TIMEOUT_MS, type JobProvider, parseListEnv} from '@/ai/tools/job-providers/job-provider';
+
+export type {JobProvider, JobSearchQuery} from '@/ai/tools/job-providers/job-provider';
+
+export function getConfiguredJobProviders(env: NodeJS.ProcessEnv = process.env): JobProvider[] {
+  const providers: JobProvider[] = [];
+  const timeoutMs = Number(env.JOB_PROVIDER_TIMEOUT_MS) || DEFAULT_PROVIDER_TIMEOUT_MS;
+
+  if (env.ADZUNA_APP_ID && env.ADZUNA_APP_KEY) {
+    providers.push(createAdzunaProvider({
+      appId: env.ADZUNA_APP_ID,
+      appKey: env.ADZUNA_APP_KEY,
+      baseUrl: env.ADZUNA_API_BASE_URL,
+      timeoutMs,
+    }));
+  }
+
+  const greenhouseBoards = parseListEnv(env.GREENHOUSE_BOARD_TOKENS);
+  if (greenhouseBoards.length > 0) {
+    providers.push(createGreenhouseProvider({ boardTokens: greenhouseBoards, baseUrl: env.GREENHOUSE_API_BASE_URL, timeoutMs }));
+  }
+
+  const leverCompanies = parseListEnv(env.LEVER_COMPANY_SLUGS);
+  if (leverCompanies.length > 0) {
+    providers.push(createLeverProvider({ companySlugs: leverCompanies, baseUrl: env.LEVER_API_BASE_URL, timeoutMs }));
+  }
+
+  const feedUrls = parseListEnv(env.JOB_RSS_FEED_URLS);
+  if (feedUrls.length > 0) {
+    providers.push(createRssProvider({ feedUrls, timeoutMs }));
+  }
+
+  return providers;
+}
@@ -0,0 +1,26 @@
+import {describe, expect, it} from 'vitest';
+import {decodeHtmlEntities, toSnippet} from '@/ai/tools/job-providers/job-provider';
+
+describe('decodeHtmlEntities', () => {
+  it('decodes named and numeric entities', () => {
+    expect(decodeHtmlEntities('Tom &amp; Jerry &lt;3 &quot;cats&quot; &#39;n&apos; &#x41;&#66;')).toBe('Tom & Jerry <3 "cats" \'n\' AB');
+  });
+
+  it('does not decode an escaped entity twice', () => {
+    expect(decodeHtmlEntities('&amp;lt;div&amp;gt;')).toBe('&lt;div&gt;');
+    expect(decodeHtmlEntities('&amp;amp;')).toBe('&amp;');
+    expect(decodeHtmlEntities('&#38;lt;')).toBe('&lt;');
+  });
+
+  it('leaves unknown entities untouched', () => {
+    expect(decodeHtmlEntities('&copy; &unknown;')).toBe('&copy; &unknown;');
+  });
+});
+
+describe('toSnippet', () => {
+  it('strips tags from escaped HTML and truncates long text', () => {
+    expect(toSnippet('&lt;p&gt;Hello &lt;b&gt;world&lt;/b&gt;&lt;/p&gt;')).toBe('Hello world');
+    expect(toSnippet('a'.repeat(20), 10)).toBe(`${'a'.repeat(10)}...`);
+    expect(toSnippet('<p> </p>')).toBeUndefined();
+  });
+});
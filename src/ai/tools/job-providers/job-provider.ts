@@ -0,0 +1,164 @@
+/**
+ * @fileOverview Shared contract and helpers for real job-board providers.
+ *
+ * - JobProvider - The interface every job-board adapter implements.
+ * - JobSearchQuery - The normalized search parameters passed to each provider.
+ * - fetchFromProvider - fetch() wrapper with a timeout, used by every adapter.
+ * - matchesQuery - Keyword matcher for boards that have no server-side search.
+ * - matchesLocationFilters - Country, city and work-mode matcher for boards that have no server-side filters.
+ */
+
+import type {JobPosting} from '@/ai/tools/find-jobs-tool';
+import {findJobSearchCountry, type WorkMode} from '@/lib/job-search-countries';
+
+export interface JobSearchQuery {
+  jobTitle?: string;
+  keywords: string[];
+  /** ISO 3166-1 alpha-2 country code (e.g. "ES"). */
+  country: string;
+  city?: string;
+  radiusKm?: number;
+  workMode?: WorkMode;
+  limit: number;
+  maxAgeDays?: number;
+}
+
+export interface JobProvider {
+  /** Display name used as the `portal` of every posting the provider returns. */
+  name: string;
+  search(query: JobSearchQuery): Promise<JobPosting[]>;
+}
+
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+export interface ProviderHttpOptions {
+  /** Overrides the public API base URL, e.g. to point the adapter at a local HTTP stub. */
+  baseUrl?: string;
+  timeoutMs?: number;
+  fetchImpl?: FetchLike;
+}
+
+export const DEFAULT_PROVIDER_TIMEOUT_MS = 8000;
+
+export async function fetchFromProvider(
+  providerName: string,
+  url: string,
+  { timeoutMs = DEFAULT_PROVIDER_TIMEOUT_MS, fetchImpl = fetch }: ProviderHttpOptions = {},
+  init: RequestInit = {}
+): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetchImpl(url, { ...init, signal: controller.signal });
+    if (!response.ok) {
+      throw new Error(`[${providerName}] Request to ${url} failed with status ${response.status}.`);
+    }
+    return response;
+  } catch (error: any) {
+    if (error.name === 'AbortError') {
+      throw new Error(`[${providerName}] Request to ${url} timed out after ${timeoutMs}ms.`);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+const normalizeForMatching = (value: string): string =>
+  value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+
+/** Returns the search terms of a query: the job title first, then the keywords. */
+export function getQueryTerms(query: JobSearchQuery): string[] {
+  const terms = [query.jobTitle, ...query.keywords].filter((term): term is string => !!term && term.trim() !== '');
+  return Array.from(new Set(terms.map(term => term.trim())));
+}
+
+/**
+ * Counts how many of the query terms appear in the given text (accent- and case-insensitive).
+ * Boards such as Greenhouse, Lever or RSS feeds return every open posting, so adapters use this
+ * to keep only the relevant ones and to order them.
+ */
+export function matchesQuery(text: string, query: JobSearchQuery): number {
+  const haystack = normalizeForMatching(text);
+  return getQueryTerms(query).filter(term => haystack.includes(normalizeForMatching(term))).length;
+}
+
+const REMOTE_PATTERN = /\b(remote|remoto|teletrabajo|home ?office|anywhere|telework)\b/i;
+const HYBRID_PATTERN = /\b(hybrid|h[ií]brido|hybride)\b/i;
+
+/**
+ * Applies the country, city and work-mode filters of a query to a posting's location and text.
+ * Remote postings are kept for any city as long as remote work is acceptable.
+ */
+export function matchesLocationFilters(location: string | undefined, text: string, query: JobSearchQuery): boolean {
+  const normalizedLocation = normalizeForMatching(location || '');
+  const isRemote = REMOTE_PATTERN.test(location || '') || REMOTE_PATTERN.test(text);
+  const isHybrid = HYBRID_PATTERN.test(location || '') || HYBRID_PATTERN.test(text);
+
+  if (query.workMode === 'remote' && !isRemote) return false;
+  if (query.workMode === 'hybrid' && !isHybrid) return false;
+  if (query.workMode === 'onsite' && (isRemote || isHybrid)) return false;
+
+  const remoteAccepted = isRemote && (query.workMode === 'remote' || query.workMode === 'any' || !query.workMode);
+  if (query.city) {
+    return normalizedLocation.includes(normalizeForMatching(query.city)) || remoteAccepted;
+  }
+  const country = findJobSearchCountry(query.country);
+  if (!country) return true;
+  const countryNames = [country.name, ...country.aliases, ...country.majorCities].map(normalizeForMatching);
+  return countryNames.some(name => new RegExp(`\\b${name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\\b`).test(normalizedLocation))
+    || remoteAccepted;
+}
+
+/** English name of the query's country, used as the location of postings that do not report one. */
+export function getQueryCountryName(query: JobSearchQuery): string {
+  return findJobSearchCountry(query.country)?.name || query.country;
+}
+
+/** True when the posting date is unknown or within `maxAgeDays` of now. */
+export function isRecent(postedDate: string | undefined, maxAgeDays: number | undefined): boolean {
+  if (!postedDate || !maxAgeDays) return true;
+  const timestamp = Date.parse(postedDate);
+  if (Number.isNaN(timestamp)) return true;
+  return Date.now() - timestamp <= maxAgeDays * 24 * 60 * 60 * 1000;
+}
+
+export function toIsoDate(value: string | number | undefined): string | undefined {
+  if (value === undefined || value === '') return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString().substring(0, 10);
+}
+
+const HTML_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+};
+
+/**
+ * Decodes numeric and common named entities in a single pass, so an escaped entity such as "&amp;lt;" becomes the
+ * text "&lt;" rather than being decoded twice into "<".
+ */
+export function decodeHtmlEntities(value: string): string {
+  return value.replace(/&(?:#(\d+)|#x([0-9a-f]+)|(amp|lt|gt|quot|apos|nbsp));/gi, (entity, decimal, hex, name) => {
+    if (decimal) return String.fromCharCode(Number(decimal));
+    if (hex) return String.fromCharCode(parseInt(hex, 16));
+    return HTML_ENTITIES[name.toLowerCase()] ?? entity;
+  });
+}
+
+/** Converts an HTML fragment into a short plain-text snippet. */
+export function toSnippet(html: string | undefined, maxLength = 300): string | undefined {
+  if (!html) return undefined;
+  const text = decodeHtmlEntities(html)
+    .replace(/<style[^>]*>.*?<\/style>/gs, '')
+    .replace(/<script[^>]*>.*?<\/script>/gs, '')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/\s\s+/g, ' ')
+    .trim();
+  if (!text) return undefined;
+  return text.length > maxLength ? `${text.substring(0, maxLength).trimEnd()}...` : text;
+}
+
+/** Splits a comma-separated environment variable into its trimmed, non-empty entries. */
+export function parseListEnv(value: string | undefined): string[] {
+  return (value || '').split(',').map(entry => entry.trim()).filter(entry => entry !== '');
+}
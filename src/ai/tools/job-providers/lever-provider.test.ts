@@ -0,0 +1,47 @@
+import {afterEach, describe, expect, it, vi} from 'vitest';
+import {createLeverProvider} from '@/ai/tools/job-providers/lever-provider';
+import {startStubServer, type StubServer} from '@/ai/tools/job-providers/__fixtures__/stub-server';
+
+describe('createLeverProvider', () => {
+  let stub: StubServer;
+
+  afterEach(async () => {
+    await stub?.close();
+  });
+
+  it('reads each company and keeps the relevant postings in the query city', async () => {
+    stub = await startStubServer({ '/v0/postings/initech?': 'lever-postings.json', '/v0/postings/gone?': 500 });
+    const provider = createLeverProvider({ companySlugs: ['initech', 'gone'], baseUrl: `${stub.baseUrl}/v0/` });
+
+    const postings = await provider.search({ keywords: ['React'], country: 'ES', city: 'Madrid', limit: 10 });
+
+    expect(stub.requests.map(request => request.url).sort()).toEqual(['/v0/postings/gone?mode=json', '/v0/postings/initech?mode=json']);
+    expect(stub.requests[0].headers.accept).toBe('application/json');
+    expect(postings).toEqual([
+      {
+        title: 'Frontend Developer',
+        company: 'initech',
+        location: 'Madrid',
+        descriptionSnippet: 'We use React and TypeScript every day.',
+        link: 'https://jobs.lever.co/initech/aaa',
+        portal: 'Lever',
+        postedDate: '2026-10-10',
+      },
+    ]);
+  });
+
+  it('drops postings older than the maximum age', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-20T00:00:00Z'));
+    try {
+      stub = await startStubServer({ '/postings/initech?': 'lever-postings.json' });
+      const provider = createLeverProvider({ companySlugs: ['initech'], baseUrl: stub.baseUrl });
+      const query = { keywords: ['React'], country: 'ES', limit: 10 };
+
+      expect(await provider.search({ ...query, maxAgeDays: 15 })).toHaveLength(1);
+      expect(await provider.search({ ...query, maxAgeDays: 5 })).toEqual([]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * @fileOverview Lever public postings adapter (https://github.com/lever/postings-api).
+ *
+ * - createLeverProvider - Builds a JobProvider that reads the public postings of the configured companies.
+ */
+
+import type {JobPosting} from '@/ai/tools/find-jobs-tool';
+import {
+  type JobProvider,
+  type JobSearchQuery,
+  type ProviderHttpOptions,
+  fetchFromProvider,
+  getQueryCountryName,
+  isRecent,
+  matchesLocationFilters,
+  matchesQuery,
+  toIsoDate,
+  toSnippet,
+} from '@/ai/tools/job-providers/job-provider';
+
+export const LEVER_DEFAULT_BASE_URL = 'https://api.lever.co/v0';
+
+export interface LeverProviderConfig extends ProviderHttpOptions {
+  /** Company slugs as they appear in https://jobs.lever.co/<slug>. */
+  companySlugs: string[];
+}
+
+interface LeverPosting {
+  text?: string;
+  hostedUrl?: string;
+  createdAt?: number;
+  descriptionPlain?: string;
+  categories?: { location?: string; team?: string; commitment?: string };
+}
+
+export function createLeverProvider(config: LeverProviderConfig): JobProvider {
+  const baseUrl = (config.baseUrl || LEVER_DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+  const searchCompany = async (companySlug: string, query: JobSearchQuery) => {
+    const url = `${baseUrl}/postings/${encodeURIComponent(companySlug)}?mode=json`;
+    const response = await fetchFromProvider('Lever', url, config, { headers: { Accept: 'application/json' } });
+    const body = await response.json() as LeverPosting[];
+
+    return (Array.isArray(body) ? body : [])
+      .filter((job): job is LeverPosting & { text: string; hostedUrl: string } => !!job.text && !!job.hostedUrl)
+      .map(job => {
+        const posting: JobPosting = {
+          title: job.text,
+          company: companySlug,
+          location: job.categories?.location || getQueryCountryName(query),
+          descriptionSnippet: toSnippet(job.descriptionPlain),
+          link: job.hostedUrl,
+          portal: 'Lever',
+          postedDate: toIsoDate(job.createdAt),
+        };
+        const searchableText = `${job.text} ${job.categories?.team || ''} ${job.descriptionPlain || ''}`;
+        return {
+          posting,
+          relevance: matchesQuery(searchableText, query),
+          matchesLocation: matchesLocationFilters(posting.location, searchableText, query),
+        };
+      });
+  };
+
+  return {
+    name: 'Lever',
+    async search(query: JobSearchQuery): Promise<JobPosting[]> {
+      const companies = await Promise.allSettled(config.companySlugs.map(slug => searchCompany(slug, query)));
+      const matches = companies.flatMap((company, index) => {
+        if (company.status === 'rejected') {
+          console.warn(`[LeverProvider] Company "${config.companySlugs[index]}" failed:`, company.reason?.message || company.reason);
+          return [];
+        }
+        return company.value;
+      });
+
+      return matches
+        .filter(({ posting, relevance, matchesLocation }) => relevance > 0 && matchesLocation && isRecent(posting.postedDate, query.maxAgeDays))
+        .sort((a, b) => b.relevance - a.relevance)
+        .map(({ posting }) => posting)
+        .slice(0, query.limit);
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import {afterEach, describe, expect, it} from 'vitest';
+import {readFixture, startStubServer, type StubServer} from '@/ai/tools/job-providers/__fixtures__/stub-server';
+import type {JobSearchQuery} from '@/ai/tools/job-providers/job-provider';
+import {createRssProvider, parseJobFeed} from '@/ai/tools/job-providers/rss-provider';
+
+const query: JobSearchQuery = { jobTitle: 'React', keywords: [], country: 'ES', limit: 10 };
+
+describe('parseJobFeed', () => {
+  it('reads the items of an RSS 2.0 feed', () => {
+    const { feedTitle, entries } = parseJobFeed(readFixture('rss-feed.xml'));
+
+    expect(feedTitle).toBe('Empleo Tech');
+    expect(entries).toHaveLength(3);
+    expect(entries[0]).toEqual({
+      title: 'Frontend Developer (React)',
+      link: 'https://jobs.example.com/offers/1',
+      description: '<p>We build <b>React</b> apps &amp; design systems, escaping &amp;lt;div&amp;gt; tags.</p>',
+      publishedAt: 'Mon, 05 Oct 2026 09:00:00 GMT',
+      location: 'Madrid, Spain',
+      company: 'Acme & Co',
+    });
+  });
+
+  it('reads the entries of an Atom feed, taking the author from its <name>', () => {
+    const { feedTitle, entries } = parseJobFeed(readFixture('atom-feed.xml'));
+
+    expect(feedTitle).toBe('Atom Jobs');
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      title: 'Senior React Developer',
+      link: 'https://atom.example.com/jobs/42?ref=feed&src=atom',
+      publishedAt: '2026-10-01T10:00:00Z',
+      location: 'Barcelona, Spain',
+      company: 'Globex',
+    });
+    expect(entries[1]).toMatchObject({ link: 'https://atom.example.com/jobs/43', publishedAt: '2026-10-02T10:00:00Z', company: 'Initech' });
+  });
+});
+
+describe('createRssProvider', () => {
+  let stub: StubServer;
+
+  afterEach(async () => {
+    await stub?.close();
+  });
+
+  it('keeps the relevant postings in the query country', async () => {
+    stub = await startStubServer({ '/jobs.rss': 'rss-feed.xml', '/feed.atom?lang=es': 'atom-feed.xml' });
+    const provider = createRssProvider({ feedUrls: [`${stub.baseUrl}/jobs.rss`, `${stub.baseUrl}/feed.atom?lang=es`] });
+
+    const postings = await provider.search(query);
+
+    expect(stub.requests.map(request => request.url).sort()).toEqual(['/feed.atom?lang=es', '/jobs.rss']);
+    expect(stub.requests[0].headers.accept).toContain('application/rss+xml');
+    expect(postings.map(posting => posting.link)).toEqual([
+      'https://jobs.example.com/offers/1',
+      'https://atom.example.com/jobs/42?ref=feed&src=atom',
+      'https://atom.example.com/jobs/43',
+    ]);
+    expect(postings[0]).toMatchObject({
+      company: 'Acme & Co',
+      portal: 'Empleo Tech',
+      postedDate: '2026-10-05',
+      descriptionSnippet: 'We build React apps & design systems, escaping &lt;div&gt; tags.',
+    });
+  });
+
+  it('skips a failing feed and returns the others', async () => {
+    stub = await startStubServer({ '/feed.atom': 'atom-feed.xml', '/broken.rss': 500 });
+    const provider = createRssProvider({ feedUrls: [`${stub.baseUrl}/broken.rss`, `${stub.baseUrl}/missing.rss`, `${stub.baseUrl}/feed.atom`] });
+
+    const postings = await provider.search(query);
+
+    expect(postings.map(posting => posting.portal)).toEqual(['Atom Jobs', 'Atom Jobs']);
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * @fileOverview RSS 2.0 / Atom job feed adapter.
+ *
+ * - createRssProvider - Builds a JobProvider that reads the configured job feeds.
+ */
+
+import type {JobPosting} from '@/ai/tools/find-jobs-tool';
+import {
+  type JobProvider,
+  type JobSearchQuery,
+  type ProviderHttpOptions,
+  decodeHtmlEntities,
+  fetchFromProvider,
+  getQueryCountryName,
+  isRecent,
+  matchesLocationFilters,
+  matchesQuery,
+  toIsoDate,
+  toSnippet,
+} from '@/ai/tools/job-providers/job-provider';
+
+export interface RssProviderConfig extends Omit<ProviderHttpOptions, 'baseUrl'> {
+  feedUrls: string[];
+}
+
+interface FeedEntry {
+  title?: string;
+  link?: string;
+  description?: string;
+  publishedAt?: string;
+  location?: string;
+  company?: string;
+}
+
+/** Text of the first matching element. CDATA sections are returned as they are, since XML does not escape them. */
+const readTag = (xml: string, tagName: string): string | undefined => {
+  const match = xml.match(new RegExp(`<${tagName}(?:\\s[^>]*)?>([\\s\\S]*?)</${tagName}>`, 'i'));
+  if (!match) return undefined;
+  const cdata = match[1].match(/^\s*<!\[CDATA\[([\s\S]*?)\]\]>\s*$/);
+  const value = (cdata ? cdata[1] : decodeHtmlEntities(match[1])).trim();
+  return value === '' ? undefined : value;
+};
+
+/** The author of an Atom entry is a person construct: its name is in a <name> child, not the element text. */
+const readAtomAuthor = (entryXml: string): string | undefined => {
+  const author = entryXml.match(/<author(?:\s[^>]*)?>([\s\S]*?)<\/author>/i);
+  if (!author) return undefined;
+  return /<name[\s>]/i.test(author[1]) ? readTag(author[1], 'name') : readTag(entryXml, 'author');
+};
+
+const readAtomLink = (entryXml: string): string | undefined => {
+  const alternate = entryXml.match(/<link[^>]*rel=["']alternate["'][^>]*href=["']([^"']+)["']/i)
+    || entryXml.match(/<link[^>]*href=["']([^"']+)["']/i);
+  return alternate ? decodeHtmlEntities(alternate[1]) : undefined;
+};
+
+/** Extracts the items of an RSS 2.0 feed or the entries of an Atom feed. */
+export function parseJobFeed(xml: string): { feedTitle?: string; entries: FeedEntry[] } {
+  const channelXml = xml.replace(/<(item|entry)[\s>][\s\S]*$/i, '');
+  const feedTitle = readTag(channelXml, 'title');
+
+  const itemBlocks = xml.match(/<item[\s>][\s\S]*?<\/item>/gi) || [];
+  const entryBlocks = xml.match(/<entry[\s>][\s\S]*?<\/entry>/gi) || [];
+
+  const entries: FeedEntry[] = [
+    ...itemBlocks.map(item => ({
+      title: readTag(item, 'title'),
+      link: readTag(item, 'link') || readTag(item, 'guid'),
+      description: readTag(item, 'description') || readTag(item, 'content:encoded'),
+      publishedAt: readTag(item, 'pubDate') || readTag(item, 'dc:date'),
+      location: readTag(item, 'job:location') || readTag(item, 'location'),
+      company: readTag(item, 'job:company') || readTag(item, 'company'),
+    })),
+    ...entryBlocks.map(entry => ({
+      title: readTag(entry, 'title'),
+      link: readAtomLink(entry),
+      description: readTag(entry, 'summary') || readTag(entry, 'content'),
+      publishedAt: readTag(entry, 'published') || readTag(entry, 'updated'),
+      location: readTag(entry, 'location'),
+      company: readAtomAuthor(entry),
+    })),
+  ];
+  return { feedTitle, entries };
+}
+
+export function createRssProvider(config: RssProviderConfig): JobProvider {
+  const searchFeed = async (feedUrl: string, query: JobSearchQuery) => {
+    const response = await fetchFromProvider('RSS', feedUrl, config, {
+      headers: { Accept: 'application/rss+xml, application/atom+xml, application/xml, text/xml' },
+    });
+    const { feedTitle, entries } = parseJobFeed(await response.text());
+    const portal = feedTitle || new URL(feedUrl).hostname;
+
+    return entries
+      .filter((entry): entry is FeedEntry & { title: string; link: string } => !!entry.title && !!entry.link && /^https?:\/\//i.test(entry.link))
+      .map(entry => {
+        const posting: JobPosting = {
+          title: entry.title,
+          company: entry.company,
+          location: entry.location || getQueryCountryName(query),
+          descriptionSnippet: toSnippet(entry.description),
+          link: entry.link,
+          portal,
+          postedDate: toIsoDate(entry.publishedAt),
+        };
+        const searchableText = `${entry.title} ${entry.description || ''}`;
+        return {
+          posting,
+          relevance: matchesQuery(searchableText, query),
+          matchesLocation: matchesLocationFilters(posting.location, searchableText, query),
+        };
+      });
+  };
+
+  return {
+    name: 'RSS',
+    async search(query: JobSearchQuery): Promise<JobPosting[]> {
+      const feeds = await Promise.allSettled(config.feedUrls.map(feedUrl => searchFeed(feedUrl, query)));
+      const matches = feeds.flatMap((feed, index) => {
+        if (feed.status === 'rejected') {
+          console.warn(`[RssProvider] Feed "${config.feedUrls[index]}" failed:`, feed.reason?.message || feed.reason);
+          return [];
+        }
+        return feed.value;
+      });
+
+      return matches
+        .filter(({ posting, relevance, matchesLocation }) => relevance > 0 && matchesLocation && isRecent(posting.postedDate, query.maxAgeDays))
+        .sort((a, b) => b.relevance - a.relevance)
+        .map(({ posting }) => posting)
+        .slice(0, query.limit);
+    },
+  };
+}
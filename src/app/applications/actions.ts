@@ -0,0 +1,134 @@
+'use server';
+
+/**
+ * @fileOverview The application tracker: the job offers a user saved or applied to, stored through the candidate
+ * storage layer. Entries belong to the browser's data access key; every action checks it, so nobody can read or
+ * change someone else's pipeline. Entries are only created with the user's explicit consent to storage.
+ *
+ * - listApplications - Returns the entries of the owner of a key.
+ * - createApplication - Adds an entry.
+ * - updateApplication - Replaces an entry, recording the date of a status change.
+ * - deleteApplication - Removes an entry.
+ */
+
+import {
+  APPLICATION_STATUSES,
+  getApplicationRepository,
+  type ApplicationRecord,
+  type ApplicationRepository,
+} from '@/lib/candidate-repository';
+import { hashDataAccessKey, runRetentionPurgeIfDue } from '@/lib/candidate-repository/data-protection';
+
+/** An entry as the browser sees it. */
+export type ApplicationEntry = Omit<ApplicationRecord, 'ownerKeyHash' | 'encryptedPii'>;
+/** What the browser sends to create an entry; the dates are set on the server. */
+export type NewApplicationEntry = Omit<ApplicationEntry, 'id' | 'createdAt' | 'updatedAt' | 'statusDates'>;
+
+export type ApplicationList = { storageEnabled: false } | { storageEnabled: true; applications: ApplicationEntry[] };
+
+const MAX_TEXT_LENGTH = 100_000;
+const MAX_CONTACTS = 20;
+const REMINDER_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+function validateKey(dataAccessKey: string) {
+  if (!dataAccessKey || dataAccessKey.trim().length < 16) throw new Error('A valid data access key is required.');
+}
+
+function validateEntry(entry: NewApplicationEntry) {
+  if (!APPLICATION_STATUSES.includes(entry.status)) throw new Error(`Unknown application status "${entry.status}".`);
+  if (!entry.jobTitle?.trim()) throw new Error('The job title of an application is required.');
+  if (entry.reminderDate && !REMINDER_DATE_PATTERN.test(entry.reminderDate)) throw new Error('The reminder date must look like YYYY-MM-DD.');
+  if (!Array.isArray(entry.contacts) || entry.contacts.length > MAX_CONTACTS) throw new Error(`An application can have up to ${MAX_CONTACTS} contacts.`);
+  const texts = [entry.jobDescription, entry.tailoredResumeText, entry.notes];
+  if (texts.some(text => (text?.length ?? 0) > MAX_TEXT_LENGTH)) throw new Error('An application field is too long.');
+}
+
+/** Only the fields the browser may set, so it cannot smuggle in an owner or dates. */
+function pickEntryFields(entry: NewApplicationEntry): NewApplicationEntry {
+  return {
+    status: entry.status,
+    jobTitle: entry.jobTitle.trim(),
+    company: entry.company?.trim() || undefined,
+    location: entry.location?.trim() || undefined,
+    jobOfferUrl: entry.jobOfferUrl?.trim() || undefined,
+    jobDescription: entry.jobDescription || undefined,
+    tailoredResumeText: entry.tailoredResumeText || undefined,
+    sessionId: entry.sessionId || undefined,
+    compatibilityScore: typeof entry.compatibilityScore === 'number' ? entry.compatibilityScore : undefined,
+    contacts: entry.contacts.filter(contact => contact.name?.trim()),
+    notes: entry.notes || '',
+    reminderDate: entry.reminderDate || undefined,
+  };
+}
+
+const toEntry = ({ ownerKeyHash, encryptedPii, ...entry }: ApplicationRecord): ApplicationEntry => entry;
+
+async function getRepository(): Promise<ApplicationRepository> {
+  const repository = await getApplicationRepository();
+  if (!repository) throw new Error('Application tracking needs candidate storage (CANDIDATE_STORAGE_BACKEND).');
+  await runRetentionPurgeIfDue(repository, 'application');
+  return repository;
+}
+
+/** The stored entry with that id, when it belongs to the owner of the key. */
+async function findOwnedEntry(repository: ApplicationRepository, id: string, dataAccessKey: string): Promise<ApplicationRecord> {
+  const stored = await repository.findById(id);
+  if (!stored || stored.ownerKeyHash !== hashDataAccessKey(dataAccessKey)) throw new Error('Application not found.');
+  return stored;
+}
+
+export async function listApplications(dataAccessKey: string): Promise<ApplicationList> {
+  validateKey(dataAccessKey);
+  const repository = await getApplicationRepository();
+  if (!repository) return { storageEnabled: false };
+  await runRetentionPurgeIfDue(repository, 'application');
+  const applications = await repository.listByOwner(hashDataAccessKey(dataAccessKey));
+  return { storageEnabled: true, applications: applications.map(toEntry) };
+}
+
+export interface CreateApplicationRequest {
+  entry: NewApplicationEntry;
+  dataAccessKey: string;
+  /** Must be true: the user agreed to have the entry, with its contacts and tailored resume, stored. */
+  storageConsent: boolean;
+}
+
+export async function createApplication({ entry, dataAccessKey, storageConsent }: CreateApplicationRequest): Promise<ApplicationEntry> {
+  if (storageConsent !== true) throw new Error('Applications are only stored with your consent.');
+  validateKey(dataAccessKey);
+  validateEntry(entry);
+  const repository = await getRepository();
+  const created = await repository.create({
+    ...pickEntryFields(entry),
+    ownerKeyHash: hashDataAccessKey(dataAccessKey),
+    statusDates: { [entry.status]: new Date().toISOString() },
+  });
+  console.log(`[Applications] Created application ${created.id} (${created.status}).`);
+  return toEntry(created);
+}
+
+export async function updateApplication({ entry, dataAccessKey }: { entry: ApplicationEntry; dataAccessKey: string }): Promise<ApplicationEntry> {
+  validateKey(dataAccessKey);
+  validateEntry(entry);
+  const repository = await getRepository();
+  const stored = await findOwnedEntry(repository, entry.id, dataAccessKey);
+  const now = new Date().toISOString();
+  const updated: ApplicationRecord = {
+    ...pickEntryFields(entry),
+    id: stored.id,
+    ownerKeyHash: stored.ownerKeyHash,
+    createdAt: stored.createdAt,
+    updatedAt: now,
+    // Moving back to a status keeps the date it was first reached.
+    statusDates: { [entry.status]: now, ...stored.statusDates },
+  };
+  if (!(await repository.update(updated))) throw new Error('Application not found.');
+  return toEntry(updated);
+}
+
+export async function deleteApplication({ id, dataAccessKey }: { id: string; dataAccessKey: string }): Promise<void> {
+  validateKey(dataAccessKey);
+  const repository = await getRepository();
+  await findOwnedEntry(repository, id, dataAccessKey);
+  await repository.delete(id);
+}
@@ -0,0 +1,9 @@
+import ApplicationTracker from '@/components/application-tracker';
+
+export default function ApplicationsPage() {
+  return (
+    <div className="w-full">
+      <ApplicationTracker />
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+'use server';
+
+/**
+ * @fileOverview Data subject requests for the "My data" page: exporting and erasing the candidate records, wizard
+ * sessions and application tracker entries saved on the server with the data access key of the browser that gave
+ * consent. Records are found by that key alone: an email address would disclose someone else's data to anyone who knows it.
+ *
+ * - exportMyData - Returns the records stored with the key.
+ * - eraseMyData - Erases the records stored with the key and writes the erasure to the audit log.
+ * - MyDataRequest - The input type of both actions.
+ */
+
+import { getApplicationRepository, getCandidateRepository, type ApplicationRecord, type CandidateRecord } from '@/lib/candidate-repository';
+import {
+  eraseCandidateData,
+  eraseOwnedApplications,
+  eraseOwnedWizardSessions,
+  exportCandidateData,
+  exportOwnedApplications,
+  exportOwnedWizardSessions,
+  runRetentionPurgeIfDue,
+} from '@/lib/candidate-repository/data-protection';
+import type { WizardSession } from '@/lib/wizard-session';
+import { getWizardSessionStore } from '@/lib/wizard-session-store';
+
+export interface MyDataRequest {
+  dataAccessKey: string;
+}
+
+export type MyDataExport =
+  | { storageEnabled: false }
+  | {
+      storageEnabled: true;
+      records: Omit<CandidateRecord, 'dataAccessKeyHash'>[];
+      wizardSessions: WizardSession[];
+      applications: Omit<ApplicationRecord, 'ownerKeyHash'>[];
+    };
+export type MyDataErasure = { storageEnabled: false } | { storageEnabled: true; erasedCount: number };
+
+function validate({ dataAccessKey }: MyDataRequest) {
+  if (!dataAccessKey || dataAccessKey.trim().length < 16) throw new Error('A valid data access key is required.');
+}
+
+export async function exportMyData(request: MyDataRequest): Promise<MyDataExport> {
+  validate(request);
+  const [repository, sessionStore, applicationRepository] = await Promise.all([
+    getCandidateRepository(),
+    getWizardSessionStore(),
+    getApplicationRepository(),
+  ]);
+  if (!repository && !sessionStore) return { storageEnabled: false };
+  if (repository) await runRetentionPurgeIfDue(repository);
+  if (sessionStore) await runRetentionPurgeIfDue(sessionStore, 'wizard-session');
+  if (applicationRepository) await runRetentionPurgeIfDue(applicationRepository, 'application');
+  const records = repository ? await exportCandidateData(repository, request.dataAccessKey) : [];
+  const wizardSessions = sessionStore ? await exportOwnedWizardSessions(sessionStore, request.dataAccessKey) : [];
+  const applications = applicationRepository ? await exportOwnedApplications(applicationRepository, request.dataAccessKey) : [];
+  console.log(`[MyData] Exported ${records.length} record(s), ${wizardSessions.length} wizard session(s) and ${applications.length} application(s).`);
+  return { storageEnabled: true, records, wizardSessions, applications };
+}
+
+export async function eraseMyData(request: MyDataRequest): Promise<MyDataErasure> {
+  validate(request);
+  const [repository, sessionStore, applicationRepository] = await Promise.all([
+    getCandidateRepository(),
+    getWizardSessionStore(),
+    getApplicationRepository(),
+  ]);
+  if (!repository && !sessionStore) return { storageEnabled: false };
+  const erasedIds = repository ? await eraseCandidateData(repository, request.dataAccessKey) : [];
+  const erasedSessionIds = sessionStore ? await eraseOwnedWizardSessions(sessionStore, request.dataAccessKey) : [];
+  const erasedApplicationIds = applicationRepository ? await eraseOwnedApplications(applicationRepository, request.dataAccessKey) : [];
+  console.log(`[MyData] Erased ${erasedIds.length} record(s), ${erasedSessionIds.length} wizard session(s) and ${erasedApplicationIds.length} application(s).`);
+  return { storageEnabled: true, erasedCount: erasedIds.length + erasedSessionIds.length + erasedApplicationIds.length };
+}
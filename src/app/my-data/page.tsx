@@ -0,0 +1,9 @@
+import MyDataManager from '@/components/my-data-manager';
+
+export default function MyDataPage() {
+  return (
+    <div className="w-full max-w-3xl mx-auto">
+      <MyDataManager />
+    </div>
+  );
+}
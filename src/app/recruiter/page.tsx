@@ -0,0 +1,9 @@
+import RecruiterWorkbench from '@/components/recruiter-workbench';
+
+export default function RecruiterPage() {
+  return (
+    <div className="w-full max-w-5xl mx-auto">
+      <RecruiterWorkbench />
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 
 import { Languages } from 'lucide-react';
 import Link from 'next/link';
+import { usePathname } from 'next/navigation';
 import Image from 'next/image'; // Import next/image
 import { useLanguage } from '@/contexts/language-context';
 import type { Locale } from '@/lib/translations';
@@ -17,6 +18,14 @@ import { Label } from '@/components/ui/label';
 
 export default function AppHeader() {
   const { language, setLanguage, t } = useLanguage();
+  const pathname = usePathname();
+
+  const navLinks = [
+    { href: '/', label: t('navCandidate') },
+    { href: '/applications', label: t('navApplications') },
+    { href: '/recruiter', label: t('navRecruiter') },
+    { href: '/my-data', label: t('navMyData') },
+  ];
 
   const handleLanguageChange = (value: string) => {
     setLanguage(value as Locale);
@@ -36,7 +45,18 @@ export default function AppHeader() {
           />
           <span>{t('appName')}</span>
         </Link>
-        <div className="flex items-center gap-2">
+        <div className="flex items-center gap-4">
+          <nav className="flex items-center gap-1 text-sm">
+            {navLinks.map(link => (
+              <Link
+                key={link.href}
+                href={link.href}
+                className={`rounded-md px-3 py-2 transition-colors hover:bg-muted ${pathname === link.href ? 'font-semibold text-primary' : 'text-muted-foreground'}`}
+              >
+                {link.label}
+              </Link>
+            ))}
+          </nav>
           <Label htmlFor="language-select" className="sr-only">
             {t('languageSelectorLabel')}
           </Label>
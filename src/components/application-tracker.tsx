@@ -0,0 +1,405 @@
+"use client";
+
+import { useEffect, useMemo, useState, type DragEvent } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { useToast } from "@/hooks/use-toast";
+import { BellRing, Building2, CalendarClock, ExternalLink, Loader2, Plus, Trash2, UserPlus, X } from 'lucide-react';
+
+import {
+  createApplication,
+  deleteApplication,
+  listApplications,
+  updateApplication,
+  type ApplicationEntry,
+  type NewApplicationEntry,
+} from '@/app/applications/actions';
+import { useLanguage } from '@/contexts/language-context';
+import { APPLICATION_STATUSES, type ApplicationContact, type ApplicationStatus } from '@/lib/candidate-repository/types';
+import { getOrCreateDataAccessKey, getStoredDataAccessKey } from '@/lib/data-access-key';
+
+type EditedEntry = NewApplicationEntry & { id?: string; createdAt?: string; updatedAt?: string; statusDates?: ApplicationEntry['statusDates'] };
+
+const emptyEntry: EditedEntry = { status: 'saved', jobTitle: '', contacts: [], notes: '' };
+
+const statusColumnClass: Record<ApplicationStatus, string> = {
+  saved: 'border-t-slate-400',
+  applied: 'border-t-blue-500',
+  interview: 'border-t-yellow-500',
+  offer: 'border-t-green-500',
+  rejected: 'border-t-red-500',
+};
+
+/** Today as YYYY-MM-DD in the user's time zone, the format of reminder dates. */
+const today = () => {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60_000).toISOString().slice(0, 10);
+};
+
+export default function ApplicationTracker() {
+  const { t, language } = useLanguage();
+  const { toast } = useToast();
+  const [applications, setApplications] = useState<ApplicationEntry[] | null>(null);
+  const [storageEnabled, setStorageEnabled] = useState(true);
+  const [editedEntry, setEditedEntry] = useState<EditedEntry | null>(null);
+  const [saving, setSaving] = useState(false);
+  /** A new entry waiting for the user to agree to storage; browsers without a data access key never agreed. */
+  const [entryAwaitingConsent, setEntryAwaitingConsent] = useState<EditedEntry | null>(null);
+  const [dragOverStatus, setDragOverStatus] = useState<ApplicationStatus | null>(null);
+
+  const showError = (error: unknown) => {
+    console.error("Application tracker request failed:", error);
+    toast({ variant: "destructive", title: t('trackerErrorTitle'), description: error instanceof Error ? error.message : String(error) });
+  };
+
+  // The data access key lives in localStorage, so the entries are loaded after mounting. A browser without one never
+  // agreed to storage and has nothing stored.
+  useEffect(() => {
+    const dataAccessKey = getStoredDataAccessKey();
+    if (!dataAccessKey) {
+      setApplications([]);
+      return;
+    }
+    listApplications(dataAccessKey)
+      .then(result => {
+        setStorageEnabled(result.storageEnabled);
+        setApplications(result.storageEnabled ? result.applications : []);
+      })
+      .catch(error => {
+        showError(error);
+        setApplications([]);
+      });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const columns = useMemo(() => APPLICATION_STATUSES.map(status => ({
+    status,
+    entries: (applications || []).filter(entry => entry.status === status),
+  })), [applications]);
+
+  const dueReminders = useMemo(() => (applications || [])
+    .filter(entry => entry.reminderDate && entry.reminderDate <= today() && entry.status !== 'rejected')
+    .sort((a, b) => a.reminderDate!.localeCompare(b.reminderDate!)), [applications]);
+
+  const replaceEntry = (entry: ApplicationEntry) =>
+    setApplications(prev => [entry, ...(prev || []).filter(existing => existing.id !== entry.id)]);
+
+  const saveEntry = async (entry: EditedEntry) => {
+    if (!entry.id && !getStoredDataAccessKey()) {
+      setEntryAwaitingConsent(entry);
+      return;
+    }
+    setSaving(true);
+    try {
+      const dataAccessKey = getOrCreateDataAccessKey();
+      const saved = entry.id
+        ? await updateApplication({ entry: entry as ApplicationEntry, dataAccessKey })
+        : await createApplication({ entry, dataAccessKey, storageConsent: true });
+      replaceEntry(saved);
+      setEditedEntry(null);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleStorageConsent = () => {
+    if (!entryAwaitingConsent) return;
+    // Creating the key records the consent in this browser, as in the wizard.
+    getOrCreateDataAccessKey();
+    saveEntry(entryAwaitingConsent);
+    setEntryAwaitingConsent(null);
+  };
+
+  const moveEntry = async (id: string, status: ApplicationStatus) => {
+    const entry = applications?.find(existing => existing.id === id);
+    if (!entry || entry.status === status) return;
+    // Moved right away; put back if the server refuses.
+    replaceEntry({ ...entry, status });
+    try {
+      replaceEntry(await updateApplication({ entry: { ...entry, status }, dataAccessKey: getOrCreateDataAccessKey() }));
+    } catch (error) {
+      replaceEntry(entry);
+      showError(error);
+    }
+  };
+
+  const removeEntry = async (id: string) => {
+    setSaving(true);
+    try {
+      await deleteApplication({ id, dataAccessKey: getOrCreateDataAccessKey() });
+      setApplications(prev => (prev || []).filter(entry => entry.id !== id));
+      setEditedEntry(null);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>, status: ApplicationStatus) => {
+    e.preventDefault();
+    setDragOverStatus(null);
+    const id = e.dataTransfer.getData('text/plain');
+    if (id) moveEntry(id, status);
+  };
+
+  const updateEdited = (changes: Partial<EditedEntry>) => setEditedEntry(prev => prev && { ...prev, ...changes });
+  const updateContact = (index: number, changes: Partial<ApplicationContact>) =>
+    setEditedEntry(prev => prev && { ...prev, contacts: prev.contacts.map((contact, i) => i === index ? { ...contact, ...changes } : contact) });
+
+  const formatDate = (date: string) => new Date(date).toLocaleDateString(language);
+  const formatDay = (day: string) => new Date(`${day}T00:00:00`).toLocaleDateString(language);
+
+  const renderCard = (entry: ApplicationEntry) => {
+    const reminderDue = !!entry.reminderDate && entry.reminderDate <= today();
+    return (
+      <li
+        key={entry.id}
+        draggable
+        onDragStart={(e) => e.dataTransfer.setData('text/plain', entry.id)}
+        onClick={() => setEditedEntry(entry)}
+        className="cursor-grab rounded-md border bg-card p-3 text-sm shadow-sm transition-colors hover:bg-muted/50 active:cursor-grabbing"
+      >
+        <p className="font-medium leading-snug">{entry.jobTitle}</p>
+        {entry.company && <p className="flex items-center text-xs text-muted-foreground"><Building2 className="mr-1 h-3 w-3" />{entry.company}</p>}
+        <div className="mt-2 flex flex-wrap items-center gap-1">
+          {entry.compatibilityScore !== undefined && <Badge variant="secondary">{t('trackerScoreBadge', { score: entry.compatibilityScore })}</Badge>}
+          {entry.reminderDate && (
+            <Badge variant={reminderDue ? 'destructive' : 'outline'} className="gap-1">
+              <CalendarClock className="h-3 w-3" />{formatDay(entry.reminderDate)}
+            </Badge>
+          )}
+        </div>
+        <p className="mt-2 text-xs text-muted-foreground">
+          {t('trackerStatusSince', { date: formatDate(entry.statusDates[entry.status] || entry.updatedAt) })}
+        </p>
+      </li>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h2 className="text-3xl font-semibold text-foreground">{t('trackerTitle')}</h2>
+        <p className="text-muted-foreground">{t('trackerSubtitle')}</p>
+      </div>
+
+      {!storageEnabled ? (
+        <Alert>
+          <AlertTitle>{t('trackerStorageDisabledTitle')}</AlertTitle>
+          <AlertDescription>{t('trackerStorageDisabledDescription')}</AlertDescription>
+        </Alert>
+      ) : applications === null ? (
+        <div className="flex justify-center py-10"><Loader2 className="h-8 w-8 animate-spin text-primary" /></div>
+      ) : (
+        <>
+          {dueReminders.length > 0 && (
+            <Alert>
+              <BellRing className="h-5 w-5" />
+              <AlertTitle>{t('trackerRemindersTitle', { count: dueReminders.length })}</AlertTitle>
+              <AlertDescription>
+                <ul className="mt-1 space-y-1">
+                  {dueReminders.map(entry => (
+                    <li key={entry.id}>
+                      <button type="button" className="text-left underline-offset-2 hover:underline" onClick={() => setEditedEntry(entry)}>
+                        {formatDay(entry.reminderDate!)} · {entry.jobTitle}{entry.company ? ` (${entry.company})` : ''}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <div className="flex justify-end">
+            <Button onClick={() => setEditedEntry({ ...emptyEntry })}>
+              <Plus className="mr-2 h-4 w-4" />{t('trackerAddButton')}
+            </Button>
+          </div>
+
+          <div className="grid gap-4 md:grid-cols-3 xl:grid-cols-5">
+            {columns.map(({ status, entries }) => (
+              <Card
+                key={status}
+                onDragOver={(e) => { e.preventDefault(); setDragOverStatus(status); }}
+                onDragLeave={() => setDragOverStatus(null)}
+                onDrop={(e) => handleDrop(e, status)}
+                className={`border-t-4 ${statusColumnClass[status]} ${dragOverStatus === status ? 'ring-2 ring-primary' : ''}`}
+              >
+                <CardHeader className="pb-3">
+                  <CardTitle className="flex items-center justify-between text-base">
+                    {t(`applicationStatus_${status}`)}
+                    <Badge variant="outline">{entries.length}</Badge>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {entries.length > 0 ? (
+                    <ul className="space-y-2">{entries.map(renderCard)}</ul>
+                  ) : (
+                    <p className="py-4 text-center text-xs text-muted-foreground">{t('trackerEmptyColumn')}</p>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </>
+      )}
+
+      <Dialog open={editedEntry !== null} onOpenChange={(open) => !open && setEditedEntry(null)}>
+        <DialogContent className="max-w-2xl">
+          {editedEntry && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{editedEntry.id ? t('trackerEditTitle') : t('trackerAddTitle')}</DialogTitle>
+                <DialogDescription>{t('trackerEditDescription')}</DialogDescription>
+              </DialogHeader>
+              <div className="max-h-[60vh] space-y-4 overflow-y-auto pr-1">
+                <div className="grid gap-3 sm:grid-cols-2">
+                  <div className="sm:col-span-2">
+                    <Label htmlFor="trackerJobTitle">{t('trackerJobTitleLabel')}</Label>
+                    <Input id="trackerJobTitle" value={editedEntry.jobTitle} onChange={(e) => updateEdited({ jobTitle: e.target.value })} className="mt-1" />
+                  </div>
+                  <div>
+                    <Label htmlFor="trackerCompany">{t('trackerCompanyLabel')}</Label>
+                    <Input id="trackerCompany" value={editedEntry.company || ''} onChange={(e) => updateEdited({ company: e.target.value })} className="mt-1" />
+                  </div>
+                  <div>
+                    <Label htmlFor="trackerLocation">{t('trackerLocationLabel')}</Label>
+                    <Input id="trackerLocation" value={editedEntry.location || ''} onChange={(e) => updateEdited({ location: e.target.value })} className="mt-1" />
+                  </div>
+                  <div>
+                    <Label>{t('trackerStatusLabel')}</Label>
+                    <Select value={editedEntry.status} onValueChange={(value) => updateEdited({ status: value as ApplicationStatus })}>
+                      <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                      <SelectContent>
+                        {APPLICATION_STATUSES.map(status => <SelectItem key={status} value={status}>{t(`applicationStatus_${status}`)}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label htmlFor="trackerReminderDate">{t('trackerReminderLabel')}</Label>
+                    <Input
+                      id="trackerReminderDate"
+                      type="date"
+                      value={editedEntry.reminderDate || ''}
+                      onChange={(e) => updateEdited({ reminderDate: e.target.value || undefined })}
+                      className="mt-1"
+                    />
+                  </div>
+                  <div className="sm:col-span-2">
+                    <Label htmlFor="trackerJobOfferUrl">{t('trackerJobOfferUrlLabel')}</Label>
+                    <div className="mt-1 flex gap-2">
+                      <Input id="trackerJobOfferUrl" type="url" value={editedEntry.jobOfferUrl || ''} onChange={(e) => updateEdited({ jobOfferUrl: e.target.value })} />
+                      {editedEntry.jobOfferUrl && (
+                        <Button asChild variant="outline" size="icon" aria-label={t('viewJobPostingLink')}>
+                          <a href={editedEntry.jobOfferUrl} target="_blank" rel="noopener noreferrer"><ExternalLink className="h-4 w-4" /></a>
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+
+                {editedEntry.statusDates && (
+                  <div className="flex flex-wrap gap-2 text-xs text-muted-foreground">
+                    {APPLICATION_STATUSES.filter(status => editedEntry.statusDates?.[status]).map(status => (
+                      <span key={status}>{t(`applicationStatus_${status}`)}: {formatDate(editedEntry.statusDates![status]!)}</span>
+                    ))}
+                  </div>
+                )}
+
+                <div>
+                  <div className="flex items-center justify-between">
+                    <Label>{t('trackerContactsLabel')}</Label>
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateEdited({ contacts: [...editedEntry.contacts, { name: '' }] })}
+                    >
+                      <UserPlus className="mr-2 h-4 w-4" />{t('trackerAddContactButton')}
+                    </Button>
+                  </div>
+                  {editedEntry.contacts.length === 0 && <p className="text-xs text-muted-foreground">{t('trackerNoContacts')}</p>}
+                  <ul className="space-y-2">
+                    {editedEntry.contacts.map((contact, index) => (
+                      <li key={index} className="grid grid-cols-[1fr_1fr_1fr_1fr_auto] gap-2">
+                        <Input value={contact.name} onChange={(e) => updateContact(index, { name: e.target.value })} placeholder={t('trackerContactNamePlaceholder')} />
+                        <Input value={contact.role || ''} onChange={(e) => updateContact(index, { role: e.target.value })} placeholder={t('trackerContactRolePlaceholder')} />
+                        <Input type="email" value={contact.email || ''} onChange={(e) => updateContact(index, { email: e.target.value })} placeholder={t('trackerContactEmailPlaceholder')} />
+                        <Input type="tel" value={contact.phone || ''} onChange={(e) => updateContact(index, { phone: e.target.value })} placeholder={t('trackerContactPhonePlaceholder')} />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => updateEdited({ contacts: editedEntry.contacts.filter((_, i) => i !== index) })}
+                          aria-label={t('trackerRemoveContactButton')}
+                        >
+                          <X className="h-4 w-4" />
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+
+                <div>
+                  <Label htmlFor="trackerNotes">{t('trackerNotesLabel')}</Label>
+                  <Textarea id="trackerNotes" value={editedEntry.notes} onChange={(e) => updateEdited({ notes: e.target.value })} rows={4} className="mt-1" />
+                </div>
+
+                {editedEntry.tailoredResumeText && (
+                  <div>
+                    <Label htmlFor="trackerTailoredResume">{t('trackerTailoredResumeLabel')}</Label>
+                    <Textarea id="trackerTailoredResume" value={editedEntry.tailoredResumeText} readOnly rows={6} className="mt-1 font-mono text-xs" />
+                  </div>
+                )}
+              </div>
+              <DialogFooter className="gap-2 sm:justify-between">
+                {editedEntry.id ? (
+                  <Button variant="destructive" onClick={() => removeEntry(editedEntry.id!)} disabled={saving}>
+                    <Trash2 className="mr-2 h-4 w-4" />{t('trackerDeleteButton')}
+                  </Button>
+                ) : <div />}
+                <Button onClick={() => saveEntry(editedEntry)} disabled={saving || !editedEntry.jobTitle.trim()}>
+                  {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {t('trackerSaveButton')}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={entryAwaitingConsent !== null} onOpenChange={(open) => !open && setEntryAwaitingConsent(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('trackerConsentTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>{t('trackerPageConsentDescription')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('trackerConsentCancelButton')}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleStorageConsent}>{t('trackerConsentSaveButton')}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
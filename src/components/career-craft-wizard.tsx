@@ -1,14 +1,28 @@
 
 "use client";
 
-import { useState, type ChangeEvent, useEffect } from 'react';
+import { useState, type ChangeEvent, useEffect, useMemo } from 'react';
 import { InformationGatheringStep } from '@/components/steps/information-gathering-step';
 import { CompatibilityAnalysisStep } from '@/components/steps/compatibility-analysis-step';
 import { ResumeBuilderStep } from '@/components/steps/resume-builder-step';
 import { JobSearchStep } from '@/components/steps/job-search-step';
+import { BatchComparisonStep } from '@/components/steps/batch-comparison-step';
+import { SessionHistoryDialog } from '@/components/session-history-dialog';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
 import { Button } from '@/components/ui/button';
 import { useToast } from "@/hooks/use-toast";
-import { Loader2, ArrowLeft, ArrowRight, RotateCcw } from 'lucide-react';
+import { SESSION_URL_PARAM, useWizardSession } from '@/hooks/use-wizard-session';
+import { Loader2, ArrowLeft, ArrowRight, RotateCcw, History, CheckCircle2, CloudOff, KanbanSquare } from 'lucide-react';
 
 import type { CompatibilityInput, CompatibilityOutput } from '@/ai/flows/resume-compatibility-analysis';
 import { analyzeCompatibility } from '@/ai/flows/resume-compatibility-analysis';
@@ -16,8 +30,29 @@ import type { AIResumeBuilderInput, AIResumeBuilderOutput } from '@/ai/flows/ai-
 import { aiResumeBuilder } from '@/ai/flows/ai-resume-builder';
 import type { AutomatedJobSearchInput, AutomatedJobSearchOutput } from '@/ai/flows/automated-job-search';
 import { automatedJobSearch } from '@/ai/flows/automated-job-search';
+import type { CoverLetterInput } from '@/ai/flows/cover-letter-generator';
+import { generateCoverLetter } from '@/ai/flows/cover-letter-generator';
+import type { ResumeSectionRewriteOutput } from '@/ai/flows/resume-section-rewriter';
+import { rewriteResumeSection } from '@/ai/flows/resume-section-rewriter';
+import type { ResumeSectionRewriteRequest } from '@/components/steps/resume-section-rewriter';
+import type { BatchCompatibilityInput, BatchCompatibilityOutput, BatchCompatibilityResult } from '@/ai/flows/batch-compatibility-analysis';
+import { analyzeCompatibilityBatch } from '@/ai/flows/batch-compatibility-analysis';
+import type { ValidatedJobPosting } from '@/ai/flows/automated-job-search';
+import { createApplication, type NewApplicationEntry } from '@/app/applications/actions';
 
 import { useLanguage } from '@/contexts/language-context';
+import { DEFAULT_JOB_SEARCH_COUNTRY, type WorkMode } from '@/lib/job-search-countries';
+import { jsonResumeToResumeText, parseJsonResume } from '@/lib/json-resume';
+import type { CoverLetterLength, CoverLetterTone } from '@/lib/cover-letter';
+import { MAX_ATS_LAYOUT_FILE_SIZE, MAX_RESUME_FILE_SIZE, getDataUriByteSize, isSupportedResumeMimeType, resolveResumeMimeType, withDataUriMimeType } from '@/lib/resume-file-types';
+import { MAX_BATCH_JOB_OFFERS, parseBatchJobOffers } from '@/lib/batch-job-offers';
+import { getOrCreateDataAccessKey, getStoredDataAccessKey } from '@/lib/data-access-key';
+import { getWizardSessionTitle, hasWizardSessionProgress, type WizardSession, type WizardSessionState, type WizardSessionSummary } from '@/lib/wizard-session';
+import { getLocalWizardSession, listLocalWizardSessions } from '@/lib/wizard-session-db';
+import { createResumeVersion, type NewResumeVersion, type ResumeVersion } from '@/lib/resume-versions';
+import { removeResumeClaim } from '@/lib/resume-claims';
+import { getDefaultResumePdfSettings, type ResumePdfSettings } from '@/lib/resume-templates';
+import { loadServerWizardSession } from '@/lib/wizard-session-store/actions';
 
 import * as pdfjsLib from 'pdfjs-dist';
 if (typeof window !== 'undefined') {
@@ -25,7 +60,12 @@ if (typeof window !== 'undefined') {
 }
 
 
+export type OfferMode = 'single' | 'batch';
+
 export interface CareerCraftFormState {
+  offerMode: OfferMode;
+  /** Batch mode: job offer URLs, one per line, or pasted job descriptions separated by "---" lines. */
+  batchJobOffers: string;
   jobOfferTitle: string;
   jobOfferText: string;
   jobOfferUrl: string;
@@ -36,9 +76,28 @@ export interface CareerCraftFormState {
   profilePhotoName: string;
   profilePhotoDataUri: string;
   language: string;
+  searchCountry: string;
+  searchCity: string;
+  searchRadiusKm: string;
+  searchWorkMode: WorkMode;
+  coverLetterTone: CoverLetterTone;
+  coverLetterLength: CoverLetterLength;
+  coverLetterAddressee: string;
+  /** Template, colors, font, paper size and photo of the PDF export. */
+  resumePdfSettings: ResumePdfSettings;
+  /** The user agreed to have their resume and analyses stored (and erased on request). */
+  storageConsent: boolean;
+}
+
+/** An offer waiting for the user to agree to storage before it is added to the application tracker. */
+interface PendingTrackedApplication {
+  trackingKey: string;
+  entry: NewApplicationEntry;
 }
 
 const initialFormState: CareerCraftFormState = {
+  offerMode: 'single',
+  batchJobOffers: '',
   jobOfferTitle: '',
   jobOfferText: '',
   jobOfferUrl: '',
@@ -49,6 +108,15 @@ const initialFormState: CareerCraftFormState = {
   profilePhotoName: '',
   profilePhotoDataUri: '',
   language: 'English',
+  searchCountry: DEFAULT_JOB_SEARCH_COUNTRY,
+  searchCity: '',
+  searchRadiusKm: '',
+  searchWorkMode: 'any',
+  coverLetterTone: 'professional',
+  coverLetterLength: 'medium',
+  coverLetterAddressee: '',
+  resumePdfSettings: getDefaultResumePdfSettings(),
+  storageConsent: false,
 };
 
 export default function CareerCraftWizard() {
@@ -61,10 +129,89 @@ export default function CareerCraftWizard() {
   const [initialCompatibilityResultForStep3, setInitialCompatibilityResultForStep3] = useState<CompatibilityOutput | null>(null);
   const [newCompatibilityAnalysisResultForStep3, setNewCompatibilityAnalysisResultForStep3] = useState<CompatibilityOutput | null>(null);
   const [jobListingsResult, setJobListingsResult] = useState<AutomatedJobSearchOutput | null>(null);
+  const [batchResult, setBatchResult] = useState<BatchCompatibilityOutput | null>(null);
+  const [coverLetterText, setCoverLetterText] = useState<string>('');
+  const [resumeVersions, setResumeVersions] = useState<ResumeVersion[]>([]);
+  const [activeResumeVersionId, setActiveResumeVersionId] = useState<string | null>(null);
+  const [confirmedResumeClaims, setConfirmedResumeClaims] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [loadingMessage, setLoadingMessage] = useState<string>('');
+  const [resumePrompt, setResumePrompt] = useState<WizardSessionSummary | null>(null);
+  const [historyOpen, setHistoryOpen] = useState(false);
+  /** Job offer URLs (or the session id for the tailored offer) already added to the application tracker. */
+  const [trackedOffers, setTrackedOffers] = useState<Set<string>>(new Set());
+  const [pendingTrackedApplication, setPendingTrackedApplication] = useState<PendingTrackedApplication | null>(null);
   const { toast } = useToast();
 
+  const sessionState = useMemo<WizardSessionState>(() => ({
+    currentStep,
+    formState,
+    compatibilityResult,
+    tailoredResumeResult,
+    editedTailoredResumeText,
+    initialCompatibilityResultForStep3,
+    newCompatibilityAnalysisResultForStep3,
+    jobListingsResult,
+    batchResult,
+    coverLetterText,
+    resumeVersions,
+    activeResumeVersionId,
+    confirmedResumeClaims,
+  }), [currentStep, formState, compatibilityResult, tailoredResumeResult, editedTailoredResumeText, initialCompatibilityResultForStep3,
+    newCompatibilityAnalysisResultForStep3, jobListingsResult, batchResult, coverLetterText, resumeVersions, activeResumeVersionId,
+    confirmedResumeClaims]);
+  const { sessionId, saveStatus, adoptSession, startNewSession } = useWizardSession(sessionState);
+
+  const applySession = (session: WizardSession) => {
+    const { state } = session;
+    setCurrentStep(state.currentStep);
+    setFormState({ ...initialFormState, ...state.formState });
+    setCompatibilityResult(state.compatibilityResult);
+    setTailoredResumeResult(state.tailoredResumeResult);
+    setEditedTailoredResumeText(state.editedTailoredResumeText);
+    setInitialCompatibilityResultForStep3(state.initialCompatibilityResultForStep3);
+    setNewCompatibilityAnalysisResultForStep3(state.newCompatibilityAnalysisResultForStep3);
+    setJobListingsResult(state.jobListingsResult);
+    setBatchResult(state.batchResult);
+    setCoverLetterText(state.coverLetterText);
+    setResumeVersions(state.resumeVersions || []);
+    setActiveResumeVersionId(state.activeResumeVersionId ?? null);
+    setConfirmedResumeClaims(state.confirmedResumeClaims || []);
+    setResumePrompt(null);
+    adoptSession(session);
+  };
+
+  // The browser copy comes first: it still holds the uploaded files, which the server copy leaves out.
+  // The server copy only opens for the data access key that saved it.
+  const openSession = async (id: string) => {
+    try {
+      const dataAccessKey = getStoredDataAccessKey();
+      const session = await getLocalWizardSession(id) || (dataAccessKey ? await loadServerWizardSession({ id, dataAccessKey }) : null);
+      if (!session) {
+        toast({ variant: "destructive", title: t('sessionNotFoundTitle'), description: t('sessionNotFoundDescription') });
+        return;
+      }
+      applySession(session);
+      setHistoryOpen(false);
+    } catch (error) {
+      console.error(`Could not open wizard session ${id}:`, error);
+      toast({ variant: "destructive", title: t('sessionNotFoundTitle'), description: error instanceof Error ? error.message : String(error) });
+    }
+  };
+
+  // A reload reopens the session in the address bar; otherwise the latest session is offered.
+  useEffect(() => {
+    const sessionIdInUrl = new URL(window.location.href).searchParams.get(SESSION_URL_PARAM);
+    if (sessionIdInUrl) {
+      openSession(sessionIdInUrl);
+      return;
+    }
+    listLocalWizardSessions()
+      .then(sessions => setResumePrompt(sessions[0] || null))
+      .catch(error => console.error("Could not list the saved wizard sessions:", error));
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
   useEffect(() => {
     const resumeLang = appLanguage === 'es' ? 'Spanish' : 'English';
     if (formState.language !== resumeLang) {
@@ -74,6 +221,10 @@ export default function CareerCraftWizard() {
   }, [appLanguage]);
 
 
+  // Only the analyses of the user's own resume are stored, never those of the tailored versions.
+  const storageConsentInput = () =>
+    formState.storageConsent ? { storageConsent: true, dataAccessKey: getOrCreateDataAccessKey() } : {};
+
   const handleInputChange = (e: ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     setFormState(prev => ({ ...prev, [name]: value }));
@@ -101,19 +252,37 @@ export default function CareerCraftWizard() {
             setLoadingMessage('');
         }
         reader.readAsDataURL(file);
+      } else if (e.target.name === 'resumeFile' && (file.type === 'application/json' || file.name.toLowerCase().endsWith('.json'))) {
+        // JSON Resume files are validated and turned into resume text in the browser; no file is sent to the flows.
+        try {
+          const jsonResume = parseJsonResume(await file.text());
+          setFormState(prev => ({
+            ...prev,
+            resumeText: jsonResumeToResumeText(jsonResume, prev.language),
+            resumeFileName: file.name,
+            resumeFileMimeType: 'application/json',
+            resumeFileDataUri: '',
+          }));
+          toast({ title: t('jsonResumeImportedTitle'), description: t('jsonResumeImportedDescription', { fileName: file.name }) });
+        } catch (jsonError: any) {
+          console.error("JSON Resume import error:", jsonError);
+          toast({ variant: "destructive", title: t('jsonResumeInvalidTitle'), description: jsonError.message });
+          e.target.value = '';
+        }
       } else if (e.target.name === 'resumeFile') {
+        const mimeType = resolveResumeMimeType(file.name, file.type);
         setLoading(true);
         setLoadingMessage(t('processingFileMessage') || "Processing file...");
-        setFormState(prev => ({ ...prev, resumeFileName: file.name, resumeFileMimeType: file.type || 'application/pdf', resumeText: '' , resumeFileDataUri: ''}));
+        setFormState(prev => ({ ...prev, resumeFileName: file.name, resumeFileMimeType: mimeType || file.type, resumeText: '' , resumeFileDataUri: ''}));
 
-        if (file.type !== 'application/pdf') {
-          toast({ variant: "destructive", title: t('fileErrorTitle'), description: "Please select a valid PDF file for the resume." });
+        if (!mimeType) {
+          toast({ variant: "destructive", title: t('fileErrorTitle'), description: t('unsupportedResumeFileDescription') });
           setLoading(false); setLoadingMessage('');
           e.target.value = '';
           return;
         }
-        if (file.size > 10 * 1024 * 1024) {
-            toast({ variant: "destructive", title: t('fileErrorTitle'), description: "Resume PDF is too large. Maximum 10MB." });
+        if (file.size > MAX_RESUME_FILE_SIZE) {
+            toast({ variant: "destructive", title: t('fileErrorTitle'), description: "Resume file is too large. Maximum 10MB." });
             setLoading(false); setLoadingMessage('');
             e.target.value = '';
             return;
@@ -123,7 +292,8 @@ export default function CareerCraftWizard() {
         const dataUriReader = new FileReader();
         const dataUriPromise = new Promise<void>((resolve, reject) => {
             dataUriReader.onloadend = () => {
-                dataUri = dataUriReader.result as string;
+                // Browsers often report .odt/.rtf as application/octet-stream; the flows expect the real type.
+                dataUri = withDataUriMimeType(dataUriReader.result as string, mimeType);
                 resolve();
             };
             dataUriReader.onerror = () => {
@@ -133,6 +303,21 @@ export default function CareerCraftWizard() {
             dataUriReader.readAsDataURL(file);
         });
 
+        if (mimeType !== 'application/pdf') {
+          // Word, OpenDocument and RTF files are converted to text on the server by extractTextFromFileTool.
+          try {
+            await dataUriPromise;
+            setFormState(prev => ({...prev, resumeFileDataUri: dataUri}));
+            toast({ title: t('resumeFileUploadedTitle'), description: t('resumeFileServerExtractionDescription', { fileName: file.name }) });
+          } catch {
+            e.target.value = '';
+          } finally {
+            setLoading(false);
+            setLoadingMessage('');
+          }
+          return;
+        }
+
         const arrayBufferReader = new FileReader();
         arrayBufferReader.onload = async (event) => {
           try {
@@ -182,6 +367,8 @@ export default function CareerCraftWizard() {
 
 
   const resetWizard = () => {
+    startNewSession();
+    setResumePrompt(null);
     setCurrentStep(1);
     const resumeLang = appLanguage === 'es' ? 'Spanish' : 'English';
     setFormState({...initialFormState, language: resumeLang});
@@ -191,10 +378,128 @@ export default function CareerCraftWizard() {
     setInitialCompatibilityResultForStep3(null);
     setNewCompatibilityAnalysisResultForStep3(null);
     setJobListingsResult(null);
+    setBatchResult(null);
+    setCoverLetterText('');
+    setResumeVersions([]);
+    setActiveResumeVersionId(null);
+    setConfirmedResumeClaims([]);
+    setTrackedOffers(new Set());
     setLoading(false);
     setLoadingMessage('');
   };
 
+  const addToTracker = async ({ trackingKey, entry }: PendingTrackedApplication) => {
+    try {
+      await createApplication({ entry, dataAccessKey: getOrCreateDataAccessKey(), storageConsent: true });
+      setTrackedOffers(prev => new Set(prev).add(trackingKey));
+      toast({ title: t('trackerAddedTitle'), description: t('trackerAddedDescription', { title: entry.jobTitle }) });
+    } catch (error: any) {
+      console.error("Error adding the offer to the application tracker:", error);
+      toast({ variant: "destructive", title: t('trackerErrorTitle'), description: error.message || String(error) });
+    }
+  };
+
+  // Tracked entries are stored on the server with the tailored resume, so they need the same consent as the analyses.
+  const trackApplication = (trackingKey: string, entry: NewApplicationEntry) => {
+    if (formState.storageConsent) addToTracker({ trackingKey, entry });
+    else setPendingTrackedApplication({ trackingKey, entry });
+  };
+
+  const handleTrackingConsent = () => {
+    if (!pendingTrackedApplication) return;
+    setFormState(prev => ({ ...prev, storageConsent: true }));
+    addToTracker(pendingTrackedApplication);
+    setPendingTrackedApplication(null);
+  };
+
+  /** The offer the resume was tailored to, with the tailored resume and its latest score. */
+  const handleTrackTailoredOffer = () => trackApplication(sessionId, {
+    status: 'saved',
+    jobTitle: getWizardSessionTitle(sessionState) || t('sessionUntitled'),
+    jobOfferUrl: formState.jobOfferUrl.trim() || undefined,
+    jobDescription: formState.jobOfferText.trim() || undefined,
+    tailoredResumeText: editedTailoredResumeText || tailoredResumeResult?.tailoredResume,
+    sessionId,
+    compatibilityScore: (newCompatibilityAnalysisResultForStep3 || initialCompatibilityResultForStep3 || compatibilityResult)?.compatibilityScore,
+    contacts: [],
+    notes: '',
+  });
+
+  const handleTrackJobPosting = (job: ValidatedJobPosting) => trackApplication(job.link, {
+    status: 'saved',
+    jobTitle: job.title,
+    company: job.company,
+    location: job.location,
+    jobOfferUrl: job.link,
+    jobDescription: job.descriptionSnippet,
+    compatibilityScore: job.compatibilityScore,
+    contacts: [],
+    notes: '',
+  });
+
+  /** Adds a version to the library and loads it in the editor. */
+  const addResumeVersion = (version: NewResumeVersion) => {
+    const id = crypto.randomUUID();
+    setResumeVersions(prev => [...prev, createResumeVersion(prev, version, id)]);
+    setActiveResumeVersionId(id);
+  };
+
+  const recordGeneratedVersion = (builderResult: AIResumeBuilderOutput, compatibility?: CompatibilityOutput) => addResumeVersion({
+    source: 'generated',
+    text: builderResult.tailoredResume,
+    jobOfferTitle: getWizardSessionTitle(sessionState) || t('sessionUntitled'),
+    jobOfferUrl: formState.jobOfferUrl.trim() || undefined,
+    builderResult,
+    compatibility,
+  });
+
+  const activeResumeVersion = resumeVersions.find(version => version.id === activeResumeVersionId);
+  const hasUnsavedResumeEdits = !!editedTailoredResumeText.trim() && editedTailoredResumeText !== activeResumeVersion?.text;
+
+  /** Keeps the editor's text as a version of its own, so replacing it never loses the user's edits. */
+  const saveEditedResumeVersion = () => {
+    if (!hasUnsavedResumeEdits) return;
+    addResumeVersion({
+      source: 'edited',
+      text: editedTailoredResumeText,
+      parentId: activeResumeVersion?.id,
+      jobOfferTitle: activeResumeVersion?.jobOfferTitle || getWizardSessionTitle(sessionState) || t('sessionUntitled'),
+      jobOfferUrl: activeResumeVersion ? activeResumeVersion.jobOfferUrl : formState.jobOfferUrl.trim() || undefined,
+    });
+  };
+
+  const loadResumeVersion = (version: ResumeVersion) => {
+    setEditedTailoredResumeText(version.text);
+    if (version.builderResult) setTailoredResumeResult(version.builderResult);
+    if (version.compatibility) setNewCompatibilityAnalysisResultForStep3(version.compatibility);
+  };
+
+  const handleRestoreResumeVersion = (id: string) => {
+    const version = resumeVersions.find(existing => existing.id === id);
+    if (!version) return;
+    saveEditedResumeVersion();
+    loadResumeVersion(version);
+    setActiveResumeVersionId(id);
+  };
+
+  /** Copies a version into a new one, so it can be reworked while the original stays as it was. */
+  const handleBranchResumeVersion = (id: string) => {
+    const version = resumeVersions.find(existing => existing.id === id);
+    if (!version) return;
+    saveEditedResumeVersion();
+    const { id: _id, number: _number, createdAt: _createdAt, ...copy } = version;
+    addResumeVersion({ ...copy, source: 'branch', parentId: version.id });
+    loadResumeVersion(version);
+  };
+
+  const handleConfirmResumeClaim = (claim: string) => {
+    setConfirmedResumeClaims(prev => prev.includes(claim) ? prev : [...prev, claim]);
+  };
+
+  const handleDeleteResumeClaim = (claim: string) => {
+    setEditedTailoredResumeText(prev => removeResumeClaim(prev, claim));
+  };
+
   const handleRegenerateResume = async () => {
     if (!formState.jobOfferText && !formState.jobOfferUrl) {
       toast({ variant: "destructive", title: t('missingInfoTitle'), description: "Job offer information is missing to regenerate resume." });
@@ -205,6 +510,7 @@ export default function CareerCraftWizard() {
       return;
     }
 
+    saveEditedResumeVersion();
     setLoading(true);
     setLoadingMessage(t('regeneratingResumeMessage'));
     try {
@@ -213,7 +519,7 @@ export default function CareerCraftWizard() {
         jobOfferUrl: formState.jobOfferUrl || undefined,
         resume: formState.resumeText || undefined,
         resumeFileDataUri: formState.resumeText ? undefined : (formState.resumeFileDataUri || undefined),
-        resumeFileMimeType: formState.resumeText ? undefined : (formState.resumeFileDataUri ? 'application/pdf' : undefined),
+        resumeFileMimeType: formState.resumeText ? undefined : (formState.resumeFileDataUri ? formState.resumeFileMimeType : undefined),
         profilePhotoDataUri: formState.profilePhotoDataUri || undefined,
         language: formState.language,
       };
@@ -231,6 +537,7 @@ export default function CareerCraftWizard() {
         };
         const newAnalysis = await analyzeCompatibility(newAnalysisInput);
         setNewCompatibilityAnalysisResultForStep3(newAnalysis);
+        recordGeneratedVersion(builderResult, newAnalysis);
       } else {
         setNewCompatibilityAnalysisResultForStep3(null);
         toast({ variant: "warning", title: "Resume Regeneration Issue", description: "AI could not regenerate a tailored resume. New compatibility cannot be assessed."});
@@ -248,9 +555,152 @@ export default function CareerCraftWizard() {
     }
   };
 
+  const handleRewriteResumeSection = async ({ target, action, instructions }: ResumeSectionRewriteRequest): Promise<ResumeSectionRewriteOutput | null> => {
+    const jobDescription = tailoredResumeResult?.jobDescriptionText || formState.jobOfferText;
+    if (!jobDescription || !editedTailoredResumeText.trim()) {
+      toast({ variant: "destructive", title: t('missingInfoTitle'), description: t('sectionRewriteMissingInfoDescription') });
+      return null;
+    }
+
+    setLoading(true);
+    setLoadingMessage(t('sectionRewritingMessage'));
+    try {
+      return await rewriteResumeSection({
+        jobDescription,
+        resume: editedTailoredResumeText,
+        originalResume: formState.resumeText || undefined,
+        scope: target.scope,
+        sectionTitle: target.sectionTitle || undefined,
+        sectionText: target.text,
+        action,
+        instructions,
+        language: formState.language,
+      });
+    } catch (error) {
+      console.error("AI call failed (Section Rewrite):", error);
+      toast({
+          variant: "destructive",
+          title: t('aiErrorTitle') || "AI Error",
+          description: (error instanceof Error ? error.message : t('aiUnexpectedErrorDescription') || "An unexpected error occurred with the AI service."),
+      });
+      return null;
+    } finally {
+      setLoading(false);
+      setLoadingMessage('');
+    }
+  };
+
+  const handleGenerateCoverLetter = async () => {
+    const jobDescription = tailoredResumeResult?.jobDescriptionText || formState.jobOfferText;
+    const resume = editedTailoredResumeText || tailoredResumeResult?.tailoredResume;
+    if (!jobDescription || !resume) {
+      toast({ variant: "destructive", title: t('missingInfoTitle'), description: t('coverLetterMissingInfoDescription') });
+      return;
+    }
+
+    setLoading(true);
+    setLoadingMessage(t('generatingCoverLetterMessage'));
+    try {
+      const input: CoverLetterInput = {
+        jobDescription,
+        resume,
+        tone: formState.coverLetterTone,
+        length: formState.coverLetterLength,
+        addressee: formState.coverLetterAddressee.trim() || undefined,
+        language: formState.language,
+      };
+      const result = await generateCoverLetter(input);
+      setCoverLetterText(result.coverLetter);
+    } catch (error) {
+      console.error("AI call failed (Cover Letter):", error);
+      toast({
+          variant: "destructive",
+          title: t('aiErrorTitle') || "AI Error",
+          description: (error instanceof Error ? error.message : t('aiUnexpectedErrorDescription') || "An unexpected error occurred with the AI service."),
+      });
+    } finally {
+      setLoading(false);
+      setLoadingMessage('');
+    }
+  };
+
+  // The file is sent even with extracted text so the ATS report can check its layout, unless it is too large for that.
+  const getCompatibilityResumeFile = (): { resumeFileDataUri?: string; atsLayoutCheckSkipped?: boolean } => {
+    if (!formState.resumeFileDataUri) return {};
+    if (formState.resumeText && getDataUriByteSize(formState.resumeFileDataUri) > MAX_ATS_LAYOUT_FILE_SIZE) {
+      return { atsLayoutCheckSkipped: true };
+    }
+    return { resumeFileDataUri: formState.resumeFileDataUri };
+  };
+
+  const runBatchAnalysis = async () => {
+    const jobOffers = parseBatchJobOffers(formState.batchJobOffers);
+    if (jobOffers.length === 0 || (!formState.resumeText && !formState.resumeFileDataUri)) {
+      toast({ variant: "destructive", title: t('missingInfoTitle'), description: t('batchMissingInfoDescription') });
+      return;
+    }
+    if (jobOffers.length > MAX_BATCH_JOB_OFFERS) {
+      toast({ variant: "destructive", title: t('missingInfoTitle'), description: t('batchTooManyOffersDescription', { max: MAX_BATCH_JOB_OFFERS }) });
+      return;
+    }
+    if (formState.resumeFileDataUri && !isSupportedResumeMimeType(formState.resumeFileMimeType)) {
+      toast({ variant: "destructive", title: t('fileErrorTitle'), description: t('mimeTypeMissingDescription') });
+      return;
+    }
+    setLoading(true);
+    setLoadingMessage(t('analyzingBatchMessage'));
+    try {
+      const { resumeFileDataUri, atsLayoutCheckSkipped } = getCompatibilityResumeFile();
+      const input: BatchCompatibilityInput = {
+        jobOffers,
+        resume: formState.resumeText || undefined,
+        resumeFileDataUri,
+        resumeFileName: formState.resumeFileName || undefined,
+        resumeFileMimeType: resumeFileDataUri ? formState.resumeFileMimeType : undefined,
+        atsLayoutCheckSkipped,
+        language: formState.language,
+        ...storageConsentInput(),
+      };
+      const result = await analyzeCompatibilityBatch(input);
+      setBatchResult(result);
+      setCurrentStep(2);
+    } catch (error) {
+      console.error("AI call failed (Batch analysis):", error);
+      toast({
+          variant: "destructive",
+          title: t('aiErrorTitle') || "AI Error",
+          description: (error instanceof Error ? error.message : t('aiUnexpectedErrorDescription') || "An unexpected error occurred with the AI service."),
+      });
+    } finally {
+      setLoading(false);
+      setLoadingMessage('');
+    }
+  };
+
+  // Continues with a single offer of the batch as if it had been analyzed on its own.
+  const handleTailorBatchOffer = (row: BatchCompatibilityResult) => {
+    if (!row.analysis) return;
+    setFormState(prev => ({
+      ...prev,
+      offerMode: 'single',
+      jobOfferTitle: '',
+      jobOfferText: row.jobDescription || '',
+      jobOfferUrl: row.jobDescription ? '' : (row.jobOfferUrl || ''),
+    }));
+    setCompatibilityResult(row.analysis);
+    setTailoredResumeResult(null);
+    setEditedTailoredResumeText('');
+    setActiveResumeVersionId(null);
+    setInitialCompatibilityResultForStep3(null);
+    setNewCompatibilityAnalysisResultForStep3(null);
+    setCoverLetterText('');
+    setCurrentStep(2);
+  };
 
   const handleNextStep = async () => {
-    if (currentStep === 1) {
+    if (currentStep === 1 && formState.offerMode === 'batch') {
+      await runBatchAnalysis();
+    } else if (currentStep === 1) {
       if ((!formState.jobOfferText && !formState.jobOfferUrl) || (!formState.resumeText && !formState.resumeFileDataUri)) {
         toast({
             variant: "destructive",
@@ -259,25 +709,28 @@ export default function CareerCraftWizard() {
         });
         return;
       }
-       if (formState.resumeFileDataUri && formState.resumeFileMimeType && formState.resumeFileMimeType !== 'application/pdf') {
+       if (formState.resumeFileDataUri && !isSupportedResumeMimeType(formState.resumeFileMimeType)) {
         toast({
           variant: "destructive",
           title: t('fileErrorTitle') || "File Error",
-          description: t('mimeTypeMissingDescription') || "Resume file must be a PDF.",
+          description: t('mimeTypeMissingDescription') || "Resume file must be a PDF, DOCX, ODT or RTF file.",
         });
         return;
       }
       setLoading(true);
       setLoadingMessage(t('analyzingCompatibilityMessage'));
       try {
+        const { resumeFileDataUri, atsLayoutCheckSkipped } = getCompatibilityResumeFile();
         const input: CompatibilityInput = {
             jobDescription: formState.jobOfferText || undefined,
             jobOfferUrl: formState.jobOfferUrl || undefined,
             resume: formState.resumeText || undefined,
-            resumeFileDataUri: formState.resumeText ? undefined : (formState.resumeFileDataUri || undefined),
+            resumeFileDataUri,
             resumeFileName: formState.resumeFileName || undefined,
-            resumeFileMimeType: formState.resumeText ? undefined : (formState.resumeFileDataUri ? 'application/pdf' : undefined),
+            resumeFileMimeType: resumeFileDataUri ? formState.resumeFileMimeType : undefined,
+            atsLayoutCheckSkipped,
             language: formState.language,
+            ...storageConsentInput(),
         };
         const result = await analyzeCompatibility(input);
         setCompatibilityResult(result);
@@ -294,11 +747,11 @@ export default function CareerCraftWizard() {
         setLoadingMessage('');
       }
     } else if (currentStep === 2) {
-      if (formState.resumeFileDataUri && formState.resumeFileMimeType && formState.resumeFileMimeType !== 'application/pdf' && !formState.resumeText) {
+      if (formState.resumeFileDataUri && !isSupportedResumeMimeType(formState.resumeFileMimeType) && !formState.resumeText) {
          toast({
           variant: "destructive",
           title: t('fileErrorTitle') || "File Error",
-          description: t('mimeTypeMissingDescriptionBuild') || "Resume file type is missing or not PDF. Cannot build resume.",
+          description: t('mimeTypeMissingDescriptionBuild') || "Resume file type is missing or not supported. Cannot build resume.",
         });
         return;
       }
@@ -310,7 +763,7 @@ export default function CareerCraftWizard() {
           jobOfferUrl: formState.jobOfferUrl || undefined,
           resume: formState.resumeText || undefined,
           resumeFileDataUri: formState.resumeText ? undefined : (formState.resumeFileDataUri || undefined),
-          resumeFileMimeType: formState.resumeText ? undefined : (formState.resumeFileDataUri ? 'application/pdf' : undefined),
+          resumeFileMimeType: formState.resumeText ? undefined : (formState.resumeFileDataUri ? formState.resumeFileMimeType : undefined),
           profilePhotoDataUri: formState.profilePhotoDataUri || undefined,
           language: formState.language,
         };
@@ -329,6 +782,7 @@ export default function CareerCraftWizard() {
           };
           const newAnalysis = await analyzeCompatibility(newAnalysisInput);
           setNewCompatibilityAnalysisResultForStep3(newAnalysis);
+          recordGeneratedVersion(builderResult, newAnalysis);
         } else {
           setNewCompatibilityAnalysisResultForStep3(null);
           toast({ variant: "warning", title: "Resume Building Issue", description: "AI could not generate a tailored resume. New compatibility cannot be assessed."});
@@ -347,39 +801,52 @@ export default function CareerCraftWizard() {
         setLoadingMessage('');
       }
     } else if (currentStep === 3) {
-      const resumeTextForSearch = editedTailoredResumeText || tailoredResumeResult?.tailoredResume;
-      if (!resumeTextForSearch) {
-         toast({
-            variant: "destructive",
-            title: t('missingResumeTitle') || "Missing Resume",
-            description: t('missingResumeDescription') || "No tailored resume available to search for jobs."
-        });
-        return;
-      }
-      setLoading(true);
-      setLoadingMessage(t('searchingJobsMessage'));
-      try {
-        const input: AutomatedJobSearchInput = {
-          resume: resumeTextForSearch,
-          jobTitle: formState.jobOfferTitle || undefined,
-        };
-        const result = await automatedJobSearch(input);
-        setJobListingsResult(result);
+      if (await runJobSearch()) {
         setCurrentStep(4);
-      } catch (error) {
-         console.error("AI call failed (Step 3 to 4):", error);
-        toast({
-            variant: "destructive",
-            title: t('aiErrorTitle') || "AI Error",
-            description: (error instanceof Error ? error.message : t('aiUnexpectedErrorDescription') || "An unexpected error occurred with the AI service."),
-        });
-      } finally {
-        setLoading(false);
-        setLoadingMessage('');
       }
     }
   };
 
+  const runJobSearch = async (): Promise<boolean> => {
+    const resumeTextForSearch = editedTailoredResumeText || tailoredResumeResult?.tailoredResume;
+    if (!resumeTextForSearch) {
+       toast({
+          variant: "destructive",
+          title: t('missingResumeTitle') || "Missing Resume",
+          description: t('missingResumeDescription') || "No tailored resume available to search for jobs."
+      });
+      return false;
+    }
+    setLoading(true);
+    setLoadingMessage(t('searchingJobsMessage'));
+    try {
+      const radiusKm = Number(formState.searchRadiusKm);
+      const input: AutomatedJobSearchInput = {
+        resume: resumeTextForSearch,
+        jobTitle: formState.jobOfferTitle || undefined,
+        country: formState.searchCountry,
+        city: formState.searchCity.trim() || undefined,
+        radiusKm: formState.searchCity.trim() && radiusKm > 0 ? radiusKm : undefined,
+        workMode: formState.searchWorkMode,
+        language: formState.language,
+      };
+      const result = await automatedJobSearch(input);
+      setJobListingsResult(result);
+      return true;
+    } catch (error) {
+       console.error("AI call failed (Job Search):", error);
+      toast({
+          variant: "destructive",
+          title: t('aiErrorTitle') || "AI Error",
+          description: (error instanceof Error ? error.message : t('aiUnexpectedErrorDescription') || "An unexpected error occurred with the AI service."),
+      });
+      return false;
+    } finally {
+      setLoading(false);
+      setLoadingMessage('');
+    }
+  };
+
   const handlePreviousStep = () => {
     if (currentStep > 1) {
       setCurrentStep(prev => prev - 1);
@@ -391,6 +858,9 @@ export default function CareerCraftWizard() {
       case 1:
         return <InformationGatheringStep formState={formState} onInputChange={handleInputChange} onFileChange={handleFileChange} isLoadingFile={loading && !!loadingMessage.includes(t('processingFileMessage'))}/>;
       case 2:
+        if (formState.offerMode === 'batch') {
+          return <BatchComparisonStep result={batchResult} loading={loading} onTailor={handleTailorBatchOffer} />;
+        }
         return <CompatibilityAnalysisStep result={compatibilityResult} loading={loading} />;
       case 3:
         return <ResumeBuilderStep
@@ -404,9 +874,32 @@ export default function CareerCraftWizard() {
                   initialCompatibilityResult={initialCompatibilityResultForStep3}
                   newCompatibilityAnalysisResult={newCompatibilityAnalysisResultForStep3}
                   onRegenerateResume={handleRegenerateResume}
+                  formState={formState}
+                  onInputChange={handleInputChange}
+                  coverLetter={coverLetterText}
+                  onCoverLetterChange={setCoverLetterText}
+                  onGenerateCoverLetter={handleGenerateCoverLetter}
+                  resumeVersions={resumeVersions}
+                  activeResumeVersionId={activeResumeVersionId}
+                  hasUnsavedResumeEdits={hasUnsavedResumeEdits}
+                  onSaveResumeVersion={saveEditedResumeVersion}
+                  onRestoreResumeVersion={handleRestoreResumeVersion}
+                  onBranchResumeVersion={handleBranchResumeVersion}
+                  onRewriteResumeSection={handleRewriteResumeSection}
+                  confirmedResumeClaims={confirmedResumeClaims}
+                  onConfirmResumeClaim={handleConfirmResumeClaim}
+                  onDeleteResumeClaim={handleDeleteResumeClaim}
                 />;
       case 4:
-        return <JobSearchStep result={jobListingsResult} loading={loading} />;
+        return <JobSearchStep
+                  result={jobListingsResult}
+                  loading={loading}
+                  formState={formState}
+                  onInputChange={handleInputChange}
+                  onSearch={runJobSearch}
+                  trackedJobLinks={trackedOffers}
+                  onTrackJobPosting={handleTrackJobPosting}
+                />;
       default:
         return <InformationGatheringStep formState={formState} onInputChange={handleInputChange} onFileChange={handleFileChange} isLoadingFile={loading && !!loadingMessage.includes(t('processingFileMessage'))}/>;
     }
@@ -414,7 +907,7 @@ export default function CareerCraftWizard() {
 
   const stepTitles: Record<number, string> = {
     1: t('step1Title'),
-    2: t('step2Title'),
+    2: formState.offerMode === 'batch' ? t('step2BatchTitle') : t('step2Title'),
     3: t('step3Title'),
     4: t('step4Title'),
   };
@@ -426,8 +919,55 @@ export default function CareerCraftWizard() {
         <p className="text-muted-foreground">
           {stepTitles[currentStep]}
         </p>
+        <div className="mt-2 flex items-center justify-center gap-3 text-xs text-muted-foreground">
+          {saveStatus === 'saving' && <span className="flex items-center gap-1"><Loader2 className="h-3 w-3 animate-spin" />{t('sessionSaving')}</span>}
+          {saveStatus === 'saved' && <span className="flex items-center gap-1"><CheckCircle2 className="h-3 w-3" />{t('sessionSaved')}</span>}
+          {saveStatus === 'error' && <span className="flex items-center gap-1 text-destructive"><CloudOff className="h-3 w-3" />{t('sessionSaveFailed')}</span>}
+          <Button variant="ghost" size="sm" className="h-7 px-2 text-xs" onClick={() => setHistoryOpen(true)} disabled={loading}>
+            <History className="mr-1 h-3 w-3" />{t('sessionHistoryButton')}
+          </Button>
+        </div>
       </div>
 
+      {resumePrompt && !hasWizardSessionProgress(sessionState) && (
+        <Alert>
+          <History className="h-5 w-5" />
+          <AlertTitle>{t('sessionResumePromptTitle')}</AlertTitle>
+          <AlertDescription className="flex flex-wrap items-center justify-between gap-3">
+            <span>
+              {t('sessionResumePromptDescription', {
+                title: resumePrompt.title || t('sessionUntitled'),
+                date: new Date(resumePrompt.updatedAt).toLocaleString(appLanguage),
+              })}
+            </span>
+            <span className="flex gap-2">
+              <Button size="sm" variant="outline" onClick={() => setResumePrompt(null)}>{t('sessionStartFreshButton')}</Button>
+              <Button size="sm" onClick={() => openSession(resumePrompt.id)}>{t('sessionResumeButton')}</Button>
+            </span>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <SessionHistoryDialog
+        open={historyOpen}
+        onOpenChange={setHistoryOpen}
+        currentSessionId={sessionId}
+        onOpenSession={openSession}
+      />
+
+      <AlertDialog open={!!pendingTrackedApplication} onOpenChange={open => !open && setPendingTrackedApplication(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t('trackerConsentTitle')}</AlertDialogTitle>
+            <AlertDialogDescription>{t('trackerConsentDescription')}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t('trackerConsentCancelButton')}</AlertDialogCancel>
+            <AlertDialogAction onClick={handleTrackingConsent}>{t('trackerConsentConfirmButton')}</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {renderStep()}
 
       <div className="flex justify-between items-center pt-6 border-t">
@@ -438,11 +978,20 @@ export default function CareerCraftWizard() {
         )}
         {currentStep === 1 && <div></div>} {/* Placeholder to keep spacing consistent */}
 
-        {currentStep < 4 ? (
+        {currentStep >= 3 && tailoredResumeResult && (
+          <Button variant="outline" onClick={handleTrackTailoredOffer} disabled={loading || trackedOffers.has(sessionId)}>
+            <KanbanSquare className="mr-2 h-4 w-4" />
+            {trackedOffers.has(sessionId) ? t('trackerTrackedButton') : t('trackerTrackOfferButton')}
+          </Button>
+        )}
+
+        {currentStep === 2 && formState.offerMode === 'batch' ? (
+          <div></div> /* Each offer is tailored from its row in the comparison table */
+        ) : currentStep < 4 ? (
           <Button onClick={handleNextStep} disabled={loading}>
             {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-            {loading && loadingMessage ? loadingMessage : (currentStep === 1 ? t('analyzeButton') : currentStep === 2 ? t('buildResumeButton') : t('findJobsButton'))}
-            {!loading && (currentStep === 1 ? t('analyzeButton') : currentStep === 2 ? t('buildResumeButton') : t('findJobsButton'))}
+            {loading && loadingMessage ? loadingMessage : (currentStep === 1 ? t(formState.offerMode === 'batch' ? 'analyzeBatchButton' : 'analyzeButton') : currentStep === 2 ? t('buildResumeButton') : t('findJobsButton'))}
+            {!loading && (currentStep === 1 ? t(formState.offerMode === 'batch' ? 'analyzeBatchButton' : 'analyzeButton') : currentStep === 2 ? t('buildResumeButton') : t('findJobsButton'))}
             {!loading && <ArrowRight className="ml-2 h-4 w-4" />}
           </Button>
         ) : (
@@ -0,0 +1,155 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { useToast } from "@/hooks/use-toast";
+import { Download, KeyRound, Loader2, Trash2 } from 'lucide-react';
+
+import { eraseMyData, exportMyData } from '@/app/my-data/actions';
+import { useLanguage } from '@/contexts/language-context';
+import { getStoredDataAccessKey } from '@/lib/data-access-key';
+
+export default function MyDataManager() {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [dataAccessKey, setDataAccessKey] = useState('');
+  const [hasStoredKey, setHasStoredKey] = useState(true);
+  const [pendingAction, setPendingAction] = useState<'export' | 'erase' | null>(null);
+
+  // localStorage only exists in the browser, so the key is read after mounting.
+  useEffect(() => {
+    const storedKey = getStoredDataAccessKey();
+    setHasStoredKey(Boolean(storedKey));
+    if (storedKey) setDataAccessKey(storedKey);
+  }, []);
+
+  const request = () => ({ dataAccessKey: dataAccessKey.trim() });
+  const canSubmit = dataAccessKey.trim() !== '' && pendingAction === null;
+
+  const showError = (error: unknown) => {
+    console.error("My data request failed:", error);
+    toast({ variant: "destructive", title: t('myDataErrorTitle'), description: error instanceof Error ? error.message : String(error) });
+  };
+
+  const handleExport = async () => {
+    if (!canSubmit) {
+      toast({ variant: "destructive", title: t('missingInfoTitle'), description: t('myDataMissingInfoDescription') });
+      return;
+    }
+    setPendingAction('export');
+    try {
+      const result = await exportMyData(request());
+      if (!result.storageEnabled) {
+        toast({ title: t('myDataExportedTitle'), description: t('myDataStorageDisabledDescription') });
+        return;
+      }
+      const count = result.records.length + result.wizardSessions.length + result.applications.length;
+      if (count === 0) {
+        toast({ title: t('myDataExportedTitle'), description: t('myDataNothingStoredDescription') });
+        return;
+      }
+      const data = { candidateRecords: result.records, wizardSessions: result.wizardSessions, applications: result.applications };
+      const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json;charset=utf-8' });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = 'NailedJob_MyData.json';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      toast({ title: t('myDataExportedTitle'), description: t('myDataExportedDescription', { count }) });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  const handleErase = async () => {
+    setPendingAction('erase');
+    try {
+      const result = await eraseMyData(request());
+      if (!result.storageEnabled) {
+        toast({ title: t('myDataErasedTitle'), description: t('myDataStorageDisabledDescription') });
+      } else if (result.erasedCount === 0) {
+        toast({ title: t('myDataErasedTitle'), description: t('myDataNothingStoredDescription') });
+      } else {
+        toast({ title: t('myDataErasedTitle'), description: t('myDataErasedDescription', { count: result.erasedCount }) });
+      }
+    } catch (error) {
+      showError(error);
+    } finally {
+      setPendingAction(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h2 className="text-3xl font-semibold text-foreground">{t('myDataTitle')}</h2>
+        <p className="text-muted-foreground">{t('myDataSubtitle')}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('myDataRequestTitle')}</CardTitle>
+          <CardDescription>{t('myDataRequestDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <Label htmlFor="myDataAccessKey">
+              <KeyRound className="inline-block mr-1 h-4 w-4 align-text-bottom" />
+              {t('myDataKeyLabel')}
+            </Label>
+            <Input
+              id="myDataAccessKey"
+              value={dataAccessKey}
+              onChange={(e) => setDataAccessKey(e.target.value)}
+              placeholder={t('myDataKeyPlaceholder')}
+              className="mt-1 font-mono"
+              disabled={pendingAction !== null}
+            />
+            {!hasStoredKey && <p className="text-xs text-muted-foreground mt-1">{t('myDataNoKeyHint')}</p>}
+          </div>
+          <div className="flex flex-wrap justify-end gap-2">
+            <Button variant="outline" onClick={handleExport} disabled={!canSubmit}>
+              {pendingAction === 'export' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Download className="mr-2 h-4 w-4" />}
+              {t('myDataExportButton')}
+            </Button>
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button variant="destructive" disabled={!canSubmit}>
+                  {pendingAction === 'erase' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                  {t('myDataEraseButton')}
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>{t('myDataEraseConfirmTitle')}</AlertDialogTitle>
+                  <AlertDialogDescription>{t('myDataEraseConfirmDescription')}</AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>{t('myDataCancelButton')}</AlertDialogCancel>
+                  <AlertDialogAction onClick={handleErase}>{t('myDataEraseConfirmButton')}</AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+"use client";
+
+import { useMemo, useState, type ChangeEvent } from 'react';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle2, Download, FileText, Link2, Loader2, Trash2, UploadCloud, Users, XCircle } from 'lucide-react';
+
+import { analyzeCompatibility } from '@/ai/flows/resume-compatibility-analysis';
+import { useLanguage } from '@/contexts/language-context';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { MAX_RESUME_FILE_SIZE, RESUME_FILE_ACCEPT, resolveResumeMimeType, withDataUriMimeType } from '@/lib/resume-file-types';
+import {
+  buildShortlist,
+  formatExperienceSummary,
+  MAX_SCREENED_RESUMES,
+  SCREENING_CONCURRENCY,
+  shortlistToCsv,
+  type ScreenedResume,
+} from '@/lib/candidate-shortlist';
+
+interface UploadedResume extends ScreenedResume {
+  mimeType: string;
+  dataUri: string;
+  status: 'pending' | 'analyzing' | 'done' | 'failed';
+}
+
+const VISIBLE_SKILLS = 6;
+
+// Same thresholds as the compatibility analysis step.
+const getScoreBadgeClass = (score: number) => {
+  if (score < 60) return 'bg-red-500 hover:bg-red-500';
+  if (score < 70) return 'bg-yellow-500 hover:bg-yellow-500';
+  if (score < 80) return 'bg-blue-500 hover:bg-blue-500';
+  return 'bg-green-500 hover:bg-green-500';
+};
+
+const readAsDataUri = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+export default function RecruiterWorkbench() {
+  const { t, language } = useLanguage();
+  const { toast } = useToast();
+  const [jobOfferText, setJobOfferText] = useState('');
+  const [jobOfferUrl, setJobOfferUrl] = useState('');
+  const [resumes, setResumes] = useState<UploadedResume[]>([]);
+  const [running, setRunning] = useState(false);
+  // Job offer the finished analyses belong to; editing the offer makes every resume be analyzed again.
+  const [rankedOfferKey, setRankedOfferKey] = useState('');
+
+  const shortlist = useMemo(() => buildShortlist(resumes), [resumes]);
+  const finishedCount = resumes.filter(resume => resume.status === 'done' || resume.status === 'failed').length;
+
+  const updateResume = (id: string, changes: Partial<UploadedResume>) => {
+    setResumes(prev => prev.map(resume => (resume.id === id ? { ...resume, ...changes } : resume)));
+  };
+
+  const handleFilesChange = async (e: ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    const room = MAX_SCREENED_RESUMES - resumes.length;
+    if (files.length > room) {
+      toast({ variant: "destructive", title: t('fileErrorTitle'), description: t('recruiterTooManyResumesDescription', { max: MAX_SCREENED_RESUMES }) });
+    }
+
+    const added: UploadedResume[] = [];
+    for (const file of files.slice(0, Math.max(0, room))) {
+      const mimeType = resolveResumeMimeType(file.name, file.type);
+      if (!mimeType || file.size > MAX_RESUME_FILE_SIZE) {
+        toast({ variant: "destructive", title: t('fileErrorTitle'), description: t('recruiterSkippedFileDescription', { fileName: file.name }) });
+        continue;
+      }
+      try {
+        added.push({
+          id: `${Date.now()}-${added.length}-${file.name}`,
+          fileName: file.name,
+          mimeType,
+          // Browsers often report .odt/.rtf as application/octet-stream; the flow expects the real type.
+          dataUri: withDataUriMimeType(await readAsDataUri(file), mimeType),
+          status: 'pending',
+        });
+      } catch (readError) {
+        console.error(`Could not read ${file.name}:`, readError);
+        toast({ variant: "destructive", title: t('fileErrorTitle'), description: t('recruiterSkippedFileDescription', { fileName: file.name }) });
+      }
+    }
+    setResumes(prev => [...prev, ...added]);
+  };
+
+  const handleRank = async () => {
+    if ((!jobOfferText.trim() && !jobOfferUrl.trim()) || resumes.length === 0) {
+      toast({ variant: "destructive", title: t('missingInfoTitle'), description: t('recruiterMissingInfoDescription') });
+      return;
+    }
+    const resumeLanguage = language === 'es' ? 'Spanish' : 'English';
+    const offerKey = `${jobOfferText.trim()}\n${jobOfferUrl.trim()}`;
+    const isDone = (resume: UploadedResume) => offerKey === rankedOfferKey && resume.status === 'done';
+    const queue = resumes.filter(resume => !isDone(resume));
+    setRunning(true);
+    setRankedOfferKey(offerKey);
+    setResumes(prev => prev.map(resume => (isDone(resume) ? resume : { ...resume, status: 'pending', analysis: undefined, error: undefined })));
+
+    let jobDescription = jobOfferText.trim() || undefined;
+    const analyze = async (resume: UploadedResume) => {
+      updateResume(resume.id, { status: 'analyzing' });
+      try {
+        const analysis = await analyzeCompatibility({
+          jobDescription,
+          jobOfferUrl: jobDescription ? undefined : jobOfferUrl.trim(),
+          resumeFileDataUri: resume.dataUri,
+          resumeFileMimeType: resume.mimeType,
+          resumeFileName: resume.fileName,
+          language: resumeLanguage,
+        });
+        jobDescription = jobDescription || analysis.jobDescriptionText;
+        updateResume(resume.id, { status: 'done', analysis });
+      } catch (error) {
+        console.error(`AI call failed (Recruiter screening of ${resume.fileName}):`, error);
+        updateResume(resume.id, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    };
+
+    try {
+      // With only a URL, the first analysis fetches the offer once; the rest reuse its text.
+      const remaining = [...queue];
+      if (!jobDescription && remaining.length > 0) await analyze(remaining.shift()!);
+      await mapWithConcurrency(remaining, SCREENING_CONCURRENCY, analyze);
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const handleExportCsv = () => {
+    const csv = shortlistToCsv(shortlist, {
+      rank: t('shortlistColumnRank'),
+      name: t('shortlistColumnName'),
+      email: t('shortlistColumnEmail'),
+      score: t('shortlistColumnScore'),
+      mustHaves: t('shortlistColumnMustHaves'),
+      skills: t('shortlistColumnSkills'),
+      experience: t('shortlistColumnExperience'),
+      fileName: t('shortlistColumnFile'),
+      error: t('shortlistColumnError'),
+    });
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'NailedJob_Shortlist.csv';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="text-center">
+        <h2 className="text-3xl font-semibold text-foreground">{t('recruiterTitle')}</h2>
+        <p className="text-muted-foreground">{t('recruiterSubtitle')}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('jobOfferDetailsTitle')}</CardTitle>
+          <CardDescription>{t('recruiterJobOfferDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <Label htmlFor="recruiterJobOfferText">
+              <FileText className="inline-block mr-1 h-4 w-4 align-text-bottom" />
+              {t('jobOfferTextLabel')}
+            </Label>
+            <Textarea
+              id="recruiterJobOfferText"
+              value={jobOfferText}
+              onChange={(e) => setJobOfferText(e.target.value)}
+              placeholder={t('jobOfferTextPlaceholder')}
+              rows={6}
+              className="mt-1"
+              disabled={running}
+            />
+          </div>
+          <div className="text-center my-2 text-sm text-muted-foreground">{t('orSeparator')}</div>
+          <div>
+            <Label htmlFor="recruiterJobOfferUrl">
+              <Link2 className="inline-block mr-1 h-4 w-4 align-text-bottom" />
+              {t('jobOfferUrlLabel')}
+            </Label>
+            <Input
+              id="recruiterJobOfferUrl"
+              type="url"
+              value={jobOfferUrl}
+              onChange={(e) => setJobOfferUrl(e.target.value)}
+              placeholder={t('jobOfferUrlPlaceholder')}
+              className="mt-1"
+              disabled={running}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>{t('recruiterResumesTitle')}</CardTitle>
+          <CardDescription>{t('recruiterResumesDescription', { max: MAX_SCREENED_RESUMES })}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <Label htmlFor="recruiterResumeFiles">
+              <UploadCloud className="inline-block mr-1 h-4 w-4 align-text-bottom" />
+              {t('recruiterResumeFilesLabel')}
+            </Label>
+            <Input
+              id="recruiterResumeFiles"
+              type="file"
+              multiple
+              accept={RESUME_FILE_ACCEPT}
+              onChange={handleFilesChange}
+              className="mt-1"
+              disabled={running || resumes.length >= MAX_SCREENED_RESUMES}
+            />
+          </div>
+          {resumes.length > 0 && (
+            <ul className="divide-y rounded-md border text-sm">
+              {resumes.map(resume => (
+                <li key={resume.id} className="flex items-center gap-2 px-3 py-2">
+                  {resume.status === 'analyzing' && <Loader2 className="h-4 w-4 shrink-0 animate-spin text-primary" />}
+                  {resume.status === 'done' && <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />}
+                  {resume.status === 'failed' && <XCircle className="h-4 w-4 shrink-0 text-red-600" />}
+                  {resume.status === 'pending' && <FileText className="h-4 w-4 shrink-0 text-muted-foreground" />}
+                  <span className="flex-1 truncate" title={resume.error || resume.fileName}>{resume.fileName}</span>
+                  <span className="text-xs text-muted-foreground">{t(`recruiterResumeStatus_${resume.status}`)}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => setResumes(prev => prev.filter(item => item.id !== resume.id))}
+                    disabled={running}
+                    aria-label={t('recruiterRemoveResume', { fileName: resume.fileName })}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {running && (
+            <div className="space-y-1">
+              <Progress value={(finishedCount / resumes.length) * 100} className="h-2" />
+              <p className="text-xs text-muted-foreground">{t('recruiterProgress', { done: finishedCount, total: resumes.length })}</p>
+            </div>
+          )}
+          <div className="flex justify-end">
+            <Button onClick={handleRank} disabled={running || resumes.length === 0}>
+              {running ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Users className="mr-2 h-4 w-4" />}
+              {running ? t('recruiterRankingButton') : t('recruiterRankButton')}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {shortlist.length > 0 && (
+        <Card className="shadow-lg">
+          <CardHeader className="flex flex-row flex-wrap items-start justify-between gap-3 space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>{t('shortlistTitle')}</CardTitle>
+              <CardDescription>{t('shortlistDescription')}</CardDescription>
+            </div>
+            <Button variant="outline" onClick={handleExportCsv} disabled={running}>
+              <Download className="mr-2 h-4 w-4" />{t('shortlistExportCsvButton')}
+            </Button>
+          </CardHeader>
+          <CardContent>
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-12">{t('shortlistColumnRank')}</TableHead>
+                    <TableHead>{t('shortlistColumnCandidate')}</TableHead>
+                    <TableHead>{t('shortlistColumnScore')}</TableHead>
+                    <TableHead>{t('shortlistColumnMustHaves')}</TableHead>
+                    <TableHead>{t('shortlistColumnSkills')}</TableHead>
+                    <TableHead>{t('shortlistColumnExperience')}</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {shortlist.map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="font-semibold tabular-nums">{entry.rank ?? '—'}</TableCell>
+                      <TableCell className="max-w-[14rem]">
+                        <p className="truncate font-medium" title={entry.explanation}>{entry.nombre || entry.fileName}</p>
+                        {entry.email && <a href={`mailto:${entry.email}`} className="block truncate text-xs text-primary hover:underline">{entry.email}</a>}
+                        {entry.nombre && <p className="truncate text-xs text-muted-foreground">{entry.fileName}</p>}
+                      </TableCell>
+                      {entry.compatibilityScore === undefined ? (
+                        <TableCell colSpan={4} className="text-sm text-destructive">{t('recruiterAnalysisFailed', { error: entry.error || '' })}</TableCell>
+                      ) : (
+                        <>
+                          <TableCell>
+                            <Badge className={getScoreBadgeClass(entry.compatibilityScore)}>{entry.compatibilityScore}%</Badge>
+                          </TableCell>
+                          <TableCell className="tabular-nums text-sm">
+                            {entry.mustHavesTotal ? `${entry.mustHavesMatched}/${entry.mustHavesTotal}` : '—'}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex max-w-[16rem] flex-wrap gap-1">
+                              {entry.habilidades.slice(0, VISIBLE_SKILLS).map(skill => (
+                                <Badge key={skill} variant="secondary" className="text-xs font-normal">{skill}</Badge>
+                              ))}
+                              {entry.habilidades.length > VISIBLE_SKILLS && (
+                                <Badge variant="outline" className="text-xs font-normal" title={entry.habilidades.slice(VISIBLE_SKILLS).join(', ')}>
+                                  +{entry.habilidades.length - VISIBLE_SKILLS}
+                                </Badge>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="max-w-[16rem] text-xs">
+                            {formatExperienceSummary(entry.experienciaLaboral).slice(0, 2).map(line => (
+                              <p key={line} className="truncate" title={line}>{line}</p>
+                            ))}
+                          </TableCell>
+                        </>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
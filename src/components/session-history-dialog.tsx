@@ -0,0 +1,87 @@
+"use client";
+
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { FolderOpen, Loader2, Trash2 } from 'lucide-react';
+
+import { useLanguage } from '@/contexts/language-context';
+import type { WizardSessionSummary } from '@/lib/wizard-session';
+import { deleteLocalWizardSession, listLocalWizardSessions } from '@/lib/wizard-session-db';
+import { getStoredDataAccessKey } from '@/lib/data-access-key';
+import { deleteServerWizardSession } from '@/lib/wizard-session-store/actions';
+
+interface SessionHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  currentSessionId: string;
+  onOpenSession: (id: string) => void;
+}
+
+export function SessionHistoryDialog({ open, onOpenChange, currentSessionId, onOpenSession }: SessionHistoryDialogProps) {
+  const { t, language } = useLanguage();
+  const [sessions, setSessions] = useState<WizardSessionSummary[] | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    setSessions(null);
+    listLocalWizardSessions()
+      .then(setSessions)
+      .catch(error => {
+        console.error("Could not list the saved wizard sessions:", error);
+        setSessions([]);
+      });
+  }, [open]);
+
+  const handleDelete = async (id: string) => {
+    setSessions(prev => prev && prev.filter(session => session.id !== id));
+    await deleteLocalWizardSession(id).catch(error => console.error(`Could not delete wizard session ${id}:`, error));
+    // Without a data access key this browser never saved a server copy it could remove.
+    const dataAccessKey = getStoredDataAccessKey();
+    if (dataAccessKey) deleteServerWizardSession({ id, dataAccessKey }).catch(error => console.error(`Could not delete the server copy of wizard session ${id}:`, error));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{t('sessionHistoryTitle')}</DialogTitle>
+          <DialogDescription>{t('sessionHistoryDescription')}</DialogDescription>
+        </DialogHeader>
+        {sessions === null ? (
+          <div className="flex justify-center py-6"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+        ) : sessions.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">{t('sessionHistoryEmpty')}</p>
+        ) : (
+          <ul className="max-h-[60vh] divide-y overflow-y-auto rounded-md border text-sm">
+            {sessions.map(session => (
+              <li key={session.id} className="flex items-center gap-3 px-3 py-2">
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-medium" title={session.title}>{session.title || t('sessionUntitled')}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {t('stepCounter', { currentStep: session.currentStep })} · {new Date(session.updatedAt).toLocaleString(language)}
+                  </p>
+                </div>
+                {session.id === currentSessionId && <Badge variant="secondary">{t('sessionCurrentBadge')}</Badge>}
+                <Button variant="outline" size="sm" onClick={() => onOpenSession(session.id)} disabled={session.id === currentSessionId}>
+                  <FolderOpen className="mr-2 h-4 w-4" />{t('sessionOpenButton')}
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-8 w-8"
+                  onClick={() => handleDelete(session.id)}
+                  disabled={session.id === currentSessionId}
+                  aria-label={t('sessionDeleteButton', { title: session.title || t('sessionUntitled') })}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
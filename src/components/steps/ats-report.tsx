@@ -0,0 +1,114 @@
+"use client";
+
+import type { CompatibilityOutput } from '@/ai/flows/resume-compatibility-analysis';
+import type { AtsHazard, AtsHazardSeverity, AtsReadiness } from '@/lib/ats-report';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertOctagon, AlertTriangle, CheckCircle2, Info, XCircle } from 'lucide-react';
+import { useLanguage } from '@/contexts/language-context';
+
+interface AtsReportProps {
+  report: CompatibilityOutput['atsReport'];
+}
+
+const READINESS_CLASSES: Record<AtsReadiness, string> = {
+  good: 'bg-green-600 hover:bg-green-600',
+  fair: 'bg-yellow-500 hover:bg-yellow-500',
+  poor: 'bg-red-600 hover:bg-red-600',
+};
+
+const SEVERITY_ICONS: Record<AtsHazardSeverity, { icon: typeof Info; className: string }> = {
+  high: { icon: AlertOctagon, className: 'text-red-600' },
+  medium: { icon: AlertTriangle, className: 'text-yellow-600' },
+  low: { icon: Info, className: 'text-muted-foreground' },
+};
+
+export function AtsReport({ report }: AtsReportProps) {
+  const { t } = useLanguage();
+
+  const hazardText = (hazard: AtsHazard) => {
+    const items = hazard.code === 'missing-sections'
+      ? hazard.items?.map(section => t(`atsSection_${section}`))
+      : hazard.items;
+    // Translation keys use underscores: 'image-only-pages' -> atsHazard_image_only_pages.
+    return t(`atsHazard_${hazard.code.replace(/-/g, '_')}`, {
+      pages: hazard.pages?.join(', ') ?? '',
+      items: items?.join(', ') ?? '',
+    });
+  };
+
+  // Missing keywords first: they are what the candidate can act on.
+  const keywords = [...report.keywords].sort((a, b) => Number(a.found) - Number(b.found));
+  const foundCount = report.keywords.filter(keyword => keyword.found).length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h3 className="text-md font-semibold text-foreground">{t('atsReportTitle')}</h3>
+        <Badge className={READINESS_CLASSES[report.readiness]}>{t(`atsReadiness_${report.readiness}`)}</Badge>
+      </div>
+      <p className="text-xs text-muted-foreground">{t('atsReportDescription')}</p>
+
+      <div className="space-y-2 rounded-md border p-3">
+        {report.hazards.length === 0 ? (
+          <p className="flex items-center gap-2 text-sm">
+            <CheckCircle2 className="h-4 w-4 shrink-0 text-green-600" />{t('atsNoHazards')}
+          </p>
+        ) : (
+          <ul className="space-y-1">
+            {report.hazards.map(hazard => {
+              const { icon: SeverityIcon, className } = SEVERITY_ICONS[hazard.severity];
+              return (
+                <li key={hazard.code} className="flex items-start gap-2 text-sm">
+                  <SeverityIcon className={`mt-0.5 h-4 w-4 shrink-0 ${className}`} aria-label={t(`atsSeverity_${hazard.severity}`)} />
+                  <span>{hazardText(hazard)}</span>
+                </li>
+              );
+            })}
+          </ul>
+        )}
+        {report.layoutCheckSkipped && (
+          <p className="flex items-start gap-2 text-xs text-muted-foreground">
+            <Info className="mt-0.5 h-4 w-4 shrink-0" />{t('atsLayoutCheckSkipped')}
+          </p>
+        )}
+      </div>
+
+      {keywords.length > 0 && (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('atsKeywordColumn')}</TableHead>
+                <TableHead>{t('atsSynonymsColumn')}</TableHead>
+                <TableHead className="text-right">
+                  {t('atsKeywordsFoundSummary', { found: foundCount, total: report.keywords.length })}
+                </TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {keywords.map(keyword => (
+                <TableRow key={keyword.keyword}>
+                  <TableCell className="font-medium">{keyword.keyword}</TableCell>
+                  <TableCell className="text-xs text-muted-foreground">{keyword.synonyms.join(', ') || '—'}</TableCell>
+                  <TableCell className="text-right">
+                    {keyword.found ? (
+                      <span className="inline-flex items-center gap-1 text-sm text-green-600">
+                        <CheckCircle2 className="h-4 w-4" />
+                        {keyword.matchedAs ? t('atsKeywordFoundAs', { term: keyword.matchedAs }) : t('atsKeywordFound')}
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center gap-1 text-sm text-red-600">
+                        <XCircle className="h-4 w-4" />{t('atsKeywordMissing')}
+                      </span>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,189 @@
+"use client";
+
+import * as React from "react";
+import type { BatchCompatibilityOutput, BatchCompatibilityResult } from '@/ai/flows/batch-compatibility-analysis';
+import type { AtsReadiness } from '@/lib/ats-report';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowDown, ArrowUp, ArrowUpDown, ExternalLink, Info, Scale, Wand2, XCircle } from 'lucide-react';
+import LoadingIndicator from '@/components/loading-indicator';
+import { useLanguage } from '@/contexts/language-context';
+
+interface BatchComparisonStepProps {
+  result: BatchCompatibilityOutput | null;
+  loading: boolean;
+  onTailor: (row: BatchCompatibilityResult) => void;
+}
+
+type SortKey = 'offer' | 'score' | 'mustHaves' | 'ats';
+type SortDirection = 'asc' | 'desc';
+
+const ATS_RANK: Record<AtsReadiness, number> = { poor: 0, fair: 1, good: 2 };
+
+// Same thresholds as the compatibility analysis step.
+const getScoreBadgeClass = (score: number) => {
+  if (score < 60) return 'bg-red-500 hover:bg-red-500';
+  if (score < 70) return 'bg-yellow-500 hover:bg-yellow-500';
+  if (score < 80) return 'bg-blue-500 hover:bg-blue-500';
+  return 'bg-green-500 hover:bg-green-500';
+};
+
+const atsBadgeClass: Record<AtsReadiness, string> = {
+  good: 'border-green-500 text-green-700 dark:text-green-400',
+  fair: 'border-yellow-500 text-yellow-700 dark:text-yellow-400',
+  poor: 'border-red-500 text-red-700 dark:text-red-400',
+};
+
+const getMustHaves = (row: BatchCompatibilityResult) => {
+  const mustHaves = row.analysis?.requirements?.filter(item => item.importance === 'must-have') || [];
+  return { matched: mustHaves.filter(item => item.status === 'matched').length, total: mustHaves.length };
+};
+
+const getSortValue = (row: BatchCompatibilityResult, key: SortKey): number | string => {
+  switch (key) {
+    case 'offer':
+      return row.label.toLowerCase();
+    case 'mustHaves': {
+      const { matched, total } = getMustHaves(row);
+      return total ? matched / total : 0;
+    }
+    case 'ats':
+      return row.analysis?.atsReport ? ATS_RANK[row.analysis.atsReport.readiness] : -1;
+    default:
+      return row.analysis?.compatibilityScore ?? -1;
+  }
+};
+
+export function BatchComparisonStep({ result, loading, onTailor }: BatchComparisonStepProps) {
+  const { t } = useLanguage();
+  const [sortKey, setSortKey] = React.useState<SortKey>('score');
+  const [sortDirection, setSortDirection] = React.useState<SortDirection>('desc');
+
+  const rows = React.useMemo(() => {
+    const results = result?.results || [];
+    const direction = sortDirection === 'asc' ? 1 : -1;
+    return [...results].sort((a, b) => {
+      // Failed offers always go last, whatever the sort.
+      if (!a.analysis !== !b.analysis) return a.analysis ? -1 : 1;
+      const valueA = getSortValue(a, sortKey);
+      const valueB = getSortValue(b, sortKey);
+      const compared = typeof valueA === 'string' ? valueA.localeCompare(String(valueB)) : valueA - Number(valueB);
+      return compared * direction || a.offerIndex - b.offerIndex;
+    });
+  }, [result, sortKey, sortDirection]);
+
+  if (loading) {
+    return <LoadingIndicator message={t('analyzingBatchMessage')} />;
+  }
+
+  if (!result) {
+    return (
+      <Card className="shadow-lg">
+        <CardHeader>
+          <CardTitle className="flex items-center"><Info className="mr-2 h-6 w-6 text-primary" />{t('waitingForAnalysisTitle')}</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-muted-foreground">{t('waitingForAnalysisDescription')}</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      setSortDirection(prev => (prev === 'asc' ? 'desc' : 'asc'));
+    } else {
+      setSortKey(key);
+      setSortDirection(key === 'offer' ? 'asc' : 'desc');
+    }
+  };
+
+  const sortableHead = (key: SortKey, label: string, className = '') => {
+    const SortIcon = sortKey !== key ? ArrowUpDown : sortDirection === 'asc' ? ArrowUp : ArrowDown;
+    return (
+      <TableHead className={className} aria-sort={sortKey === key ? (sortDirection === 'asc' ? 'ascending' : 'descending') : 'none'}>
+        <Button variant="ghost" size="sm" className="-ml-3 h-8" onClick={() => toggleSort(key)}>
+          {label}
+          <SortIcon className="ml-1 h-3 w-3" />
+        </Button>
+      </TableHead>
+    );
+  };
+
+  const failedCount = result.results.filter(row => !row.analysis).length;
+
+  return (
+    <Card className="shadow-lg">
+      <CardHeader>
+        <CardTitle className="flex items-center"><Scale className="mr-2 h-6 w-6 text-primary" />{t('batchComparisonTitle')}</CardTitle>
+        <CardDescription>
+          {t('batchComparisonDescription', { count: result.results.length })}
+          {failedCount > 0 && ` ${t('batchComparisonFailedCount', { count: failedCount })}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {sortableHead('offer', t('batchColumnOffer'))}
+                {sortableHead('score', t('batchColumnScore'))}
+                {sortableHead('mustHaves', t('batchColumnMustHaves'))}
+                {sortableHead('ats', t('batchColumnAts'))}
+                <TableHead className="text-right"><span className="sr-only">{t('batchColumnActions')}</span></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map(row => {
+                const mustHaves = getMustHaves(row);
+                return (
+                  <TableRow key={row.offerIndex}>
+                    <TableCell className="max-w-[16rem]">
+                      <p className="truncate font-medium" title={row.label}>{row.offerIndex + 1}. {row.label}</p>
+                      {row.jobOfferUrl && (
+                        <a href={row.jobOfferUrl} target="_blank" rel="noopener noreferrer" className="inline-flex items-center text-xs text-primary hover:underline">
+                          {t('batchViewOfferLink')} <ExternalLink className="ml-1 h-3 w-3" />
+                        </a>
+                      )}
+                    </TableCell>
+                    {row.analysis ? (
+                      <>
+                        <TableCell>
+                          <Badge className={getScoreBadgeClass(row.analysis.compatibilityScore)}>{row.analysis.compatibilityScore}%</Badge>
+                        </TableCell>
+                        <TableCell className="tabular-nums text-sm">
+                          {mustHaves.total ? `${mustHaves.matched}/${mustHaves.total}` : '—'}
+                        </TableCell>
+                        <TableCell>
+                          {row.analysis.atsReport ? (
+                            <Badge variant="outline" className={atsBadgeClass[row.analysis.atsReport.readiness]}>
+                              {t(`atsReadiness_${row.analysis.atsReport.readiness}`)}
+                            </Badge>
+                          ) : '—'}
+                        </TableCell>
+                      </>
+                    ) : (
+                      <TableCell colSpan={3} className="text-sm text-destructive">
+                        <span className="inline-flex items-start gap-1">
+                          <XCircle className="mt-0.5 h-4 w-4 shrink-0" />
+                          {t('batchOfferFailed', { error: row.error || '' })}
+                        </span>
+                      </TableCell>
+                    )}
+                    <TableCell className="text-right">
+                      <Button size="sm" variant="outline" onClick={() => onTailor(row)} disabled={!row.analysis}>
+                        <Wand2 className="mr-1 h-4 w-4" />{t('batchTailorButton')}
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
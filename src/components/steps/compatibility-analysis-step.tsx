@@ -9,6 +9,9 @@ import { Label } from '@/components/ui/label';
 import { Info, AlertTriangle, CheckCircle, Zap } from 'lucide-react';
 import LoadingIndicator from '@/components/loading-indicator';
 import { useLanguage } from '@/contexts/language-context';
+import { RequirementChecklist } from '@/components/steps/requirement-checklist';
+import { ScoreBreakdown } from '@/components/steps/score-breakdown';
+import { AtsReport } from '@/components/steps/ats-report';
 
 interface CompatibilityAnalysisStepProps {
   result: CompatibilityOutput | null;
@@ -35,7 +38,7 @@ export function CompatibilityAnalysisStep({ result, loading }: CompatibilityAnal
     );
   }
 
-  const { compatibilityScore, explanation } = result;
+  const { compatibilityScore, explanation, requirements, scoreBreakdown, llmCompatibilityScore, atsReport } = result;
   let adviceTitleKey = "";
   let adviceMessageKey = "";
   let adviceVariant: "default" | "destructive" | "warning" | "success" = "default";
@@ -93,6 +96,12 @@ export function CompatibilityAnalysisStep({ result, loading }: CompatibilityAnal
             <h3 className="text-md font-semibold text-foreground">{t('aiExplanationLabel')}</h3>
             <p className="text-sm text-muted-foreground bg-muted p-3 rounded-md">{explanation}</p>
         </div>
+
+        {scoreBreakdown && <ScoreBreakdown breakdown={scoreBreakdown} llmScore={llmCompatibilityScore} />}
+
+        {requirements && requirements.length > 0 && <RequirementChecklist requirements={requirements} />}
+
+        {atsReport && <AtsReport report={atsReport} />}
         
         <Alert variant={adviceVariant === "warning" ? "default" : adviceVariant} className={adviceVariant === "warning" ? "border-yellow-500 text-yellow-700 dark:border-yellow-400 dark:text-yellow-300 [&>svg]:text-yellow-600 dark:[&>svg]:text-yellow-400" : ""}>
           <AdviceIcon className="h-5 w-5" />
@@ -0,0 +1,150 @@
+"use client";
+
+import * as React from "react";
+import { Packer } from 'docx';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { Download, FileDown, FileType, Loader2, Mail } from 'lucide-react';
+import { useLanguage } from '@/contexts/language-context';
+import { useToast } from '@/hooks/use-toast';
+import type { CareerCraftFormState } from '@/components/career-craft-wizard';
+import { COVER_LETTER_LENGTHS, COVER_LETTER_TONES } from '@/lib/cover-letter';
+import { renderCoverLetterPdf } from '@/lib/cover-letter-pdf';
+import { renderCoverLetterDocx } from '@/lib/cover-letter-docx';
+import type { ResumeDocument } from '@/lib/resume-document';
+
+interface CoverLetterTabProps {
+  formState: CareerCraftFormState;
+  onInputChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void;
+  coverLetter: string;
+  onCoverLetterChange: (newText: string) => void;
+  onGenerateCoverLetter: () => Promise<void>;
+  /** Resume the letter's sender block is taken from. */
+  resume: ResumeDocument;
+  disabled: boolean;
+}
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const link = document.createElement('a');
+  link.href = URL.createObjectURL(blob);
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+};
+
+export function CoverLetterTab({
+  formState,
+  onInputChange,
+  coverLetter,
+  onCoverLetterChange,
+  onGenerateCoverLetter,
+  resume,
+  disabled,
+}: CoverLetterTabProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [isGenerating, setIsGenerating] = React.useState(false);
+  const busy = disabled || isGenerating;
+  const canDownload = !!coverLetter.trim() && !busy;
+
+  const handleGenerateClick = async () => {
+    setIsGenerating(true);
+    await onGenerateCoverLetter();
+    setIsGenerating(false);
+  };
+
+  const handleDownloadText = () => {
+    downloadBlob(new Blob([coverLetter], { type: 'text/plain;charset=utf-8' }), 'NailedJob_Cover_Letter.txt');
+  };
+
+  const handleDownloadPdf = () => {
+    renderCoverLetterPdf(coverLetter, { language: formState.language, resume }).save('NailedJob_Cover_Letter.pdf');
+  };
+
+  const handleDownloadDocx = async () => {
+    try {
+      const blob = await Packer.toBlob(renderCoverLetterDocx(coverLetter, { language: formState.language, resume }));
+      downloadBlob(blob, 'NailedJob_Cover_Letter.docx');
+    } catch (error) {
+      console.error("Cover letter DOCX export failed:", error);
+      toast({
+        variant: "destructive",
+        title: t('docxExportErrorTitle'),
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">{t('coverLetterDescription')}</p>
+      <div className="grid gap-3 sm:grid-cols-3">
+        <div>
+          <Label className="text-xs">{t('coverLetterToneLabel')}</Label>
+          <Select value={formState.coverLetterTone} onValueChange={(value) => onInputChange({ target: { name: 'coverLetterTone', value } } as any)} disabled={busy}>
+            <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {COVER_LETTER_TONES.map(tone => <SelectItem key={tone} value={tone}>{t(`coverLetterTone_${tone}`)}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs">{t('coverLetterLengthLabel')}</Label>
+          <Select value={formState.coverLetterLength} onValueChange={(value) => onInputChange({ target: { name: 'coverLetterLength', value } } as any)} disabled={busy}>
+            <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {COVER_LETTER_LENGTHS.map(length => <SelectItem key={length} value={length}>{t(`coverLetterLength_${length}`)}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="coverLetterAddressee" className="text-xs">{t('coverLetterAddresseeLabel')}</Label>
+          <Input
+            id="coverLetterAddressee"
+            name="coverLetterAddressee"
+            value={formState.coverLetterAddressee}
+            onChange={onInputChange}
+            placeholder={t('coverLetterAddresseePlaceholder')}
+            className="mt-1"
+            disabled={busy}
+          />
+        </div>
+      </div>
+      <Button onClick={handleGenerateClick} variant="secondary" disabled={busy}>
+        {isGenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Mail className="mr-2 h-4 w-4" />}
+        {isGenerating ? t('generatingCoverLetterMessage') : coverLetter ? t('regenerateCoverLetterButton') : t('generateCoverLetterButton')}
+      </Button>
+
+      {coverLetter ? (
+        <div>
+          <Textarea
+            value={coverLetter}
+            onChange={(e) => onCoverLetterChange(e.target.value)}
+            rows={20}
+            className="text-sm whitespace-pre-wrap break-words font-sans leading-relaxed w-full rounded-md border p-4 bg-muted/50 focus-visible:ring-primary"
+            aria-label={t('coverLetterTabLabel')}
+            disabled={busy}
+          />
+          <p className="text-xs text-muted-foreground mt-1">{t('editableCoverLetterNote')}</p>
+          <div className="flex gap-2 mt-4 flex-wrap">
+            <Button onClick={handleDownloadText} disabled={!canDownload}>
+              <Download className="mr-2 h-4 w-4" /> {t('downloadAsTextButton')}
+            </Button>
+            <Button onClick={handleDownloadPdf} variant="outline" disabled={!canDownload}>
+              <FileType className="mr-2 h-4 w-4" /> {t('downloadAsPdfButton')}
+            </Button>
+            <Button onClick={handleDownloadDocx} variant="outline" disabled={!canDownload}>
+              <FileDown className="mr-2 h-4 w-4" /> {t('downloadAsDocxButton')}
+            </Button>
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">{t('coverLetterPlaceholder')}</p>
+      )}
+    </div>
+  );
+}
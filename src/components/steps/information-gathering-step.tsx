@@ -9,8 +9,13 @@ import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import Image from 'next/image';
-import { UploadCloud, FileText, Link2, Loader2, Briefcase } from 'lucide-react';
+import { Tabs, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Checkbox } from '@/components/ui/checkbox';
+import Link from 'next/link';
+import { UploadCloud, FileText, Link2, Loader2, Briefcase, ListOrdered } from 'lucide-react';
 import { useLanguage } from '@/contexts/language-context';
+import { RESUME_FILE_ACCEPT } from '@/lib/resume-file-types';
+import { MAX_BATCH_JOB_OFFERS, parseBatchJobOffers } from '@/lib/batch-job-offers';
 
 interface InformationGatheringStepProps {
   formState: CareerCraftFormState;
@@ -21,66 +26,101 @@ interface InformationGatheringStepProps {
 
 export function InformationGatheringStep({ formState, onInputChange, onFileChange, isLoadingFile }: InformationGatheringStepProps) {
   const { t } = useLanguage();
+  const batchOfferCount = formState.offerMode === 'batch' ? parseBatchJobOffers(formState.batchJobOffers).length : 0;
 
   return (
     <div className="space-y-6">
       <Card>
         <CardHeader>
-          <CardTitle>{t('jobOfferDetailsTitle')}</CardTitle>
-          <CardDescription>{t('jobOfferDescriptionEnhanced')}</CardDescription>
-        </CardHeader>
-        <CardContent className="space-y-4">
-          <div>
-            <Label htmlFor="jobOfferTitle">
-                <Briefcase className="inline-block mr-1 h-4 w-4 align-text-bottom" /> 
-                {t('jobOfferTitleLabel')}
-            </Label>
-            <Input
-              id="jobOfferTitle"
-              name="jobOfferTitle"
-              type="text"
-              value={formState.jobOfferTitle}
-              onChange={onInputChange}
-              placeholder={t('jobOfferTitlePlaceholder')}
-              className="mt-1"
-              disabled={isLoadingFile}
-            />
+          <div className="flex flex-wrap items-start justify-between gap-3">
+            <div className="space-y-1.5">
+              <CardTitle>{t('jobOfferDetailsTitle')}</CardTitle>
+              <CardDescription>
+                {formState.offerMode === 'batch' ? t('batchJobOffersDescription') : t('jobOfferDescriptionEnhanced')}
+              </CardDescription>
+            </div>
+            <Tabs value={formState.offerMode} onValueChange={(value) => onInputChange({ target: { name: 'offerMode', value } } as any)}>
+              <TabsList>
+                <TabsTrigger value="single" disabled={isLoadingFile}>{t('offerModeSingle')}</TabsTrigger>
+                <TabsTrigger value="batch" disabled={isLoadingFile}>{t('offerModeBatch')}</TabsTrigger>
+              </TabsList>
+            </Tabs>
           </div>
-          <div>
-            <Label htmlFor="jobOfferText">
-                <FileText className="inline-block mr-1 h-4 w-4 align-text-bottom" /> 
-                {t('jobOfferTextLabel')}
+        </CardHeader>
+        {formState.offerMode === 'batch' ? (
+          <CardContent className="space-y-2">
+            <Label htmlFor="batchJobOffers">
+                <ListOrdered className="inline-block mr-1 h-4 w-4 align-text-bottom" />
+                {t('batchJobOffersLabel')}
             </Label>
             <Textarea
-              id="jobOfferText"
-              name="jobOfferText"
-              value={formState.jobOfferText}
-              onChange={onInputChange}
-              placeholder={t('jobOfferTextPlaceholder')}
-              rows={6}
-              className="mt-1"
-              disabled={isLoadingFile}
-            />
-             <p className="text-sm text-muted-foreground mt-1">{t('jobOfferTextOrUrl')}</p>
-          </div>
-          <div className="text-center my-2 text-sm text-muted-foreground">{t('orSeparator')}</div>
-          <div>
-            <Label htmlFor="jobOfferUrl">
-                <Link2 className="inline-block mr-1 h-4 w-4 align-text-bottom" /> 
-                {t('jobOfferUrlLabel')}
-            </Label>
-            <Input
-              id="jobOfferUrl"
-              name="jobOfferUrl"
-              type="url"
-              value={formState.jobOfferUrl}
+              id="batchJobOffers"
+              name="batchJobOffers"
+              value={formState.batchJobOffers}
               onChange={onInputChange}
-              placeholder={t('jobOfferUrlPlaceholder')}
-              className="mt-1"
+              placeholder={t('batchJobOffersPlaceholder')}
+              rows={10}
+              className="mt-1 font-mono text-sm"
               disabled={isLoadingFile}
             />
-          </div>
-        </CardContent>
+            <p className={`text-sm ${batchOfferCount > MAX_BATCH_JOB_OFFERS ? 'text-destructive' : 'text-muted-foreground'}`}>
+              {t('batchJobOffersCount', { count: batchOfferCount, max: MAX_BATCH_JOB_OFFERS })}
+            </p>
+          </CardContent>
+        ) : (
+          <CardContent className="space-y-4">
+            <div>
+              <Label htmlFor="jobOfferTitle">
+                  <Briefcase className="inline-block mr-1 h-4 w-4 align-text-bottom" /> 
+                  {t('jobOfferTitleLabel')}
+              </Label>
+              <Input
+                id="jobOfferTitle"
+                name="jobOfferTitle"
+                type="text"
+                value={formState.jobOfferTitle}
+                onChange={onInputChange}
+                placeholder={t('jobOfferTitlePlaceholder')}
+                className="mt-1"
+                disabled={isLoadingFile}
+              />
+            </div>
+            <div>
+              <Label htmlFor="jobOfferText">
+                  <FileText className="inline-block mr-1 h-4 w-4 align-text-bottom" /> 
+                  {t('jobOfferTextLabel')}
+              </Label>
+              <Textarea
+                id="jobOfferText"
+                name="jobOfferText"
+                value={formState.jobOfferText}
+                onChange={onInputChange}
+                placeholder={t('jobOfferTextPlaceholder')}
+                rows={6}
+                className="mt-1"
+                disabled={isLoadingFile}
+              />
+               <p className="text-sm text-muted-foreground mt-1">{t('jobOfferTextOrUrl')}</p>
+            </div>
+            <div className="text-center my-2 text-sm text-muted-foreground">{t('orSeparator')}</div>
+            <div>
+              <Label htmlFor="jobOfferUrl">
+                  <Link2 className="inline-block mr-1 h-4 w-4 align-text-bottom" /> 
+                  {t('jobOfferUrlLabel')}
+              </Label>
+              <Input
+                id="jobOfferUrl"
+                name="jobOfferUrl"
+                type="url"
+                value={formState.jobOfferUrl}
+                onChange={onInputChange}
+                placeholder={t('jobOfferUrlPlaceholder')}
+                className="mt-1"
+                disabled={isLoadingFile}
+              />
+            </div>
+          </CardContent>
+        )}
       </Card>
 
       <Card>
@@ -124,7 +164,7 @@ export function InformationGatheringStep({ formState, onInputChange, onFileChang
               id="resumeFile"
               name="resumeFile" // Ensure this name matches in handleFileChange
               type="file"
-              accept=".pdf,application/pdf"
+              accept={`${RESUME_FILE_ACCEPT},.json,application/json`}
               onChange={onFileChange}
               className="mt-1"
               disabled={isLoadingFile}
@@ -133,10 +173,10 @@ export function InformationGatheringStep({ formState, onInputChange, onFileChang
                 <p className="text-sm text-green-600 dark:text-green-400 mt-1">
                     {t('fileUploadedLabel')}: {formState.resumeFileName}
                     {formState.resumeFileMimeType ? ` (${formState.resumeFileMimeType})` : ''}
-                    {formState.resumeText && formState.resumeFileDataUri ? ' - Text extracted.' : ''}
+                    {formState.resumeText && (formState.resumeFileDataUri || formState.resumeFileMimeType === 'application/json') ? ' - Text extracted.' : ''}
                 </p>
             )}
-             {formState.resumeFileDataUri && !formState.resumeText && !isLoadingFile && (
+             {formState.resumeFileDataUri && !formState.resumeText && !isLoadingFile && formState.resumeFileMimeType === 'application/pdf' && (
                 <p className="text-sm text-yellow-600 dark:text-yellow-400 mt-1">
                     PDF uploaded. If text extraction failed, please paste manually.
                 </p>
@@ -181,6 +221,23 @@ export function InformationGatheringStep({ formState, onInputChange, onFileChang
               </SelectContent>
             </Select>
           </div>
+          <hr className="my-4"/>
+          <div className="flex items-start gap-3">
+            <Checkbox
+              id="storageConsent"
+              checked={formState.storageConsent}
+              onCheckedChange={(checked) => onInputChange({ target: { name: 'storageConsent', value: checked === true } } as any)}
+              disabled={isLoadingFile}
+              className="mt-0.5"
+            />
+            <div className="space-y-1">
+              <Label htmlFor="storageConsent" className="leading-snug">{t('storageConsentLabel')}</Label>
+              <p className="text-xs text-muted-foreground">
+                {t('storageConsentDescription')}{' '}
+                <Link href="/my-data" className="underline hover:text-foreground">{t('storageConsentMyDataLink')}</Link>
+              </p>
+            </div>
+          </div>
         </CardContent>
       </Card>
     </div>
@@ -1,25 +1,164 @@
-
 "use client";
 
-import type { AutomatedJobSearchOutput } from '@/ai/flows/automated-job-search';
+import * as React from "react";
+import type { AutomatedJobSearchOutput, LinkStatus, ValidatedJobPosting } from '@/ai/flows/automated-job-search';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
-import { ExternalLink, Briefcase, ListChecks } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { ExternalLink, Briefcase, ListChecks, MapPin, Building2, CalendarDays, Search, RefreshCw, KanbanSquare, Check } from 'lucide-react';
 import LoadingIndicator from '@/components/loading-indicator';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useLanguage } from '@/contexts/language-context';
+import type { CareerCraftFormState } from '@/components/career-craft-wizard';
+import { JOB_SEARCH_COUNTRIES, WORK_MODES, getCountryDisplayName } from '@/lib/job-search-countries';
 
 interface JobSearchStepProps {
   result: AutomatedJobSearchOutput | null;
   loading: boolean;
+  formState: CareerCraftFormState;
+  onInputChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void;
+  onSearch: () => void;
+  /** Links of the postings already added to the application tracker. */
+  trackedJobLinks: Set<string>;
+  onTrackJobPosting: (job: ValidatedJobPosting) => void;
 }
 
-export function JobSearchStep({ result, loading }: JobSearchStepProps) {
-  const { t } = useLanguage();
+type SortOption = 'relevance' | 'newest' | 'title' | 'company';
+type StatusFilter = 'all' | 'reachable' | LinkStatus;
+
+// Postings carry either ISO dates from the job boards or relative dates such as "5 days ago".
+const getPostedTimestamp = (postedDate: string | undefined): number | null => {
+  if (!postedDate) return null;
+  const relative = postedDate.match(/(\d+)\s*(day|días?|dias?)/i);
+  if (relative) return Date.now() - Number(relative[1]) * 24 * 60 * 60 * 1000;
+  const timestamp = Date.parse(postedDate);
+  return Number.isNaN(timestamp) ? null : timestamp;
+};
+
+// Same thresholds as the compatibility analysis step.
+const getScoreBadgeClass = (score: number) => {
+  if (score < 60) return 'bg-red-500 hover:bg-red-500';
+  if (score < 70) return 'bg-yellow-500 hover:bg-yellow-500';
+  if (score < 80) return 'bg-blue-500 hover:bg-blue-500';
+  return 'bg-green-500 hover:bg-green-500';
+};
+
+const linkStatusBadgeClass: Record<LinkStatus, string> = {
+  valid: 'border-green-500 text-green-700 dark:text-green-400',
+  unverified: 'border-yellow-500 text-yellow-700 dark:text-yellow-400',
+  invalid: 'border-red-500 text-red-700 dark:text-red-400',
+};
+
+export function JobSearchStep({ result, loading, formState, onInputChange, onSearch, trackedJobLinks, onTrackJobPosting }: JobSearchStepProps) {
+  const { t, language } = useLanguage();
+  const [searchText, setSearchText] = React.useState('');
+  const [portalFilter, setPortalFilter] = React.useState('all');
+  const [statusFilter, setStatusFilter] = React.useState<StatusFilter>('reachable');
+  const [sortBy, setSortBy] = React.useState<SortOption>('relevance');
+
+  const jobPostings = React.useMemo(() => result?.jobPostings || [], [result]);
+  const portals = React.useMemo(() => Array.from(new Set(jobPostings.map(job => job.portal))).sort(), [jobPostings]);
+
+  const visiblePostings = React.useMemo(() => {
+    const needle = searchText.trim().toLowerCase();
+    const filtered = jobPostings
+      .map((job, index) => ({ job, index }))
+      .filter(({ job }) => portalFilter === 'all' || job.portal === portalFilter)
+      .filter(({ job }) => {
+        if (statusFilter === 'all') return true;
+        if (statusFilter === 'reachable') return job.linkStatus !== 'invalid';
+        return job.linkStatus === statusFilter;
+      })
+      .filter(({ job }) => !needle || [job.title, job.company, job.location, job.descriptionSnippet]
+        .some(field => field?.toLowerCase().includes(needle)));
+
+    const compareText = (a?: string, b?: string) => (a || '').localeCompare(b || '');
+    return filtered.sort((a, b) => {
+      switch (sortBy) {
+        case 'newest':
+          return (getPostedTimestamp(b.job.postedDate) ?? -Infinity) - (getPostedTimestamp(a.job.postedDate) ?? -Infinity) || a.index - b.index;
+        case 'title':
+          return compareText(a.job.title, b.job.title);
+        case 'company':
+          return compareText(a.job.company, b.job.company);
+        default:
+          return a.index - b.index;
+      }
+    }).map(({ job }) => job);
+  }, [jobPostings, searchText, portalFilter, statusFilter, sortBy]);
+
+  const countryOptions = React.useMemo(() => JOB_SEARCH_COUNTRIES
+    .map(country => ({ code: country.code, label: getCountryDisplayName(country.code, language) }))
+    .sort((a, b) => a.label.localeCompare(b.label, language)), [language]);
 
   if (loading) {
     return <LoadingIndicator message={t('searchingJobsMessage')} />;
   }
 
+  const searchLocation = [formState.searchCity.trim(), getCountryDisplayName(formState.searchCountry, language)]
+    .filter(Boolean)
+    .join(', ');
+
+  const searchFilters = (
+    <div className="rounded-md border p-3 mb-4 space-y-3">
+      <p className="text-sm font-medium">{t('jobSearchFiltersTitle')}</p>
+      <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4">
+        <div>
+          <Label className="text-xs">{t('jobSearchCountryLabel')}</Label>
+          <Select value={formState.searchCountry} onValueChange={(value) => onInputChange({ target: { name: 'searchCountry', value } } as any)}>
+            <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {countryOptions.map(country => <SelectItem key={country.code} value={country.code}>{country.label}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label htmlFor="searchCity" className="text-xs">{t('jobSearchCityLabel')}</Label>
+          <Input
+            id="searchCity"
+            name="searchCity"
+            value={formState.searchCity}
+            onChange={onInputChange}
+            placeholder={t('jobSearchCityPlaceholder')}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label htmlFor="searchRadiusKm" className="text-xs">{t('jobSearchRadiusLabel')}</Label>
+          <Input
+            id="searchRadiusKm"
+            name="searchRadiusKm"
+            type="number"
+            min={1}
+            max={200}
+            value={formState.searchRadiusKm}
+            onChange={onInputChange}
+            placeholder="25"
+            disabled={!formState.searchCity.trim()}
+            className="mt-1"
+          />
+        </div>
+        <div>
+          <Label className="text-xs">{t('jobSearchWorkModeLabel')}</Label>
+          <Select value={formState.searchWorkMode} onValueChange={(value) => onInputChange({ target: { name: 'searchWorkMode', value } } as any)}>
+            <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {WORK_MODES.map(mode => <SelectItem key={mode} value={mode}>{t(`workMode_${mode}`)}</SelectItem>)}
+            </SelectContent>
+          </Select>
+        </div>
+      </div>
+      <div className="flex justify-end">
+        <Button type="button" variant="outline" size="sm" onClick={onSearch}>
+          <RefreshCw className="mr-2 h-4 w-4" />{t('jobSearchUpdateButton')}
+        </Button>
+      </div>
+    </div>
+  );
+
   if (!result || !result.jobPostings || result.jobPostings.length === 0) {
     return (
       <Card className="shadow-lg">
@@ -27,8 +166,9 @@ export function JobSearchStep({ result, loading }: JobSearchStepProps) {
           <CardTitle className="flex items-center"><Briefcase className="mr-2 h-6 w-6 text-primary" />{t('jobOpportunitiesTitle')}</CardTitle>
         </CardHeader>
         <CardContent>
+          {searchFilters}
           <p className="text-muted-foreground">
-            {result && result.jobPostings && result.jobPostings.length === 0 
+            {result && result.jobPostings && result.jobPostings.length === 0
              ? t('noJobPostingsFound')
              : t('jobListingsPlaceholder')}
           </p>
@@ -37,34 +177,131 @@ export function JobSearchStep({ result, loading }: JobSearchStepProps) {
     );
   }
 
-  const { jobPostings } = result;
+  const renderPosting = (job: ValidatedJobPosting) => (
+    <li key={job.link}>
+      <Card className="hover:bg-muted/50 transition-colors">
+        <CardHeader className="pb-2">
+          <div className="flex items-start justify-between gap-2">
+            <CardTitle className="text-base leading-snug">{job.title}</CardTitle>
+            <div className="flex flex-shrink-0 items-center gap-1">
+              {job.compatibilityScore !== undefined && (
+                <Badge className={`text-white ${getScoreBadgeClass(job.compatibilityScore)}`}>
+                  {t('jobMatchScore', { score: job.compatibilityScore })}
+                </Badge>
+              )}
+              <Badge variant="outline" className={linkStatusBadgeClass[job.linkStatus]}>
+                {t(`linkStatus_${job.linkStatus}`)}
+              </Badge>
+            </div>
+          </div>
+          <CardDescription className="flex flex-wrap gap-x-4 gap-y-1">
+            {job.company && <span className="flex items-center"><Building2 className="mr-1 h-3.5 w-3.5" />{job.company}</span>}
+            <span className="flex items-center"><MapPin className="mr-1 h-3.5 w-3.5" />{job.location}</span>
+            {job.postedDate && <span className="flex items-center"><CalendarDays className="mr-1 h-3.5 w-3.5" />{job.postedDate}</span>}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {job.matchReason && (
+            <p className="text-sm"><span className="font-medium">{t('jobMatchReasonLabel')}</span> {job.matchReason}</p>
+          )}
+          {job.descriptionSnippet && <p className="text-sm text-muted-foreground line-clamp-3">{job.descriptionSnippet}</p>}
+          <div className="flex items-center justify-between gap-2">
+            <Badge variant="secondary">{job.portal}</Badge>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="ml-auto h-7 px-2 text-xs"
+              onClick={() => onTrackJobPosting(job)}
+              disabled={trackedJobLinks.has(job.link)}
+            >
+              {trackedJobLinks.has(job.link) ? <Check className="mr-1 h-3.5 w-3.5" /> : <KanbanSquare className="mr-1 h-3.5 w-3.5" />}
+              {trackedJobLinks.has(job.link) ? t('trackerTrackedButton') : t('trackerTrackPostingButton')}
+            </Button>
+            <a
+              href={job.link}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center text-sm text-accent hover:text-accent-foreground"
+            >
+              {t('viewJobPostingLink')}
+              <ExternalLink className="ml-1 h-4 w-4 flex-shrink-0" />
+            </a>
+          </div>
+        </CardContent>
+      </Card>
+    </li>
+  );
 
   return (
     <Card className="shadow-lg">
       <CardHeader>
         <CardTitle className="flex items-center"><ListChecks className="mr-2 h-6 w-6 text-primary" />{t('curatedJobOpportunitiesTitle')}</CardTitle>
-        <CardDescription>{t('curatedJobOpportunitiesDescription')}</CardDescription>
+        <CardDescription>{t('curatedJobOpportunitiesDescription', { location: searchLocation })}</CardDescription>
       </CardHeader>
       <CardContent>
-        <ScrollArea className="h-96">
-          <ul className="space-y-3">
-            {jobPostings.map((link, index) => (
-              <li key={index} className="p-3 border rounded-md hover:bg-muted/50 transition-colors">
-                <a
-                  href={link}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  className="flex items-center justify-between text-sm text-accent hover:text-accent-foreground"
-                >
-                  <span className="truncate pr-2">
-                    <Briefcase className="inline h-4 w-4 mr-2 align-text-bottom" /> 
-                    {t('jobPostingLinkText', { index: index + 1, link: link.length > 60 ? `${link.substring(0, 60)}...` : link })}
-                  </span>
-                  <ExternalLink className="h-4 w-4 flex-shrink-0" />
-                </a>
-              </li>
-            ))}
-          </ul>
+        {searchFilters}
+        <div className="grid gap-3 sm:grid-cols-2 lg:grid-cols-4 mb-4">
+          <div className="lg:col-span-1">
+            <Label htmlFor="jobSearchFilterText" className="text-xs">{t('jobFilterTextLabel')}</Label>
+            <div className="relative mt-1">
+              <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="jobSearchFilterText"
+                value={searchText}
+                onChange={(e) => setSearchText(e.target.value)}
+                placeholder={t('jobFilterTextPlaceholder')}
+                className="pl-8"
+              />
+            </div>
+          </div>
+          <div>
+            <Label className="text-xs">{t('jobFilterPortalLabel')}</Label>
+            <Select value={portalFilter} onValueChange={setPortalFilter}>
+              <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">{t('jobFilterAllPortals')}</SelectItem>
+                {portals.map(portal => <SelectItem key={portal} value={portal}>{portal}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs">{t('jobFilterStatusLabel')}</Label>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+              <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="reachable">{t('jobFilterStatusReachable')}</SelectItem>
+                <SelectItem value="all">{t('jobFilterStatusAll')}</SelectItem>
+                <SelectItem value="valid">{t('linkStatus_valid')}</SelectItem>
+                <SelectItem value="unverified">{t('linkStatus_unverified')}</SelectItem>
+                <SelectItem value="invalid">{t('linkStatus_invalid')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label className="text-xs">{t('jobSortLabel')}</Label>
+            <Select value={sortBy} onValueChange={(value) => setSortBy(value as SortOption)}>
+              <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+              <SelectContent>
+                <SelectItem value="relevance">{t('jobSortRelevance')}</SelectItem>
+                <SelectItem value="newest">{t('jobSortNewest')}</SelectItem>
+                <SelectItem value="title">{t('jobSortTitle')}</SelectItem>
+                <SelectItem value="company">{t('jobSortCompany')}</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground mb-2">
+          {t('jobResultsCount', { shown: visiblePostings.length, total: jobPostings.length })}
+        </p>
+        <ScrollArea className="h-[32rem]">
+          {visiblePostings.length > 0 ? (
+            <ul className="space-y-3 pr-3">
+              {visiblePostings.map(renderPosting)}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground py-6 text-center">{t('noJobPostingsMatchFilters')}</p>
+          )}
         </ScrollArea>
          <p className="text-sm text-center text-muted-foreground mt-6">
           {t('goodLuckPrompt')}
@@ -0,0 +1,70 @@
+"use client";
+
+import type { RequirementAssessment, RequirementStatus } from '@/ai/schemas/compatibility-requirement';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Badge } from '@/components/ui/badge';
+import { CheckCircle2, CircleDashed, XCircle, Quote } from 'lucide-react';
+import { useLanguage } from '@/contexts/language-context';
+
+interface RequirementChecklistProps {
+  requirements: RequirementAssessment[];
+}
+
+const STATUS_ICONS: Record<RequirementStatus, { icon: typeof CheckCircle2; className: string }> = {
+  matched: { icon: CheckCircle2, className: 'text-green-600' },
+  partial: { icon: CircleDashed, className: 'text-yellow-600' },
+  missing: { icon: XCircle, className: 'text-red-600' },
+};
+
+export function RequirementChecklist({ requirements }: RequirementChecklistProps) {
+  const { t } = useLanguage();
+
+  const counts = requirements.reduce<Record<RequirementStatus, number>>(
+    (totals, item) => ({ ...totals, [item.status]: totals[item.status] + 1 }),
+    { matched: 0, partial: 0, missing: 0 }
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-baseline justify-between gap-2">
+        <h3 className="text-md font-semibold text-foreground">{t('requirementChecklistTitle')}</h3>
+        <p className="text-xs text-muted-foreground">
+          {t('requirementChecklistSummary', { matched: counts.matched, partial: counts.partial, missing: counts.missing })}
+        </p>
+      </div>
+      <Accordion type="multiple" className="rounded-md border px-3">
+        {requirements.map((item, index) => {
+          const { icon: StatusIcon, className } = STATUS_ICONS[item.status];
+          return (
+            <AccordionItem key={`${index}-${item.requirement}`} value={String(index)} className="last:border-b-0">
+              <AccordionTrigger className="py-3 text-left text-sm hover:no-underline">
+                <span className="flex flex-1 items-center gap-2 pr-2">
+                  <StatusIcon className={`h-4 w-4 shrink-0 ${className}`} aria-label={t(`requirementStatus_${item.status}`)} />
+                  <span className="flex-1">{item.requirement}</span>
+                  <Badge variant={item.importance === 'must-have' ? 'default' : 'secondary'} className="shrink-0 text-xs">
+                    {t(item.importance === 'must-have' ? 'requirementMustHave' : 'requirementNiceToHave')}
+                  </Badge>
+                </span>
+              </AccordionTrigger>
+              <AccordionContent className="space-y-2 pl-6">
+                <p className="text-xs text-muted-foreground">
+                  <span className={`font-semibold ${className}`}>{t(`requirementStatus_${item.status}`)}</span>
+                  {' · '}{t('requirementWeightLabel', { weight: item.weight })}
+                </p>
+                {item.evidence ? (
+                  <blockquote className="flex gap-2 rounded-md bg-muted p-2 text-sm italic">
+                    <Quote className="h-3 w-3 shrink-0 text-muted-foreground" />
+                    <span>{item.evidence}</span>
+                  </blockquote>
+                ) : (
+                  <p className="text-sm text-muted-foreground">{t('requirementNoEvidence')}</p>
+                )}
+                {item.comment && <p className="text-sm">{item.comment}</p>}
+              </AccordionContent>
+            </AccordionItem>
+          );
+        })}
+      </Accordion>
+    </div>
+  );
+}
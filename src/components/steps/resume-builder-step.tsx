@@ -6,14 +6,28 @@ import type { AIResumeBuilderOutput } from '@/ai/flows/ai-resume-builder';
 import type { CompatibilityOutput } from '@/ai/flows/resume-compatibility-analysis';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Download, FileText, Wand2, FileType, TrendingUp, CheckCircle, AlertTriangle, Info, RefreshCw, Loader2 } from 'lucide-react';
+import { Download, FileText, Wand2, FileType, TrendingUp, CheckCircle, AlertTriangle, Info, RefreshCw, Loader2, FileJson, FileDown } from 'lucide-react';
 import LoadingIndicator from '@/components/loading-indicator';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Textarea } from '@/components/ui/textarea';
 import { Progress } from '@/components/ui/progress';
-import { jsPDF } from 'jspdf';
 import { useLanguage } from '@/contexts/language-context';
-import type { Locale } from '@/lib/translations';
+import { parseResumeText, type ResumeDocument } from '@/lib/resume-document';
+import { renderResumeDocx } from '@/lib/resume-docx';
+import { Packer } from 'docx';
+import { resumeDocumentToJsonResume } from '@/lib/json-resume';
+import { useToast } from '@/hooks/use-toast';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { CoverLetterTab } from '@/components/steps/cover-letter-tab';
+import { ResumeVersionsTab } from '@/components/steps/resume-versions-tab';
+import { ResumeSectionRewriter, type ResumeSectionRewriteRequest } from '@/components/steps/resume-section-rewriter';
+import { ResumeClaimsReview } from '@/components/steps/resume-claims-review';
+import type { ResumeSectionRewriteOutput } from '@/ai/flows/resume-section-rewriter';
+import type { CareerCraftFormState } from '@/components/career-craft-wizard';
+import type { ResumeVersion } from '@/lib/resume-versions';
+import { findResumeClaim, getPendingResumeClaims, withUnsupportedFigures } from '@/lib/resume-claims';
+import { ResumeTemplateGallery } from '@/components/steps/resume-template-gallery';
+import { getDefaultResumePdfSettings, type ResumePdfSettings } from '@/lib/resume-templates';
 
 interface ResumeBuilderStepProps {
   result: AIResumeBuilderOutput | null;
@@ -26,14 +40,24 @@ interface ResumeBuilderStepProps {
   initialCompatibilityResult: CompatibilityOutput | null;
   newCompatibilityAnalysisResult: CompatibilityOutput | null;
   onRegenerateResume: () => Promise<void>;
+  formState: CareerCraftFormState;
+  onInputChange: (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => void;
+  coverLetter: string;
+  onCoverLetterChange: (newText: string) => void;
+  onGenerateCoverLetter: () => Promise<void>;
+  resumeVersions: ResumeVersion[];
+  activeResumeVersionId: string | null;
+  hasUnsavedResumeEdits: boolean;
+  onSaveResumeVersion: () => void;
+  onRestoreResumeVersion: (id: string) => void;
+  onBranchResumeVersion: (id: string) => void;
+  onRewriteResumeSection: (request: ResumeSectionRewriteRequest) => Promise<ResumeSectionRewriteOutput | null>;
+  /** Flagged claims the user said are true. */
+  confirmedResumeClaims: string[];
+  onConfirmResumeClaim: (claim: string) => void;
+  onDeleteResumeClaim: (claim: string) => void;
 }
 
-const getSectionTitle = (t: Function, key: string, lang: Locale, fallback: string): string => {
-  const title = t(key, undefined, { lng: lang });
-  return (title === key || title === `${key}_${lang}`) ? fallback : title;
-};
-
-
 export function ResumeBuilderStep({
   result,
   editedTailoredResume,
@@ -44,10 +68,41 @@ export function ResumeBuilderStep({
   resumeLanguage,
   initialCompatibilityResult,
   newCompatibilityAnalysisResult,
-  onRegenerateResume
+  onRegenerateResume,
+  formState,
+  onInputChange,
+  coverLetter,
+  onCoverLetterChange,
+  onGenerateCoverLetter,
+  resumeVersions,
+  activeResumeVersionId,
+  hasUnsavedResumeEdits,
+  onSaveResumeVersion,
+  onRestoreResumeVersion,
+  onBranchResumeVersion,
+  onRewriteResumeSection,
+  confirmedResumeClaims,
+  onConfirmResumeClaim,
+  onDeleteResumeClaim,
 }: ResumeBuilderStepProps) {
   const { t } = useLanguage();
+  const { toast } = useToast();
   const [isRegenerating, setIsRegenerating] = React.useState(false);
+  const [templateGalleryOpen, setTemplateGalleryOpen] = React.useState(false);
+  const resumeTextareaRef = React.useRef<HTMLTextAreaElement>(null);
+
+  // Exporters render from the structured document; edits made in the text editor are read back into it.
+  const resumeDocument = React.useMemo<ResumeDocument | null>(
+    () => result ? (editedTailoredResume === result.tailoredResume ? result.resume : parseResumeText(editedTailoredResume)) : null,
+    [result, editedTailoredResume]
+  );
+
+  // The current text is checked again, so a rewrite or a restored version cannot bring in figures unreviewed.
+  const originalResume = result?.originalResumeText || formState.resumeText;
+  const flaggedClaims = React.useMemo(
+    () => result && originalResume ? withUnsupportedFigures(result.unsupportedClaims, editedTailoredResume, originalResume) : result?.unsupportedClaims,
+    [result, editedTailoredResume, originalResume]
+  );
 
   const handleRegenerateClick = async () => {
     setIsRegenerating(true);
@@ -73,6 +128,20 @@ export function ResumeBuilderStep({
   }
 
   const { explanation } = result;
+  const pendingClaims = getPendingResumeClaims(flaggedClaims, editedTailoredResume, confirmedResumeClaims);
+  const cannotDownload = !editedTailoredResume.trim() || loading || isRegenerating || pendingClaims.length > 0;
+
+  // Selects the claim in the editor and scrolls it roughly to the middle.
+  const handleShowClaim = (claim: string) => {
+    const textarea = resumeTextareaRef.current;
+    const match = findResumeClaim(editedTailoredResume, claim);
+    if (!textarea || !match) return;
+    textarea.focus();
+    textarea.setSelectionRange(match.start, match.end);
+    const line = editedTailoredResume.slice(0, match.start).split('\n').length - 1;
+    const lineCount = editedTailoredResume.split('\n').length;
+    textarea.scrollTop = (line / lineCount) * textarea.scrollHeight - textarea.clientHeight / 2;
+  };
   const initialScore = initialCompatibilityResult?.compatibilityScore;
   const newScore = newCompatibilityAnalysisResult?.compatibilityScore;
   const improvement = (initialScore != null && newScore != null) ? newScore - initialScore : null;
@@ -95,377 +164,51 @@ export function ResumeBuilderStep({
     document.body.removeChild(link);
   };
 
-  const handleDownloadPdf = () => {
-    if (!editedTailoredResume) return;
-
-    const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'a4' });
-    const pageWidth = doc.internal.pageSize.getWidth();
-    const pageHeight = doc.internal.pageSize.getHeight();
-
-    const margin = 15;
-    const leftColWidthRatio = 0.33;
-    const leftColWidth = pageWidth * leftColWidthRatio;
-    const rightColX = leftColWidth + 5;
-    const rightColWidth = pageWidth - rightColX - margin;
-
-    const leftColContentWidth = leftColWidth - margin;
-
-    const leftColBGColor = [240, 243, 244];
-    const sectionTitleTextLeftCol = [52, 73, 94];
-    const bodyTextLeftCol = [86, 101, 115];
-
-    const nameColor = [44, 62, 80];
-    const sectionTitleRightCol = [44, 62, 80];
-    const bodyTextRightCol = [52, 73, 94];
-
-
-    let yLeft = margin;
-    let yRight = margin;
-    let currentPage = 1;
+  const getResumeDocument = (): ResumeDocument => resumeDocument!;
+  const pdfSettings = formState.resumePdfSettings || getDefaultResumePdfSettings();
 
-    const addPageIfNeeded = (currentY: number, neededHeight: number = 10) => {
-      if (currentY + neededHeight > pageHeight - margin) {
-        doc.addPage();
-        currentPage++;
-        yLeft = margin;
-        yRight = margin;
-        doc.setFillColor(leftColBGColor[0], leftColBGColor[1], leftColBGColor[2]);
-        doc.rect(0, 0, leftColWidth, pageHeight, 'F');
-        return margin;
-      }
-      return currentY;
-    };
-
-    const drawLeftColumnBackground = () => {
-      doc.setFillColor(leftColBGColor[0], leftColBGColor[1], leftColBGColor[2]);
-      doc.rect(0, 0, leftColWidth, pageHeight, 'F');
-    };
-
-    drawLeftColumnBackground();
-
-    const resumeLines = editedTailoredResume.split('\n').map(line => line.trim()).filter(line => line);
-    const candidateFullName = resumeLines.length > 0 ? resumeLines.shift()?.trim() || "Candidate Name" : "Candidate Name";
-
-    const currentLocale = resumeLanguage.toLowerCase().startsWith('es') ? 'es' : 'en';
-
-    const sectionTitlesMap: Record<string, string> = {
-        CONTACT_INFORMATION: getSectionTitle(t, 'sectionTitle_ContactInformation', currentLocale, currentLocale === 'es' ? 'DETALLES PERSONALES' : 'CONTACT INFORMATION'),
-        PROFESSIONAL_PROFILE: getSectionTitle(t, 'sectionTitle_ProfessionalProfile', currentLocale, currentLocale === 'es' ? 'PERFIL PROFESIONAL' : 'PROFESSIONAL PROFILE'),
-        WORK_EXPERIENCE: getSectionTitle(t, 'sectionTitle_WorkExperience', currentLocale, currentLocale === 'es' ? 'EXPERIENCIA LABORAL' : 'WORK EXPERIENCE'),
-        EDUCATION: getSectionTitle(t, 'sectionTitle_Education', currentLocale, currentLocale === 'es' ? 'FORMACIÓN' : 'EDUCATION'),
-        SKILLS: getSectionTitle(t, 'sectionTitle_Skills', currentLocale, currentLocale === 'es' ? 'HABILIDADES' : 'SKILLS'),
-        LANGUAGES: getSectionTitle(t, 'sectionTitle_Languages', currentLocale, currentLocale === 'es' ? 'IDIOMAS' : 'IDIOMAS'),
-        INTERESTS: getSectionTitle(t, 'sectionTitle_Interests', currentLocale, currentLocale === 'es' ? 'INTERESES' : 'INTERESTS'),
-    };
-
-
-    const sectionContent: Record<string, string[]> = {};
-    let currentSectionKey: string | null = null;
-
-    for (const line of resumeLines) {
-        const trimmedLineUpper = line.trim().toUpperCase();
-        let isTitle = false;
-        for (const key in sectionTitlesMap) {
-            const titlePattern = new RegExp(`^${sectionTitlesMap[key].toUpperCase()}\\s*:\\s*`, 'i');
-            if (titlePattern.test(trimmedLineUpper)) {
-                currentSectionKey = key;
-                sectionContent[currentSectionKey] = [];
-                const contentAfterTitle = line.replace(titlePattern, '').trim();
-                if (contentAfterTitle) {
-                    sectionContent[currentSectionKey].push(contentAfterTitle);
-                }
-                isTitle = true;
-                break;
-            } else if (trimmedLineUpper.startsWith(sectionTitlesMap[key].toUpperCase()) &&
-                       trimmedLineUpper.substring(sectionTitlesMap[key].length).trim().startsWith(':')) {
-                currentSectionKey = key;
-                sectionContent[currentSectionKey] = [];
-                const contentAfterTitle = line.substring(sectionTitlesMap[key].length).replace(/^:\s*/, '').trim();
-                 if (contentAfterTitle) {
-                    sectionContent[currentSectionKey].push(contentAfterTitle);
-                }
-                isTitle = true;
-                break;
-            }
-        }
-        if (!isTitle && currentSectionKey) {
-            sectionContent[currentSectionKey].push(line.trim());
-        }
-    }
-
-    yLeft = addPageIfNeeded(yLeft, 0);
-    doc.setFont('Helvetica', 'bold');
-    doc.setFontSize(18);
-    doc.setTextColor(nameColor[0], nameColor[1], nameColor[2]);
-    const nameLines = doc.splitTextToSize(candidateFullName.toUpperCase(), leftColContentWidth - 5);
-    nameLines.forEach((nameLine: string) => {
-        yLeft = addPageIfNeeded(yLeft, 8);
-        doc.text(nameLine, margin / 2 + 2, yLeft);
-        yLeft += 7;
-    });
-    yLeft += 3;
+  const handlePdfSettingsChange = (settings: ResumePdfSettings) => {
+    onInputChange({ target: { name: 'resumePdfSettings', value: settings } } as any);
+  };
 
-    if (profilePhotoDataUri) {
-        yLeft = addPageIfNeeded(yLeft, 40);
-        const photoSize = 35;
-        const photoX = (leftColWidth - photoSize) / 2;
-        try {
-            const parts = profilePhotoDataUri.split(',');
-            if (parts.length === 2) {
-                const mimeTypePart = parts[0].match(/:(.*?);/);
-                if (mimeTypePart && mimeTypePart[1]) {
-                    const imageType = mimeTypePart[1].split('/')[1]?.toUpperCase();
-                    if (imageType && (imageType === 'PNG' || imageType === 'JPEG' || imageType === 'JPG')) {
-                        doc.addImage(profilePhotoDataUri, imageType, photoX, yLeft, photoSize, photoSize);
-                        yLeft += photoSize + 7;
-                    } else {
-                         console.warn("Unsupported image type for profile photo:", imageType);
-                    }
-                }
-            }
-        } catch (e) {
-            console.error("Error adding profile photo to PDF:", e);
-        }
+  const handleDownloadDocx = async () => {
+    if (!editedTailoredResume) return;
+    try {
+      const blob = await Packer.toBlob(renderResumeDocx(getResumeDocument(), { language: resumeLanguage, profilePhotoDataUri }));
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = 'NailedJob_Resume.docx';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (error) {
+      console.error("DOCX export failed:", error);
+      toast({
+        variant: "destructive",
+        title: t('docxExportErrorTitle'),
+        description: error instanceof Error ? error.message : String(error),
+      });
     }
+  };
 
-    const contactInfoContent = sectionContent['CONTACT_INFORMATION'] || [];
-    if (contactInfoContent.length > 0) {
-        yLeft = addPageIfNeeded(yLeft, 8);
-        doc.setFont('Helvetica', 'bold');
-        doc.setFontSize(11);
-        doc.setTextColor(sectionTitleTextLeftCol[0], sectionTitleTextLeftCol[1], sectionTitleTextLeftCol[2]);
-        doc.text(sectionTitlesMap['CONTACT_INFORMATION'].toUpperCase(), margin/2, yLeft);
-        yLeft += 5;
-
-        doc.setFont('Helvetica', 'normal');
-        doc.setFontSize(8.5);
-        doc.setTextColor(bodyTextLeftCol[0], bodyTextLeftCol[1], bodyTextLeftCol[2]);
-        contactInfoContent.forEach(line => {
-            let label = "";
-            let value = line;
-            const lcLine = line.toLowerCase();
-
-            if (lcLine.includes('@') || lcLine.match(/(e-?mail)/i)) label = "Email: ";
-            else if (lcLine.match(/\b\d{3}[\s-]?\d{3}[\s-]?\d{3,4}\b/) || lcLine.match(/(tel(é|e)fono|phone|móvil|mobile)/i)) label = "Tel: ";
-            else if (lcLine.includes('linkedin.com/') || lcLine.includes('github.com/')) label = "Web: ";
-            else if (lcLine.match(/\d{1,2}[\/-]\d{1,2}[\/-]\d{2,4}/) || lcLine.match(/(fecha de nacimiento|date of birth|nacimiento)/i)) label = "Nacimiento: ";
-            else if (lcLine.match(/(calle|street|address|direcci(ó|o)n|ciudad|city|país|country)/i)) label = "Dir: ";
-
-            if (label) {
-                 const prefixesToRemove = ["email:", "e-mail:", "teléfono:", "telefono:", "phone:", "móvil:", "mobile:", "web:", "dirección:", "direccion:", "address:", "fecha de nacimiento:", "date of birth:", "nacimiento:","dir:"];
-                 prefixesToRemove.forEach(prefix => {
-                    if (value.toLowerCase().startsWith(prefix.toLowerCase())) {
-                        value = value.substring(prefix.length).trim();
-                    }
-                });
-            }
-
-            const contactLines = doc.splitTextToSize((label ? label : "") + value, leftColContentWidth);
-            contactLines.forEach((l:string) => {
-                 yLeft = addPageIfNeeded(yLeft, 4);
-                 doc.text(l, margin/2, yLeft);
-                 yLeft += 3.5;
-            });
-        });
-        yLeft += 5;
+  const handleDownloadJsonResume = () => {
+    try {
+      const jsonResume = resumeDocumentToJsonResume(getResumeDocument());
+      const blob = new Blob([JSON.stringify(jsonResume, null, 2)], { type: 'application/json;charset=utf-8' });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = 'NailedJob_Resume.json';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+    } catch (error) {
+      console.error("JSON Resume export failed:", error);
+      toast({
+        variant: "destructive",
+        title: t('jsonResumeExportErrorTitle'),
+        description: error instanceof Error ? error.message : String(error),
+      });
     }
-
-    const drawLeftSection = (key: string, titleSize = 11, bodySize = 8.5, bodyLineHeight = 3.5) => {
-        const content = sectionContent[key] || [];
-        const title = sectionTitlesMap[key];
-        if (content.length > 0 || (key === 'PROFESSIONAL_PROFILE' && editedTailoredResume.toUpperCase().includes(title.toUpperCase()))) {
-            yLeft = addPageIfNeeded(yLeft, 8);
-            doc.setFont('Helvetica', 'bold');
-            doc.setFontSize(titleSize);
-            doc.setTextColor(sectionTitleTextLeftCol[0], sectionTitleTextLeftCol[1], sectionTitleTextLeftCol[2]);
-            doc.text(title.toUpperCase(), margin/2, yLeft);
-            yLeft += 5;
-
-            doc.setFont('Helvetica', 'normal');
-            doc.setFontSize(bodySize);
-            doc.setTextColor(bodyTextLeftCol[0], bodyTextLeftCol[1], bodyTextLeftCol[2]);
-            content.forEach(line => {
-                const textLines = doc.splitTextToSize(line, leftColContentWidth);
-                textLines.forEach((l:string) => {
-                    yLeft = addPageIfNeeded(yLeft, bodyLineHeight + 0.5);
-                    doc.text(l, margin/2, yLeft);
-                    yLeft += bodyLineHeight;
-                });
-                 if (key === 'LANGUAGES' && line.includes(':')) yLeft += 1;
-            });
-            yLeft += 5;
-        }
-    };
-
-    drawLeftSection('PROFESSIONAL_PROFILE');
-    drawLeftSection('LANGUAGES');
-    drawLeftSection('INTERESTS');
-
-    const drawRightSection = (key: string) => {
-        const content = sectionContent[key] || [];
-        const title = sectionTitlesMap[key];
-        const allSectionTitlesForParsing = Object.values(sectionTitlesMap);
-
-        if (content.length > 0 ||
-            (key === 'WORK_EXPERIENCE' && editedTailoredResume.toUpperCase().includes(title.toUpperCase())) ||
-            (key === 'EDUCATION' && editedTailoredResume.toUpperCase().includes(title.toUpperCase())) ||
-            (key === 'SKILLS' && editedTailoredResume.toUpperCase().includes(title.toUpperCase()))) {
-
-            yRight = addPageIfNeeded(yRight, 10);
-            doc.setFont('Helvetica', 'bold');
-            doc.setFontSize(14);
-            doc.setTextColor(sectionTitleRightCol[0], sectionTitleRightCol[1], sectionTitleRightCol[2]);
-            doc.text(title.toUpperCase(), rightColX, yRight);
-            yRight += 1;
-
-            doc.setDrawColor(189, 195, 199);
-            doc.setLineWidth(0.3);
-            doc.line(rightColX, yRight, rightColX + rightColWidth, yRight);
-            yRight += 6;
-
-            let isFirstInSubSection = true;
-
-            for (let i = 0; i < content.length; i++) {
-                let line = content[i];
-
-                const itemFontSize = 10;
-                const itemLineHeight = 4.5;
-                const dateFontSize = 9;
-                const descriptionFontSize = 9.5;
-                const defaultStyle = 'normal';
-
-                doc.setTextColor(bodyTextRightCol[0], bodyTextRightCol[1], bodyTextRightCol[2]);
-                doc.setFontSize(itemFontSize);
-                doc.setFont('Helvetica', defaultStyle);
-
-                const isLikelyActualTitle = isFirstInSubSection ||
-                                         (i > 0 && (content[i-1].match(/\d{4}\s*(-|–|to|a)\s*(\d{4}|Present|Actual|Hoy|Actualidad)/i) || content[i-1].trim() === "" || allSectionTitlesForParsing.some(st => content[i-1]?.toUpperCase().includes(st.toUpperCase()) ) ) );
-
-                const isLikelyDateLine = line.match(/\d{4}\s*(-|–|to|a)\s*(\d{4}|Present|Actual|Hoy|Actualidad)/i) ||
-                                       line.match(/\b(Ene|Feb|Mar|Abr|May|Jun|Jul|Ago|Sep|Oct|Nov|Dic|Jan|Apr|Jul|Aug|Sept|Dec)\b\.?\s\d{4}/i);
-
-                if (key === 'WORK_EXPERIENCE' && isLikelyActualTitle && !isLikelyDateLine) {
-                    yRight = addPageIfNeeded(yRight, itemLineHeight + (i > 0 ? 2 : 0) );
-
-                    let positionAndCompany = line;
-                    let location = "";
-                    const lastCommaIndex = line.lastIndexOf(',');
-
-                    if (lastCommaIndex > 0 && line.substring(lastCommaIndex + 1).trim().length > 0) {
-                        const textBeforeLastComma = line.substring(0, lastCommaIndex);
-                        if (textBeforeLastComma.includes(',') || line.split(',').length >= 2) {
-                             positionAndCompany = textBeforeLastComma.trim();
-                             location = line.substring(lastCommaIndex).trim();
-                        } else {
-                             positionAndCompany = textBeforeLastComma.trim();
-                             location = line.substring(lastCommaIndex).trim();
-                        }
-                    }
-
-                    let currentX = rightColX;
-                    doc.setFont('Helvetica', 'bold');
-                    doc.setFontSize(itemFontSize + 0.5);
-
-                    const boldWrapped = doc.splitTextToSize(positionAndCompany, rightColWidth);
-                    for (let idx = 0; idx < boldWrapped.length; idx++) {
-                        if (idx > 0) {
-                            yRight = addPageIfNeeded(yRight + itemLineHeight, itemLineHeight);
-                            currentX = rightColX;
-                        }
-                        doc.text(boldWrapped[idx], currentX, yRight);
-                        currentX += doc.getTextWidth(boldWrapped[idx]);
-                    }
-
-                    if (location) {
-                        doc.setFont('Helvetica', 'normal');
-                        doc.setFontSize(itemFontSize);
-                        const spaceForLocation = rightColWidth - (currentX - rightColX);
-
-                        if (currentX === rightColX || spaceForLocation < doc.getTextWidth(" ") + 5 ) {
-                            yRight = addPageIfNeeded(yRight + itemLineHeight, itemLineHeight);
-                            currentX = rightColX;
-                        }
-
-                        const locationTextToPrint = location.startsWith(',') ? location : `, ${location}`;
-                        const locationWrapped = doc.splitTextToSize(locationTextToPrint, rightColWidth - (currentX - rightColX));
-                        for (let idx = 0; idx < locationWrapped.length; idx++) {
-                            if (idx > 0) {
-                                 yRight = addPageIfNeeded(yRight + itemLineHeight, itemLineHeight);
-                                 currentX = rightColX;
-                            }
-                             doc.text(locationWrapped[idx], currentX, yRight);
-                             currentX += doc.getTextWidth(locationWrapped[idx]);
-                        }
-                    }
-                    yRight += itemLineHeight;
-                    isFirstInSubSection = false;
-
-                } else if (key === 'EDUCATION' && isLikelyActualTitle && !isLikelyDateLine) {
-                    yRight = addPageIfNeeded(yRight, itemLineHeight + (i > 0 ? 2 : 0) );
-                    doc.setFont('Helvetica', 'bold');
-                    doc.setFontSize(itemFontSize + 0.5);
-                    const textLines = doc.splitTextToSize(line, rightColWidth);
-                    textLines.forEach((l: string) => {
-                        doc.text(l, rightColX, yRight);
-                        yRight = addPageIfNeeded(yRight + itemLineHeight, itemLineHeight);
-                    });
-                    if (textLines.length > 0) yRight -= itemLineHeight;
-                    yRight += itemLineHeight;
-                    isFirstInSubSection = false;
-
-                } else if (isLikelyDateLine) {
-                    yRight = addPageIfNeeded(yRight, itemLineHeight);
-                    doc.setFont('Helvetica', 'italic');
-                    doc.setFontSize(dateFontSize);
-                    doc.setTextColor(128, 128, 128);
-                    const textLines = doc.splitTextToSize(line, rightColWidth);
-                    textLines.forEach((l:string) => {
-                        doc.text(l, rightColX, yRight);
-                        yRight = addPageIfNeeded(yRight + itemLineHeight, itemLineHeight);
-                    });
-                    if (textLines.length > 0) yRight -= itemLineHeight;
-                    yRight += itemLineHeight;
-                    doc.setTextColor(bodyTextRightCol[0], bodyTextRightCol[1], bodyTextRightCol[2]);
-                    isFirstInSubSection = false;
-
-                } else if (key === 'SKILLS' && (line.toLowerCase().startsWith('técnicas:') || line.toLowerCase().startsWith('technical:') || line.toLowerCase().startsWith('habilidades técnicas:'))) {
-                    yRight = addPageIfNeeded(yRight + 2, itemLineHeight);
-                    doc.setFont('Helvetica', 'bold');
-                    doc.setFontSize(itemFontSize);
-                    doc.text(line, rightColX, yRight);
-                    yRight += itemLineHeight;
-                    isFirstInSubSection = false;
-                } else if (key === 'SKILLS' && (line.toLowerCase().startsWith('blandas:') || line.toLowerCase().startsWith('soft:') || line.toLowerCase().startsWith('habilidades blandas:'))) {
-                    yRight = addPageIfNeeded(yRight + 2, itemLineHeight);
-                    doc.setFont('Helvetica', 'bold');
-                    doc.setFontSize(itemFontSize);
-                    doc.text(line, rightColX, yRight);
-                    yRight += itemLineHeight;
-                    isFirstInSubSection = false;
-                }
-                else {
-                    yRight = addPageIfNeeded(yRight, itemLineHeight);
-                    doc.setFont('Helvetica', 'normal');
-                    doc.setFontSize(descriptionFontSize);
-                    const textLines = doc.splitTextToSize(line, rightColWidth);
-                    textLines.forEach((l:string) => {
-                        doc.text(l, rightColX, yRight);
-                        yRight = addPageIfNeeded(yRight + itemLineHeight, itemLineHeight);
-                    });
-                     if (textLines.length > 0) yRight -= itemLineHeight;
-                     yRight += itemLineHeight;
-                    if (line.trim() !== "") isFirstInSubSection = true;
-                }
-            }
-            yRight += 5;
-        }
-    };
-
-    drawRightSection('WORK_EXPERIENCE');
-    drawRightSection('EDUCATION');
-    drawRightSection('SKILLS');
-
-    doc.save('NailedJob_Resume.pdf');
   };
 
 
@@ -532,32 +275,99 @@ export function ResumeBuilderStep({
           </Card>
         )}
 
-        <div>
-          <h3 className="text-lg font-semibold text-foreground mb-2">{t('tailoredResumeContentTitle')}</h3>
-          <Textarea
-            value={editedTailoredResume}
-            onChange={(e) => onEditedTailoredResumeChange(e.target.value)}
-            placeholder={t('aiGeneratedResumePlaceholder')}
-            rows={25}
-            className="text-sm whitespace-pre-wrap break-words font-sans leading-relaxed w-full rounded-md border p-4 bg-muted/50 focus-visible:ring-primary"
-            aria-label={t('tailoredResumeContentTitle')}
-            disabled={loading || isRegenerating}
-          />
-          <p className="text-xs text-muted-foreground mt-1">{t('editableResumeNote')}</p>
-          <div className="flex gap-2 mt-4 flex-wrap">
-            <Button onClick={handleDownloadText} disabled={!editedTailoredResume.trim() || loading || isRegenerating}>
-              <Download className="mr-2 h-4 w-4" /> {t('downloadAsTextButton')}
-            </Button>
-            <Button onClick={handleDownloadPdf} variant="outline" disabled={!editedTailoredResume.trim() || loading || isRegenerating}>
-              <FileType className="mr-2 h-4 w-4" /> {t('downloadAsPdfButton')}
-            </Button>
-            <Button onClick={handleRegenerateClick} variant="secondary" disabled={loading || isRegenerating}>
-              {isRegenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
-              {isRegenerating ? t('regeneratingResumeMessage') : t('regenerateResumeButton')}
-            </Button>
-          </div>
-           <p className="text-xs text-muted-foreground mt-2">{t('pdfDownloadNote')}</p>
-        </div>
+        <Tabs defaultValue="resume">
+          <TabsList>
+            <TabsTrigger value="resume">{t('resumeTabLabel')}</TabsTrigger>
+            <TabsTrigger value="coverLetter">{t('coverLetterTabLabel')}</TabsTrigger>
+            <TabsTrigger value="versions">{t('resumeVersionsTabLabel', { count: resumeVersions.length })}</TabsTrigger>
+          </TabsList>
+          <TabsContent value="resume">
+            <h3 className="text-lg font-semibold text-foreground mb-2">{t('tailoredResumeContentTitle')}</h3>
+            <ResumeSectionRewriter
+              resumeText={editedTailoredResume}
+              onResumeTextChange={onEditedTailoredResumeChange}
+              onRewriteSection={onRewriteResumeSection}
+              onBeforeApply={onSaveResumeVersion}
+              disabled={loading || isRegenerating}
+            />
+            <ResumeClaimsReview
+              claims={flaggedClaims}
+              pendingClaims={pendingClaims}
+              resumeText={editedTailoredResume}
+              onShowClaim={handleShowClaim}
+              onConfirmClaim={onConfirmResumeClaim}
+              onDeleteClaim={onDeleteResumeClaim}
+              disabled={loading || isRegenerating}
+            />
+            <Textarea
+              ref={resumeTextareaRef}
+              value={editedTailoredResume}
+              onChange={(e) => onEditedTailoredResumeChange(e.target.value)}
+              placeholder={t('aiGeneratedResumePlaceholder')}
+              rows={25}
+              className="text-sm whitespace-pre-wrap break-words font-sans leading-relaxed w-full rounded-md border p-4 bg-muted/50 focus-visible:ring-primary"
+              aria-label={t('tailoredResumeContentTitle')}
+              disabled={loading || isRegenerating}
+            />
+            <p className="text-xs text-muted-foreground mt-1">{t('editableResumeNote')}</p>
+            <div className="flex gap-2 mt-4 flex-wrap">
+              <Button onClick={handleDownloadText} disabled={cannotDownload}>
+                <Download className="mr-2 h-4 w-4" /> {t('downloadAsTextButton')}
+              </Button>
+              <Button onClick={() => setTemplateGalleryOpen(true)} variant="outline" disabled={cannotDownload}>
+                <FileType className="mr-2 h-4 w-4" /> {t('downloadAsPdfButton')}
+              </Button>
+              <Button onClick={handleDownloadDocx} variant="outline" disabled={cannotDownload}>
+                <FileDown className="mr-2 h-4 w-4" /> {t('downloadAsDocxButton')}
+              </Button>
+              <Button onClick={handleDownloadJsonResume} variant="outline" disabled={cannotDownload}>
+                <FileJson className="mr-2 h-4 w-4" /> {t('downloadAsJsonResumeButton')}
+              </Button>
+              <Button onClick={handleRegenerateClick} variant="secondary" disabled={loading || isRegenerating}>
+                {isRegenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+                {isRegenerating ? t('regeneratingResumeMessage') : t('regenerateResumeButton')}
+              </Button>
+            </div>
+            {pendingClaims.length > 0 && (
+              <p className="text-xs text-yellow-600 mt-2">{t('resumeClaimsDownloadBlocked', { count: pendingClaims.length })}</p>
+            )}
+             <p className="text-xs text-muted-foreground mt-2">{t('pdfDownloadNote')}</p>
+          </TabsContent>
+          <TabsContent value="coverLetter">
+            <CoverLetterTab
+              formState={formState}
+              onInputChange={onInputChange}
+              coverLetter={coverLetter}
+              onCoverLetterChange={onCoverLetterChange}
+              onGenerateCoverLetter={onGenerateCoverLetter}
+              resume={getResumeDocument()}
+              disabled={loading || isRegenerating || !editedTailoredResume.trim()}
+            />
+          </TabsContent>
+          <TabsContent value="versions">
+            <ResumeVersionsTab
+              versions={resumeVersions}
+              activeVersionId={activeResumeVersionId}
+              currentDraft={editedTailoredResume}
+              originalResume={formState.resumeText}
+              hasUnsavedEdits={hasUnsavedResumeEdits}
+              onSaveVersion={onSaveResumeVersion}
+              onRestoreVersion={onRestoreResumeVersion}
+              onBranchVersion={onBranchResumeVersion}
+              disabled={loading || isRegenerating}
+            />
+          </TabsContent>
+        </Tabs>
+
+        <ResumeTemplateGallery
+          open={templateGalleryOpen}
+          onOpenChange={setTemplateGalleryOpen}
+          resume={getResumeDocument()}
+          resumeLanguage={resumeLanguage}
+          profilePhotoDataUri={profilePhotoDataUri}
+          settings={pdfSettings}
+          onSettingsChange={handlePdfSettingsChange}
+        />
 
         {explanation && (
           <div>
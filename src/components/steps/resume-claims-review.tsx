@@ -0,0 +1,98 @@
+"use client";
+
+import * as React from "react";
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Check, Eye, Info, ShieldAlert, ShieldCheck, Trash2 } from 'lucide-react';
+import { useLanguage } from '@/contexts/language-context';
+import { findResumeClaim, type UnsupportedResumeClaim } from '@/lib/resume-claims';
+
+interface ResumeClaimsReviewProps {
+  /** Missing when the claims of this resume were not checked. */
+  claims: UnsupportedResumeClaim[] | undefined;
+  /** The flagged claims still waiting for the user. */
+  pendingClaims: UnsupportedResumeClaim[];
+  resumeText: string;
+  onShowClaim: (claim: string) => void;
+  onConfirmClaim: (claim: string) => void;
+  onDeleteClaim: (claim: string) => void;
+  disabled: boolean;
+}
+
+/** The line holding the claim, split around it so the claim can be highlighted in place. */
+function getClaimContext(text: string, claim: string): [string, string, string] {
+  const match = findResumeClaim(text, claim);
+  if (!match) return ['', claim, ''];
+  const lineStart = text.lastIndexOf('\n', match.start - 1) + 1;
+  const lineEnd = text.indexOf('\n', match.end);
+  return [
+    text.slice(lineStart, match.start),
+    text.slice(match.start, match.end),
+    text.slice(match.end, lineEnd < 0 ? text.length : lineEnd),
+  ];
+}
+
+/**
+ * Claims of the tailored resume that the original resume does not back. Each one is highlighted in its line and
+ * must be confirmed as true or deleted before the resume can be downloaded.
+ */
+export function ResumeClaimsReview({ claims, pendingClaims, resumeText, onShowClaim, onConfirmClaim, onDeleteClaim, disabled }: ResumeClaimsReviewProps) {
+  const { t } = useLanguage();
+
+  if (!claims) {
+    return (
+      <p className="flex items-center text-xs text-muted-foreground mb-4">
+        <Info className="mr-2 h-4 w-4 shrink-0" />{t('resumeClaimsNotChecked')}
+      </p>
+    );
+  }
+
+  if (pendingClaims.length === 0) {
+    return (
+      <p className="flex items-center text-xs text-muted-foreground mb-4">
+        <ShieldCheck className="mr-2 h-4 w-4 shrink-0 text-green-500" />
+        {claims.length === 0 ? t('resumeClaimsAllSupported') : t('resumeClaimsAllReviewed')}
+      </p>
+    );
+  }
+
+  return (
+    <div className="rounded-md border border-yellow-500/60 bg-yellow-50 dark:bg-yellow-950/30 p-3 mb-4 space-y-3">
+      <div>
+        <p className="flex items-center text-sm font-medium">
+          <ShieldAlert className="mr-2 h-4 w-4 text-yellow-600" />{t('resumeClaimsTitle', { count: pendingClaims.length })}
+        </p>
+        <p className="text-xs text-muted-foreground mt-1">{t('resumeClaimsDescription')}</p>
+      </div>
+      <ul className="space-y-2">
+        {pendingClaims.map(({ claim, category, reason }) => {
+          const [before, highlighted, after] = getClaimContext(resumeText, claim);
+          return (
+            <li key={claim} className="rounded-md border bg-background p-2 text-sm">
+              <div className="flex flex-wrap items-start justify-between gap-2">
+                <p className="min-w-0 flex-1 break-words">
+                  <Badge variant="outline" className="mr-2">{t(`resumeClaimCategory_${category}`)}</Badge>
+                  <span className="text-muted-foreground">{before}</span>
+                  <mark className="rounded bg-yellow-200 px-0.5 dark:bg-yellow-800">{highlighted}</mark>
+                  <span className="text-muted-foreground">{after}</span>
+                </p>
+                <div className="flex shrink-0 gap-1">
+                  <Button type="button" variant="ghost" size="icon" className="h-8 w-8" onClick={() => onShowClaim(claim)} disabled={disabled} aria-label={t('resumeClaimsShowButton')} title={t('resumeClaimsShowButton')}>
+                    <Eye className="h-4 w-4" />
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" onClick={() => onConfirmClaim(claim)} disabled={disabled}>
+                    <Check className="mr-1 h-4 w-4" />{t('resumeClaimsConfirmButton')}
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" onClick={() => onDeleteClaim(claim)} disabled={disabled}>
+                    <Trash2 className="mr-1 h-4 w-4" />{t('resumeClaimsDeleteButton')}
+                  </Button>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground mt-1">{reason || t('resumeClaimsNoEvidence')}</p>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,170 @@
+"use client";
+
+import * as React from "react";
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Check, Loader2, Sparkles, X } from 'lucide-react';
+import { useLanguage } from '@/contexts/language-context';
+import { useToast } from '@/hooks/use-toast';
+import type { ResumeSectionRewriteOutput } from '@/ai/flows/resume-section-rewriter';
+import {
+  RESUME_REWRITE_ACTIONS,
+  applyResumeRewrite,
+  getResumeRewriteTargets,
+  type ResumeRewriteAction,
+  type ResumeRewriteTarget,
+} from '@/lib/resume-rewrite';
+import { diffResumeText } from '@/lib/resume-versions';
+
+export interface ResumeSectionRewriteRequest {
+  target: ResumeRewriteTarget;
+  action: ResumeRewriteAction;
+  instructions?: string;
+}
+
+interface ResumeSectionRewriterProps {
+  resumeText: string;
+  onResumeTextChange: (newText: string) => void;
+  /** Resolves to null when the rewrite failed; the wizard has already told the user. */
+  onRewriteSection: (request: ResumeSectionRewriteRequest) => Promise<ResumeSectionRewriteOutput | null>;
+  /** Called before a rewrite is applied, so the text it replaces is kept as a version. */
+  onBeforeApply: () => void;
+  disabled: boolean;
+}
+
+interface RewritePreview extends ResumeSectionRewriteRequest {
+  result: ResumeSectionRewriteOutput;
+}
+
+/**
+ * AI actions on one part of the resume: pick the whole resume, a section or an entry, and an action.
+ * The rewrite is shown next to the current text and only replaces it once the user applies it.
+ */
+export function ResumeSectionRewriter({ resumeText, onResumeTextChange, onRewriteSection, onBeforeApply, disabled }: ResumeSectionRewriterProps) {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const targets = React.useMemo(() => getResumeRewriteTargets(resumeText), [resumeText]);
+  const [targetId, setTargetId] = React.useState('section:profile');
+  const [action, setAction] = React.useState<ResumeRewriteAction>('rewrite');
+  const [instructions, setInstructions] = React.useState('');
+  const [isRewriting, setIsRewriting] = React.useState(false);
+  const [preview, setPreview] = React.useState<RewritePreview | null>(null);
+
+  const target = targets.find(candidate => candidate.id === targetId) || targets[0];
+  const busy = disabled || isRewriting;
+  const canRewrite = !!target && !busy && (action !== 'custom' || !!instructions.trim());
+
+  const getTargetLabel = (candidate: ResumeRewriteTarget) => {
+    if (candidate.scope === 'resume') return t('sectionRewriteWholeResume');
+    return candidate.scope === 'entry' ? `  · ${candidate.label}` : candidate.label;
+  };
+
+  const handleRewrite = async () => {
+    if (!target) return;
+    const request: ResumeSectionRewriteRequest = { target, action, instructions: action === 'custom' ? instructions.trim() : undefined };
+    setIsRewriting(true);
+    const result = await onRewriteSection(request);
+    setIsRewriting(false);
+    if (result) setPreview({ ...request, result });
+  };
+
+  const handleApply = () => {
+    if (!preview) return;
+    const updated = applyResumeRewrite(resumeText, preview.target, preview.result.rewrittenText);
+    if (updated === null) {
+      toast({ variant: "destructive", title: t('sectionRewriteStaleTitle'), description: t('sectionRewriteStaleDescription') });
+      return;
+    }
+    onBeforeApply();
+    onResumeTextChange(updated);
+    setPreview(null);
+  };
+
+  const diffRows = React.useMemo(
+    () => preview ? diffResumeText(preview.target.text, preview.result.rewrittenText) : [],
+    [preview]
+  );
+
+  return (
+    <div className="rounded-md border p-3 mb-4 space-y-3">
+      <p className="flex items-center text-sm font-medium"><Sparkles className="mr-2 h-4 w-4 text-primary" />{t('sectionRewriteTitle')}</p>
+      <div className="grid gap-3 sm:grid-cols-[2fr_1fr_auto] sm:items-end">
+        <div>
+          <Label className="text-xs">{t('sectionRewriteTargetLabel')}</Label>
+          <Select value={target?.id} onValueChange={setTargetId} disabled={busy || targets.length === 0}>
+            <SelectTrigger className="mt-1"><SelectValue placeholder={t('sectionRewriteNoTargets')} /></SelectTrigger>
+            <SelectContent>
+              {targets.map(candidate => (
+                <SelectItem key={candidate.id} value={candidate.id}>
+                  <span className="block max-w-[24rem] truncate whitespace-pre">{getTargetLabel(candidate)}</span>
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label className="text-xs">{t('sectionRewriteActionLabel')}</Label>
+          <Select value={action} onValueChange={(value) => setAction(value as ResumeRewriteAction)} disabled={busy}>
+            <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {RESUME_REWRITE_ACTIONS.map(option => (
+                <SelectItem key={option} value={option}>
+                  {t(option === 'shorten' && target?.scope === 'resume' ? 'sectionRewriteAction_shortenToOnePage' : `sectionRewriteAction_${option}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button type="button" variant="secondary" onClick={handleRewrite} disabled={!canRewrite}>
+          {isRewriting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+          {t('sectionRewritePreviewButton')}
+        </Button>
+      </div>
+      {action === 'custom' && (
+        <Input
+          value={instructions}
+          onChange={(e) => setInstructions(e.target.value)}
+          placeholder={t('sectionRewriteInstructionsPlaceholder')}
+          disabled={busy}
+          aria-label={t('sectionRewriteInstructionsPlaceholder')}
+        />
+      )}
+
+      {preview && (
+        <div className="space-y-2">
+          <p className="text-sm font-medium">{t('sectionRewritePreviewTitle')}</p>
+          <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
+            <span>{t('sectionRewriteCurrentLabel')}</span>
+            <span>{t('sectionRewriteProposedLabel')}</span>
+          </div>
+          <ScrollArea className="h-72 rounded-md border">
+            <table className="w-full table-fixed border-collapse font-mono text-xs">
+              <tbody>
+                {diffRows.map((row, index) => (
+                  <tr key={index} className="align-top">
+                    <td className={`w-1/2 whitespace-pre-wrap break-words border-r px-2 py-0.5 ${row.kind === 'removed' || row.kind === 'changed' ? 'bg-red-100 dark:bg-red-950/60' : ''}`}>{row.left ?? ''}</td>
+                    <td className={`w-1/2 whitespace-pre-wrap break-words px-2 py-0.5 ${row.kind === 'added' || row.kind === 'changed' ? 'bg-green-100 dark:bg-green-950/60' : ''}`}>{row.right ?? ''}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </ScrollArea>
+          {preview.result.explanation && (
+            <p className="text-xs text-muted-foreground"><span className="font-semibold">{t('aiExplanationLabel')} </span>{preview.result.explanation}</p>
+          )}
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => setPreview(null)} disabled={disabled}>
+              <X className="mr-2 h-4 w-4" />{t('sectionRewriteDiscardButton')}
+            </Button>
+            <Button type="button" size="sm" onClick={handleApply} disabled={disabled}>
+              <Check className="mr-2 h-4 w-4" />{t('sectionRewriteApplyButton')}
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import * as React from "react";
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { FileType, Loader2 } from 'lucide-react';
+import { useLanguage } from '@/contexts/language-context';
+import type { ResumeDocument } from '@/lib/resume-document';
+import { renderResumePdf } from '@/lib/resume-pdf';
+import {
+  RESUME_PAPER_SIZES,
+  RESUME_PDF_FONTS,
+  RESUME_TEMPLATES,
+  getDefaultResumePdfSettings,
+  getResumeTemplate,
+  isHexColor,
+  type ResumePaperSize,
+  type ResumePdfFont,
+  type ResumePdfSettings,
+  type ResumeTemplate,
+} from '@/lib/resume-templates';
+
+interface ResumeTemplateGalleryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  resume: ResumeDocument;
+  /** Resume language ("English", "Spanish"). */
+  resumeLanguage: string;
+  profilePhotoDataUri?: string;
+  settings: ResumePdfSettings;
+  onSettingsChange: (settings: ResumePdfSettings) => void;
+}
+
+/** Time to wait after the last change before laying the preview out again. */
+const PREVIEW_DELAY_MS = 300;
+
+/** A sketch of the template's layout in its default colors, for the gallery cards. */
+function TemplateThumbnail({ template }: { template: ResumeTemplate }) {
+  const line = (width: string, strong = false) => (
+    <div className="h-1 rounded-sm" style={{ width, backgroundColor: strong ? template.accentColor : '#cbd5e1' }} />
+  );
+  return (
+    <div className="flex h-20 w-16 shrink-0 overflow-hidden rounded-sm border bg-white p-1">
+      {template.layout === 'two-column' && (
+        <div className="mr-1 w-1/3 space-y-1 rounded-sm p-0.5" style={{ backgroundColor: `${template.accentColor}1f` }}>
+          {line('100%', true)}{line('80%')}{line('90%')}
+        </div>
+      )}
+      <div className={`flex-1 space-y-1 ${template.headerAlign === 'center' ? 'flex flex-col items-center' : ''}`}>
+        {line('70%', true)}{line('50%')}
+        <div className="pt-0.5" />
+        {line('40%', true)}{line('100%')}{line('90%')}{line('95%')}
+        {line('40%', true)}{line('100%')}{line('80%')}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Template gallery for the PDF export: pick a template, adjust its accent color, font, paper size and photo, and see
+ * the actual PDF in a preview next to the settings before downloading it.
+ */
+export function ResumeTemplateGallery({ open, onOpenChange, resume, resumeLanguage, profilePhotoDataUri, settings, onSettingsChange }: ResumeTemplateGalleryProps) {
+  const { t, language } = useLanguage();
+  const [preview, setPreview] = React.useState<{ url: string; pageCount: number } | null>(null);
+  const template = getResumeTemplate(settings.templateId);
+
+  const previewUrl = React.useRef<string | null>(null);
+
+  React.useEffect(() => {
+    if (!open) return;
+    const timer = setTimeout(() => {
+      try {
+        const doc = renderResumePdf(resume, { language: resumeLanguage, profilePhotoDataUri, settings });
+        const url = URL.createObjectURL(doc.output('blob'));
+        if (previewUrl.current) URL.revokeObjectURL(previewUrl.current);
+        previewUrl.current = url;
+        setPreview({ url, pageCount: doc.getNumberOfPages() });
+      } catch (error) {
+        console.error("Resume PDF preview failed:", error);
+      }
+    }, PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [open, resume, resumeLanguage, profilePhotoDataUri, settings]);
+
+  // The preview is laid out again each time the dialog opens; the last one is freed when it closes.
+  React.useEffect(() => {
+    if (open) return;
+    if (previewUrl.current) URL.revokeObjectURL(previewUrl.current);
+    previewUrl.current = null;
+    setPreview(null);
+  }, [open]);
+
+  const update = (changes: Partial<ResumePdfSettings>) => onSettingsChange({ ...settings, ...changes });
+
+  const handleDownload = () => {
+    renderResumePdf(resume, { language: resumeLanguage, profilePhotoDataUri, settings }).save('NailedJob_Resume.pdf');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl">
+        <DialogHeader>
+          <DialogTitle>{t('resumeTemplatesTitle')}</DialogTitle>
+          <DialogDescription>{t('resumeTemplatesDescription')}</DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-6 md:grid-cols-[minmax(0,2fr)_minmax(0,3fr)]">
+          <div className="max-h-[70vh] space-y-4 overflow-y-auto pr-1">
+            <div className="space-y-2" role="radiogroup" aria-label={t('resumeTemplatesGalleryLabel')}>
+              {RESUME_TEMPLATES.map(candidate => (
+                <button
+                  key={candidate.id}
+                  type="button"
+                  role="radio"
+                  aria-checked={candidate.id === template.id}
+                  onClick={() => onSettingsChange(getDefaultResumePdfSettings(candidate.id, settings))}
+                  className={`flex w-full items-start gap-3 rounded-md border p-2 text-left transition-colors hover:bg-muted/50 ${candidate.id === template.id ? 'border-primary ring-1 ring-primary' : ''}`}
+                >
+                  <TemplateThumbnail template={candidate} />
+                  <span>
+                    <span className="block text-sm font-medium">{candidate.name[language]}</span>
+                    <span className="block text-xs text-muted-foreground">{candidate.description[language]}</span>
+                  </span>
+                </button>
+              ))}
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="resumeAccentColor" className="text-xs">{t('resumeTemplatesAccentColorLabel')}</Label>
+                <Input
+                  id="resumeAccentColor"
+                  type="color"
+                  className="mt-1 h-10 p-1"
+                  value={template.allowAccentColor && isHexColor(settings.accentColor) ? settings.accentColor : template.accentColor}
+                  onChange={(e) => update({ accentColor: e.target.value })}
+                  disabled={!template.allowAccentColor}
+                />
+              </div>
+              <div>
+                <Label className="text-xs">{t('resumeTemplatesFontLabel')}</Label>
+                <Select value={settings.font} onValueChange={(value) => update({ font: value as ResumePdfFont })}>
+                  <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {RESUME_PDF_FONTS.map(font => <SelectItem key={font} value={font}>{t(`resumeTemplatesFont_${font}`)}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label className="text-xs">{t('resumeTemplatesPaperSizeLabel')}</Label>
+                <Select value={settings.paperSize} onValueChange={(value) => update({ paperSize: value as ResumePaperSize })}>
+                  <SelectTrigger className="mt-1"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {RESUME_PAPER_SIZES.map(paperSize => <SelectItem key={paperSize} value={paperSize}>{t(`resumeTemplatesPaperSize_${paperSize}`)}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="flex items-end gap-2 pb-2">
+                <Switch
+                  id="resumeShowPhoto"
+                  checked={template.allowPhoto && settings.showPhoto && !!profilePhotoDataUri}
+                  onCheckedChange={(checked) => update({ showPhoto: checked })}
+                  disabled={!template.allowPhoto || !profilePhotoDataUri}
+                />
+                <Label htmlFor="resumeShowPhoto" className="text-xs">{t('resumeTemplatesShowPhotoLabel')}</Label>
+              </div>
+            </div>
+            {(!template.allowAccentColor || !template.allowPhoto) && (
+              <p className="text-xs text-muted-foreground">{t('resumeTemplatesPlainNote')}</p>
+            )}
+            {template.allowPhoto && !profilePhotoDataUri && (
+              <p className="text-xs text-muted-foreground">{t('resumeTemplatesNoPhotoNote')}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-xs text-muted-foreground">
+              <span>{t('resumeTemplatesPreviewLabel')}</span>
+              {preview && <span>{t('resumeTemplatesPageCount', { count: preview.pageCount })}</span>}
+            </div>
+            <div className="h-[60vh] overflow-hidden rounded-md border bg-muted/40">
+              {preview ? (
+                <iframe src={`${preview.url}#toolbar=0&navpanes=0&view=FitH`} title={t('resumeTemplatesPreviewLabel')} className="h-full w-full" />
+              ) : (
+                <div className="flex h-full items-center justify-center"><Loader2 className="h-6 w-6 animate-spin text-primary" /></div>
+              )}
+            </div>
+            <div className="flex justify-end">
+              <Button onClick={handleDownload}>
+                <FileType className="mr-2 h-4 w-4" />{t('resumeTemplatesDownloadButton')}
+              </Button>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,183 @@
+"use client";
+
+import * as React from "react";
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { GitBranch, GitCompare, RotateCcw, Save } from 'lucide-react';
+import { useLanguage } from '@/contexts/language-context';
+import { diffResumeText, type ResumeDiffRow, type ResumeVersion } from '@/lib/resume-versions';
+
+interface ResumeVersionsTabProps {
+  versions: ResumeVersion[];
+  activeVersionId: string | null;
+  /** Text in the editor right now. */
+  currentDraft: string;
+  /** The user's own resume text; empty when it was uploaded as a file the browser could not read. */
+  originalResume: string;
+  hasUnsavedEdits: boolean;
+  onSaveVersion: () => void;
+  onRestoreVersion: (id: string) => void;
+  onBranchVersion: (id: string) => void;
+  disabled: boolean;
+}
+
+const ORIGINAL = 'original';
+const DRAFT = 'draft';
+
+const diffCellClass: Record<ResumeDiffRow['kind'], [string, string]> = {
+  same: ['', ''],
+  removed: ['bg-red-100 dark:bg-red-950/60', 'bg-muted/40'],
+  added: ['bg-muted/40', 'bg-green-100 dark:bg-green-950/60'],
+  changed: ['bg-red-100 dark:bg-red-950/60', 'bg-green-100 dark:bg-green-950/60'],
+};
+
+export function ResumeVersionsTab({
+  versions,
+  activeVersionId,
+  currentDraft,
+  originalResume,
+  hasUnsavedEdits,
+  onSaveVersion,
+  onRestoreVersion,
+  onBranchVersion,
+  disabled,
+}: ResumeVersionsTabProps) {
+  const { t, language } = useLanguage();
+  const newestFirst = React.useMemo(() => [...versions].reverse(), [versions]);
+  const [leftKey, setLeftKey] = React.useState<string>(() => originalResume.trim() ? ORIGINAL : versions[0]?.id || DRAFT);
+  const [rightKey, setRightKey] = React.useState<string>(DRAFT);
+
+  const versionLabel = (version: ResumeVersion) => `v${version.number}`;
+
+  const getText = (key: string): string => {
+    if (key === ORIGINAL) return originalResume;
+    if (key === DRAFT) return currentDraft;
+    return versions.find(version => version.id === key)?.text ?? '';
+  };
+
+  const leftText = getText(leftKey);
+  const rightText = getText(rightKey);
+  const diffRows = React.useMemo(() => diffResumeText(leftText, rightText), [leftText, rightText]);
+  const changedRows = diffRows.filter(row => row.kind !== 'same').length;
+
+  const compareWithDraft = (id: string) => {
+    setLeftKey(id);
+    setRightKey(DRAFT);
+  };
+
+  const renderSideSelect = (id: string, value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id} className="mt-1"><SelectValue /></SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ORIGINAL} disabled={!originalResume.trim()}>{t('resumeVersionsOriginalOption')}</SelectItem>
+        <SelectItem value={DRAFT}>{t('resumeVersionsDraftOption')}</SelectItem>
+        {newestFirst.map(version => (
+          <SelectItem key={version.id} value={version.id}>
+            {versionLabel(version)} · {t(`resumeVersionSource_${version.source}`)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-muted-foreground">{t('resumeVersionsDescription')}</p>
+        <Button variant="outline" size="sm" onClick={onSaveVersion} disabled={disabled || !hasUnsavedEdits}>
+          <Save className="mr-2 h-4 w-4" />{t('resumeVersionsSaveButton')}
+        </Button>
+      </div>
+
+      {versions.length === 0 ? (
+        <p className="py-4 text-center text-sm text-muted-foreground">{t('resumeVersionsEmpty')}</p>
+      ) : (
+        <div className="rounded-md border">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('resumeVersionsColumnVersion')}</TableHead>
+                <TableHead>{t('resumeVersionsColumnOffer')}</TableHead>
+                <TableHead className="text-right">{t('resumeVersionsColumnScore')}</TableHead>
+                <TableHead>{t('resumeVersionsColumnDate')}</TableHead>
+                <TableHead className="text-right">{t('resumeVersionsColumnActions')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {newestFirst.map(version => {
+                const parent = versions.find(existing => existing.id === version.parentId);
+                return (
+                  <TableRow key={version.id}>
+                    <TableCell className="whitespace-nowrap">
+                      <span className="font-medium">{versionLabel(version)}</span>{' '}
+                      <Badge variant="outline">{t(`resumeVersionSource_${version.source}`)}</Badge>{' '}
+                      {version.id === activeVersionId && <Badge variant="secondary">{t('resumeVersionsActiveBadge')}</Badge>}
+                      {parent && <p className="text-xs text-muted-foreground">{t('resumeVersionsFrom', { version: versionLabel(parent) })}</p>}
+                    </TableCell>
+                    <TableCell className="max-w-[14rem]">
+                      {version.jobOfferUrl ? (
+                        <a href={version.jobOfferUrl} target="_blank" rel="noopener noreferrer" className="block truncate text-accent hover:underline" title={version.jobOfferTitle}>
+                          {version.jobOfferTitle}
+                        </a>
+                      ) : (
+                        <span className="block truncate" title={version.jobOfferTitle}>{version.jobOfferTitle}</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {version.compatibility?.compatibilityScore != null ? `${version.compatibility.compatibilityScore}%` : t('na')}
+                    </TableCell>
+                    <TableCell className="whitespace-nowrap text-xs text-muted-foreground">{new Date(version.createdAt).toLocaleString(language)}</TableCell>
+                    <TableCell className="whitespace-nowrap text-right">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => compareWithDraft(version.id)} aria-label={t('resumeVersionsCompareButton', { version: versionLabel(version) })} title={t('resumeVersionsCompareButton', { version: versionLabel(version) })}>
+                        <GitCompare className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onRestoreVersion(version.id)} disabled={disabled || (version.id === activeVersionId && !hasUnsavedEdits)} aria-label={t('resumeVersionsRestoreButton', { version: versionLabel(version) })} title={t('resumeVersionsRestoreButton', { version: versionLabel(version) })}>
+                        <RotateCcw className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => onBranchVersion(version.id)} disabled={disabled} aria-label={t('resumeVersionsBranchButton', { version: versionLabel(version) })} title={t('resumeVersionsBranchButton', { version: versionLabel(version) })}>
+                        <GitBranch className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+
+      <div className="space-y-3">
+        <h3 className="text-lg font-semibold text-foreground">{t('resumeVersionsDiffTitle')}</h3>
+        <div className="grid gap-3 sm:grid-cols-2">
+          <div>
+            <Label htmlFor="resumeDiffLeft" className="text-xs">{t('resumeVersionsDiffLeftLabel')}</Label>
+            {renderSideSelect('resumeDiffLeft', leftKey, setLeftKey)}
+          </div>
+          <div>
+            <Label htmlFor="resumeDiffRight" className="text-xs">{t('resumeVersionsDiffRightLabel')}</Label>
+            {renderSideSelect('resumeDiffRight', rightKey, setRightKey)}
+          </div>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          {changedRows === 0 ? t('resumeVersionsDiffIdentical') : t('resumeVersionsDiffChangedLines', { count: changedRows })}
+        </p>
+        <ScrollArea className="h-[32rem] rounded-md border">
+          <table className="w-full table-fixed border-collapse font-mono text-xs">
+            <tbody>
+              {diffRows.map((row, index) => (
+                <tr key={index} className="align-top">
+                  <td className={`w-1/2 whitespace-pre-wrap break-words border-r px-2 py-0.5 ${diffCellClass[row.kind][0]}`}>{row.left ?? ''}</td>
+                  <td className={`w-1/2 whitespace-pre-wrap break-words px-2 py-0.5 ${diffCellClass[row.kind][1]}`}>{row.right ?? ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,40 @@
+"use client";
+
+import type { CompatibilityOutput } from '@/ai/flows/resume-compatibility-analysis';
+import { Progress } from '@/components/ui/progress';
+import { useLanguage } from '@/contexts/language-context';
+
+interface ScoreBreakdownProps {
+  breakdown: CompatibilityOutput['scoreBreakdown'];
+  llmScore: number;
+}
+
+export function ScoreBreakdown({ breakdown, llmScore }: ScoreBreakdownProps) {
+  const { t } = useLanguage();
+
+  return (
+    <div className="space-y-2">
+      <h3 className="text-md font-semibold text-foreground">{t('scoreBreakdownTitle')}</h3>
+      <p className="text-xs text-muted-foreground">{t('scoreBreakdownDescription')}</p>
+      <div className="space-y-2 rounded-md border p-3">
+        {breakdown.components.map(component => (
+          <div key={component.key} className="grid grid-cols-[1fr_auto] items-center gap-x-3 gap-y-1 text-sm sm:grid-cols-[12rem_1fr_auto]">
+            <span className={component.score === null ? 'text-muted-foreground' : ''}>{t(`scoreComponent_${component.key}`)}</span>
+            {component.score === null ? (
+              <span className="text-xs text-muted-foreground sm:col-span-2">{t('scoreComponentNotApplicable')}</span>
+            ) : (
+              <>
+                <Progress value={component.score} className="order-last col-span-2 h-2 sm:order-none sm:col-span-1" />
+                <span className="text-right tabular-nums">
+                  {component.score}%
+                  <span className="ml-2 text-xs text-muted-foreground">{t('scoreComponentWeight', { weight: Math.round(component.weight * 100) })}</span>
+                </span>
+              </>
+            )}
+          </div>
+        ))}
+        <p className="border-t border-dashed pt-2 text-xs text-muted-foreground">{t('llmRawScoreLabel', { score: llmScore })}</p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { getOrCreateDataAccessKey } from '@/lib/data-access-key';
+import {
+  createWizardSessionId,
+  getWizardSessionTitle,
+  hasWizardSessionProgress,
+  type WizardSession,
+  withoutUploadedFiles,
+  type WizardSessionState,
+} from '@/lib/wizard-session';
+import { saveLocalWizardSession } from '@/lib/wizard-session-db';
+import { saveServerWizardSession } from '@/lib/wizard-session-store/actions';
+
+export type WizardSessionSaveStatus = 'idle' | 'saving' | 'saved' | 'error';
+
+const AUTOSAVE_DELAY_MS = 1000;
+export const SESSION_URL_PARAM = 'session';
+
+/** Puts the session id in the address bar, so a reload reopens the same session. */
+function setSessionUrlParam(id: string | null) {
+  const url = new URL(window.location.href);
+  if (id) url.searchParams.set(SESSION_URL_PARAM, id);
+  else url.searchParams.delete(SESSION_URL_PARAM);
+  window.history.replaceState(window.history.state, '', url);
+}
+
+/**
+ * Autosaves the wizard state a second after it stops changing: always to IndexedDB, and to the server as well
+ * when the user agreed to storage. Nothing is saved until the wizard holds some input.
+ */
+export function useWizardSession(state: WizardSessionState) {
+  const [sessionId, setSessionId] = useState<string>(createWizardSessionId);
+  const [saveStatus, setSaveStatus] = useState<WizardSessionSaveStatus>('idle');
+  const createdAtRef = useRef<string | null>(null);
+  // Set when a stored session is opened, so loading it does not count as an edit.
+  const skipNextSaveRef = useRef(false);
+
+  useEffect(() => {
+    if (skipNextSaveRef.current) {
+      skipNextSaveRef.current = false;
+      return;
+    }
+    if (!hasWizardSessionProgress(state)) return;
+
+    const timer = setTimeout(async () => {
+      const now = new Date().toISOString();
+      createdAtRef.current = createdAtRef.current || now;
+      const session: WizardSession = {
+        id: sessionId,
+        createdAt: createdAtRef.current,
+        updatedAt: now,
+        title: getWizardSessionTitle(state),
+        state,
+      };
+      setSaveStatus('saving');
+      try {
+        await saveLocalWizardSession(session);
+        setSessionUrlParam(sessionId);
+        setSaveStatus('saved');
+      } catch (error) {
+        console.error("Could not save the wizard session in this browser:", error);
+        setSaveStatus('error');
+      }
+      if (state.formState.storageConsent) {
+        // The server copy is a backup: failing to write it must not bother the user. The uploaded files never leave the browser.
+        saveServerWizardSession({ session: { ...session, state: withoutUploadedFiles(state) }, dataAccessKey: getOrCreateDataAccessKey() })
+          .catch(error => console.error("Could not save the wizard session on the server:", error));
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [sessionId, state]);
+
+  /** Continues a stored session: later edits are saved under its id. */
+  const adoptSession = useCallback((session: WizardSession) => {
+    skipNextSaveRef.current = true;
+    createdAtRef.current = session.createdAt;
+    setSessionId(session.id);
+    setSessionUrlParam(session.id);
+    setSaveStatus('saved');
+  }, []);
+
+  /** Starts a new session; the current one stays in the history. */
+  const startNewSession = useCallback(() => {
+    createdAtRef.current = null;
+    setSessionId(createWizardSessionId());
+    setSessionUrlParam(null);
+    setSaveStatus('idle');
+  }, []);
+
+  return { sessionId, saveStatus, adoptSession, startNewSession };
+}
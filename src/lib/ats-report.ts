@@ -0,0 +1,236 @@
+// src/lib/ats-report.ts
+
+import { extractJobKeywords, normalizeText, tokenizeText } from '@/lib/compatibility-scoring';
+
+/** Layout facts gathered while extracting text from an uploaded resume file. */
+export interface DocumentLayout {
+  pageCount?: number;
+  /** 1-based pages with no text layer (usually scanned or image-only pages). */
+  textlessPages?: number[];
+  /** 1-based pages whose text is laid out in columns. */
+  multiColumnPages?: number[];
+  hasTables?: boolean;
+  imageCount?: number;
+}
+
+export interface DocumentExtraction {
+  text: string;
+  layout?: DocumentLayout;
+}
+
+export const ATS_HAZARD_CODES = [
+  'extraction-failed',
+  'image-only-pages',
+  'multi-column',
+  'tables',
+  'images',
+  'missing-email',
+  'missing-phone',
+  'missing-sections',
+  'unusual-headings',
+] as const;
+export type AtsHazardCode = typeof ATS_HAZARD_CODES[number];
+
+export const ATS_HAZARD_SEVERITIES = ['high', 'medium', 'low'] as const;
+export type AtsHazardSeverity = typeof ATS_HAZARD_SEVERITIES[number];
+
+export interface AtsHazard {
+  code: AtsHazardCode;
+  severity: AtsHazardSeverity;
+  /** 1-based pages the hazard was found on, for page-level checks. */
+  pages?: number[];
+  /** Offending values, e.g. the unusual headings or the missing sections. */
+  items?: string[];
+}
+
+export interface AtsKeyword {
+  keyword: string;
+  /** Other spellings an ATS may accept for the same term. */
+  synonyms: string[];
+  found: boolean;
+  /** The term found in the resume, when it was a synonym rather than the keyword itself. */
+  matchedAs?: string;
+}
+
+export const ATS_READINESS_LEVELS = ['good', 'fair', 'poor'] as const;
+export type AtsReadiness = typeof ATS_READINESS_LEVELS[number];
+
+export interface AtsReport {
+  readiness: AtsReadiness;
+  keywords: AtsKeyword[];
+  hazards: AtsHazard[];
+  /** Set when the resume came from a file whose layout was not checked, e.g. because it was too large to send. */
+  layoutCheckSkipped?: boolean;
+}
+
+export interface AtsReportInput {
+  jobDescription: string;
+  resumeText: string;
+  /** Layout of the uploaded file, when the resume came from a file. */
+  layout?: DocumentLayout;
+  /** Set when the uploaded file could not be read at all. */
+  extractionFailed?: boolean;
+  layoutCheckSkipped?: boolean;
+}
+
+// Terms ATS keyword matching treats as different strings although they mean the same thing.
+const SYNONYM_GROUPS: string[][] = [
+  ['javascript', 'js', 'ecmascript'],
+  ['typescript', 'ts'],
+  ['node.js', 'nodejs', 'node'],
+  ['react', 'react.js', 'reactjs'],
+  ['vue', 'vue.js', 'vuejs'],
+  ['angular', 'angularjs'],
+  ['next.js', 'nextjs'],
+  ['kubernetes', 'k8s'],
+  ['postgresql', 'postgres'],
+  ['mongodb', 'mongo'],
+  ['aws', 'amazon web services'],
+  ['gcp', 'google cloud', 'google cloud platform'],
+  ['azure', 'microsoft azure'],
+  ['ci/cd', 'cicd', 'continuous integration', 'continuous delivery', 'integracion continua'],
+  ['machine learning', 'ml', 'aprendizaje automatico'],
+  ['artificial intelligence', 'ai', 'ia', 'inteligencia artificial'],
+  ['ux', 'user experience', 'experiencia de usuario'],
+  ['ui', 'user interface', 'interfaz de usuario'],
+  ['sql', 'mysql', 'postgresql', 'sql server'],
+  ['excel', 'microsoft excel', 'ms excel', 'hojas de calculo'],
+  ['agile', 'scrum', 'kanban', 'agil'],
+  ['english', 'ingles'],
+  ['spanish', 'espanol', 'castellano'],
+  ['management', 'gestion', 'manager'],
+  ['sales', 'ventas'],
+  ['marketing', 'mercadotecnia'],
+  ['customer service', 'atencion al cliente', 'customer support'],
+  ['accounting', 'contabilidad'],
+  ['degree', 'bachelor', 'grado', 'licenciatura'],
+  ['master', 'msc', 'mba', 'maestria'],
+];
+
+// Section headings ATS parsers recognise, in English and Spanish (accents stripped).
+const STANDARD_HEADINGS = [
+  'contact', 'contact information', 'personal information', 'personal details', 'summary', 'professional summary',
+  'profile', 'professional profile', 'about me', 'objective', 'experience', 'work experience', 'professional experience',
+  'employment history', 'work history', 'education', 'academic background', 'skills', 'technical skills', 'core skills',
+  'competencies', 'languages', 'certifications', 'certificates', 'courses', 'training', 'projects', 'publications',
+  'awards', 'volunteering', 'volunteer experience', 'interests', 'hobbies', 'references',
+  'contacto', 'informacion de contacto', 'datos personales', 'informacion personal', 'resumen', 'perfil',
+  'perfil profesional', 'sobre mi', 'objetivo', 'experiencia', 'experiencia laboral', 'experiencia profesional',
+  'historial laboral', 'educacion', 'formacion', 'formacion academica', 'habilidades', 'competencias', 'aptitudes',
+  'conocimientos', 'idiomas', 'certificaciones', 'certificados', 'cursos', 'proyectos', 'publicaciones', 'premios',
+  'voluntariado', 'intereses', 'aficiones', 'referencias',
+];
+
+const REQUIRED_SECTIONS: { name: string; pattern: RegExp }[] = [
+  { name: 'experience', pattern: /experien|employment|work history|historial laboral/ },
+  { name: 'education', pattern: /education|educacion|formacion|academic/ },
+  { name: 'skills', pattern: /skills|habilidades|competen|aptitudes|conocimientos/ },
+];
+
+const EMAIL_PATTERN = /[\w.+-]+@[\w-]+\.[\w.-]+/;
+const PHONE_PATTERN = /(\+?\d[\d\s().-]{7,}\d)/;
+
+const MAX_HEADING_LENGTH = 40;
+
+function findSynonyms(keyword: string): string[] {
+  const synonyms = new Set<string>();
+  SYNONYM_GROUPS.filter(group => group.includes(keyword)).forEach(group => group.forEach(term => synonyms.add(term)));
+  synonyms.delete(keyword);
+  return [...synonyms];
+}
+
+/** Whole-word (or whole-phrase) match on normalized text. */
+function containsTerm(normalizedText: string, tokens: Set<string>, term: string): boolean {
+  if (!term.includes(' ')) return tokens.has(term);
+  return new RegExp(`(^|[^a-z0-9])${term.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}($|[^a-z0-9])`).test(normalizedText);
+}
+
+/**
+ * Section headings of the extracted text: Markdown-style lines from the document extractors ("# Skills"),
+ * "TITLE:" lines from the resume text renderer, and short all-caps lines.
+ */
+export function findResumeHeadings(resumeText: string): string[] {
+  return resumeText.split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0)
+    // The first line is normally the candidate's name, often in capitals.
+    .slice(1)
+    .filter(line => line.length <= MAX_HEADING_LENGTH)
+    .map(line => {
+      const markdown = line.match(/^#{1,6}\s+(.+)$/);
+      if (markdown) return markdown[1].trim();
+      const letters = line.replace(/[^\p{L}]/gu, '');
+      return letters.length >= 4 && letters === letters.toUpperCase() && !/\d{3,}/.test(line) ? line : null;
+    })
+    .filter((heading): heading is string => !!heading)
+    .map(heading => heading.replace(/:$/, '').trim());
+}
+
+const isStandardHeading = (heading: string) => {
+  const normalized = normalizeText(heading).replace(/[^a-z ]/g, ' ').replace(/\s+/g, ' ').trim();
+  return STANDARD_HEADINGS.some(standard => normalized === standard || normalized.startsWith(`${standard} `) || normalized.endsWith(` ${standard}`));
+};
+
+/**
+ * Keyword gap and parse-hazard report for an applicant tracking system (ATS). Deterministic: it only looks at
+ * the text already extracted from the resume and the layout facts the extractor reported.
+ */
+export function buildAtsReport(input: AtsReportInput): AtsReport {
+  const { jobDescription, resumeText, layout } = input;
+  const normalizedResume = normalizeText(resumeText);
+  const resumeTokens = new Set(tokenizeText(resumeText));
+
+  const keywords: AtsKeyword[] = extractJobKeywords(jobDescription).map(({ keyword }) => {
+    const synonyms = findSynonyms(keyword);
+    const matchedAs = [keyword, ...synonyms].find(term => containsTerm(normalizedResume, resumeTokens, term));
+    return {
+      keyword,
+      synonyms,
+      found: !!matchedAs,
+      matchedAs: matchedAs && matchedAs !== keyword ? matchedAs : undefined,
+    };
+  });
+
+  const hazards: AtsHazard[] = [];
+  if (input.extractionFailed) {
+    hazards.push({ code: 'extraction-failed', severity: 'high' });
+  }
+  if (layout?.textlessPages?.length) {
+    hazards.push({ code: 'image-only-pages', severity: 'high', pages: layout.textlessPages });
+  }
+  if (layout?.multiColumnPages?.length) {
+    hazards.push({ code: 'multi-column', severity: 'medium', pages: layout.multiColumnPages });
+  }
+  if (layout?.hasTables) {
+    hazards.push({ code: 'tables', severity: 'medium' });
+  }
+  if (layout?.imageCount) {
+    hazards.push({ code: 'images', severity: 'low', items: [String(layout.imageCount)] });
+  }
+  if (!EMAIL_PATTERN.test(resumeText)) {
+    hazards.push({ code: 'missing-email', severity: 'high' });
+  }
+  if (!PHONE_PATTERN.test(resumeText)) {
+    hazards.push({ code: 'missing-phone', severity: 'medium' });
+  }
+
+  const headings = findResumeHeadings(resumeText);
+  const normalizedHeadings = headings.map(normalizeText);
+  const missingSections = REQUIRED_SECTIONS
+    .filter(section => !normalizedHeadings.some(heading => section.pattern.test(heading)))
+    .map(section => section.name);
+  if (missingSections.length > 0) {
+    hazards.push({ code: 'missing-sections', severity: 'medium', items: missingSections });
+  }
+  const unusualHeadings = headings.filter(heading => !isStandardHeading(heading));
+  // All-caps lines also catch names and job titles; only flag when headings are otherwise recognisable.
+  if (unusualHeadings.length > 0 && unusualHeadings.length < headings.length) {
+    hazards.push({ code: 'unusual-headings', severity: 'low', items: unusualHeadings.slice(0, 8) });
+  }
+
+  const readiness: AtsReadiness = hazards.some(hazard => hazard.severity === 'high')
+    ? 'poor'
+    : hazards.some(hazard => hazard.severity === 'medium') ? 'fair' : 'good';
+
+  return input.layoutCheckSkipped ? { readiness, keywords, hazards, layoutCheckSkipped: true } : { readiness, keywords, hazards };
+}
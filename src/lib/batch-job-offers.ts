@@ -0,0 +1,62 @@
+// src/lib/batch-job-offers.ts
+
+/** One job offer of a batch comparison: either its text or the URL it is fetched from. */
+export interface BatchJobOffer {
+  jobDescription?: string;
+  jobOfferUrl?: string;
+}
+
+export const MAX_BATCH_JOB_OFFERS = 20;
+export const DEFAULT_BATCH_CONCURRENCY = 3;
+
+// A line with only dashes separates pasted job descriptions.
+const OFFER_SEPARATOR = /^\s*-{3,}\s*$/m;
+const URL_LINE = /^https?:\/\/\S+$/i;
+
+/**
+ * Parses the batch input: blocks separated by "---" lines. A block made only of URLs gives one offer per URL;
+ * any other block is a pasted job description. Repeated offers are dropped.
+ */
+export function parseBatchJobOffers(input: string): BatchJobOffer[] {
+  const offers: BatchJobOffer[] = [];
+  const seen = new Set<string>();
+  const add = (offer: BatchJobOffer) => {
+    const key = offer.jobOfferUrl || offer.jobDescription!;
+    if (seen.has(key)) return;
+    seen.add(key);
+    offers.push(offer);
+  };
+
+  input.split(OFFER_SEPARATOR).forEach(block => {
+    const lines = block.split('\n').map(line => line.trim()).filter(Boolean);
+    if (lines.length === 0) return;
+    if (lines.every(line => URL_LINE.test(line))) {
+      lines.forEach(url => add({ jobOfferUrl: url }));
+    } else {
+      add({ jobDescription: block.trim() });
+    }
+  });
+  return offers;
+}
+
+/** Short name of an offer for tables: host and path of its URL, or the first line of its text. */
+export function getBatchJobOfferLabel(offer: BatchJobOffer, maxLength = 80): string {
+  let label = '';
+  if (offer.jobOfferUrl) {
+    try {
+      const url = new URL(offer.jobOfferUrl);
+      label = `${url.hostname.replace(/^www\./, '')}${url.pathname === '/' ? '' : url.pathname}`;
+    } catch {
+      label = offer.jobOfferUrl;
+    }
+  } else {
+    label = offer.jobDescription?.split('\n').map(line => line.trim()).find(Boolean) || '';
+  }
+  return label.length > maxLength ? `${label.slice(0, maxLength - 1)}…` : label;
+}
+
+/** Offers analyzed at the same time, overridden by the BATCH_ANALYSIS_CONCURRENCY environment variable. */
+export function getBatchConcurrency(env: Record<string, string | undefined> = process.env): number {
+  const configured = Number(env.BATCH_ANALYSIS_CONCURRENCY);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_BATCH_CONCURRENCY;
+}
@@ -0,0 +1,109 @@
+import { ObjectId, type Collection, type Document } from 'mongodb';
+
+type Filter = Record<string, any>;
+
+const isSameValue = (value: unknown, expected: unknown) =>
+  expected instanceof ObjectId ? value instanceof ObjectId && value.equals(expected) : value === expected;
+
+function matchesCondition(value: any, condition: any): boolean {
+  if (condition === null || typeof condition !== 'object' || condition instanceof ObjectId) {
+    return isSameValue(value, condition);
+  }
+  return Object.entries(condition).every(([operator, argument]: [string, any]) => {
+    switch (operator) {
+      case '$exists': return (value !== undefined && value !== null) === argument;
+      case '$in': return argument.some((expected: unknown) => isSameValue(value, expected));
+      case '$lt': return value !== undefined && value !== null && value < argument;
+      case '$regex': return typeof value === 'string' && new RegExp(argument, condition.$options).test(value);
+      case '$options': return true;
+      default: throw new Error(`The in-memory collection does not support ${operator}.`);
+    }
+  });
+}
+
+function matchesFilter(document: Document, filter: Filter): boolean {
+  return Object.entries(filter).every(([key, condition]) =>
+    key === '$or' ? condition.some((branch: Filter) => matchesFilter(document, branch)) : matchesCondition(document[key], condition));
+}
+
+const sortKey = (value: unknown) => (value instanceof ObjectId ? value.toHexString() : value);
+
+function compareBy(sort: Record<string, 1 | -1>) {
+  return (a: Document, b: Document) => {
+    for (const [key, direction] of Object.entries(sort)) {
+      const [left, right] = [sortKey(a[key]), sortKey(b[key])];
+      if (left === right) continue;
+      if (left === undefined || left === null) return -direction;
+      if (right === undefined || right === null) return direction;
+      return (left < right ? -1 : 1) * direction;
+    }
+    return 0;
+  };
+}
+
+function project(document: Document, projection?: Record<string, 0 | 1>): Document {
+  if (!projection) return document;
+  return Object.fromEntries(Object.entries(document).filter(([key]) => projection[key] === 1 || (key === '_id' && projection._id !== 0)));
+}
+
+// Documents are copied in and out, as the driver serializes them, so callers never share objects with the store.
+const copy = ({ _id, ...document }: Document): Document => ({ ...structuredClone(document), _id });
+
+/**
+ * Stand-in for a MongoDB collection with the subset of the driver API the repositories use, so the MongoDB
+ * backends can be tested without a server.
+ */
+export function createInMemoryCollection<T extends Document = Document>(): Collection<T> {
+  let documents: Document[] = [];
+
+  const find = (filter: Filter = {}, options: { projection?: Record<string, 0 | 1> } = {}) => {
+    let sort: Record<string, 1 | -1> = {};
+    let limit = 0;
+    const cursor = {
+      sort(order: Record<string, 1 | -1>) { sort = order; return cursor; },
+      limit(count: number) { limit = count; return cursor; },
+      async toArray() {
+        const matching = documents.filter(document => matchesFilter(document, filter)).sort(compareBy(sort));
+        return (limit ? matching.slice(0, limit) : matching).map(document => project(copy(document), options.projection));
+      },
+    };
+    return cursor;
+  };
+
+  const collection = {
+    async insertOne(document: Document) {
+      if (document._id === undefined) document._id = new ObjectId();
+      if (documents.some(stored => isSameValue(stored._id, document._id))) {
+        throw new Error(`E11000 duplicate key error: _id ${String(document._id)}`);
+      }
+      documents.push(copy(document));
+      return { acknowledged: true, insertedId: document._id };
+    },
+    async findOne(filter: Filter) {
+      const document = documents.find(stored => matchesFilter(stored, filter));
+      return document ? copy(document) : null;
+    },
+    find,
+    async replaceOne(filter: Filter, replacement: Document) {
+      const index = documents.findIndex(stored => matchesFilter(stored, filter));
+      if (index < 0) return { acknowledged: true, matchedCount: 0, modifiedCount: 0 };
+      documents[index] = copy({ ...replacement, _id: documents[index]._id });
+      return { acknowledged: true, matchedCount: 1, modifiedCount: 1 };
+    },
+    async deleteOne(filter: Filter) {
+      const index = documents.findIndex(stored => matchesFilter(stored, filter));
+      if (index >= 0) documents.splice(index, 1);
+      return { acknowledged: true, deletedCount: index >= 0 ? 1 : 0 };
+    },
+    async deleteMany(filter: Filter) {
+      const remaining = documents.filter(stored => !matchesFilter(stored, filter));
+      const deletedCount = documents.length - remaining.length;
+      documents = remaining;
+      return { acknowledged: true, deletedCount };
+    },
+    async createIndex() {
+      return 'index';
+    },
+  };
+  return collection as unknown as Collection<T>;
+}
@@ -0,0 +1,223 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type {
+  ApplicationRepository,
+  CandidateRepository,
+  NewApplicationRecord,
+  NewCandidateRecord,
+} from '@/lib/candidate-repository/types';
+
+const newCandidate = (overrides: Partial<NewCandidateRecord> = {}): NewCandidateRecord => ({
+  jobDescriptionSource: 'text',
+  jobOfferIdentifier: 'Frontend developer at Acme',
+  resumeSource: 'text',
+  resumeIdentifier: 'Ana García, frontend developer',
+  resumeLanguage: 'Spanish',
+  compatibilityScore: 72,
+  nombre: 'Ana García',
+  email: 'ana@example.com',
+  experienciaLaboral: [{ puesto: 'Frontend developer', empresa: 'Globex', fechas: '2020-2024' }],
+  habilidades: ['React', 'TypeScript'],
+  ...overrides,
+});
+
+const newApplication = (overrides: Partial<NewApplicationRecord> = {}): NewApplicationRecord => ({
+  ownerKeyHash: 'owner-a',
+  status: 'saved',
+  statusDates: { saved: '2026-10-01T00:00:00.000Z' },
+  jobTitle: 'Frontend developer',
+  company: 'Acme',
+  contacts: [],
+  notes: '',
+  ...overrides,
+});
+
+/** Moves the clock so each record gets its own, increasing timestamp. */
+function useSteppedClock() {
+  let now = Date.parse('2026-10-01T00:00:00.000Z');
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+  });
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+  return {
+    tick(minutes = 1) {
+      now += minutes * 60_000;
+      vi.setSystemTime(now);
+      return new Date(now).toISOString();
+    },
+  };
+}
+
+/**
+ * The behaviour every CandidateRepository backend must share. `open` returns a new, empty repository and `dispose`
+ * releases it after each test.
+ */
+export function describeCandidateRepositoryConformance(
+  name: string,
+  open: () => Promise<CandidateRepository>,
+  dispose: (repository: CandidateRepository) => Promise<void> = repository => repository.close()
+) {
+  describe(`${name} candidate repository`, () => {
+    let repository: CandidateRepository;
+    const clock = useSteppedClock();
+
+    beforeEach(async () => {
+      repository = await open();
+    });
+    afterEach(async () => {
+      await dispose(repository);
+    });
+
+    it('assigns an id and a timestamp on save and finds the record by id', async () => {
+      const timestamp = clock.tick();
+      const saved = await repository.save(newCandidate());
+
+      expect(saved.id).toEqual(expect.any(String));
+      expect(saved.timestamp).toBe(timestamp);
+      expect(await repository.findById(saved.id)).toEqual(saved);
+      expect(await repository.findById('missing-id')).toBeNull();
+    });
+
+    it('lists the records newest first, up to the limit', async () => {
+      const ids: string[] = [];
+      for (const nombre of ['First', 'Second', 'Third']) {
+        clock.tick();
+        ids.push((await repository.save(newCandidate({ nombre }))).id);
+      }
+
+      expect((await repository.list()).map(record => record.id)).toEqual([...ids].reverse());
+      expect((await repository.list({ limit: 2 })).map(record => record.id)).toEqual([ids[2], ids[1]]);
+    });
+
+    it('filters by email regardless of case and spacing, and by email blind index', async () => {
+      clock.tick();
+      const ana = await repository.save(newCandidate({ email: 'Ana@Example.com', emailBlindIndex: 'index-ana' }));
+      clock.tick();
+      await repository.save(newCandidate({ email: 'luis@example.com', emailBlindIndex: 'index-luis' }));
+
+      expect((await repository.list({ email: '  ana@EXAMPLE.com ' })).map(record => record.id)).toEqual([ana.id]);
+      expect((await repository.list({ emailBlindIndex: 'index-ana' })).map(record => record.id)).toEqual([ana.id]);
+      expect(await repository.list({ email: 'nobody@example.com' })).toEqual([]);
+    });
+
+    it('filters by data access key hash', async () => {
+      clock.tick();
+      const owned = await repository.save(newCandidate({ dataAccessKeyHash: 'key-a' }));
+      clock.tick();
+      const ownedWithoutEmail = await repository.save(newCandidate({ email: undefined, dataAccessKeyHash: 'key-a' }));
+      clock.tick();
+      await repository.save(newCandidate({ dataAccessKeyHash: 'key-b' }));
+      clock.tick();
+      await repository.save(newCandidate());
+
+      expect((await repository.list({ dataAccessKeyHash: 'key-a' })).map(record => record.id)).toEqual([ownedWithoutEmail.id, owned.id]);
+      expect((await repository.list({ dataAccessKeyHash: 'key-a', email: 'ana@example.com' })).map(record => record.id)).toEqual([owned.id]);
+      expect(await repository.list({ dataAccessKeyHash: 'key-c' })).toEqual([]);
+
+      await repository.update({ ...owned, dataAccessKeyHash: 'key-c' });
+      expect((await repository.list({ dataAccessKeyHash: 'key-c' })).map(record => record.id)).toEqual([owned.id]);
+    });
+
+    it('replaces a record on update', async () => {
+      clock.tick();
+      const saved = await repository.save(newCandidate());
+      const updated = { ...saved, email: 'ana.garcia@example.com', habilidades: ['Vue'], compatibilityScore: 80 };
+
+      expect(await repository.update(updated)).toBe(true);
+      expect(await repository.findById(saved.id)).toEqual(updated);
+      expect(await repository.list({ email: 'ana@example.com' })).toEqual([]);
+      expect((await repository.list({ email: 'ana.garcia@example.com' })).map(record => record.id)).toEqual([saved.id]);
+      expect(await repository.update({ ...saved, id: 'missing-id' })).toBe(false);
+    });
+
+    it('deletes a record', async () => {
+      clock.tick();
+      const kept = await repository.save(newCandidate({ nombre: 'Kept' }));
+      clock.tick();
+      const deleted = await repository.save(newCandidate({ nombre: 'Deleted' }));
+
+      expect(await repository.delete(deleted.id)).toBe(true);
+      expect(await repository.findById(deleted.id)).toBeNull();
+      expect((await repository.list()).map(record => record.id)).toEqual([kept.id]);
+      expect(await repository.delete(deleted.id)).toBe(false);
+    });
+
+    it('deletes the records older than a cutoff', async () => {
+      clock.tick();
+      const old = await repository.save(newCandidate({ nombre: 'Old' }));
+      const cutoff = clock.tick(60);
+      const recent = await repository.save(newCandidate({ nombre: 'Recent' }));
+
+      expect(await repository.deleteOlderThan(cutoff)).toEqual([old.id]);
+      expect((await repository.list()).map(record => record.id)).toEqual([recent.id]);
+      expect(await repository.deleteOlderThan(cutoff)).toEqual([]);
+    });
+  });
+}
+
+/** The behaviour every ApplicationRepository backend must share; see describeCandidateRepositoryConformance. */
+export function describeApplicationRepositoryConformance(
+  name: string,
+  open: () => Promise<ApplicationRepository>,
+  dispose: (repository: ApplicationRepository) => Promise<void> = repository => repository.close()
+) {
+  describe(`${name} application repository`, () => {
+    let repository: ApplicationRepository;
+    const clock = useSteppedClock();
+
+    beforeEach(async () => {
+      repository = await open();
+    });
+    afterEach(async () => {
+      await dispose(repository);
+    });
+
+    it('assigns an id and dates on create and finds the entry by id', async () => {
+      const now = clock.tick();
+      const created = await repository.create(newApplication());
+
+      expect(created).toMatchObject({ id: expect.any(String), createdAt: now, updatedAt: now });
+      expect(await repository.findById(created.id)).toEqual(created);
+      expect(await repository.findById('missing-id')).toBeNull();
+    });
+
+    it('lists the entries of one owner, most recently updated first', async () => {
+      clock.tick();
+      const first = await repository.create(newApplication({ jobTitle: 'First' }));
+      clock.tick();
+      const second = await repository.create(newApplication({ jobTitle: 'Second' }));
+      clock.tick();
+      const other = await repository.create(newApplication({ ownerKeyHash: 'owner-b' }));
+      await repository.update({ ...first, updatedAt: clock.tick(), status: 'applied' });
+
+      expect((await repository.listByOwner('owner-a')).map(entry => entry.id)).toEqual([first.id, second.id]);
+      expect((await repository.listByOwner('owner-b')).map(entry => entry.id)).toEqual([other.id]);
+      expect((await repository.listAll()).map(entry => entry.id)).toEqual([first.id, other.id, second.id]);
+    });
+
+    it('replaces an entry on update', async () => {
+      clock.tick();
+      const created = await repository.create(newApplication());
+      const updated = { ...created, status: 'interview' as const, notes: 'Call on Monday', updatedAt: clock.tick() };
+
+      expect(await repository.update(updated)).toBe(true);
+      expect(await repository.findById(created.id)).toEqual(updated);
+      expect(await repository.update({ ...updated, id: 'missing-id' })).toBe(false);
+    });
+
+    it('deletes an entry, and the entries not updated since a cutoff', async () => {
+      clock.tick();
+      const old = await repository.create(newApplication({ jobTitle: 'Old' }));
+      clock.tick();
+      const deleted = await repository.create(newApplication({ jobTitle: 'Deleted' }));
+      const cutoff = clock.tick(60);
+      const recent = await repository.create(newApplication({ jobTitle: 'Recent' }));
+
+      expect(await repository.delete(deleted.id)).toBe(true);
+      expect(await repository.delete(deleted.id)).toBe(false);
+      expect(await repository.deleteOlderThan(cutoff)).toEqual([old.id]);
+      expect((await repository.listAll()).map(entry => entry.id)).toEqual([recent.id]);
+    });
+  });
+}
@@ -0,0 +1,33 @@
+// src/lib/candidate-repository/audit-log.ts
+
+import fs from 'fs/promises';
+import path from 'path';
+import { withFileLock } from '@/lib/file-lock';
+
+export const DEFAULT_AUDIT_LOG_FILE = 'candidate_audit_log.jsonl';
+
+export type AuditAction = 'export' | 'erase';
+export type AuditReason = 'data-subject-request' | 'retention';
+export type AuditRecordType = 'candidate' | 'wizard-session' | 'application';
+
+/** One line of the audit log. It never holds personal data, only which records an action touched. */
+export interface AuditEntry {
+  timestamp: string;
+  action: AuditAction;
+  reason: AuditReason;
+  recordType: AuditRecordType;
+  /** Storage backend the action ran against. */
+  backend: string;
+  recordIds: string[];
+}
+
+export function getAuditLogFile(env: Record<string, string | undefined> = process.env): string {
+  return path.resolve(env.CANDIDATE_AUDIT_LOG_FILE || DEFAULT_AUDIT_LOG_FILE);
+}
+
+/** Appends an entry to the audit log, which is kept apart from the records so erasing them never erases the trail. */
+export async function appendAuditEntry(entry: Omit<AuditEntry, 'timestamp'>, filePath = getAuditLogFile()): Promise<AuditEntry> {
+  const fullEntry: AuditEntry = { timestamp: new Date().toISOString(), ...entry };
+  await withFileLock(filePath, () => fs.appendFile(filePath, `${JSON.stringify(fullEntry)}\n`, 'utf-8'));
+  return fullEntry;
+}
@@ -0,0 +1,156 @@
+// src/lib/candidate-repository/data-protection.ts
+
+import { createHash } from 'crypto';
+import { appendAuditEntry, type AuditRecordType } from '@/lib/candidate-repository/audit-log';
+import type { ApplicationRecord, ApplicationRepository, CandidateRecord, CandidateRepository } from '@/lib/candidate-repository/types';
+import type { WizardSession } from '@/lib/wizard-session';
+import type { WizardSessionStore } from '@/lib/wizard-session-store/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Retention purges run at most this often per storage and server process. */
+const RETENTION_PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+/** A storage the retention period applies to: the candidate or application repository, or the wizard session store. */
+export interface RetentionTarget {
+  readonly backend: string;
+  deleteOlderThan(cutoff: string): Promise<string[]>;
+}
+
+const lastRetentionPurgeAt = new Map<AuditRecordType, number>();
+
+export const hashDataAccessKey = (dataAccessKey: string) => createHash('sha256').update(dataAccessKey.trim()).digest('hex');
+
+/** Reads CANDIDATE_RETENTION_DAYS. Null means records are kept until their owner erases them. */
+export function getRetentionDays(env: Record<string, string | undefined> = process.env): number | null {
+  const value = env.CANDIDATE_RETENTION_DAYS?.trim();
+  if (!value) return null;
+  const days = Number(value);
+  if (!Number.isInteger(days) || days <= 0) {
+    throw new Error(`CANDIDATE_RETENTION_DAYS must be a positive whole number of days, got "${value}".`);
+  }
+  return days;
+}
+
+/** Erases every record older than the retention period and writes the erasure to the audit log. */
+export async function purgeExpiredRecords(
+  target: RetentionTarget,
+  recordType: AuditRecordType,
+  retentionDays: number,
+  now = new Date()
+): Promise<string[]> {
+  const cutoff = new Date(now.getTime() - retentionDays * DAY_MS).toISOString();
+  const erasedIds = await target.deleteOlderThan(cutoff);
+  if (erasedIds.length > 0) {
+    await appendAuditEntry({ action: 'erase', reason: 'retention', recordType, backend: target.backend, recordIds: erasedIds });
+    console.log(`[Retention] Erased ${erasedIds.length} ${recordType} record(s) stored before ${cutoff}.`);
+  }
+  return erasedIds;
+}
+
+/**
+ * Runs the retention purge when it is configured and has not run in the last hour. Called on every storage access,
+ * so expired records go away without a separate scheduler.
+ */
+export async function runRetentionPurgeIfDue(target: RetentionTarget, recordType: AuditRecordType = 'candidate'): Promise<void> {
+  const retentionDays = getRetentionDays();
+  if (retentionDays === null || Date.now() - (lastRetentionPurgeAt.get(recordType) ?? 0) < RETENTION_PURGE_INTERVAL_MS) return;
+  lastRetentionPurgeAt.set(recordType, Date.now());
+  await purgeExpiredRecords(target, recordType, retentionDays);
+}
+
+/**
+ * The records saved with the given data access key. They are looked up by the key rather than by the email, which
+ * is extracted from each resume and may be missing or differ between analyses; the key only lives in the browser
+ * that gave consent, so nobody can read or erase someone else's data.
+ */
+async function findOwnedRecords(repository: CandidateRepository, dataAccessKey: string): Promise<CandidateRecord[]> {
+  return repository.list({ dataAccessKeyHash: hashDataAccessKey(dataAccessKey) });
+}
+
+/** Everything stored with the owner's data access key, for a data subject access request. */
+export async function exportCandidateData(repository: CandidateRepository, dataAccessKey: string): Promise<CandidateRecord[]> {
+  const records = await findOwnedRecords(repository, dataAccessKey);
+  await appendAuditEntry({
+    action: 'export',
+    reason: 'data-subject-request',
+    recordType: 'candidate',
+    backend: repository.backend,
+    recordIds: records.map(record => record.id),
+  });
+  return records.map(({ dataAccessKeyHash, ...record }) => record);
+}
+
+/** Erases everything stored with the owner's data access key and returns the erased record ids. */
+export async function eraseCandidateData(repository: CandidateRepository, dataAccessKey: string): Promise<string[]> {
+  const records = await findOwnedRecords(repository, dataAccessKey);
+  const erasedIds: string[] = [];
+  for (const record of records) {
+    if (await repository.delete(record.id)) erasedIds.push(record.id);
+  }
+  await appendAuditEntry({
+    action: 'erase',
+    reason: 'data-subject-request',
+    recordType: 'candidate',
+    backend: repository.backend,
+    recordIds: erasedIds,
+  });
+  return erasedIds;
+}
+
+/** The wizard sessions saved on the server by the owner of the data access key. */
+export async function exportOwnedWizardSessions(store: WizardSessionStore, dataAccessKey: string): Promise<WizardSession[]> {
+  const sessions = await store.listByOwner(hashDataAccessKey(dataAccessKey));
+  await appendAuditEntry({
+    action: 'export',
+    reason: 'data-subject-request',
+    recordType: 'wizard-session',
+    backend: store.backend,
+    recordIds: sessions.map(session => session.id),
+  });
+  return sessions.map(({ ownerKeyHash, ...session }) => session);
+}
+
+/** Erases the wizard sessions saved on the server by the owner of the data access key and returns their ids. */
+export async function eraseOwnedWizardSessions(store: WizardSessionStore, dataAccessKey: string): Promise<string[]> {
+  const erasedIds: string[] = [];
+  for (const session of await store.listByOwner(hashDataAccessKey(dataAccessKey))) {
+    if (await store.delete(session.id)) erasedIds.push(session.id);
+  }
+  await appendAuditEntry({
+    action: 'erase',
+    reason: 'data-subject-request',
+    recordType: 'wizard-session',
+    backend: store.backend,
+    recordIds: erasedIds,
+  });
+  return erasedIds;
+}
+
+/** The application tracker entries of the owner of the data access key. */
+export async function exportOwnedApplications(repository: ApplicationRepository, dataAccessKey: string): Promise<Omit<ApplicationRecord, 'ownerKeyHash'>[]> {
+  const entries = await repository.listByOwner(hashDataAccessKey(dataAccessKey));
+  await appendAuditEntry({
+    action: 'export',
+    reason: 'data-subject-request',
+    recordType: 'application',
+    backend: repository.backend,
+    recordIds: entries.map(entry => entry.id),
+  });
+  return entries.map(({ ownerKeyHash, ...entry }) => entry);
+}
+
+/** Erases the application tracker entries of the owner of the data access key and returns their ids. */
+export async function eraseOwnedApplications(repository: ApplicationRepository, dataAccessKey: string): Promise<string[]> {
+  const erasedIds: string[] = [];
+  for (const entry of await repository.listByOwner(hashDataAccessKey(dataAccessKey))) {
+    if (await repository.delete(entry.id)) erasedIds.push(entry.id);
+  }
+  await appendAuditEntry({
+    action: 'erase',
+    reason: 'data-subject-request',
+    recordType: 'application',
+    backend: repository.backend,
+    recordIds: erasedIds,
+  });
+  return erasedIds;
+}
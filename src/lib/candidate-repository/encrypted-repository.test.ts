@@ -0,0 +1,145 @@
+import crypto from 'crypto';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  createEncryptedApplicationRepository,
+  createEncryptedCandidateRepository,
+  rotateApplicationEncryptionKeys,
+  rotateCandidateEncryptionKeys,
+} from '@/lib/candidate-repository/encrypted-repository';
+import { computeEmailBlindIndex, getPiiKeyring, type PiiKeyring } from '@/lib/candidate-repository/pii-encryption';
+import { createSqliteApplicationRepository, createSqliteCandidateRepository } from '@/lib/candidate-repository/sqlite-repository';
+import type {
+  ApplicationRepository,
+  CandidateRepository,
+  NewApplicationRecord,
+  NewCandidateRecord,
+} from '@/lib/candidate-repository/types';
+
+const randomKey = () => crypto.randomBytes(32).toString('base64');
+// Kept across keyrings, as the blind index key is never rotated.
+const BLIND_INDEX_KEY = randomKey();
+const OLD_KEY = `k1:${randomKey()}`;
+const NEW_KEY = `k2:${randomKey()}`;
+
+const createKeyring = (keys: string): PiiKeyring =>
+  getPiiKeyring({ CANDIDATE_ENCRYPTION_KEYS: keys, CANDIDATE_BLIND_INDEX_KEY: BLIND_INDEX_KEY })!;
+
+const newCandidate = (overrides: Partial<NewCandidateRecord> = {}): NewCandidateRecord => ({
+  jobDescriptionSource: 'text',
+  jobOfferIdentifier: 'Frontend developer at Acme',
+  resumeSource: 'text',
+  resumeIdentifier: 'Ana García, frontend developer',
+  nombre: 'Ana García',
+  email: 'ana@example.com',
+  cvTextoCrudo: 'Ana García. Frontend developer at Globex since 2020.',
+  fullJobDescriptionText: 'Acme is hiring a frontend developer in Valencia.',
+  habilidades: ['React'],
+  dataAccessKeyHash: 'owner-a',
+  ...overrides,
+});
+
+const newApplication = (overrides: Partial<NewApplicationRecord> = {}): NewApplicationRecord => ({
+  ownerKeyHash: 'owner-a',
+  status: 'applied',
+  statusDates: { applied: '2026-10-01T00:00:00.000Z' },
+  jobTitle: 'Frontend developer',
+  company: 'Acme',
+  contacts: [{ name: 'Marta Ruiz', email: 'marta@acme.example' }],
+  notes: 'Marta said the second interview is with the CTO.',
+  tailoredResumeText: 'Ana García. Senior frontend developer.',
+  ...overrides,
+});
+
+describe('createEncryptedCandidateRepository', () => {
+  let inner: CandidateRepository;
+
+  beforeEach(() => {
+    inner = createSqliteCandidateRepository(':memory:');
+  });
+  afterEach(async () => {
+    await inner.close();
+  });
+
+  it('stores the PII only inside the envelope and returns it decrypted', async () => {
+    const keyring = createKeyring(OLD_KEY);
+    const repository = createEncryptedCandidateRepository(inner, keyring);
+    const candidate = newCandidate();
+
+    const saved = await repository.save(candidate);
+    const stored = (await inner.findById(saved.id))!;
+
+    const storedText = JSON.stringify(stored);
+    for (const value of [candidate.nombre, candidate.email, candidate.cvTextoCrudo, candidate.fullJobDescriptionText, candidate.resumeIdentifier]) {
+      expect(storedText).not.toContain(value);
+    }
+    expect(stored).toMatchObject({ encryptedPii: { keyId: 'k1' }, emailBlindIndex: computeEmailBlindIndex(keyring, candidate.email!) });
+    expect(await repository.findById(saved.id)).toEqual(saved);
+  });
+
+  it('finds encrypted records by email through the blind index, along with older plain-text ones', async () => {
+    const repository = createEncryptedCandidateRepository(inner, createKeyring(OLD_KEY));
+    const encrypted = await repository.save(newCandidate());
+    const plain = await inner.save(newCandidate({ email: 'Ana@Example.com' }));
+    await repository.save(newCandidate({ nombre: 'Luis', email: 'luis@example.com' }));
+
+    const found = await repository.list({ email: '  ANA@example.com ' });
+
+    expect(found.map(record => record.id).sort()).toEqual([encrypted.id, plain.id].sort());
+    expect(found.find(record => record.id === encrypted.id)).toMatchObject({ nombre: 'Ana García', email: 'ana@example.com' });
+  });
+
+  it('moves records to the new key and encrypts the plain-text ones', async () => {
+    const encrypted = await createEncryptedCandidateRepository(inner, createKeyring(OLD_KEY)).save(newCandidate());
+    const plain = await inner.save(newCandidate({ nombre: 'Luis', email: 'luis@example.com' }));
+
+    const rotated = createKeyring(`${NEW_KEY},${OLD_KEY}`);
+    expect(await rotateCandidateEncryptionKeys(inner, rotated)).toEqual({ rewrapped: 1, encrypted: 1 });
+    expect((await inner.list()).map(record => record.encryptedPii?.keyId)).toEqual(['k2', 'k2']);
+    expect(JSON.stringify(await inner.findById(plain.id))).not.toContain('luis@example.com');
+
+    // The old key can now be removed.
+    const repository = createEncryptedCandidateRepository(inner, createKeyring(NEW_KEY));
+    expect(await repository.findById(encrypted.id)).toEqual(encrypted);
+    expect(await repository.findById(plain.id)).toEqual(plain);
+    expect((await repository.list({ email: 'luis@example.com' })).map(record => record.id)).toEqual([plain.id]);
+  });
+});
+
+describe('createEncryptedApplicationRepository', () => {
+  let inner: ApplicationRepository;
+
+  beforeEach(() => {
+    inner = createSqliteApplicationRepository(':memory:');
+  });
+  afterEach(async () => {
+    await inner.close();
+  });
+
+  it('stores the contacts, notes and tailored resume only inside the envelope', async () => {
+    const repository = createEncryptedApplicationRepository(inner, createKeyring(OLD_KEY));
+    const entry = newApplication();
+
+    const created = await repository.create(entry);
+    const stored = (await inner.findById(created.id))!;
+
+    const storedText = JSON.stringify(stored);
+    for (const value of ['Marta Ruiz', 'marta@acme.example', entry.notes, entry.tailoredResumeText!]) {
+      expect(storedText).not.toContain(value);
+    }
+    expect(created).toMatchObject(entry);
+    expect(await repository.findById(created.id)).toEqual(created);
+    expect(await repository.listByOwner('owner-a')).toEqual([created]);
+  });
+
+  it('moves entries to the new key and encrypts the plain-text ones', async () => {
+    const encrypted = await createEncryptedApplicationRepository(inner, createKeyring(OLD_KEY)).create(newApplication());
+    const plain = await inner.create(newApplication({ jobTitle: 'Backend developer' }));
+
+    expect(await rotateApplicationEncryptionKeys(inner, createKeyring(`${NEW_KEY},${OLD_KEY}`))).toEqual({ rewrapped: 1, encrypted: 1 });
+
+    const repository = createEncryptedApplicationRepository(inner, createKeyring(NEW_KEY));
+    expect((await inner.listAll()).map(entry => entry.encryptedPii?.keyId)).toEqual(['k2', 'k2']);
+    expect(await repository.findById(encrypted.id)).toEqual(encrypted);
+    expect(await repository.findById(plain.id)).toEqual(plain);
+  });
+});
@@ -0,0 +1,162 @@
+// src/lib/candidate-repository/encrypted-repository.ts
+
+import type {
+  ApplicationRecord,
+  ApplicationRepository,
+  CandidateRecord,
+  CandidateRepository,
+  NewApplicationRecord,
+  NewCandidateRecord,
+} from '@/lib/candidate-repository/types';
+import {
+  computeEmailBlindIndex,
+  decryptPii,
+  encryptPii,
+  rewrapPii,
+  type ApplicationPiiFields,
+  type PiiFields,
+  type PiiKeyring,
+} from '@/lib/candidate-repository/pii-encryption';
+
+/** Moves the PII fields into an encrypted envelope and adds the email blind index. */
+function encryptRecord<T extends NewCandidateRecord>(keyring: PiiKeyring, record: T): T {
+  const { nombre, email, cvTextoCrudo, fullJobDescriptionText, resumeIdentifier, ...rest } = record;
+  const pii: PiiFields = { nombre, email, cvTextoCrudo, fullJobDescriptionText, resumeIdentifier };
+  return {
+    ...rest,
+    // Required by the record type; the real value is in the envelope.
+    resumeIdentifier: '',
+    encryptedPii: encryptPii(keyring, pii),
+    emailBlindIndex: email ? computeEmailBlindIndex(keyring, email) : undefined,
+  } as T;
+}
+
+/** Records stored before encryption was enabled have no envelope and are returned as they are. */
+function decryptRecord(keyring: PiiKeyring, record: CandidateRecord): CandidateRecord {
+  const { encryptedPii, emailBlindIndex, ...rest } = record;
+  return encryptedPii ? { ...rest, ...decryptPii(keyring, encryptedPii) } : rest;
+}
+
+/**
+ * Wraps a backend so that PII is encrypted before it is stored and decrypted when it is read; callers never see
+ * the envelope. Email lookups go through the blind index, plus a plain-text lookup for older records.
+ */
+export function createEncryptedCandidateRepository(inner: CandidateRepository, keyring: PiiKeyring): CandidateRepository {
+  const decrypt = (record: CandidateRecord) => decryptRecord(keyring, record);
+
+  return {
+    backend: inner.backend,
+
+    async save(data) {
+      const stored = await inner.save(encryptRecord(keyring, data));
+      return { ...data, id: stored.id, timestamp: stored.timestamp };
+    },
+
+    async findById(id) {
+      const record = await inner.findById(id);
+      return record && decrypt(record);
+    },
+
+    async list(query = {}) {
+      if (!query.email) return (await inner.list(query)).map(decrypt);
+      const { email, ...rest } = query;
+      const [encrypted, plain] = await Promise.all([
+        inner.list({ ...rest, emailBlindIndex: computeEmailBlindIndex(keyring, email) }),
+        inner.list(query),
+      ]);
+      const matching = [...encrypted, ...plain].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+      return (query.limit ? matching.slice(0, query.limit) : matching).map(decrypt);
+    },
+
+    update(record) {
+      return inner.update(encryptRecord(keyring, record));
+    },
+
+    delete: id => inner.delete(id),
+    deleteOlderThan: cutoff => inner.deleteOlderThan(cutoff),
+    close: () => inner.close(),
+  };
+}
+
+function encryptApplication<T extends NewApplicationRecord>(keyring: PiiKeyring, entry: T): T {
+  const { contacts, notes, tailoredResumeText, ...rest } = entry;
+  const pii: ApplicationPiiFields = { contacts, notes, tailoredResumeText };
+  // contacts and notes are required by the entry type; the real values are in the envelope.
+  const contactsPlaceholder: ApplicationRecord['contacts'] = [];
+  return { ...rest, contacts: contactsPlaceholder, notes: '', encryptedPii: encryptPii(keyring, pii) } as T;
+}
+
+function decryptApplication(keyring: PiiKeyring, entry: ApplicationRecord): ApplicationRecord {
+  const { encryptedPii, ...rest } = entry;
+  return encryptedPii ? { ...rest, ...decryptPii<ApplicationPiiFields>(keyring, encryptedPii) } : rest;
+}
+
+/** Same as createEncryptedCandidateRepository, for the application tracker. */
+export function createEncryptedApplicationRepository(inner: ApplicationRepository, keyring: PiiKeyring): ApplicationRepository {
+  const decrypt = (entry: ApplicationRecord) => decryptApplication(keyring, entry);
+
+  return {
+    backend: inner.backend,
+
+    async create(data) {
+      return decrypt(await inner.create(encryptApplication(keyring, data)));
+    },
+
+    async findById(id) {
+      const entry = await inner.findById(id);
+      return entry && decrypt(entry);
+    },
+
+    async listByOwner(ownerKeyHash) {
+      return (await inner.listByOwner(ownerKeyHash)).map(decrypt);
+    },
+
+    async listAll() {
+      return (await inner.listAll()).map(decrypt);
+    },
+
+    update(entry) {
+      return inner.update(encryptApplication(keyring, entry));
+    },
+
+    delete: id => inner.delete(id),
+    deleteOlderThan: cutoff => inner.deleteOlderThan(cutoff),
+    close: () => inner.close(),
+  };
+}
+
+export interface KeyRotationResult {
+  /** Records whose data key was wrapped again with the active key. */
+  rewrapped: number;
+  /** Records that were stored in plain text and are now encrypted. */
+  encrypted: number;
+}
+
+/**
+ * Wraps every data key with the active key and encrypts the records still stored in plain text, so retired keys
+ * can then be removed from CANDIDATE_ENCRYPTION_KEYS. Takes the backend itself, not the encrypting wrapper.
+ */
+export async function rotateCandidateEncryptionKeys(inner: CandidateRepository, keyring: PiiKeyring): Promise<KeyRotationResult> {
+  const result: KeyRotationResult = { rewrapped: 0, encrypted: 0 };
+  for (const record of await inner.list()) {
+    if (!record.encryptedPii) {
+      if (await inner.update(encryptRecord(keyring, record))) result.encrypted++;
+    } else if (record.encryptedPii.keyId !== keyring.activeKeyId) {
+      if (await inner.update({ ...record, encryptedPii: rewrapPii(keyring, record.encryptedPii) })) result.rewrapped++;
+    }
+  }
+  return result;
+}
+
+/** Same as rotateCandidateEncryptionKeys, for the application tracker. */
+export async function rotateApplicationEncryptionKeys(inner: ApplicationRepository, keyring: PiiKeyring): Promise<KeyRotationResult> {
+  const result: KeyRotationResult = { rewrapped: 0, encrypted: 0 };
+  for (const entry of await inner.listAll()) {
+    if (!entry.encryptedPii) {
+      if (await inner.update(encryptApplication(keyring, entry))) result.encrypted++;
+    } else if (entry.encryptedPii.keyId !== keyring.activeKeyId) {
+      if (await inner.update({ ...entry, encryptedPii: rewrapPii(keyring, entry.encryptedPii) })) result.rewrapped++;
+    }
+  }
+  return result;
+}
@@ -0,0 +1,143 @@
+// src/lib/candidate-repository/index.ts
+
+import path from 'path';
+import {
+  CANDIDATE_STORAGE_BACKENDS,
+  type ApplicationRepository,
+  type CandidateRepository,
+  type CandidateStorageBackend,
+} from '@/lib/candidate-repository/types';
+import { createEncryptedApplicationRepository, createEncryptedCandidateRepository } from '@/lib/candidate-repository/encrypted-repository';
+import { getPiiKeyring } from '@/lib/candidate-repository/pii-encryption';
+
+export * from '@/lib/candidate-repository/types';
+
+export const DEFAULT_JSON_DATABASE_FILE = 'local_candidate_database.jsonl';
+export const DEFAULT_SQLITE_DATABASE_FILE = 'local_candidate_database.sqlite';
+export const DEFAULT_JSON_APPLICATION_FILE = 'local_application_database.jsonl';
+export const DEFAULT_MONGODB_APPLICATION_COLLECTION = 'applications';
+
+/** Application tracker entries live next to the candidate records: in their own file, table or collection. */
+export type CandidateStorageConfig =
+  | { backend: 'none' }
+  | { backend: 'json'; filePath: string; applicationsFilePath: string }
+  | { backend: 'sqlite'; filePath: string }
+  | { backend: 'mongodb'; uri: string; dbName: string; collectionName: string; applicationCollectionName: string };
+
+/**
+ * Reads the storage backend from CANDIDATE_STORAGE_BACKEND. Without it, MongoDB is used when its variables
+ * are set (the behaviour before the other backends existed) and nothing is stored otherwise.
+ */
+export function getCandidateStorageConfig(env: Record<string, string | undefined> = process.env): CandidateStorageConfig {
+  const requested = env.CANDIDATE_STORAGE_BACKEND?.trim().toLowerCase();
+  const hasMongoConfig = !!(env.MONGODB_URI && env.MONGODB_DB_NAME && env.MONGODB_COLLECTION_NAME);
+
+  if (requested && !CANDIDATE_STORAGE_BACKENDS.includes(requested as CandidateStorageBackend)) {
+    throw new Error(`Unknown CANDIDATE_STORAGE_BACKEND "${requested}". Use one of: ${CANDIDATE_STORAGE_BACKENDS.join(', ')}.`);
+  }
+  const backend = (requested || (hasMongoConfig ? 'mongodb' : 'none')) as CandidateStorageBackend;
+
+  switch (backend) {
+    case 'json':
+      return {
+        backend,
+        filePath: path.resolve(env.CANDIDATE_JSON_FILE || DEFAULT_JSON_DATABASE_FILE),
+        applicationsFilePath: path.resolve(env.CANDIDATE_APPLICATIONS_JSON_FILE || DEFAULT_JSON_APPLICATION_FILE),
+      };
+    case 'sqlite':
+      return { backend, filePath: path.resolve(env.CANDIDATE_SQLITE_FILE || DEFAULT_SQLITE_DATABASE_FILE) };
+    case 'mongodb':
+      if (!hasMongoConfig) {
+        throw new Error('The MongoDB candidate storage needs MONGODB_URI, MONGODB_DB_NAME and MONGODB_COLLECTION_NAME.');
+      }
+      return {
+        backend,
+        uri: env.MONGODB_URI!,
+        dbName: env.MONGODB_DB_NAME!,
+        collectionName: env.MONGODB_COLLECTION_NAME!,
+        applicationCollectionName: env.MONGODB_APPLICATION_COLLECTION_NAME || DEFAULT_MONGODB_APPLICATION_COLLECTION,
+      };
+    default:
+      return { backend: 'none' };
+  }
+}
+
+/** Creates the repository for a config. Backends are loaded on demand so unused drivers are never required. */
+export async function createCandidateRepository(config: CandidateStorageConfig): Promise<CandidateRepository | null> {
+  switch (config.backend) {
+    case 'json': {
+      const { createJsonFileCandidateRepository } = await import('@/lib/candidate-repository/json-file-repository');
+      return createJsonFileCandidateRepository(config.filePath);
+    }
+    case 'sqlite': {
+      const { createSqliteCandidateRepository } = await import('@/lib/candidate-repository/sqlite-repository');
+      return createSqliteCandidateRepository(config.filePath);
+    }
+    case 'mongodb': {
+      const { createMongoDbCandidateRepository } = await import('@/lib/candidate-repository/mongodb-repository');
+      return createMongoDbCandidateRepository(config);
+    }
+    default:
+      return null;
+  }
+}
+
+/** Creates the application tracker repository for a config, in the same storage as the candidate records. */
+export async function createApplicationRepository(config: CandidateStorageConfig): Promise<ApplicationRepository | null> {
+  switch (config.backend) {
+    case 'json': {
+      const { createJsonFileApplicationRepository } = await import('@/lib/candidate-repository/json-file-repository');
+      return createJsonFileApplicationRepository(config.applicationsFilePath);
+    }
+    case 'sqlite': {
+      const { createSqliteApplicationRepository } = await import('@/lib/candidate-repository/sqlite-repository');
+      return createSqliteApplicationRepository(config.filePath);
+    }
+    case 'mongodb': {
+      const { createMongoDbApplicationRepository } = await import('@/lib/candidate-repository/mongodb-repository');
+      return createMongoDbApplicationRepository({ ...config, collectionName: config.applicationCollectionName });
+    }
+    default:
+      return null;
+  }
+}
+
+let configuredRepository: Promise<CandidateRepository | null> | null = null;
+let configuredApplicationRepository: Promise<ApplicationRepository | null> | null = null;
+
+async function createConfiguredRepository(): Promise<CandidateRepository | null> {
+  const keyring = getPiiKeyring();
+  const repository = await createCandidateRepository(getCandidateStorageConfig());
+  return repository && keyring ? createEncryptedCandidateRepository(repository, keyring) : repository;
+}
+
+/**
+ * The repository configured by the environment, shared by every flow. Null when storage is disabled.
+ * PII is encrypted transparently when CANDIDATE_ENCRYPTION_KEYS is set.
+ */
+export function getCandidateRepository(): Promise<CandidateRepository | null> {
+  if (!configuredRepository) {
+    configuredRepository = createConfiguredRepository().catch(error => {
+      configuredRepository = null;
+      throw error;
+    });
+  }
+  return configuredRepository;
+}
+
+async function createConfiguredApplicationRepository(): Promise<ApplicationRepository | null> {
+  const keyring = getPiiKeyring();
+  const repository = await createApplicationRepository(getCandidateStorageConfig());
+  return repository && keyring ? createEncryptedApplicationRepository(repository, keyring) : repository;
+}
+
+/** The application tracker repository configured by the environment. Null when storage is disabled. */
+export function getApplicationRepository(): Promise<ApplicationRepository | null> {
+  if (!configuredApplicationRepository) {
+    configuredApplicationRepository = createConfiguredApplicationRepository().catch(error => {
+      configuredApplicationRepository = null;
+      throw error;
+    });
+  }
+  return configuredApplicationRepository;
+}
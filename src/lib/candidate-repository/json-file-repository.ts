@@ -0,0 +1,139 @@
+// src/lib/candidate-repository/json-file-repository.ts
+
+import { randomUUID } from 'crypto';
+import { createJsonlLog, type JsonlLogOptions } from '@/lib/candidate-repository/jsonl-log';
+import {
+  applyCandidateQuery,
+  sortApplicationsByUpdate,
+  type ApplicationRecord,
+  type ApplicationRepository,
+  type CandidateRecord,
+  type CandidateRepository,
+  type NewCandidateRecord,
+} from '@/lib/candidate-repository/types';
+
+export type JsonFileCandidateRepositoryOptions = JsonlLogOptions;
+
+export interface JsonFileCandidateRepository extends CandidateRepository {
+  /** Rewrites the log with one line per live record. */
+  compact(): Promise<void>;
+}
+
+/**
+ * Keeps records in a JSONL log (see jsonl-log.ts). Updates and deletions rewrite the log at once,
+ * so replaced or erased data does not linger in earlier lines.
+ */
+export function createJsonFileCandidateRepository(
+  filePath: string,
+  options: JsonFileCandidateRepositoryOptions = {}
+): JsonFileCandidateRepository {
+  const log = createJsonlLog<CandidateRecord>(filePath, options);
+
+  return {
+    backend: 'json',
+
+    async save(data: NewCandidateRecord) {
+      const record: CandidateRecord = { ...data, id: randomUUID(), timestamp: new Date().toISOString() };
+      await log.put(record);
+      return record;
+    },
+
+    async findById(id) {
+      return (await log.read()).get(id) || null;
+    },
+
+    async list(query) {
+      return applyCandidateQuery([...(await log.read()).values()], query);
+    },
+
+    update(record) {
+      return log.transaction(async (records, rewrite) => {
+        if (!records.has(record.id)) return false;
+        records.set(record.id, record);
+        await rewrite();
+        return true;
+      });
+    },
+
+    delete(id) {
+      return log.transaction(async (records, rewrite) => {
+        if (!records.delete(id)) return false;
+        await rewrite();
+        return true;
+      });
+    },
+
+    deleteOlderThan(cutoff) {
+      return log.transaction(async (records, rewrite) => {
+        const expired = [...records.values()].filter(record => record.timestamp < cutoff).map(record => record.id);
+        if (expired.length === 0) return [];
+        expired.forEach(id => records.delete(id));
+        await rewrite();
+        return expired;
+      });
+    },
+
+    compact() {
+      return log.compact();
+    },
+
+    async close() {},
+  };
+}
+
+/** Keeps application tracker entries in their own JSONL log, with the same rules as the candidate records. */
+export function createJsonFileApplicationRepository(filePath: string, options: JsonlLogOptions = {}): ApplicationRepository {
+  const log = createJsonlLog<ApplicationRecord>(filePath, options);
+
+  return {
+    backend: 'json',
+
+    async create(data) {
+      const now = new Date().toISOString();
+      const entry: ApplicationRecord = { ...data, id: randomUUID(), createdAt: now, updatedAt: now };
+      await log.put(entry);
+      return entry;
+    },
+
+    async findById(id) {
+      return (await log.read()).get(id) || null;
+    },
+
+    async listByOwner(ownerKeyHash) {
+      return sortApplicationsByUpdate([...(await log.read()).values()].filter(entry => entry.ownerKeyHash === ownerKeyHash));
+    },
+
+    async listAll() {
+      return sortApplicationsByUpdate([...(await log.read()).values()]);
+    },
+
+    update(entry) {
+      return log.transaction(async (entries, rewrite) => {
+        if (!entries.has(entry.id)) return false;
+        entries.set(entry.id, entry);
+        await rewrite();
+        return true;
+      });
+    },
+
+    delete(id) {
+      return log.transaction(async (entries, rewrite) => {
+        if (!entries.delete(id)) return false;
+        await rewrite();
+        return true;
+      });
+    },
+
+    deleteOlderThan(cutoff) {
+      return log.transaction(async (entries, rewrite) => {
+        const expired = [...entries.values()].filter(entry => entry.updatedAt < cutoff).map(entry => entry.id);
+        if (expired.length === 0) return [];
+        expired.forEach(id => entries.delete(id));
+        await rewrite();
+        return expired;
+      });
+    },
+
+    async close() {},
+  };
+}
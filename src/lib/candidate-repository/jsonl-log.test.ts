@@ -0,0 +1,86 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createJsonlLog } from '@/lib/candidate-repository/jsonl-log';
+
+interface Item {
+  id: string;
+  value: number;
+}
+
+describe('createJsonlLog', () => {
+  let directory: string;
+  let filePath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'nailedjob-log-'));
+    filePath = path.join(directory, 'items.jsonl');
+  });
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const readLines = async () => (await fs.readFile(filePath, 'utf-8')).trim().split('\n').map(line => JSON.parse(line));
+
+  it('appends one line per put without reading the file again', async () => {
+    const log = createJsonlLog<Item>(filePath);
+    await log.put({ id: 'a', value: 1 });
+    const readFile = vi.spyOn(fs, 'readFile');
+
+    await log.put({ id: 'b', value: 2 });
+    await log.put({ id: 'a', value: 3 });
+
+    expect(readFile).not.toHaveBeenCalledWith(filePath, expect.anything());
+    expect(await readLines()).toHaveLength(3);
+    expect([...(await log.read()).values()]).toEqual([{ id: 'a', value: 3 }, { id: 'b', value: 2 }]);
+  });
+
+  it('reads the file again when another writer changed it', async () => {
+    const log = createJsonlLog<Item>(filePath);
+    const otherProcess = createJsonlLog<Item>(filePath);
+    await log.put({ id: 'a', value: 1 });
+
+    await otherProcess.put({ id: 'b', value: 2 });
+    await log.put({ id: 'c', value: 3 });
+
+    expect([...(await log.read()).keys()]).toEqual(['a', 'b', 'c']);
+    expect([...(await otherProcess.read()).keys()]).toEqual(['a', 'b', 'c']);
+  });
+
+  it('does not let callers change the cached records', async () => {
+    const log = createJsonlLog<Item>(filePath);
+    await log.put({ id: 'a', value: 1 });
+
+    (await log.read()).delete('a');
+    await log.transaction(async records => records.delete('a'));
+
+    expect([...(await log.read()).keys()]).toEqual(['a']);
+  });
+
+  it('compacts once the log has twice as many lines as records', async () => {
+    const log = createJsonlLog<Item>(filePath, { compactionMinLines: 4 });
+    for (let value = 1; value <= 4; value++) {
+      await log.put({ id: 'a', value });
+    }
+
+    expect(await readLines()).toEqual([{ op: 'put', record: { id: 'a', value: 4 } }]);
+    await log.put({ id: 'b', value: 1 });
+    expect(await readLines()).toHaveLength(2);
+  });
+
+  it('rewrites the log on transaction changes', async () => {
+    const log = createJsonlLog<Item>(filePath);
+    await log.put({ id: 'a', value: 1 });
+    await log.put({ id: 'b', value: 2 });
+
+    await log.transaction(async (records, rewrite) => {
+      records.delete('a');
+      await rewrite();
+    });
+
+    expect(await readLines()).toEqual([{ op: 'put', record: { id: 'b', value: 2 } }]);
+    expect([...(await log.read()).keys()]).toEqual(['b']);
+  });
+});
@@ -0,0 +1,198 @@
+// src/lib/candidate-repository/jsonl-log.ts
+
+import fs from 'fs/promises';
+import { withFileLock, writeFileAtomic } from '@/lib/file-lock';
+
+// IMPORTANT: In a serverless environment like Firebase App Hosting, writing to the project directory
+// will likely fail or be ephemeral. Use the MongoDB or SQLite backend in production.
+
+/** One line of the log: a stored record, or the deletion of one. */
+type LogEntry<T> = { op: 'put'; record: T } | { op: 'delete'; id: string };
+
+export interface JsonlLogOptions {
+  /** Compact once the log has this many lines and at least twice as many lines as live records. */
+  compactionMinLines?: number;
+}
+
+export interface JsonlLog<T extends { id: string }> {
+  /** The live records, by id. */
+  read(): Promise<Map<string, T>>;
+  /** Appends a stored record. */
+  put(record: T): Promise<void>;
+  /**
+   * Runs `task` on the live records with the lock held. When the task changes them, it calls `rewrite`,
+   * which replaces the whole log so that earlier versions of the records are gone from the file.
+   */
+  transaction<R>(task: (records: Map<string, T>, rewrite: () => Promise<void>) => Promise<R>): Promise<R>;
+  /** Rewrites the log with one line per live record. */
+  compact(): Promise<void>;
+}
+
+interface LogState<T> {
+  records: Map<string, T>;
+  lineCount: number;
+}
+
+const DEFAULT_COMPACTION_MIN_LINES = 200;
+
+const serialize = <T>(entries: LogEntry<T>[]) => entries.map(entry => `${JSON.stringify(entry)}\n`).join('');
+
+const isLogEntry = (value: any): value is LogEntry<{ id: string }> =>
+  (value?.op === 'put' && typeof value.record?.id === 'string') || (value?.op === 'delete' && typeof value.id === 'string');
+
+/** Identifies a version of the file: any write by this or another process changes its size, mtime or inode. */
+const getFileVersion = async (filePath: string): Promise<string> => {
+  try {
+    const stat = await fs.stat(filePath);
+    return `${stat.ino}:${stat.size}:${stat.mtimeMs}`;
+  } catch (error: any) {
+    if (error.code === 'ENOENT') return 'missing';
+    throw error;
+  }
+};
+
+/**
+ * Keeps records in an append-only JSONL log: saves append one line, so concurrent writers never lose each other's
+ * records and a crash can at most leave a torn last line. Every operation holds the file lock.
+ *
+ * The parsed log is kept in memory and only read again when the file changed since this process last read or
+ * wrote it, so a save costs one append instead of a read of the whole file.
+ *
+ * Files that cannot be fully parsed are copied to `<file>.corrupt-<date>` before the readable lines are kept,
+ * and files in the former JSON-array format are converted to the log on first use.
+ */
+export function createJsonlLog<T extends { id: string }>(filePath: string, options: JsonlLogOptions = {}): JsonlLog<T> {
+  const compactionMinLines = options.compactionMinLines ?? DEFAULT_COMPACTION_MIN_LINES;
+
+  const quarantine = async (reason: string) => {
+    const quarantinePath = `${filePath}.corrupt-${new Date().toISOString().replace(/[:.]/g, '-')}`;
+    await fs.copyFile(filePath, quarantinePath);
+    console.error(`Database ${filePath} ${reason}; the original file was kept at ${quarantinePath}.`);
+  };
+
+  const writeSnapshot = (records: Iterable<T>) =>
+    writeFileAtomic(filePath, serialize([...records].map(record => ({ op: 'put' as const, record }))));
+
+  let cache: { version: string; state: LogState<T> } | null = null;
+
+  // Callers get their own copy of the records, which they may change before deciding to write them.
+  const copyState = ({ records, lineCount }: LogState<T>): LogState<T> => ({ records: new Map(records), lineCount });
+
+  // Must be called with the lock held, right after this process wrote the file.
+  const remember = async (state: LogState<T>) => {
+    cache = { version: await getFileVersion(filePath), state: copyState(state) };
+  };
+
+  // Must be called with the lock held.
+  const readLog = async (): Promise<LogState<T>> => {
+    const version = await getFileVersion(filePath);
+    if (cache?.version === version) return copyState(cache.state);
+    const state = await parseLog();
+    await remember(state);
+    return state;
+  };
+
+  const parseLog = async (): Promise<LogState<T>> => {
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, 'utf-8');
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return { records: new Map(), lineCount: 0 };
+      throw error;
+    }
+
+    if (content.trimStart().startsWith('[')) {
+      return migrateJsonArray(content);
+    }
+
+    const records = new Map<string, T>();
+    const lines = content.split('\n').filter(line => line.trim());
+    let corruptLines = 0;
+    for (const line of lines) {
+      let entry: unknown;
+      try {
+        entry = JSON.parse(line);
+      } catch {
+        entry = undefined;
+      }
+      if (!isLogEntry(entry)) {
+        corruptLines++;
+      } else if (entry.op === 'put') {
+        records.set(entry.record.id, entry.record as T);
+      } else {
+        records.delete(entry.id);
+      }
+    }
+
+    if (corruptLines > 0) {
+      await quarantine(`had ${corruptLines} unreadable line(s)`);
+      await writeSnapshot(records.values());
+      return { records, lineCount: records.size };
+    }
+    return { records, lineCount: lines.length };
+  };
+
+  const migrateJsonArray = async (content: string): Promise<LogState<T>> => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(content);
+    } catch {
+      parsed = undefined;
+    }
+    if (!Array.isArray(parsed)) {
+      await quarantine('is not valid JSON');
+      await writeSnapshot([]);
+      return { records: new Map(), lineCount: 0 };
+    }
+    // Records written before they had ids get a stable one from their position.
+    const records = new Map<string, T>(
+      parsed.map((record, index) => {
+        const id = record.id || `legacy-${index}`;
+        return [id, { ...record, id }];
+      })
+    );
+    await writeSnapshot(records.values());
+    console.log(`Converted database ${filePath} from a JSON array to a JSONL log (${records.size} records).`);
+    return { records, lineCount: records.size };
+  };
+
+  const locked = <R>(task: () => Promise<R>) => withFileLock(filePath, task);
+
+  return {
+    read() {
+      return locked(async () => (await readLog()).records);
+    },
+
+    put(record) {
+      return locked(async () => {
+        const state = await readLog();
+        state.records.set(record.id, record);
+        await fs.appendFile(filePath, serialize([{ op: 'put', record }]), 'utf-8');
+        state.lineCount++;
+        if (state.lineCount >= compactionMinLines && state.lineCount >= state.records.size * 2) {
+          await writeSnapshot(state.records.values());
+          state.lineCount = state.records.size;
+        }
+        await remember(state);
+      });
+    },
+
+    transaction(task) {
+      return locked(async () => {
+        const { records } = await readLog();
+        return task(records, async () => {
+          await writeSnapshot(records.values());
+          await remember({ records, lineCount: records.size });
+        });
+      });
+    },
+
+    compact() {
+      return locked(async () => {
+        const { records } = await readLog();
+        await writeSnapshot(records.values());
+        await remember({ records, lineCount: records.size });
+      });
+    },
+  };
+}
@@ -0,0 +1,31 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createInMemoryCollection } from '@/lib/candidate-repository/__fixtures__/in-memory-collection';
+import { createMongoDbCandidateRepositoryFromCollection } from '@/lib/candidate-repository/mongodb-repository';
+
+describe('createMongoDbCandidateRepositoryFromCollection', () => {
+  it('indexes every field records are looked up by', async () => {
+    const collection = createInMemoryCollection();
+    const createIndex = vi.spyOn(collection, 'createIndex');
+    const repository = createMongoDbCandidateRepositoryFromCollection(async () => collection);
+
+    await repository.list({ emailBlindIndex: 'index-ana' });
+    await repository.list();
+
+    expect(createIndex.mock.calls).toEqual([
+      [{ dataAccessKeyHash: 1 }, { sparse: true }],
+      [{ emailNormalized: 1 }, { sparse: true }],
+      [{ emailBlindIndex: 1 }, { sparse: true }],
+    ]);
+  });
+
+  it('adds the normalized email to older documents so email lookups find them', async () => {
+    const collection = createInMemoryCollection();
+    await collection.insertOne({ timestamp: '2025-01-01T00:00:00.000Z', resumeIdentifier: 'Ana', email: ' Ana@Example.com ' });
+    const repository = createMongoDbCandidateRepositoryFromCollection(async () => collection);
+
+    const found = await repository.list({ email: 'ana@example.com' });
+
+    expect(found).toEqual([expect.objectContaining({ resumeIdentifier: 'Ana', email: ' Ana@Example.com ' })]);
+    expect(await collection.findOne({ emailNormalized: 'ana@example.com' })).not.toBeNull();
+  });
+});
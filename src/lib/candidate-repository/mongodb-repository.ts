@@ -0,0 +1,196 @@
+// src/lib/candidate-repository/mongodb-repository.ts
+
+import { randomUUID } from 'crypto';
+import { ObjectId, type Collection, type Document, type Filter, type WithId } from 'mongodb';
+import { createMongoClientProvider } from '@/lib/mongodb-client';
+import {
+  normalizeEmail,
+  type ApplicationRecord,
+  type ApplicationRepository,
+  type CandidateRecord,
+  type CandidateRepository,
+  type NewCandidateRecord,
+} from '@/lib/candidate-repository/types';
+
+export interface MongoDbCandidateRepositoryOptions {
+  uri: string;
+  dbName: string;
+  collectionName: string;
+}
+
+/** Stored document: the record plus a lowercase copy of the email for lookups. */
+type CandidateDocument = CandidateRecord & { emailNormalized?: string };
+
+/** Fields records are looked up by. Sparse, since older documents and unencrypted ones lack some of them. */
+const INDEXED_FIELDS = ['dataAccessKeyHash', 'emailNormalized', 'emailBlindIndex'];
+
+const toDocument = (record: CandidateRecord): CandidateDocument =>
+  ({ ...record, emailNormalized: record.email ? normalizeEmail(record.email) : undefined });
+
+function toRecord({ _id, emailNormalized, ...document }: WithId<Document>): CandidateRecord {
+  // Documents saved before records had ids are addressed by their ObjectId.
+  return { ...(document as CandidateRecord), id: document.id || _id.toHexString() };
+}
+
+/** Gives the documents saved before emailNormalized existed their lowercase email, so email lookups can use the index. */
+async function migrateLegacyEmails(collection: Collection<Document>) {
+  const legacy = await collection.find({ emailNormalized: { $exists: false }, email: { $exists: true } }).toArray();
+  for (const { _id, ...document } of legacy) {
+    await collection.replaceOne({ _id }, { ...document, emailNormalized: normalizeEmail(String(document.email)) });
+  }
+  if (legacy.length > 0) console.log(`[MongoDbCandidateRepository] Added the normalized email to ${legacy.length} older document(s).`);
+}
+
+/**
+ * Builds the repository on top of a collection. `getCollection` is called for every operation,
+ * so connection problems surface on the operation that hit them. The lookup indexes are created, and older documents
+ * migrated, on first use.
+ */
+export function createMongoDbCandidateRepositoryFromCollection(
+  getCollectionWithoutIndexes: () => Promise<Collection<Document>>,
+  close: () => Promise<void> = async () => {}
+): CandidateRepository {
+  let indexesCreated: Promise<unknown> | null = null;
+  let legacyEmailsMigrated: Promise<void> | null = null;
+  const getCollection = async () => {
+    const collection = await getCollectionWithoutIndexes();
+    indexesCreated ??= Promise.all(INDEXED_FIELDS.map(field => collection.createIndex({ [field]: 1 }, { sparse: true }))).catch(error => {
+      // Lookups still work without the indexes, only slower; try again on the next operation.
+      indexesCreated = null;
+      console.warn('[MongoDbCandidateRepository] Could not create the lookup indexes:', error?.message || error);
+    });
+    // Unlike the indexes, email lookups would miss the older documents without it: a failure fails the operation.
+    legacyEmailsMigrated ??= migrateLegacyEmails(collection).catch(error => {
+      legacyEmailsMigrated = null;
+      throw error;
+    });
+    await Promise.all([indexesCreated, legacyEmailsMigrated]);
+    return collection;
+  };
+
+  const byId = (id: string): Filter<Document> =>
+    ObjectId.isValid(id) && id.length === 24 ? { $or: [{ id }, { _id: new ObjectId(id) }] } : { id };
+
+  return {
+    backend: 'mongodb',
+
+    async save(data: NewCandidateRecord) {
+      const record: CandidateRecord = { ...data, id: randomUUID(), timestamp: new Date().toISOString() };
+      const collection = await getCollection();
+      // insertOne adds _id to the object it is given; keep the record itself clean.
+      await collection.insertOne(toDocument(record));
+      return record;
+    },
+
+    async findById(id) {
+      const collection = await getCollection();
+      const document = await collection.findOne(byId(id));
+      return document ? toRecord(document) : null;
+    },
+
+    async list(query = {}) {
+      const collection = await getCollection();
+      const filter: Filter<Document> = query.email ? { emailNormalized: normalizeEmail(query.email) } : {};
+      if (query.emailBlindIndex) filter.emailBlindIndex = query.emailBlindIndex;
+      if (query.dataAccessKeyHash) filter.dataAccessKeyHash = query.dataAccessKeyHash;
+      let cursor = collection.find(filter).sort({ timestamp: -1, _id: -1 });
+      if (query.limit) cursor = cursor.limit(query.limit);
+      return (await cursor.toArray()).map(toRecord);
+    },
+
+    async update(record) {
+      const collection = await getCollection();
+      const result = await collection.replaceOne(byId(record.id), toDocument(record));
+      return result.matchedCount > 0;
+    },
+
+    async delete(id) {
+      const collection = await getCollection();
+      const result = await collection.deleteOne(byId(id));
+      return result.deletedCount > 0;
+    },
+
+    async deleteOlderThan(cutoff) {
+      const collection = await getCollection();
+      const expired = await collection.find({ timestamp: { $lt: cutoff } }, { projection: { _id: 1, id: 1 } }).toArray();
+      if (expired.length > 0) {
+        await collection.deleteMany({ _id: { $in: expired.map(document => document._id) } });
+      }
+      return expired.map(document => toRecord(document).id);
+    },
+
+    close,
+  };
+}
+
+export function createMongoDbCandidateRepository(options: MongoDbCandidateRepositoryOptions): CandidateRepository {
+  const { getClient, close } = createMongoClientProvider(options.uri);
+  return createMongoDbCandidateRepositoryFromCollection(
+    async () => (await getClient()).db(options.dbName).collection<Document>(options.collectionName),
+    close
+  );
+}
+
+/** One document per application tracker entry, with the entry id as `_id`. */
+export type ApplicationDocument = Omit<ApplicationRecord, 'id'> & { _id: string };
+
+const toApplication = ({ _id, ...document }: ApplicationDocument): ApplicationRecord => ({ ...document, id: _id });
+
+export function createMongoDbApplicationRepositoryFromCollection(
+  getCollection: () => Promise<Collection<ApplicationDocument>>,
+  close: () => Promise<void> = async () => {}
+): ApplicationRepository {
+  return {
+    backend: 'mongodb',
+
+    async create(data) {
+      const now = new Date().toISOString();
+      const { id, ...document } = { ...data, id: randomUUID(), createdAt: now, updatedAt: now };
+      await (await getCollection()).insertOne({ ...document, _id: id });
+      return { ...document, id };
+    },
+
+    async findById(id) {
+      const document = await (await getCollection()).findOne({ _id: id });
+      return document ? toApplication(document) : null;
+    },
+
+    async listByOwner(ownerKeyHash) {
+      const documents = await (await getCollection()).find({ ownerKeyHash }).sort({ updatedAt: -1 }).toArray();
+      return documents.map(toApplication);
+    },
+
+    async listAll() {
+      return (await (await getCollection()).find().sort({ updatedAt: -1 }).toArray()).map(toApplication);
+    },
+
+    async update({ id, ...entry }) {
+      const result = await (await getCollection()).replaceOne({ _id: id }, entry);
+      return result.matchedCount > 0;
+    },
+
+    async delete(id) {
+      const result = await (await getCollection()).deleteOne({ _id: id });
+      return result.deletedCount > 0;
+    },
+
+    async deleteOlderThan(cutoff) {
+      const collection = await getCollection();
+      const expired = await collection.find({ updatedAt: { $lt: cutoff } }, { projection: { _id: 1 } }).toArray();
+      if (expired.length > 0) {
+        await collection.deleteMany({ _id: { $in: expired.map(document => document._id) } });
+      }
+      return expired.map(document => document._id);
+    },
+
+    close,
+  };
+}
+
+export function createMongoDbApplicationRepository(options: MongoDbCandidateRepositoryOptions): ApplicationRepository {
+  const { getClient, close } = createMongoClientProvider(options.uri);
+  return createMongoDbApplicationRepositoryFromCollection(
+    async () => (await getClient()).db(options.dbName).collection<ApplicationDocument>(options.collectionName),
+    close
+  );
+}
@@ -0,0 +1,111 @@
+// src/lib/candidate-repository/pii-encryption.ts
+
+import { createCipheriv, createDecipheriv, createHmac, randomBytes } from 'crypto';
+import { normalizeEmail, type ApplicationRecord, type CandidateRecord, type EncryptedPii } from '@/lib/candidate-repository/types';
+
+/** Fields encrypted at rest. resumeIdentifier is included because it holds the start of the resume text or its file name. */
+export const PII_FIELDS = ['nombre', 'email', 'cvTextoCrudo', 'fullJobDescriptionText', 'resumeIdentifier'] as const;
+
+export type PiiFields = Partial<Pick<CandidateRecord, typeof PII_FIELDS[number]>>;
+
+/** Fields of application tracker entries encrypted at rest: the people involved and the user's own writing. */
+export const APPLICATION_PII_FIELDS = ['contacts', 'notes', 'tailoredResumeText'] as const;
+
+export type ApplicationPiiFields = Pick<ApplicationRecord, typeof APPLICATION_PII_FIELDS[number]>;
+
+export interface PiiKeyring {
+  /** Key-encryption keys by id. */
+  keys: Map<string, Buffer>;
+  /** Wraps the data keys of new records; the other keys are only used to unwrap. */
+  activeKeyId: string;
+  /** HMAC key of the email blind index. */
+  blindIndexKey: Buffer;
+}
+
+const CIPHER = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+function parseKey(name: string, value: string): Buffer {
+  const key = Buffer.from(value.trim(), 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`${name} must be ${KEY_BYTES} bytes encoded in base64 (for example from "openssl rand -base64 32").`);
+  }
+  return key;
+}
+
+/**
+ * Reads CANDIDATE_ENCRYPTION_KEYS, a comma-separated list of `<id>:<base64 key>` whose first key is the active one,
+ * and CANDIDATE_BLIND_INDEX_KEY. Null means PII is stored in plain text.
+ */
+export function getPiiKeyring(env: Record<string, string | undefined> = process.env): PiiKeyring | null {
+  const value = env.CANDIDATE_ENCRYPTION_KEYS?.trim();
+  if (!value) return null;
+
+  const keys = new Map<string, Buffer>();
+  value.split(',').map(entry => entry.trim()).filter(Boolean).forEach((entry, index) => {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, Math.max(separator, 0)).trim();
+    // Never echo the entry itself: it holds the key.
+    if (!id) throw new Error(`CANDIDATE_ENCRYPTION_KEYS entry ${index + 1} must look like "<id>:<base64 key>".`);
+    if (keys.has(id)) throw new Error(`CANDIDATE_ENCRYPTION_KEYS has key id "${id}" more than once.`);
+    keys.set(id, parseKey(`Encryption key "${id}"`, entry.slice(separator + 1)));
+  });
+  if (keys.size === 0) return null;
+
+  const blindIndexKey = env.CANDIDATE_BLIND_INDEX_KEY?.trim();
+  if (!blindIndexKey) throw new Error('CANDIDATE_BLIND_INDEX_KEY is required when CANDIDATE_ENCRYPTION_KEYS is set.');
+  return { keys, activeKeyId: [...keys.keys()][0], blindIndexKey: parseKey('CANDIDATE_BLIND_INDEX_KEY', blindIndexKey) };
+}
+
+/** Encrypts with a fresh IV; the result is base64 of iv + auth tag + ciphertext. */
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(CIPHER, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function unseal(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = createDecipheriv(CIPHER, key, data.subarray(0, IV_BYTES));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+function unwrapDataKey(keyring: PiiKeyring, envelope: EncryptedPii): Buffer {
+  const key = keyring.keys.get(envelope.keyId);
+  if (!key) {
+    throw new Error(`Candidate data is encrypted with key "${envelope.keyId}", which is missing from CANDIDATE_ENCRYPTION_KEYS.`);
+  }
+  return unseal(key, envelope.wrappedKey);
+}
+
+/** Same email, same index: lookups work without storing the email, and the index says nothing without the key. */
+export const computeEmailBlindIndex = (keyring: PiiKeyring, email: string) =>
+  createHmac('sha256', keyring.blindIndexKey).update(normalizeEmail(email)).digest('hex');
+
+/** Encrypts the fields with a new data key, stored wrapped by the active key-encryption key. */
+export function encryptPii(keyring: PiiKeyring, fields: object): EncryptedPii {
+  const dataKey = randomBytes(KEY_BYTES);
+  return {
+    keyId: keyring.activeKeyId,
+    wrappedKey: seal(keyring.keys.get(keyring.activeKeyId)!, dataKey),
+    ciphertext: seal(dataKey, Buffer.from(JSON.stringify(fields), 'utf-8')),
+  };
+}
+
+export function decryptPii<T extends object = PiiFields>(keyring: PiiKeyring, envelope: EncryptedPii): T {
+  return JSON.parse(unseal(unwrapDataKey(keyring, envelope), envelope.ciphertext).toString('utf-8'));
+}
+
+/** Wraps the data key again with the active key. The encrypted fields are not touched. */
+export function rewrapPii(keyring: PiiKeyring, envelope: EncryptedPii): EncryptedPii {
+  if (envelope.keyId === keyring.activeKeyId) return envelope;
+  return {
+    ...envelope,
+    keyId: keyring.activeKeyId,
+    wrappedKey: seal(keyring.keys.get(keyring.activeKeyId)!, unwrapDataKey(keyring, envelope)),
+  };
+}
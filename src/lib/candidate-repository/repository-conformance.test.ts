@@ -0,0 +1,49 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { createInMemoryCollection } from '@/lib/candidate-repository/__fixtures__/in-memory-collection';
+import {
+  describeApplicationRepositoryConformance,
+  describeCandidateRepositoryConformance,
+} from '@/lib/candidate-repository/__fixtures__/repository-conformance';
+import { createJsonFileApplicationRepository, createJsonFileCandidateRepository } from '@/lib/candidate-repository/json-file-repository';
+import {
+  createMongoDbApplicationRepositoryFromCollection,
+  createMongoDbCandidateRepositoryFromCollection,
+  type ApplicationDocument,
+} from '@/lib/candidate-repository/mongodb-repository';
+import { createSqliteApplicationRepository, createSqliteCandidateRepository } from '@/lib/candidate-repository/sqlite-repository';
+
+const temporaryDirectories: string[] = [];
+
+async function createTemporaryFile(name: string) {
+  const directory = await fs.mkdtemp(path.join(os.tmpdir(), 'nailedjob-repository-'));
+  temporaryDirectories.push(directory);
+  return path.join(directory, name);
+}
+
+const removeTemporaryDirectories = async () => {
+  await Promise.all(temporaryDirectories.splice(0).map(directory => fs.rm(directory, { recursive: true, force: true })));
+};
+
+describeCandidateRepositoryConformance(
+  'JSON file',
+  async () => createJsonFileCandidateRepository(await createTemporaryFile('candidates.jsonl')),
+  removeTemporaryDirectories
+);
+describeCandidateRepositoryConformance('SQLite', async () => createSqliteCandidateRepository(':memory:'));
+describeCandidateRepositoryConformance('MongoDB', async () => {
+  const collection = createInMemoryCollection();
+  return createMongoDbCandidateRepositoryFromCollection(async () => collection);
+});
+
+describeApplicationRepositoryConformance(
+  'JSON file',
+  async () => createJsonFileApplicationRepository(await createTemporaryFile('applications.jsonl')),
+  removeTemporaryDirectories
+);
+describeApplicationRepositoryConformance('SQLite', async () => createSqliteApplicationRepository(':memory:'));
+describeApplicationRepositoryConformance('MongoDB', async () => {
+  const collection = createInMemoryCollection<ApplicationDocument>();
+  return createMongoDbApplicationRepositoryFromCollection(async () => collection);
+});
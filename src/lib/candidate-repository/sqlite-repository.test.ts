@@ -0,0 +1,45 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { afterEach, describe, expect, it } from 'vitest';
+import { createSqliteCandidateRepository } from '@/lib/candidate-repository/sqlite-repository';
+
+describe('createSqliteCandidateRepository', () => {
+  let directory: string | undefined;
+
+  afterEach(async () => {
+    if (directory) await fs.rm(directory, { recursive: true, force: true });
+    directory = undefined;
+  });
+
+  it('adds the lookup columns to an older database and fills them from the stored records', async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'nailedjob-sqlite-'));
+    const filePath = path.join(directory, 'candidates.sqlite');
+    const legacy = new Database(filePath);
+    legacy.exec('CREATE TABLE candidates (id TEXT PRIMARY KEY, timestamp TEXT NOT NULL, email TEXT, data TEXT NOT NULL)');
+    const record = {
+      id: 'legacy-1',
+      timestamp: '2026-01-01T00:00:00.000Z',
+      jobDescriptionSource: 'text',
+      jobOfferIdentifier: 'Offer',
+      resumeSource: 'text',
+      resumeIdentifier: 'Resume',
+      dataAccessKeyHash: 'key-a',
+    };
+    legacy.prepare('INSERT INTO candidates (id, timestamp, email, data) VALUES (?, ?, ?, ?)').run(record.id, record.timestamp, null, JSON.stringify(record));
+    legacy.close();
+
+    const repository = createSqliteCandidateRepository(filePath);
+    try {
+      expect(await repository.list({ dataAccessKeyHash: 'key-a' })).toEqual([record]);
+    } finally {
+      await repository.close();
+    }
+
+    const migrated = new Database(filePath, { readonly: true });
+    const indexes = migrated.prepare<[], { name: string }>("SELECT name FROM sqlite_master WHERE type = 'index' AND tbl_name = 'candidates'").all();
+    migrated.close();
+    expect(indexes.map(index => index.name)).toContain('candidates_data_access_key_hash');
+  });
+});
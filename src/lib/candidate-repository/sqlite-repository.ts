@@ -0,0 +1,183 @@
+// src/lib/candidate-repository/sqlite-repository.ts
+
+import { randomUUID } from 'crypto';
+import Database from 'better-sqlite3';
+import {
+  normalizeEmail,
+  type ApplicationRecord,
+  type ApplicationRepository,
+  type CandidateRecord,
+  type CandidateRepository,
+  type NewCandidateRecord,
+} from '@/lib/candidate-repository/types';
+
+interface CandidateRow {
+  data: string;
+}
+
+/**
+ * Stores each record as a JSON document in a SQLite table, with the columns used for lookups
+ * (id, email, email blind index, data access key hash, timestamp) kept apart and indexed. `filePath` may be ':memory:'.
+ */
+export function createSqliteCandidateRepository(filePath: string): CandidateRepository {
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  // Overwrite deleted rows with zeros so erased candidates cannot be recovered from the file.
+  db.pragma('secure_delete = ON');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS candidates (
+      id TEXT PRIMARY KEY,
+      timestamp TEXT NOT NULL,
+      email TEXT,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS candidates_email ON candidates (email);
+    CREATE INDEX IF NOT EXISTS candidates_timestamp ON candidates (timestamp);
+  `);
+  // Databases created before PII encryption lack the blind index column.
+  const columns = db.prepare<[], { name: string }>('PRAGMA table_info(candidates)').all();
+  if (!columns.some(column => column.name === 'email_blind_index')) {
+    db.exec('ALTER TABLE candidates ADD COLUMN email_blind_index TEXT');
+  }
+  db.exec('CREATE INDEX IF NOT EXISTS candidates_email_blind_index ON candidates (email_blind_index)');
+  // Nor the data access key hash column; it is filled from the stored documents.
+  if (!columns.some(column => column.name === 'data_access_key_hash')) {
+    db.exec(`
+      ALTER TABLE candidates ADD COLUMN data_access_key_hash TEXT;
+      UPDATE candidates SET data_access_key_hash = json_extract(data, '$.dataAccessKeyHash');
+    `);
+  }
+  db.exec('CREATE INDEX IF NOT EXISTS candidates_data_access_key_hash ON candidates (data_access_key_hash)');
+
+  const insert = db.prepare('INSERT INTO candidates (id, timestamp, email, email_blind_index, data_access_key_hash, data) VALUES (?, ?, ?, ?, ?, ?)');
+  const updateById = db.prepare('UPDATE candidates SET email = ?, email_blind_index = ?, data_access_key_hash = ?, data = ? WHERE id = ?');
+  const selectById = db.prepare<[string], CandidateRow>('SELECT data FROM candidates WHERE id = ?');
+  const deleteById = db.prepare('DELETE FROM candidates WHERE id = ?');
+  const deleteBefore = db.prepare<[string], { id: string }>('DELETE FROM candidates WHERE timestamp < ? RETURNING id');
+
+  const parse = (row: CandidateRow): CandidateRecord => JSON.parse(row.data);
+  const emailColumn = (record: CandidateRecord) => (record.email ? normalizeEmail(record.email) : null);
+
+  return {
+    backend: 'sqlite',
+
+    async save(data: NewCandidateRecord) {
+      const record: CandidateRecord = { ...data, id: randomUUID(), timestamp: new Date().toISOString() };
+      insert.run(record.id, record.timestamp, emailColumn(record), record.emailBlindIndex ?? null, record.dataAccessKeyHash ?? null, JSON.stringify(record));
+      return record;
+    },
+
+    async findById(id) {
+      const row = selectById.get(id);
+      return row ? parse(row) : null;
+    },
+
+    async list(query = {}) {
+      const conditions: string[] = [];
+      const params: (string | number)[] = [];
+      if (query.email) {
+        conditions.push('email = ?');
+        params.push(normalizeEmail(query.email));
+      }
+      if (query.emailBlindIndex) {
+        conditions.push('email_blind_index = ?');
+        params.push(query.emailBlindIndex);
+      }
+      if (query.dataAccessKeyHash) {
+        conditions.push('data_access_key_hash = ?');
+        params.push(query.dataAccessKeyHash);
+      }
+      let sql = 'SELECT data FROM candidates';
+      if (conditions.length > 0) sql += ` WHERE ${conditions.join(' AND ')}`;
+      sql += ' ORDER BY timestamp DESC, rowid DESC';
+      if (query.limit) {
+        sql += ' LIMIT ?';
+        params.push(query.limit);
+      }
+      return db.prepare<typeof params, CandidateRow>(sql).all(...params).map(parse);
+    },
+
+    async update(record) {
+      return updateById.run(emailColumn(record), record.emailBlindIndex ?? null, record.dataAccessKeyHash ?? null, JSON.stringify(record), record.id).changes > 0;
+    },
+
+    async delete(id) {
+      return deleteById.run(id).changes > 0;
+    },
+
+    async deleteOlderThan(cutoff) {
+      return deleteBefore.all(cutoff).map(row => row.id);
+    },
+
+    async close() {
+      db.close();
+    },
+  };
+}
+
+/** Stores application tracker entries in their own table of the same database file. */
+export function createSqliteApplicationRepository(filePath: string): ApplicationRepository {
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('secure_delete = ON');
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS applications (
+      id TEXT PRIMARY KEY,
+      owner_key_hash TEXT NOT NULL,
+      updated_at TEXT NOT NULL,
+      data TEXT NOT NULL
+    );
+    CREATE INDEX IF NOT EXISTS applications_owner ON applications (owner_key_hash, updated_at);
+    CREATE INDEX IF NOT EXISTS applications_updated_at ON applications (updated_at);
+  `);
+
+  const insert = db.prepare('INSERT INTO applications (id, owner_key_hash, updated_at, data) VALUES (?, ?, ?, ?)');
+  const updateById = db.prepare('UPDATE applications SET owner_key_hash = ?, updated_at = ?, data = ? WHERE id = ?');
+  const selectById = db.prepare<[string], CandidateRow>('SELECT data FROM applications WHERE id = ?');
+  const selectByOwner = db.prepare<[string], CandidateRow>('SELECT data FROM applications WHERE owner_key_hash = ? ORDER BY updated_at DESC');
+  const selectAll = db.prepare<[], CandidateRow>('SELECT data FROM applications ORDER BY updated_at DESC');
+  const deleteById = db.prepare('DELETE FROM applications WHERE id = ?');
+  const deleteBefore = db.prepare<[string], { id: string }>('DELETE FROM applications WHERE updated_at < ? RETURNING id');
+
+  const parse = (row: CandidateRow): ApplicationRecord => JSON.parse(row.data);
+
+  return {
+    backend: 'sqlite',
+
+    async create(data) {
+      const now = new Date().toISOString();
+      const entry: ApplicationRecord = { ...data, id: randomUUID(), createdAt: now, updatedAt: now };
+      insert.run(entry.id, entry.ownerKeyHash, entry.updatedAt, JSON.stringify(entry));
+      return entry;
+    },
+
+    async findById(id) {
+      const row = selectById.get(id);
+      return row ? parse(row) : null;
+    },
+
+    async listByOwner(ownerKeyHash) {
+      return selectByOwner.all(ownerKeyHash).map(parse);
+    },
+
+    async listAll() {
+      return selectAll.all().map(parse);
+    },
+
+    async update(entry) {
+      return updateById.run(entry.ownerKeyHash, entry.updatedAt, JSON.stringify(entry), entry.id).changes > 0;
+    },
+
+    async delete(id) {
+      return deleteById.run(id).changes > 0;
+    },
+
+    async deleteOlderThan(cutoff) {
+      return deleteBefore.all(cutoff).map(row => row.id);
+    },
+
+    async close() {
+      db.close();
+    },
+  };
+}
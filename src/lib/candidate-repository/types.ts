@@ -0,0 +1,172 @@
+// src/lib/candidate-repository/types.ts
+
+export const CANDIDATE_STORAGE_BACKENDS = ['json', 'sqlite', 'mongodb', 'none'] as const;
+export type CandidateStorageBackend = typeof CANDIDATE_STORAGE_BACKENDS[number];
+
+export interface ExperienciaLaboral {
+  puesto?: string;
+  empresa?: string;
+  fechas?: string;
+  descripcion?: string;
+}
+
+export interface Educacion {
+  titulo?: string;
+  institucion?: string;
+  fechas?: string;
+}
+
+/** PII fields of a record encrypted with a per-record data key (AES-256-GCM, base64 of iv + tag + ciphertext). */
+export interface EncryptedPii {
+  /** Id of the key-encryption key in CANDIDATE_ENCRYPTION_KEYS that wrapped the data key. */
+  keyId: string;
+  /** The record's data key, encrypted with the key-encryption key. */
+  wrappedKey: string;
+  /** The PII fields as JSON, encrypted with the data key. */
+  ciphertext: string;
+}
+
+/** One compatibility analysis as stored by every backend. */
+export interface CandidateRecord {
+  id: string;
+  /** ISO date of the analysis. */
+  timestamp: string;
+  jobDescriptionSource: 'text' | 'url';
+  /** Truncated job description text or the job offer URL. */
+  jobOfferIdentifier: string;
+  resumeSource: 'text' | 'file';
+  /** Truncated resume text or the uploaded file name. */
+  resumeIdentifier: string;
+  /** Language of the analysis requested by the user. */
+  resumeLanguage?: string;
+  compatibilityScore?: number;
+  /** Raw LLM score behind the hybrid compatibilityScore. */
+  llmCompatibilityScore?: number;
+  compatibilityExplanation?: string;
+
+  // Structured fields extracted from the candidate's resume
+  nombre?: string;
+  email?: string;
+  experienciaLaboral?: ExperienciaLaboral[];
+  educacion?: Educacion[];
+  habilidades?: string[];
+  /** Raw text of the resume. */
+  cvTextoCrudo?: string;
+  fullJobDescriptionText?: string;
+
+  /** ISO date the user agreed to have this data stored. */
+  consentGivenAt?: string;
+  /** SHA-256 of the data access key that lets the user export or erase the record. */
+  dataAccessKeyHash?: string;
+
+  /** Set in storage when PII encryption is enabled; the PII fields are then absent. Never returned to callers. */
+  encryptedPii?: EncryptedPii;
+  /** Keyed hash of the normalized email, so encrypted records can still be looked up by email. */
+  emailBlindIndex?: string;
+}
+
+export type NewCandidateRecord = Omit<CandidateRecord, 'id' | 'timestamp'>;
+
+export interface CandidateQuery {
+  /** Only records with this email (case-insensitive). */
+  email?: string;
+  /** Only records with this email blind index (used in place of `email` for encrypted records). */
+  emailBlindIndex?: string;
+  /** Only records saved with this data access key hash, i.e. by one browser. */
+  dataAccessKeyHash?: string;
+  limit?: number;
+}
+
+/** Storage of candidate records, implemented by the JSON-file, SQLite and MongoDB backends. */
+export interface CandidateRepository {
+  readonly backend: Exclude<CandidateStorageBackend, 'none'>;
+  /** Stores a record, assigning its id and timestamp. */
+  save(record: NewCandidateRecord): Promise<CandidateRecord>;
+  findById(id: string): Promise<CandidateRecord | null>;
+  /** Records matching the query, newest first. */
+  list(query?: CandidateQuery): Promise<CandidateRecord[]>;
+  /** Replaces the stored record with the same id. Returns false when no record had that id. */
+  update(record: CandidateRecord): Promise<boolean>;
+  /** Removes the record for good (no copy is left in logs or free pages). Returns false when no record had that id. */
+  delete(id: string): Promise<boolean>;
+  /** Removes every record stored before `cutoff` (ISO date) and returns their ids. */
+  deleteOlderThan(cutoff: string): Promise<string[]>;
+  close(): Promise<void>;
+}
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+/** Shared by the backends that filter in memory. */
+export function applyCandidateQuery(records: CandidateRecord[], query: CandidateQuery = {}): CandidateRecord[] {
+  const email = query.email ? normalizeEmail(query.email) : undefined;
+  const matching = records
+    .filter(record => !email || (record.email && normalizeEmail(record.email) === email))
+    .filter(record => !query.emailBlindIndex || record.emailBlindIndex === query.emailBlindIndex)
+    .filter(record => !query.dataAccessKeyHash || record.dataAccessKeyHash === query.dataAccessKeyHash)
+    .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  return query.limit ? matching.slice(0, query.limit) : matching;
+}
+
+export const APPLICATION_STATUSES = ['saved', 'applied', 'interview', 'offer', 'rejected'] as const;
+export type ApplicationStatus = typeof APPLICATION_STATUSES[number];
+
+export interface ApplicationContact {
+  name: string;
+  role?: string;
+  email?: string;
+  phone?: string;
+}
+
+/** One job offer in the user's application tracker. */
+export interface ApplicationRecord {
+  id: string;
+  /** SHA-256 of the data access key of the browser that owns the entry. */
+  ownerKeyHash: string;
+  /** ISO dates. */
+  createdAt: string;
+  updatedAt: string;
+  status: ApplicationStatus;
+  /** ISO date each status was reached. */
+  statusDates: Partial<Record<ApplicationStatus, string>>;
+  jobTitle: string;
+  company?: string;
+  location?: string;
+  jobOfferUrl?: string;
+  jobDescription?: string;
+  /** The tailored resume as it was when the entry was created. */
+  tailoredResumeText?: string;
+  /** Wizard session the entry was created from. */
+  sessionId?: string;
+  compatibilityScore?: number;
+  contacts: ApplicationContact[];
+  notes: string;
+  /** Day (YYYY-MM-DD) to follow up on the application. */
+  reminderDate?: string;
+
+  /** Set in storage when PII encryption is enabled; the PII fields are then absent. Never returned to callers. */
+  encryptedPii?: EncryptedPii;
+}
+
+export type NewApplicationRecord = Omit<ApplicationRecord, 'id' | 'createdAt' | 'updatedAt'>;
+
+/** Storage of application tracker entries, next to the candidate records of the same backend. */
+export interface ApplicationRepository {
+  readonly backend: Exclude<CandidateStorageBackend, 'none'>;
+  /** Stores an entry, assigning its id and dates. */
+  create(entry: NewApplicationRecord): Promise<ApplicationRecord>;
+  findById(id: string): Promise<ApplicationRecord | null>;
+  /** Entries of one owner, most recently updated first. */
+  listByOwner(ownerKeyHash: string): Promise<ApplicationRecord[]>;
+  /** Every entry of every owner, for maintenance such as key rotation. */
+  listAll(): Promise<ApplicationRecord[]>;
+  /** Replaces the entry with the same id. Returns false when no entry had that id. */
+  update(entry: ApplicationRecord): Promise<boolean>;
+  /** Returns false when no entry had that id. */
+  delete(id: string): Promise<boolean>;
+  /** Removes every entry last updated before `cutoff` (ISO date) and returns their ids. */
+  deleteOlderThan(cutoff: string): Promise<string[]>;
+  close(): Promise<void>;
+}
+
+export const sortApplicationsByUpdate = (entries: ApplicationRecord[]) =>
+  entries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
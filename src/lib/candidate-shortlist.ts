@@ -0,0 +1,120 @@
+// src/lib/candidate-shortlist.ts
+
+import type { CompatibilityOutput } from '@/ai/flows/resume-compatibility-analysis';
+
+export const MAX_SCREENED_RESUMES = 50;
+/** Resumes analyzed at the same time in recruiter mode. */
+export const SCREENING_CONCURRENCY = 3;
+
+/** One uploaded resume in recruiter mode and, once analyzed, its result. */
+export interface ScreenedResume {
+  id: string;
+  fileName: string;
+  analysis?: CompatibilityOutput;
+  error?: string;
+}
+
+export interface ShortlistEntry {
+  /** 1-based position; ties share the rank. Undefined for resumes whose analysis failed. */
+  rank?: number;
+  id: string;
+  fileName: string;
+  nombre?: string;
+  email?: string;
+  compatibilityScore?: number;
+  mustHavesMatched: number;
+  mustHavesTotal: number;
+  habilidades: string[];
+  experienciaLaboral: NonNullable<CompatibilityOutput['experienciaLaboral']>;
+  explanation?: string;
+  error?: string;
+}
+
+const toEntry = (resume: ScreenedResume): ShortlistEntry => {
+  const mustHaves = resume.analysis?.requirements?.filter(item => item.importance === 'must-have') || [];
+  return {
+    id: resume.id,
+    fileName: resume.fileName,
+    nombre: resume.analysis?.nombre,
+    email: resume.analysis?.email,
+    compatibilityScore: resume.analysis?.compatibilityScore,
+    mustHavesMatched: mustHaves.filter(item => item.status === 'matched').length,
+    mustHavesTotal: mustHaves.length,
+    habilidades: resume.analysis?.habilidades || [],
+    experienciaLaboral: resume.analysis?.experienciaLaboral || [],
+    explanation: resume.analysis?.explanation,
+    error: resume.error,
+  };
+};
+
+/**
+ * Ranks the analyzed resumes by compatibility score, then by must-have requirements met.
+ * Resumes still pending are left out; failed ones go last without a rank.
+ */
+export function buildShortlist(resumes: ScreenedResume[]): ShortlistEntry[] {
+  const analyzed = resumes.filter(resume => resume.analysis).map(toEntry);
+  const failed = resumes.filter(resume => !resume.analysis && resume.error).map(toEntry);
+
+  analyzed.sort((a, b) =>
+    b.compatibilityScore! - a.compatibilityScore!
+    || b.mustHavesMatched - a.mustHavesMatched
+    || a.fileName.localeCompare(b.fileName));
+  analyzed.forEach((entry, index) => {
+    const previous = analyzed[index - 1];
+    const tied = previous
+      && previous.compatibilityScore === entry.compatibilityScore
+      && previous.mustHavesMatched === entry.mustHavesMatched;
+    entry.rank = tied ? previous.rank : index + 1;
+  });
+
+  return [...analyzed, ...failed];
+}
+
+/** "Position at Company (dates)" for each job, as shown in the shortlist and the CSV. */
+export function formatExperienceSummary(experience: ShortlistEntry['experienciaLaboral']): string[] {
+  return experience
+    .map(job => {
+      const role = [job.puesto, job.empresa].filter(Boolean).join(' @ ');
+      return job.fechas ? `${role} (${job.fechas})` : role;
+    })
+    .filter(Boolean);
+}
+
+const escapeCsvValue = (value: string | number | undefined): string => {
+  const text = value === undefined ? '' : String(value);
+  // Leading =, +, - or @ would be run as a formula by spreadsheet apps.
+  const safe = /^[=+\-@]/.test(text) ? `'${text}` : text;
+  return /[",\n\r;]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export interface ShortlistCsvHeaders {
+  rank: string;
+  name: string;
+  email: string;
+  score: string;
+  mustHaves: string;
+  skills: string;
+  experience: string;
+  fileName: string;
+  error: string;
+}
+
+/** CSV of the shortlist, one row per resume, with a BOM so spreadsheet apps detect UTF-8. */
+export function shortlistToCsv(entries: ShortlistEntry[], headers: ShortlistCsvHeaders): string {
+  const rows = entries.map(entry => [
+    entry.rank,
+    entry.nombre,
+    entry.email,
+    entry.compatibilityScore,
+    entry.mustHavesTotal ? `${entry.mustHavesMatched}/${entry.mustHavesTotal}` : '',
+    entry.habilidades.join(', '),
+    formatExperienceSummary(entry.experienciaLaboral).join(' | '),
+    entry.fileName,
+    entry.error,
+  ]);
+  const headerRow = [
+    headers.rank, headers.name, headers.email, headers.score, headers.mustHaves,
+    headers.skills, headers.experience, headers.fileName, headers.error,
+  ];
+  return '\uFEFF' + [headerRow, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import { computeHybridScore, estimateCandidateYears, type HybridScore, type ScoreComponentKey } from '@/lib/compatibility-scoring';
+
+const JOB = [
+  'Senior frontend developer',
+  'Requirements:',
+  '- 5+ years of experience with React and TypeScript',
+  '- Fluent English (C1)',
+].join('\n');
+
+const RESUME = [
+  'Ada Lovelace',
+  '',
+  'WORK EXPERIENCE:',
+  'Senior frontend developer at Analytical Ltd, 2018 - Present',
+  'React, TypeScript',
+  '',
+  'LANGUAGES:',
+  'English (C2)',
+].join('\n');
+
+const NOW = new Date(2024, 5, 15);
+
+const component = (result: HybridScore, key: ScoreComponentKey) => result.components.find(item => item.key === key)!;
+
+describe('computeHybridScore', () => {
+  it('gives the same score for the same input', () => {
+    const input = { jobDescription: JOB, resume: RESUME, llmScore: 73, now: NOW };
+
+    expect(computeHybridScore(input)).toEqual(computeHybridScore({ ...input }));
+  });
+
+  it('blends the components with the configured weights', () => {
+    const result = computeHybridScore({ jobDescription: JOB, resume: RESUME, llmScore: 40, now: NOW });
+
+    expect(result.components.map(item => [item.key, item.score, item.weight])).toEqual([
+      ['keywords', 100, 0.3],
+      ['experience', 100, 0.2],
+      ['seniority', 100, 0.1],
+      ['languages', 100, 0.1],
+      ['llm', 40, 0.3],
+    ]);
+    expect(result.score).toBe(82);
+
+    const llmOnly = computeHybridScore({
+      jobDescription: JOB,
+      resume: RESUME,
+      llmScore: 40,
+      now: NOW,
+      weights: { keywords: 0, experience: 0, seniority: 0, languages: 0, llm: 1 },
+    });
+    expect(llmOnly.score).toBe(40);
+  });
+
+  it('drops the components the offer gives nothing to measure and rescales the rest', () => {
+    const result = computeHybridScore({ jobDescription: 'Frontend developer: React and TypeScript', resume: RESUME, llmScore: 60, now: NOW });
+
+    expect(result.components.map(item => [item.key, item.score, item.weight])).toEqual([
+      ['keywords', 100, 0.5],
+      ['experience', null, 0],
+      ['seniority', null, 0],
+      ['languages', null, 0],
+      ['llm', 60, 0.5],
+    ]);
+    expect(result.score).toBe(80);
+  });
+
+  it('penalizes a candidate below the required years, level and language', () => {
+    const resume = ['Ada Lovelace', '', 'WORK EXPERIENCE:', 'Junior frontend developer at Analytical Ltd, 2023 - Present', 'React, TypeScript'].join('\n');
+
+    const result = computeHybridScore({ jobDescription: JOB, resume, llmScore: 40, now: NOW });
+
+    expect(component(result, 'experience')).toMatchObject({ score: 30, details: { requiredYears: 5, candidateYears: 1.5 } });
+    // Two levels under the job costs 40 points each.
+    expect(component(result, 'seniority')).toMatchObject({ score: 20, details: { jobLevel: 'senior', candidateLevel: 'junior' } });
+    expect(component(result, 'languages')).toMatchObject({
+      score: 0,
+      details: { languages: [{ language: 'English', requiredLevel: 'C1', candidateLevel: undefined, met: false }] },
+    });
+    expect(result.score).toBeLessThan(computeHybridScore({ jobDescription: JOB, resume: RESUME, llmScore: 40, now: NOW }).score);
+  });
+
+  it('counts open-ended jobs up to the injected date', () => {
+    const early = computeHybridScore({ jobDescription: JOB, resume: RESUME, llmScore: 50, now: new Date(2020, 5, 15) });
+    const late = computeHybridScore({ jobDescription: JOB, resume: RESUME, llmScore: 50, now: NOW });
+
+    expect(component(early, 'experience')).toMatchObject({ score: 50, details: { candidateYears: 2.5 } });
+    expect(component(late, 'experience')).toMatchObject({ score: 100, details: { candidateYears: 6.5 } });
+  });
+});
+
+describe('estimateCandidateYears', () => {
+  it('merges overlapping jobs and ends open-ended ones at the reference date', () => {
+    const resume = ['WORK EXPERIENCE:', 'Developer at Acme, 2016-01 - 2019-12', 'Freelance, 2019 - Actualidad', '', 'EDUCATION:', 'Degree, 2010 - 2015'].join('\n');
+
+    expect(estimateCandidateYears(resume, new Date(2021, 11, 1))).toBe(6);
+    expect(estimateCandidateYears(resume, new Date(2023, 11, 1))).toBe(8);
+  });
+});
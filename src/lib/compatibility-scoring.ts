@@ -0,0 +1,365 @@
+// src/lib/compatibility-scoring.ts
+
+/**
+ * Hybrid compatibility score: deterministic text signals (keyword overlap, years of experience, seniority,
+ * language requirements) blended with the LLM-judged score using configurable weights. The same job
+ * description, resume and LLM score always produce the same result, which keeps candidate comparisons stable.
+ */
+
+export const SCORE_COMPONENT_KEYS = ['keywords', 'experience', 'seniority', 'languages', 'llm'] as const;
+export type ScoreComponentKey = typeof SCORE_COMPONENT_KEYS[number];
+
+export type ScoringWeights = Record<ScoreComponentKey, number>;
+
+export const DEFAULT_SCORING_WEIGHTS: ScoringWeights = {
+  keywords: 30,
+  experience: 20,
+  seniority: 10,
+  languages: 10,
+  llm: 30,
+};
+
+export interface LanguageRequirementCheck {
+  language: string;
+  requiredLevel?: string;
+  candidateLevel?: string;
+  met: boolean;
+}
+
+export interface ScoreComponentDetails {
+  matchedKeywords?: string[];
+  missingKeywords?: string[];
+  requiredYears?: number;
+  candidateYears?: number;
+  jobLevel?: SeniorityLevel;
+  candidateLevel?: SeniorityLevel;
+  languages?: LanguageRequirementCheck[];
+}
+
+export interface ScoreComponent {
+  key: ScoreComponentKey;
+  /** 0-100, or null when the job offer gives nothing to measure (e.g., no years of experience requested). */
+  score: number | null;
+  /** Share of the final score (0-1) after dropping components without a score. */
+  weight: number;
+  details?: ScoreComponentDetails;
+}
+
+export interface HybridScore {
+  score: number;
+  components: ScoreComponent[];
+  /** Configured weights, before dropping components without a score. */
+  weights: ScoringWeights;
+}
+
+export interface HybridScoreInput {
+  jobDescription: string;
+  resume: string;
+  /** Raw 0-100 score returned by the LLM. */
+  llmScore: number;
+  weights?: Partial<ScoringWeights>;
+  /** Reference date for open-ended jobs ("2020 - Present"). Defaults to now. */
+  now?: Date;
+}
+
+export const SENIORITY_LEVELS = ['intern', 'junior', 'mid', 'senior', 'lead', 'executive'] as const;
+export type SeniorityLevel = typeof SENIORITY_LEVELS[number];
+
+const MAX_JOB_KEYWORDS = 30;
+
+const STOPWORDS = new Set([
+  // English
+  'a', 'about', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been', 'but', 'by', 'can', 'do', 'for', 'from',
+  'has', 'have', 'if', 'in', 'into', 'is', 'it', 'its', 'may', 'more', 'must', 'not', 'of', 'on', 'or', 'other', 'our', 'out',
+  'over', 'should', 'so', 'such', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'to', 'up',
+  'us', 'was', 'we', 'well', 'were', 'what', 'when', 'which', 'while', 'who', 'will', 'with', 'within', 'would', 'you', 'your',
+  // Spanish (accents stripped)
+  'al', 'como', 'con', 'de', 'del', 'el', 'en', 'entre', 'es', 'esta', 'este', 'la', 'las', 'lo', 'los', 'mas', 'muy', 'nos',
+  'nuestro', 'nuestra', 'o', 'para', 'pero', 'por', 'que', 'se', 'ser', 'si', 'sin', 'sobre', 'su', 'sus', 'te', 'tu', 'tus',
+  'un', 'una', 'unos', 'unas', 'y', 'ya',
+  // Job-ad boilerplate that says nothing about the candidate
+  'ability', 'candidate', 'company', 'experience', 'good', 'job', 'join', 'knowledge', 'looking', 'need', 'needs', 'offer', 'plus',
+  'position', 'preferred', 'required', 'requirements', 'responsibilities', 'role', 'seeking', 'skills', 'strong', 'team', 'work',
+  'working', 'years', 'year',
+  'buscamos', 'candidato', 'conocimientos', 'empresa', 'equipo', 'experiencia', 'funciones', 'ofrecemos', 'puesto', 'requisitos',
+  'trabajo', 'valorara', 'anos', 'ano',
+  // Scored by the seniority and language components instead
+  'junior', 'senior', 'jr', 'sr', 'fluent', 'native', 'nativo', 'fluido', 'a1', 'a2', 'b1', 'b2', 'c1', 'c2',
+]);
+
+const SENIORITY_PATTERNS: [SeniorityLevel, RegExp][] = [
+  ['intern', /\b(intern|internship|trainee|becari[oa]|practicas)\b/g],
+  ['junior', /\b(junior|jr|entry[- ]level)\b/g],
+  ['mid', /\b(mid[- ]level|intermediate|semi[- ]?senior|ssr)\b/g],
+  ['senior', /\b(senior|sr)\b/g],
+  ['lead', /\b(lead|principal|staff engineer|tech lead|lider|team leader|jefe de equipo)\b/g],
+  ['executive', /\b(head of|director|directora|vp|cto|cio|jefe de departamento)\b/g],
+];
+
+const LANGUAGE_ALIASES: Record<string, string[]> = {
+  English: ['english', 'ingles'],
+  Spanish: ['spanish', 'espanol', 'castellano'],
+  French: ['french', 'frances'],
+  German: ['german', 'aleman'],
+  Italian: ['italian', 'italiano'],
+  Portuguese: ['portuguese', 'portugues'],
+  Catalan: ['catalan'],
+  Dutch: ['dutch', 'neerlandes', 'holandes'],
+  Chinese: ['chinese', 'mandarin', 'chino'],
+  Japanese: ['japanese', 'japones'],
+  Arabic: ['arabic', 'arabe'],
+};
+
+const CEFR_LEVELS = ['a1', 'a2', 'b1', 'b2', 'c1', 'c2'];
+
+// Proficiency words mapped to their usual CEFR equivalent.
+const PROFICIENCY_WORDS: [RegExp, string][] = [
+  [/\b(native|nativo|nativa|bilingual|bilingue|mother tongue|lengua materna)\b/, 'c2'],
+  [/\b(fluent|fluido|fluida|advanced|avanzado|proficient)\b/, 'c1'],
+  [/\b(upper[- ]intermediate|intermedio[- ]alto|professional working)\b/, 'b2'],
+  [/\b(intermediate|intermedio)\b/, 'b1'],
+  [/\b(basic|basico|elementary|elemental)\b/, 'a2'],
+];
+
+const OPEN_END = /^(present|current|now|today|actualidad|presente|hoy|actual|ahora)$/;
+
+/** Lowercases and strips accents so "Inglés" and "ingles" compare equal. */
+export function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/** Words of a text after normalizeText, keeping technology names such as "c++", "c#" or "node.js". */
+export function tokenizeText(text: string): string[] {
+  return normalizeText(text).match(/[a-z0-9][a-z0-9+#.]*[a-z0-9+#]|[a-z]/g) || [];
+}
+
+const isKeyword = (token: string) => token.length > 1 && !STOPWORDS.has(token) && !/^\d+([.,]\d+)?\+?$/.test(token);
+
+/**
+ * The most frequent meaningful terms of a job description, ties broken alphabetically so the list is stable.
+ * Each keyword is weighted by its frequency, capped at 3.
+ */
+export function extractJobKeywords(jobDescription: string, limit = MAX_JOB_KEYWORDS): { keyword: string; weight: number }[] {
+  const counts = new Map<string, number>();
+  tokenizeText(jobDescription).filter(isKeyword).forEach(token => counts.set(token, (counts.get(token) || 0) + 1));
+  return [...counts.entries()]
+    .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+    .slice(0, limit)
+    .map(([keyword, count]) => ({ keyword, weight: Math.min(3, count) }));
+}
+
+export function scoreKeywordOverlap(jobDescription: string, resume: string): { score: number | null; matched: string[]; missing: string[] } {
+  const keywords = extractJobKeywords(jobDescription);
+  const resumeTokens = new Set(tokenizeText(resume));
+  const matched: string[] = [];
+  const missing: string[] = [];
+  let total = 0;
+  let covered = 0;
+  keywords.forEach(({ keyword, weight }) => {
+    total += weight;
+    if (resumeTokens.has(keyword)) {
+      covered += weight;
+      matched.push(keyword);
+    } else {
+      missing.push(keyword);
+    }
+  });
+  return { score: total > 0 ? (covered / total) * 100 : null, matched, missing };
+}
+
+/** Highest "N years" figure requested by the job offer (capped at 20 to skip company-history numbers). */
+export function extractRequiredYears(jobDescription: string): number | undefined {
+  const matches = [...normalizeText(jobDescription).matchAll(/(\d{1,2})\s*\+?\s*(?:(?:-|to|a)\s*\d{1,2}\s*)?(?:years?|yrs?|anos?)\b/g)];
+  const years = matches.map(match => Number(match[1])).filter(value => value > 0 && value <= 20);
+  return years.length > 0 ? Math.max(...years) : undefined;
+}
+
+/** The experience section of a resume, when it has recognizable headings; otherwise the whole text. */
+function getExperienceSection(resume: string): string {
+  const lines = resume.split('\n');
+  const isHeading = (line: string, pattern: RegExp) => line.trim().length < 40 && pattern.test(normalizeText(line));
+  const start = lines.findIndex(line => isHeading(line, /experien/));
+  if (start === -1) return resume;
+  const end = lines.findIndex((line, index) =>
+    index > start && isHeading(line, /(education|educacion|formacion|skills|habilidades|competencias|languages|idiomas|interests|intereses)/));
+  return lines.slice(start + 1, end === -1 ? undefined : end).join('\n');
+}
+
+/** Years of experience from the date ranges of the experience section, merging overlapping jobs. */
+export function estimateCandidateYears(resume: string, now: Date = new Date()): number {
+  const text = normalizeText(getExperienceSection(resume));
+  const toMonth = (year: string, month?: string) => Number(year) * 12 + (month ? Math.min(12, Math.max(1, Number(month))) - 1 : 0);
+  const nowMonth = now.getFullYear() * 12 + now.getMonth();
+
+  const intervals = [...text.matchAll(/((?:19|20)\d{2})(?:[-/.](\d{1,2}))?\s*(?:-|–|—|to|a|hasta)\s*((?:19|20)\d{2})?(?:[-/.](\d{1,2}))?\s*([a-z]+)?/g)]
+    .map(([, startYear, startMonth, endYear, endMonth, word]) => {
+      const start = toMonth(startYear, startMonth);
+      if (endYear) return [start, toMonth(endYear, endMonth) + 1] as [number, number];
+      return word && OPEN_END.test(word) ? [start, nowMonth + 1] as [number, number] : null;
+    })
+    .filter((interval): interval is [number, number] => !!interval && interval[1] > interval[0] && interval[0] <= nowMonth)
+    .sort((a, b) => a[0] - b[0]);
+
+  let months = 0;
+  let currentEnd = -Infinity;
+  intervals.forEach(([start, end]) => {
+    const from = Math.max(start, currentEnd);
+    if (end > from) months += end - from;
+    currentEnd = Math.max(currentEnd, end);
+  });
+
+  // Resumes without dates often state the total ("8 years of experience").
+  const statedYears = extractRequiredYears(resume) ?? 0;
+  return Math.round(Math.max(months / 12, statedYears) * 2) / 2;
+}
+
+function levelFromYears(years: number): SeniorityLevel {
+  if (years < 2) return 'junior';
+  if (years < 5) return 'mid';
+  if (years < 8) return 'senior';
+  return 'lead';
+}
+
+/** Most frequently mentioned seniority level; ties go to the higher level. */
+export function detectSeniority(text: string): SeniorityLevel | undefined {
+  const normalized = normalizeText(text);
+  let best: { level: SeniorityLevel; count: number } | undefined;
+  SENIORITY_PATTERNS.forEach(([level, pattern]) => {
+    const count = normalized.match(pattern)?.length || 0;
+    if (count > 0 && (!best || count >= best.count)) best = { level, count };
+  });
+  return best?.level;
+}
+
+/** Level of the first seniority mention, i.e. the most recent job in a reverse-chronological resume. */
+function detectFirstSeniority(text: string): SeniorityLevel | undefined {
+  const normalized = normalizeText(text);
+  let first: { level: SeniorityLevel; index: number } | undefined;
+  SENIORITY_PATTERNS.forEach(([level, pattern]) => {
+    const index = normalized.search(pattern);
+    if (index !== -1 && (!first || index < first.index)) first = { level, index };
+  });
+  return first?.level;
+}
+
+// The clause around a mention ("Fluent English (C1)"), so a level is not borrowed from a neighbouring language.
+function findLanguageLevel(text: string, index: number): string | undefined {
+  const before = text.slice(0, index);
+  const boundary = Math.max(...[',', ';', '\n', '. '].map(separator => before.lastIndexOf(separator) + separator.length));
+  const start = Math.max(boundary, index - 30);
+  const end = text.slice(index).search(/[,;\n]|\.\s/);
+  const clause = text.slice(start, end === -1 ? index + 50 : Math.min(index + end, index + 50));
+  const cefr = clause.match(/\b([abc][12])\b/)?.[1];
+  if (cefr) return cefr;
+  return PROFICIENCY_WORDS.find(([pattern]) => pattern.test(clause))?.[1];
+}
+
+function findLanguageMentions(text: string): Map<string, string | undefined> {
+  const normalized = normalizeText(text);
+  const mentions = new Map<string, string | undefined>();
+  Object.entries(LANGUAGE_ALIASES).forEach(([language, aliases]) => {
+    aliases.forEach(alias => {
+      const index = normalized.search(new RegExp(`\\b${alias}\\b`));
+      if (index !== -1 && !mentions.get(language)) mentions.set(language, findLanguageLevel(normalized, index));
+    });
+  });
+  return mentions;
+}
+
+export function checkLanguageRequirements(jobDescription: string, resume: string): LanguageRequirementCheck[] {
+  const candidate = findLanguageMentions(resume);
+  return [...findLanguageMentions(jobDescription).entries()].map(([language, requiredLevel]) => {
+    const known = candidate.has(language);
+    const candidateLevel = candidate.get(language);
+    const met = known && (!requiredLevel || !candidateLevel || CEFR_LEVELS.indexOf(candidateLevel) >= CEFR_LEVELS.indexOf(requiredLevel));
+    return {
+      language,
+      requiredLevel: requiredLevel?.toUpperCase(),
+      candidateLevel: candidateLevel?.toUpperCase(),
+      met,
+    };
+  });
+}
+
+function scoreLanguage(check: LanguageRequirementCheck): number {
+  if (!check.candidateLevel && !check.met) return 0;
+  if (!check.requiredLevel) return 1;
+  if (!check.candidateLevel) return 0.75;
+  const gap = CEFR_LEVELS.indexOf(check.requiredLevel.toLowerCase()) - CEFR_LEVELS.indexOf(check.candidateLevel.toLowerCase());
+  return gap <= 0 ? 1 : Math.max(0, 1 - 0.25 * gap);
+}
+
+/**
+ * Parses weights like "keywords=30,experience=20,seniority=10,languages=10,llm=30" (":" also accepted).
+ * Unknown keys and invalid values are ignored; missing keys keep their default.
+ */
+export function parseScoringWeights(value: string | undefined): Partial<ScoringWeights> {
+  const weights: Partial<ScoringWeights> = {};
+  (value || '').split(',').forEach(entry => {
+    const [rawKey, rawValue] = entry.split(/[=:]/).map(part => part?.trim());
+    const weight = Number(rawValue);
+    if ((SCORE_COMPONENT_KEYS as readonly string[]).includes(rawKey) && Number.isFinite(weight) && weight >= 0) {
+      weights[rawKey as ScoreComponentKey] = weight;
+    } else if (rawKey) {
+      console.warn(`[compatibility-scoring] Ignoring invalid weight "${entry.trim()}".`);
+    }
+  });
+  return weights;
+}
+
+/** Default weights overridden by the COMPATIBILITY_SCORE_WEIGHTS environment variable. */
+export function getScoringWeights(env: Record<string, string | undefined> = process.env): ScoringWeights {
+  return { ...DEFAULT_SCORING_WEIGHTS, ...parseScoringWeights(env.COMPATIBILITY_SCORE_WEIGHTS) };
+}
+
+export function computeHybridScore(input: HybridScoreInput): HybridScore {
+  const weights: ScoringWeights = { ...DEFAULT_SCORING_WEIGHTS, ...input.weights };
+  const { jobDescription, resume } = input;
+
+  const keywords = scoreKeywordOverlap(jobDescription, resume);
+
+  const requiredYears = extractRequiredYears(jobDescription);
+  const candidateYears = estimateCandidateYears(resume, input.now);
+  const experienceScore = requiredYears ? Math.min(1, candidateYears / requiredYears) * 100 : null;
+
+  const jobLevel = detectSeniority(jobDescription) ?? (requiredYears ? levelFromYears(requiredYears) : undefined);
+  // Titles can only raise the level implied by the years of experience (an old "Junior" title must not win).
+  const titleLevel = detectFirstSeniority(getExperienceSection(resume));
+  const yearsLevel = levelFromYears(candidateYears);
+  const candidateLevel = titleLevel && SENIORITY_LEVELS.indexOf(titleLevel) > SENIORITY_LEVELS.indexOf(yearsLevel) ? titleLevel : yearsLevel;
+  let seniorityScore: number | null = null;
+  if (jobLevel) {
+    const gap = SENIORITY_LEVELS.indexOf(candidateLevel) - SENIORITY_LEVELS.indexOf(jobLevel);
+    // Being under-levelled costs more than being over-levelled.
+    seniorityScore = Math.max(0, 1 - (gap < 0 ? 0.4 * -gap : 0.15 * gap)) * 100;
+  }
+
+  const languages = checkLanguageRequirements(jobDescription, resume);
+  const languageScore = languages.length > 0
+    ? (languages.reduce((sum, check) => sum + scoreLanguage(check), 0) / languages.length) * 100
+    : null;
+
+  const llmScore = Math.min(100, Math.max(0, input.llmScore));
+
+  const rawComponents: Omit<ScoreComponent, 'weight'>[] = [
+    { key: 'keywords', score: keywords.score, details: { matchedKeywords: keywords.matched, missingKeywords: keywords.missing } },
+    { key: 'experience', score: experienceScore, details: { requiredYears, candidateYears } },
+    { key: 'seniority', score: seniorityScore, details: { jobLevel, candidateLevel } },
+    { key: 'languages', score: languageScore, details: { languages } },
+    { key: 'llm', score: llmScore },
+  ];
+
+  // Components without a score drop out and the remaining weights are rescaled to sum to 1.
+  const activeWeight = rawComponents.reduce((sum, component) => sum + (component.score === null ? 0 : weights[component.key]), 0);
+  const components: ScoreComponent[] = rawComponents.map(component => ({
+    ...component,
+    score: component.score === null ? null : Math.round(component.score),
+    weight: component.score === null || activeWeight === 0 ? 0 : weights[component.key] / activeWeight,
+  }));
+
+  const score = activeWeight === 0
+    ? Math.round(llmScore)
+    : Math.round(rawComponents.reduce((sum, component, index) => sum + (component.score ?? 0) * components[index].weight, 0));
+
+  return { score, components, weights };
+}
@@ -0,0 +1,26 @@
+// src/lib/concurrency.ts
+
+/**
+ * Maps over `items` running at most `concurrency` calls of `mapper` at a time.
+ * Results keep the order of `items`. A rejected call rejects the whole map, so mappers
+ * that should not abort the batch must catch their own errors.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await mapper(items[index], index);
+    }
+  };
+
+  const workerCount = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+  await Promise.all(Array.from({ length: workerCount }, worker));
+  return results;
+}
@@ -0,0 +1,91 @@
+// src/lib/cover-letter-docx.ts
+
+import { AlignmentType, BorderStyle, Document, Paragraph, TextRun } from 'docx';
+import { type ResumeDocument } from '@/lib/resume-document';
+import { formatCoverLetterDate, getCoverLetterSenderLines, splitCoverLetterParagraphs } from '@/lib/cover-letter';
+
+export interface CoverLetterDocxOptions {
+  /** Letter language ("English", "Spanish"), used for the date. */
+  language: string;
+  /** Resume the sender block (name and contact details) is taken from. */
+  resume?: ResumeDocument;
+}
+
+// Same palette and font as the resume DOCX (resume-docx.ts).
+const NAME_COLOR = '2C3E50';
+const SENDER_COLOR = '566573';
+const BODY_COLOR = '34495E';
+const RULE_COLOR = 'BDC3C7';
+const FONT = 'Arial';
+const PAGE_MARGIN = 1247; // 2.2 cm
+
+const pt = (points: number) => Math.round(points * 2);
+
+/**
+ * Editable Word version of renderCoverLetterPdf. The sender block, date and body use named styles
+ * ("Letter Sender", "Letter Date", "Letter Body") so the letter can be restyled in Word or LibreOffice.
+ */
+export function renderCoverLetterDocx(letter: string, options: CoverLetterDocxOptions): Document {
+  const { language, resume } = options;
+  const [name, ...contactLines] = getCoverLetterSenderLines(resume);
+
+  const children: Paragraph[] = [];
+  if (name) {
+    children.push(new Paragraph({ style: 'LetterSenderName', text: name }));
+    contactLines.forEach((line, index) => children.push(new Paragraph({
+      style: 'LetterSender',
+      text: line,
+      border: index === contactLines.length - 1
+        ? { bottom: { style: BorderStyle.SINGLE, size: 6, space: 6, color: RULE_COLOR } }
+        : undefined,
+    })));
+  }
+  children.push(new Paragraph({ style: 'LetterDate', text: formatCoverLetterDate(language) }));
+  splitCoverLetterParagraphs(letter).forEach(paragraph => {
+    const lines = paragraph.split('\n').map(line => line.trim());
+    children.push(new Paragraph({
+      style: 'LetterBody',
+      children: lines.map((line, index) => new TextRun({ text: line, break: index > 0 ? 1 : undefined })),
+    }));
+  });
+
+  return new Document({
+    creator: 'NailedJob',
+    title: name ? `Cover Letter - ${name}` : 'Cover Letter',
+    styles: {
+      default: {
+        document: { run: { font: FONT, size: pt(11), color: BODY_COLOR } },
+      },
+      paragraphStyles: [
+        {
+          id: 'LetterSenderName', name: 'Letter Sender Name', basedOn: 'Normal', next: 'LetterSender', quickFormat: true,
+          run: { size: pt(16), bold: true, color: NAME_COLOR },
+          paragraph: { spacing: { after: 60 } },
+        },
+        {
+          id: 'LetterSender', name: 'Letter Sender', basedOn: 'Normal', next: 'LetterSender', quickFormat: true,
+          run: { size: pt(9), color: SENDER_COLOR },
+          paragraph: { spacing: { after: 20 } },
+        },
+        {
+          id: 'LetterDate', name: 'Letter Date', basedOn: 'Normal', next: 'LetterBody', quickFormat: true,
+          run: { size: pt(10), color: SENDER_COLOR },
+          paragraph: { spacing: { before: 360, after: 360 } },
+        },
+        {
+          id: 'LetterBody', name: 'Letter Body', basedOn: 'Normal', next: 'LetterBody', quickFormat: true,
+          paragraph: { alignment: AlignmentType.LEFT, spacing: { after: 200, line: 300 } },
+        },
+      ],
+    },
+    sections: [{
+      properties: {
+        page: {
+          size: { width: 11906, height: 16838 },
+          margin: { top: PAGE_MARGIN, bottom: PAGE_MARGIN, left: PAGE_MARGIN, right: PAGE_MARGIN },
+        },
+      },
+      children,
+    }],
+  });
+}
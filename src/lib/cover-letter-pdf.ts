@@ -0,0 +1,67 @@
+// src/lib/cover-letter-pdf.ts
+
+import { jsPDF } from 'jspdf';
+import { type ResumeDocument } from '@/lib/resume-document';
+import { formatCoverLetterDate, getCoverLetterSenderLines, splitCoverLetterParagraphs } from '@/lib/cover-letter';
+
+export interface CoverLetterPdfOptions {
+  /** Letter language ("English", "Spanish"), used for the date. */
+  language: string;
+  /** Resume the sender block (name and contact details) is taken from. */
+  resume?: ResumeDocument;
+}
+
+type Rgb = [number, number, number];
+
+// Same palette as the modern resume PDF template (resume-templates.ts).
+const NAME_COLOR: Rgb = [44, 62, 80];
+const SENDER_COLOR: Rgb = [86, 101, 115];
+const BODY_COLOR: Rgb = [52, 73, 94];
+const RULE_COLOR: Rgb = [189, 195, 199];
+
+/** Single-column A4 letter: sender block and rule, date, then the letter paragraphs. */
+export function renderCoverLetterPdf(letter: string, options: CoverLetterPdfOptions): jsPDF {
+  const { language, resume } = options;
+  const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'a4' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const margin = 22;
+  const contentWidth = pageWidth - 2 * margin;
+  let y = margin;
+
+  const writeLines = (text: string, style: { size: number; font?: string; color: Rgb; lineHeight: number }) => {
+    doc.setFont('Helvetica', style.font || 'normal');
+    doc.setFontSize(style.size);
+    doc.setTextColor(...style.color);
+    const lines: string[] = doc.splitTextToSize(text, contentWidth);
+    lines.forEach(line => {
+      if (y + style.lineHeight > pageHeight - margin) {
+        doc.addPage();
+        y = margin;
+      }
+      doc.text(line, margin, y);
+      y += style.lineHeight;
+    });
+  };
+
+  const [name, ...contactLines] = getCoverLetterSenderLines(resume);
+  if (name) {
+    writeLines(name, { size: 16, font: 'bold', color: NAME_COLOR, lineHeight: 6.5 });
+    contactLines.forEach(line => writeLines(line, { size: 9, color: SENDER_COLOR, lineHeight: 4.2 }));
+    y += 2;
+    doc.setDrawColor(...RULE_COLOR);
+    doc.setLineWidth(0.3);
+    doc.line(margin, y, pageWidth - margin, y);
+    y += 8;
+  }
+
+  writeLines(formatCoverLetterDate(language), { size: 10, color: SENDER_COLOR, lineHeight: 5 });
+  y += 6;
+
+  splitCoverLetterParagraphs(letter).forEach(paragraph => {
+    paragraph.split('\n').forEach(line => writeLines(line.trim(), { size: 11, color: BODY_COLOR, lineHeight: 5.5 }));
+    y += 4;
+  });
+
+  return doc;
+}
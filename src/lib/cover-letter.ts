@@ -0,0 +1,36 @@
+// src/lib/cover-letter.ts
+
+import { type ResumeDocument, getResumeLocale } from '@/lib/resume-document';
+
+/** Tone and length options shared by the cover letter flow and the cover letter tab. */
+export const COVER_LETTER_TONES = ['professional', 'enthusiastic', 'friendly', 'confident'] as const;
+export type CoverLetterTone = typeof COVER_LETTER_TONES[number];
+
+export const COVER_LETTER_LENGTHS = ['short', 'medium', 'long'] as const;
+export type CoverLetterLength = typeof COVER_LETTER_LENGTHS[number];
+
+/** Target body length in words, used in the prompt. */
+export const COVER_LETTER_WORD_RANGES: Record<CoverLetterLength, [number, number]> = {
+  short: [150, 220],
+  medium: [250, 350],
+  long: [400, 500],
+};
+
+/** Sender block printed above the letter: the candidate's name followed by their contact details. */
+export function getCoverLetterSenderLines(resume: ResumeDocument | undefined): string[] {
+  if (!resume) return [];
+  const { email, phone, location, website, linkedin } = resume.contact;
+  return [resume.fullName, location, [phone, email].filter(Boolean).join(' · '), website || linkedin]
+    .map(line => line?.trim())
+    .filter((line): line is string => !!line);
+}
+
+export function formatCoverLetterDate(language: string, date = new Date()): string {
+  const locale = getResumeLocale(language) === 'es' ? 'es-ES' : 'en-GB';
+  return date.toLocaleDateString(locale, { day: 'numeric', month: 'long', year: 'numeric' });
+}
+
+/** Paragraphs of the letter body, split on blank lines; single line breaks inside a paragraph are kept. */
+export function splitCoverLetterParagraphs(text: string): string[] {
+  return text.replace(/\r\n/g, '\n').split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+}
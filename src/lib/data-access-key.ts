@@ -0,0 +1,21 @@
+// src/lib/data-access-key.ts
+
+const DATA_ACCESS_KEY_STORAGE_KEY = 'dataAccessKey';
+
+/**
+ * The secret that proves ownership of the data stored about this browser's user. Only its hash is sent to storage
+ * with each record; the "My data" page needs the key itself to export or erase them.
+ */
+export function getOrCreateDataAccessKey(): string {
+  let key = localStorage.getItem(DATA_ACCESS_KEY_STORAGE_KEY);
+  if (!key) {
+    key = crypto.randomUUID().replace(/-/g, '');
+    localStorage.setItem(DATA_ACCESS_KEY_STORAGE_KEY, key);
+  }
+  return key;
+}
+
+/** The key of this browser, if it ever gave consent. */
+export function getStoredDataAccessKey(): string | null {
+  return localStorage.getItem(DATA_ACCESS_KEY_STORAGE_KEY);
+}
@@ -0,0 +1,70 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { withFileLock } from '@/lib/file-lock';
+
+describe('withFileLock', () => {
+  let directory: string;
+  let filePath: string;
+  let lockPath: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'nailedjob-lock-'));
+    filePath = path.join(directory, 'data.jsonl');
+    lockPath = `${filePath}.lock`;
+  });
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('writes a token to the lock file and removes it afterwards', async () => {
+    const owner = await withFileLock(filePath, async () => JSON.parse(await fs.readFile(lockPath, 'utf-8')));
+
+    expect(owner).toMatchObject({ hostname: os.hostname(), pid: process.pid, token: expect.any(String) });
+    await expect(fs.access(lockPath)).rejects.toThrow();
+  });
+
+  it('runs the calls of this process one at a time', async () => {
+    const events: string[] = [];
+    const task = (name: string) => withFileLock(filePath, async () => {
+      events.push(`${name} start`);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      events.push(`${name} end`);
+    });
+
+    await Promise.all([task('a'), task('b')]);
+
+    expect(events).toEqual(['a start', 'a end', 'b start', 'b end']);
+  });
+
+  it('keeps the lock of a long task fresh so it is not taken as stale', async () => {
+    const staleMs = 150;
+    await withFileLock(filePath, async () => {
+      const acquiredAt = (await fs.stat(lockPath)).mtimeMs;
+      await new Promise(resolve => setTimeout(resolve, staleMs * 2));
+      expect((await fs.stat(lockPath)).mtimeMs).toBeGreaterThan(acquiredAt);
+    }, { staleMs });
+  });
+
+  it('does not remove a lock another holder took over', async () => {
+    const takenOver = JSON.stringify({ hostname: os.hostname(), pid: process.pid, token: 'someone-else' });
+
+    await withFileLock(filePath, () => fs.writeFile(lockPath, takenOver));
+
+    expect(await fs.readFile(lockPath, 'utf-8')).toBe(takenOver);
+  });
+
+  it('takes over a lock left by a process that no longer exists without waiting for it to age', async () => {
+    // Process ids are far below this on Linux and macOS.
+    await fs.writeFile(lockPath, JSON.stringify({ hostname: os.hostname(), pid: 2 ** 30, token: 'crashed' }));
+
+    await expect(withFileLock(filePath, async () => 'done', { timeoutMs: 200 })).resolves.toBe('done');
+  });
+
+  it('waits for a lock held by a live process and times out', async () => {
+    await fs.writeFile(lockPath, JSON.stringify({ hostname: os.hostname(), pid: process.pid, token: 'held' }));
+
+    await expect(withFileLock(filePath, async () => 'done', { timeoutMs: 100 })).rejects.toThrow('Timed out');
+  });
+});
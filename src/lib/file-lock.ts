@@ -0,0 +1,162 @@
+// src/lib/file-lock.ts
+
+import { randomUUID } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+
+export interface FileLockOptions {
+  /** How long to keep retrying before giving up. */
+  timeoutMs?: number;
+  /**
+   * A lock file not refreshed for this long is considered left behind by a crashed process and removed. The holder
+   * refreshes it every `heartbeatMs`, so long tasks keep their lock.
+   */
+  staleMs?: number;
+  heartbeatMs?: number;
+  retryDelayMs?: number;
+}
+
+const DEFAULT_LOCK_TIMEOUT_MS = 10_000;
+const DEFAULT_LOCK_STALE_MS = 30_000;
+const DEFAULT_LOCK_RETRY_DELAY_MS = 25;
+
+// Callers in this process queue here first, so the lock file is only contended between processes.
+const processQueues = new Map<string, Promise<unknown>>();
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/** Contents of a lock file: the holder's host and process, and a token unique to this acquisition. */
+interface LockOwner {
+  hostname: string;
+  pid: number;
+  token: string;
+}
+
+const readLockOwner = async (lockPath: string): Promise<LockOwner | null> => {
+  try {
+    const owner = JSON.parse(await fs.readFile(lockPath, 'utf-8'));
+    return typeof owner?.token === 'string' ? owner : null;
+  } catch {
+    // Missing, or written by an older version or torn by a crash: only its age tells whether it is stale.
+    return null;
+  }
+};
+
+/** True when the lock was taken by a process of this host that no longer exists. */
+const isOwnerGone = (owner: LockOwner | null): boolean => {
+  if (!owner || owner.hostname !== os.hostname()) return false;
+  try {
+    process.kill(owner.pid, 0);
+    return false;
+  } catch (error: any) {
+    return error.code === 'ESRCH';
+  }
+};
+
+async function acquireLockFile(lockPath: string, options: Required<FileLockOptions>): Promise<LockOwner> {
+  const owner: LockOwner = { hostname: os.hostname(), pid: process.pid, token: randomUUID() };
+  const deadline = Date.now() + options.timeoutMs;
+  for (;;) {
+    try {
+      const handle = await fs.open(lockPath, 'wx');
+      try {
+        await handle.writeFile(JSON.stringify(owner));
+      } finally {
+        await handle.close();
+      }
+      return owner;
+    } catch (error: any) {
+      if (error.code !== 'EEXIST') throw error;
+    }
+
+    const stat = await fs.stat(lockPath).catch(() => null);
+    const holder = stat ? await readLockOwner(lockPath) : null;
+    if (stat && (Date.now() - stat.mtimeMs > options.staleMs || isOwnerGone(holder))) {
+      // Only remove the lock that was judged stale, not one another process took in the meantime.
+      if ((await readLockOwner(lockPath))?.token === holder?.token) {
+        console.warn(`Removing stale lock file ${lockPath}.`);
+        await fs.rm(lockPath, { force: true });
+      }
+      continue;
+    }
+    if (Date.now() > deadline) {
+      throw new Error(`Timed out waiting for the lock on ${lockPath}.`);
+    }
+    await sleep(options.retryDelayMs);
+  }
+}
+
+/** Refreshes the lock file's modification time while the task runs, so other processes do not take it as stale. */
+function startHeartbeat(lockPath: string, owner: LockOwner, intervalMs: number): () => void {
+  const timer = setInterval(async () => {
+    if ((await readLockOwner(lockPath))?.token !== owner.token) {
+      console.warn(`Lost the lock on ${lockPath} while holding it.`);
+      clearInterval(timer);
+      return;
+    }
+    const now = new Date();
+    await fs.utimes(lockPath, now, now).catch(() => {});
+  }, intervalMs);
+  timer.unref?.();
+  return () => clearInterval(timer);
+}
+
+async function releaseLockFile(lockPath: string, owner: LockOwner): Promise<void> {
+  if ((await readLockOwner(lockPath))?.token === owner.token) {
+    await fs.rm(lockPath, { force: true });
+  } else {
+    console.warn(`The lock on ${lockPath} was taken over by another process; leaving it in place.`);
+  }
+}
+
+/**
+ * Runs `task` while holding an exclusive lock on `filePath`: calls in this process run one at a time,
+ * and a `<filePath>.lock` file keeps other processes (e.g. the Genkit dev server) out. The lock file holds a
+ * token of this acquisition, so only its holder removes it.
+ */
+export async function withFileLock<T>(filePath: string, task: () => Promise<T>, options: FileLockOptions = {}): Promise<T> {
+  const staleMs = options.staleMs ?? DEFAULT_LOCK_STALE_MS;
+  const resolved: Required<FileLockOptions> = {
+    timeoutMs: options.timeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS,
+    staleMs,
+    heartbeatMs: options.heartbeatMs ?? Math.max(1, Math.floor(staleMs / 3)),
+    retryDelayMs: options.retryDelayMs ?? DEFAULT_LOCK_RETRY_DELAY_MS,
+  };
+  const lockPath = `${filePath}.lock`;
+
+  const previous = processQueues.get(filePath) || Promise.resolve();
+  const run = previous.catch(() => {}).then(async () => {
+    const owner = await acquireLockFile(lockPath, resolved);
+    const stopHeartbeat = startHeartbeat(lockPath, owner, resolved.heartbeatMs);
+    try {
+      return await task();
+    } finally {
+      stopHeartbeat();
+      await releaseLockFile(lockPath, owner);
+    }
+  });
+  processQueues.set(filePath, run);
+  try {
+    return await run;
+  } finally {
+    if (processQueues.get(filePath) === run) processQueues.delete(filePath);
+  }
+}
+
+/** Writes to a temporary file next to `filePath` and renames it over the target, so readers never see a partial file. */
+export async function writeFileAtomic(filePath: string, content: string): Promise<void> {
+  const tempPath = `${filePath}.${randomUUID()}.tmp`;
+  const handle = await fs.open(tempPath, 'w');
+  try {
+    await handle.writeFile(content, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+  try {
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+}
@@ -0,0 +1,66 @@
+// src/lib/job-search-countries.ts
+
+/** Work arrangement filter shared by the job search flow, the portal URL builders and the providers. */
+export const WORK_MODES = ['any', 'remote', 'hybrid', 'onsite'] as const;
+export type WorkMode = typeof WORK_MODES[number];
+
+export interface JobSearchCountry {
+  /** ISO 3166-1 alpha-2 code. */
+  code: string;
+  /** English name, used in prompts and portal search URLs. */
+  name: string;
+  /** Other spellings used by job boards in location fields (native names, abbreviations). */
+  aliases: string[];
+  /** Cities used when simulating postings because no job board is configured. */
+  majorCities: string[];
+  indeedDomain?: string;
+  infojobsDomain?: string;
+  stepstoneDomain?: string;
+  computrabajoDomain?: string;
+  /** Country code in the Adzuna API path, when Adzuna covers the country. */
+  adzunaCountry?: string;
+}
+
+export const JOB_SEARCH_COUNTRIES: JobSearchCountry[] = [
+  // European Union
+  { code: 'ES', name: 'Spain', aliases: ['España', 'Espana'], majorCities: ['Madrid', 'Barcelona', 'Valencia', 'Sevilla', 'Zaragoza', 'Malaga', 'Bilbao'], indeedDomain: 'es.indeed.com', infojobsDomain: 'www.infojobs.net', adzunaCountry: 'es' },
+  { code: 'PT', name: 'Portugal', aliases: [], majorCities: ['Lisboa', 'Porto', 'Braga', 'Coimbra'], indeedDomain: 'pt.indeed.com' },
+  { code: 'FR', name: 'France', aliases: [], majorCities: ['Paris', 'Lyon', 'Marseille', 'Toulouse', 'Bordeaux', 'Lille'], indeedDomain: 'fr.indeed.com', adzunaCountry: 'fr' },
+  { code: 'DE', name: 'Germany', aliases: ['Deutschland'], majorCities: ['Berlin', 'München', 'Hamburg', 'Frankfurt', 'Köln', 'Stuttgart'], indeedDomain: 'de.indeed.com', stepstoneDomain: 'www.stepstone.de', adzunaCountry: 'de' },
+  { code: 'IT', name: 'Italy', aliases: ['Italia'], majorCities: ['Milano', 'Roma', 'Torino', 'Bologna', 'Napoli'], indeedDomain: 'it.indeed.com', adzunaCountry: 'it' },
+  { code: 'NL', name: 'Netherlands', aliases: ['Nederland', 'The Netherlands'], majorCities: ['Amsterdam', 'Rotterdam', 'Utrecht', 'Eindhoven', 'Den Haag'], indeedDomain: 'nl.indeed.com', stepstoneDomain: 'www.stepstone.nl', adzunaCountry: 'nl' },
+  { code: 'BE', name: 'Belgium', aliases: ['België', 'Belgique'], majorCities: ['Brussels', 'Antwerpen', 'Gent', 'Liège'], indeedDomain: 'be.indeed.com', stepstoneDomain: 'www.stepstone.be', adzunaCountry: 'be' },
+  { code: 'IE', name: 'Ireland', aliases: ['Éire'], majorCities: ['Dublin', 'Cork', 'Galway', 'Limerick'], indeedDomain: 'ie.indeed.com' },
+  { code: 'AT', name: 'Austria', aliases: ['Österreich'], majorCities: ['Wien', 'Graz', 'Linz', 'Salzburg'], indeedDomain: 'at.indeed.com', stepstoneDomain: 'www.stepstone.at', adzunaCountry: 'at' },
+  { code: 'PL', name: 'Poland', aliases: ['Polska'], majorCities: ['Warszawa', 'Kraków', 'Wrocław', 'Gdańsk', 'Poznań'], indeedDomain: 'pl.indeed.com', adzunaCountry: 'pl' },
+  // Latin America
+  { code: 'MX', name: 'Mexico', aliases: ['México'], majorCities: ['Ciudad de México', 'Guadalajara', 'Monterrey', 'Puebla', 'Querétaro'], indeedDomain: 'mx.indeed.com', computrabajoDomain: 'mx.computrabajo.com', adzunaCountry: 'mx' },
+  { code: 'AR', name: 'Argentina', aliases: [], majorCities: ['Buenos Aires', 'Córdoba', 'Rosario', 'Mendoza'], indeedDomain: 'ar.indeed.com', computrabajoDomain: 'ar.computrabajo.com' },
+  { code: 'CO', name: 'Colombia', aliases: [], majorCities: ['Bogotá', 'Medellín', 'Cali', 'Barranquilla'], indeedDomain: 'co.indeed.com', computrabajoDomain: 'co.computrabajo.com' },
+  { code: 'CL', name: 'Chile', aliases: [], majorCities: ['Santiago', 'Valparaíso', 'Concepción'], indeedDomain: 'cl.indeed.com', computrabajoDomain: 'cl.computrabajo.com' },
+  { code: 'PE', name: 'Peru', aliases: ['Perú'], majorCities: ['Lima', 'Arequipa', 'Trujillo'], indeedDomain: 'pe.indeed.com', computrabajoDomain: 'pe.computrabajo.com' },
+  { code: 'UY', name: 'Uruguay', aliases: [], majorCities: ['Montevideo', 'Punta del Este'], computrabajoDomain: 'uy.computrabajo.com' },
+  { code: 'BR', name: 'Brazil', aliases: ['Brasil'], majorCities: ['São Paulo', 'Rio de Janeiro', 'Belo Horizonte', 'Curitiba', 'Porto Alegre'], indeedDomain: 'br.indeed.com', adzunaCountry: 'br' },
+];
+
+export const DEFAULT_JOB_SEARCH_COUNTRY = 'ES';
+
+/** Looks a country up by ISO code, English name or alias (case-insensitive). */
+export function findJobSearchCountry(value: string | undefined): JobSearchCountry | undefined {
+  if (!value) return undefined;
+  const needle = value.trim().toLowerCase();
+  return JOB_SEARCH_COUNTRIES.find(country =>
+    country.code.toLowerCase() === needle ||
+    country.name.toLowerCase() === needle ||
+    country.aliases.some(alias => alias.toLowerCase() === needle)
+  );
+}
+
+/** Localized country name for the UI, falling back to the English name. */
+export function getCountryDisplayName(code: string, locale: string): string {
+  try {
+    return new Intl.DisplayNames([locale], { type: 'region' }).of(code) || findJobSearchCountry(code)?.name || code;
+  } catch {
+    return findJobSearchCountry(code)?.name || code;
+  }
+}
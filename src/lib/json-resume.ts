@@ -0,0 +1,311 @@
+// src/lib/json-resume.ts
+
+import { z } from 'zod';
+import {
+  type ResumeDocument,
+  createEmptyResumeDocument,
+  getResumeLocale,
+  renderResumeText,
+} from '@/lib/resume-document';
+import { getTranslation } from '@/lib/translations';
+
+/**
+ * JSON Resume v1.0.0 (https://jsonresume.org/schema). Like the upstream schema, unknown properties are allowed;
+ * only the fields this app reads or writes are typed.
+ */
+export const JSON_RESUME_SCHEMA_URL = 'https://raw.githubusercontent.com/jsonresume/resume-schema/v1.0.0/schema.json';
+
+const ISO_8601_DATE = /^([1-2][0-9]{3}-[0-1][0-9]-[0-3][0-9]|[1-2][0-9]{3}-[0-1][0-9]|[1-2][0-9]{3})$/;
+const isoDate = z.string().regex(ISO_8601_DATE, 'Dates must use the YYYY, YYYY-MM or YYYY-MM-DD format.');
+const uri = z.string().url();
+
+const LocationSchema = z.object({
+  address: z.string().optional(),
+  postalCode: z.string().optional(),
+  city: z.string().optional(),
+  countryCode: z.string().optional(),
+  region: z.string().optional(),
+}).passthrough();
+
+const ProfileSchema = z.object({
+  network: z.string().optional(),
+  username: z.string().optional(),
+  url: uri.optional(),
+}).passthrough();
+
+const WorkSchema = z.object({
+  name: z.string().optional(),
+  location: z.string().optional(),
+  description: z.string().optional(),
+  position: z.string().optional(),
+  url: uri.optional(),
+  startDate: isoDate.optional(),
+  endDate: isoDate.optional(),
+  summary: z.string().optional(),
+  highlights: z.array(z.string()).optional(),
+}).passthrough();
+
+const VolunteerSchema = z.object({
+  organization: z.string().optional(),
+  position: z.string().optional(),
+  url: uri.optional(),
+  startDate: isoDate.optional(),
+  endDate: isoDate.optional(),
+  summary: z.string().optional(),
+  highlights: z.array(z.string()).optional(),
+}).passthrough();
+
+const EducationSchema = z.object({
+  institution: z.string().optional(),
+  url: uri.optional(),
+  area: z.string().optional(),
+  studyType: z.string().optional(),
+  startDate: isoDate.optional(),
+  endDate: isoDate.optional(),
+  score: z.string().optional(),
+  courses: z.array(z.string()).optional(),
+}).passthrough();
+
+const NamedEntrySchema = z.object({
+  name: z.string().optional(),
+  title: z.string().optional(),
+  date: isoDate.optional(),
+  issuer: z.string().optional(),
+  awarder: z.string().optional(),
+  publisher: z.string().optional(),
+  releaseDate: isoDate.optional(),
+  url: uri.optional(),
+  summary: z.string().optional(),
+  description: z.string().optional(),
+  highlights: z.array(z.string()).optional(),
+  startDate: isoDate.optional(),
+  endDate: isoDate.optional(),
+}).passthrough();
+
+export const JsonResumeSchema = z.object({
+  $schema: z.string().optional(),
+  basics: z.object({
+    name: z.string().optional(),
+    label: z.string().optional(),
+    image: z.string().optional(),
+    email: z.string().email().optional(),
+    phone: z.string().optional(),
+    url: uri.optional(),
+    summary: z.string().optional(),
+    location: LocationSchema.optional(),
+    profiles: z.array(ProfileSchema).optional(),
+  }).passthrough().optional(),
+  work: z.array(WorkSchema).optional(),
+  volunteer: z.array(VolunteerSchema).optional(),
+  education: z.array(EducationSchema).optional(),
+  awards: z.array(NamedEntrySchema).optional(),
+  certificates: z.array(NamedEntrySchema).optional(),
+  publications: z.array(NamedEntrySchema).optional(),
+  skills: z.array(z.object({
+    name: z.string().optional(),
+    level: z.string().optional(),
+    keywords: z.array(z.string()).optional(),
+  }).passthrough()).optional(),
+  languages: z.array(z.object({
+    language: z.string().optional(),
+    fluency: z.string().optional(),
+  }).passthrough()).optional(),
+  interests: z.array(z.object({
+    name: z.string().optional(),
+    keywords: z.array(z.string()).optional(),
+  }).passthrough()).optional(),
+  references: z.array(z.object({
+    name: z.string().optional(),
+    reference: z.string().optional(),
+  }).passthrough()).optional(),
+  projects: z.array(NamedEntrySchema).optional(),
+  meta: z.object({
+    canonical: uri.optional(),
+    version: z.string().optional(),
+    lastModified: z.string().optional(),
+  }).passthrough().optional(),
+}).passthrough();
+export type JsonResume = z.infer<typeof JsonResumeSchema>;
+
+const formatIssues = (error: z.ZodError) => error.issues
+  .slice(0, 5)
+  .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+  .join('; ');
+
+/** Parses and validates a JSON Resume file. Throws an Error listing the first schema violations. */
+export function parseJsonResume(jsonText: string): JsonResume {
+  let data: unknown;
+  try {
+    data = JSON.parse(jsonText);
+  } catch (error: any) {
+    throw new Error(`The file is not valid JSON: ${error.message}`);
+  }
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error('A JSON Resume must be a JSON object.');
+  }
+  const result = JsonResumeSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(`The file does not follow the JSON Resume schema: ${formatIssues(result.error)}`);
+  }
+  if (!result.data.basics?.name && !result.data.work?.length && !result.data.education?.length) {
+    throw new Error('The JSON Resume has no name, work or education entries.');
+  }
+  return result.data;
+}
+
+const findProfile = (profiles: z.infer<typeof ProfileSchema>[] | undefined, network: RegExp) =>
+  profiles?.find(profile => network.test(profile.network || '') || network.test(profile.url || ''));
+
+export function jsonResumeToResumeDocument(json: JsonResume): ResumeDocument {
+  const resume = createEmptyResumeDocument();
+  const basics = json.basics || {};
+  const location = basics.location;
+  const linkedin = findProfile(basics.profiles, /linkedin/i);
+  const github = findProfile(basics.profiles, /github/i);
+  const otherProfile = basics.profiles?.find(profile => profile !== linkedin && profile !== github && profile.url);
+
+  resume.fullName = basics.name || '';
+  resume.headline = basics.label || undefined;
+  resume.contact = {
+    email: basics.email,
+    phone: basics.phone,
+    location: location ? [location.address, location.city, location.region, location.countryCode].filter(Boolean).join(', ') || undefined : undefined,
+    website: basics.url || otherProfile?.url,
+    linkedin: linkedin?.url || (linkedin?.username ? `https://www.linkedin.com/in/${linkedin.username}` : undefined),
+    github: github?.url || (github?.username ? `https://github.com/${github.username}` : undefined),
+  };
+  resume.profile = basics.summary || '';
+  resume.experience = [
+    ...(json.work || []).map(job => ({
+      position: job.position || '',
+      company: job.name,
+      location: job.location,
+      startDate: job.startDate,
+      endDate: job.endDate,
+      description: job.summary || job.description,
+      highlights: job.highlights,
+    })),
+    ...(json.volunteer || []).map(role => ({
+      position: role.position || '',
+      company: role.organization,
+      startDate: role.startDate,
+      endDate: role.endDate,
+      description: role.summary,
+      highlights: role.highlights,
+    })),
+  ];
+  resume.education = (json.education || []).map(entry => ({
+    degree: [entry.studyType, entry.area].filter(Boolean).join(', '),
+    institution: entry.institution,
+    startDate: entry.startDate,
+    endDate: entry.endDate,
+    description: [entry.score, entry.courses?.join(', ')].filter(Boolean).join('\n') || undefined,
+  }));
+  resume.skills = (json.skills || []).map(skill => ({
+    category: skill.name,
+    items: skill.keywords?.length ? skill.keywords : [skill.level].filter((level): level is string => !!level),
+  }));
+  resume.languages = (json.languages || [])
+    .filter(entry => !!entry.language)
+    .map(entry => ({ language: entry.language!, proficiency: entry.fluency }));
+  resume.interests = (json.interests || []).map(interest => interest.name).filter((name): name is string => !!name);
+  return resume;
+}
+
+/**
+ * Text handed to the flows as `resumeText`: the mapped resume document plus the JSON Resume sections
+ * the document has no place for (projects, certificates, awards, publications).
+ */
+export function jsonResumeToResumeText(json: JsonResume, language: string): string {
+  const locale = getResumeLocale(language);
+  const extraSections: [string, NonNullable<JsonResume['projects']>][] = [
+    ['sectionTitle_Projects', json.projects || []],
+    ['sectionTitle_Certificates', json.certificates || []],
+    ['sectionTitle_Awards', json.awards || []],
+    ['sectionTitle_Publications', json.publications || []],
+  ];
+  const extraText = extraSections
+    .filter(([, entries]) => entries.length > 0)
+    .map(([titleKey, entries]) => `${getTranslation(locale, titleKey)}:\n` + entries.map(entry => [
+      [entry.name || entry.title, entry.issuer || entry.awarder || entry.publisher].filter(Boolean).join(' | '),
+      entry.date || entry.releaseDate || [entry.startDate, entry.endDate].filter(Boolean).join(' – '),
+      entry.summary || entry.description,
+      ...(entry.highlights || []).map(highlight => `- ${highlight}`),
+    ].filter(Boolean).join('\n')).join('\n\n'));
+
+  return [renderResumeText(jsonResumeToResumeDocument(json), language), ...extraText].join('\n\n');
+}
+
+const MONTHS: Record<string, string> = {
+  jan: '01', ene: '01', feb: '02', mar: '03', apr: '04', abr: '04', may: '05', jun: '06',
+  jul: '07', aug: '08', ago: '08', sep: '09', oct: '10', nov: '11', dec: '12', dic: '12',
+};
+
+/** Best-effort conversion of resume dates ("2020-03", "03/2020", "Mar 2020") to ISO 8601; undefined for "Present" or unknown formats. */
+export function toJsonResumeDate(value: string | undefined): string | undefined {
+  const text = value?.trim();
+  if (!text) return undefined;
+  if (ISO_8601_DATE.test(text)) return text;
+  const numeric = text.match(/^(\d{1,2})[/.-](\d{4})$/);
+  if (numeric && Number(numeric[1]) >= 1 && Number(numeric[1]) <= 12) return `${numeric[2]}-${numeric[1].padStart(2, '0')}`;
+  const named = text.toLowerCase().match(/^([a-zé]{3})[a-zé]*\.?\s+(?:de\s+)?(\d{4})$/);
+  if (named && MONTHS[named[1]]) return `${named[2]}-${MONTHS[named[1]]}`;
+  const year = text.match(/^\d{4}$/);
+  return year ? text : undefined;
+}
+
+const toUrl = (value: string | undefined): string | undefined => {
+  if (!value) return undefined;
+  const url = /^https?:\/\//i.test(value) ? value : `https://${value}`;
+  return uri.safeParse(url).success ? url : undefined;
+};
+
+/** Converts a resume document into JSON Resume and validates it against the schema. Throws if the result is invalid. */
+export function resumeDocumentToJsonResume(resume: ResumeDocument): JsonResume {
+  const { contact } = resume;
+  const profiles = [
+    contact.linkedin && { network: 'LinkedIn', url: toUrl(contact.linkedin) },
+    contact.github && { network: 'GitHub', url: toUrl(contact.github) },
+  ].filter((profile): profile is { network: string; url: string | undefined } => !!profile);
+
+  const jsonResume: JsonResume = {
+    $schema: JSON_RESUME_SCHEMA_URL,
+    basics: {
+      name: resume.fullName,
+      label: resume.headline,
+      email: contact.email && z.string().email().safeParse(contact.email).success ? contact.email : undefined,
+      phone: contact.phone,
+      url: toUrl(contact.website),
+      summary: resume.profile || undefined,
+      location: contact.location ? { address: contact.location } : undefined,
+      profiles,
+    },
+    work: resume.experience.map(job => ({
+      name: job.company,
+      position: job.position,
+      location: job.location,
+      startDate: toJsonResumeDate(job.startDate),
+      endDate: toJsonResumeDate(job.endDate),
+      summary: job.description,
+      highlights: job.highlights || [],
+    })),
+    education: resume.education.map(entry => ({
+      institution: entry.institution,
+      studyType: entry.degree,
+      startDate: toJsonResumeDate(entry.startDate),
+      endDate: toJsonResumeDate(entry.endDate),
+    })),
+    skills: resume.skills.map(group => ({ name: group.category, keywords: group.items })),
+    languages: resume.languages.map(entry => ({ language: entry.language, fluency: entry.proficiency })),
+    interests: resume.interests.map(name => ({ name })),
+    meta: { version: 'v1.0.0', lastModified: new Date().toISOString() },
+  };
+
+  // Drop undefined values so the exported file only contains fields that have content.
+  const cleaned = JSON.parse(JSON.stringify(jsonResume));
+  const result = JsonResumeSchema.safeParse(cleaned);
+  if (!result.success) {
+    throw new Error(`Could not build a valid JSON Resume: ${formatIssues(result.error)}`);
+  }
+  return result.data;
+}
@@ -0,0 +1,143 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createLinkValidator } from '@/lib/link-validation';
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  range?: string;
+}
+
+describe('createLinkValidator', () => {
+  const requests: RecordedRequest[] = [];
+  const pendingTimers = new Set<NodeJS.Timeout>();
+  let server: http.Server;
+  let baseUrl: string;
+
+  const later = (ms: number, callback: () => void) => {
+    const timer = setTimeout(() => {
+      pendingTimers.delete(timer);
+      callback();
+    }, ms);
+    pendingTimers.add(timer);
+  };
+
+  // Paths simulate the hosts job portals link to: slow ones, redirecting ones and ones that refuse HEAD.
+  const handle = (req: http.IncomingMessage, res: http.ServerResponse) => {
+    const path = req.url || '/';
+    requests.push({ method: req.method!, path, range: req.headers.range });
+    const redirect = path.match(/^\/redirect\/(\d+)$/);
+    if (redirect) {
+      const hops = Number(redirect[1]);
+      res.writeHead(302, { Location: hops > 1 ? `/redirect/${hops - 1}` : '/ok' }).end();
+    } else if (path === '/ok') {
+      res.writeHead(200).end('ok');
+    } else if (path === '/moved-away') {
+      res.writeHead(301, { Location: '/missing' }).end();
+    } else if (path === '/slow') {
+      later(1000, () => res.writeHead(200).end());
+    } else if (path === '/slow-ok') {
+      later(50, () => res.writeHead(200).end());
+    } else if (path === '/head-405' || path === '/head-501') {
+      if (req.method === 'HEAD') res.writeHead(path === '/head-405' ? 405 : 501).end();
+      else res.writeHead(req.headers.range ? 206 : 200).end('o');
+    } else {
+      res.writeHead(404).end();
+    }
+  };
+
+  beforeAll(async () => {
+    server = http.createServer(handle);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    pendingTimers.forEach(clearTimeout);
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests.length = 0;
+  });
+
+  it('reports a host that does not answer in time as unverified', async () => {
+    const validator = createLinkValidator({ timeoutMs: 100 });
+
+    expect(await validator.validate(`${baseUrl}/slow`)).toEqual({ status: 'unverified', method: 'HEAD' });
+  });
+
+  it('follows a redirect chain to the final page', async () => {
+    const validator = createLinkValidator();
+
+    expect(await validator.validate(`${baseUrl}/redirect/3`)).toEqual({
+      status: 'valid',
+      httpStatus: 200,
+      redirectedTo: `${baseUrl}/ok`,
+      method: 'HEAD',
+    });
+    expect(requests.map(request => request.path)).toEqual(['/redirect/3', '/redirect/2', '/redirect/1', '/ok']);
+  });
+
+  it('reports a link that redirects to a missing page as invalid', async () => {
+    const validator = createLinkValidator();
+
+    expect(await validator.validate(`${baseUrl}/moved-away`)).toEqual({
+      status: 'invalid',
+      httpStatus: 404,
+      redirectedTo: `${baseUrl}/missing`,
+      method: 'HEAD',
+    });
+  });
+
+  it.each(['/head-405', '/head-501'])('retries a host that refuses HEAD (%s) with a ranged GET', async path => {
+    const validator = createLinkValidator();
+
+    expect(await validator.validate(`${baseUrl}${path}`)).toEqual({ status: 'valid', httpStatus: 206, method: 'GET' });
+    expect(requests).toEqual([
+      { method: 'HEAD', path },
+      { method: 'GET', path, range: 'bytes=0-0' },
+    ]);
+  });
+
+  it('reuses results until they expire', async () => {
+    let now = 0;
+    const validator = createLinkValidator({ cacheTtlMs: 1000, now: () => now });
+
+    await validator.validate(`${baseUrl}/ok`);
+    now = 999;
+    expect(await validator.validate(`${baseUrl}/ok`)).toMatchObject({ status: 'valid' });
+    expect(requests).toHaveLength(1);
+
+    now = 1000;
+    await validator.validate(`${baseUrl}/ok`);
+    expect(requests).toHaveLength(2);
+  });
+
+  it('never caches unverified results', async () => {
+    const validator = createLinkValidator({ timeoutMs: 50 });
+
+    await validator.validate(`${baseUrl}/slow`);
+    await validator.validate(`${baseUrl}/slow`);
+
+    expect(requests.filter(request => request.method === 'HEAD')).toHaveLength(2);
+  });
+
+  it('sends one request for concurrent checks of the same URL', async () => {
+    const validator = createLinkValidator();
+    const url = `${baseUrl}/slow-ok`;
+
+    const [first, second, all] = await Promise.all([
+      validator.validate(url),
+      validator.validate(url),
+      validator.validateAll([url, url, `${baseUrl}/ok`]),
+    ]);
+
+    expect(first).toEqual({ status: 'valid', httpStatus: 200, method: 'HEAD' });
+    expect(second).toBe(first);
+    expect([...all.keys()]).toEqual([url, `${baseUrl}/ok`]);
+    expect(requests.filter(request => request.path === '/slow-ok')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,161 @@
+// src/lib/link-validation.ts
+
+import { mapWithConcurrency } from '@/lib/concurrency';
+
+export type LinkCheckStatus = 'valid' | 'invalid' | 'unverified';
+
+export interface LinkCheckResult {
+  status: LinkCheckStatus;
+  /** Last HTTP status received, if the host answered. */
+  httpStatus?: number;
+  /** Final URL when the link redirected somewhere else. */
+  redirectedTo?: string;
+  /** HTTP method that produced the result. */
+  method?: 'HEAD' | 'GET';
+}
+
+export interface LinkValidatorOptions {
+  /** Per-request timeout. */
+  timeoutMs?: number;
+  /** Maximum number of links checked at the same time. */
+  concurrency?: number;
+  /** How long a valid/invalid result is reused. Unverified results are never cached. */
+  cacheTtlMs?: number;
+  fetchImpl?: typeof fetch;
+  now?: () => number;
+}
+
+export interface LinkValidator {
+  validate(url: string): Promise<LinkCheckResult>;
+  /** Validates every URL with bounded concurrency; the map is keyed by the input URL. */
+  validateAll(urls: string[]): Promise<Map<string, LinkCheckResult>>;
+  clearCache(): void;
+}
+
+export const DEFAULT_LINK_TIMEOUT_MS = 7000;
+export const DEFAULT_LINK_CONCURRENCY = 5;
+export const DEFAULT_LINK_CACHE_TTL_MS = 30 * 60 * 1000;
+
+// Status codes some job portals answer to HEAD even though the page exists.
+const HEAD_REJECTED_STATUSES = new Set([403, 405, 501]);
+
+const REQUEST_HEADERS = {
+  'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,image/apng,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.9',
+};
+
+export function createLinkValidator(options: LinkValidatorOptions = {}): LinkValidator {
+  const timeoutMs = options.timeoutMs ?? DEFAULT_LINK_TIMEOUT_MS;
+  const concurrency = options.concurrency ?? DEFAULT_LINK_CONCURRENCY;
+  const cacheTtlMs = options.cacheTtlMs ?? DEFAULT_LINK_CACHE_TTL_MS;
+  const fetchImpl = options.fetchImpl ?? fetch;
+  const now = options.now ?? Date.now;
+
+  const cache = new Map<string, { result: LinkCheckResult; expiresAt: number }>();
+  // Concurrent searches asking for the same URL share one request.
+  const inFlight = new Map<string, Promise<LinkCheckResult>>();
+
+  const request = async (url: string, method: 'HEAD' | 'GET'): Promise<Response> => {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+    try {
+      const response = await fetchImpl(url, {
+        method,
+        headers: method === 'GET' ? { ...REQUEST_HEADERS, Range: 'bytes=0-0' } : REQUEST_HEADERS,
+        signal: controller.signal,
+        redirect: 'follow',
+      });
+      // Only the status matters; do not download the page.
+      await response.body?.cancel().catch(() => undefined);
+      return response;
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  };
+
+  const toResult = (url: string, response: Response, method: 'HEAD' | 'GET'): LinkCheckResult => ({
+    // A ranged GET answers 206 Partial Content, or 200 when the server ignores Range.
+    status: response.ok ? 'valid' : 'invalid',
+    httpStatus: response.status,
+    redirectedTo: response.redirected && response.url && response.url !== url ? response.url : undefined,
+    method,
+  });
+
+  const check = async (url: string): Promise<LinkCheckResult> => {
+    try {
+      const headResponse = await request(url, 'HEAD');
+      if (!HEAD_REJECTED_STATUSES.has(headResponse.status)) {
+        return toResult(url, headResponse, 'HEAD');
+      }
+      console.log(`[linkValidator] HEAD rejected with ${headResponse.status}, retrying with a ranged GET: ${url}`);
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        console.warn(`[linkValidator] Timeout on HEAD ${url}`);
+        return { status: 'unverified', method: 'HEAD' };
+      }
+      // Some hosts reset HEAD connections outright; give GET a chance too.
+      console.warn(`[linkValidator] HEAD failed for ${url}, retrying with a ranged GET:`, error?.message);
+    }
+
+    try {
+      return toResult(url, await request(url, 'GET'), 'GET');
+    } catch (error: any) {
+      console.warn(`[linkValidator] ${error?.name === 'AbortError' ? 'Timeout' : 'Error'} on GET ${url}:`, error?.message);
+      return { status: 'unverified', method: 'GET' };
+    }
+  };
+
+  const validate = async (url: string): Promise<LinkCheckResult> => {
+    const cached = cache.get(url);
+    if (cached && cached.expiresAt > now()) {
+      return cached.result;
+    }
+    cache.delete(url);
+
+    const pending = inFlight.get(url);
+    if (pending) return pending;
+
+    const promise = check(url)
+      .then(result => {
+        if (result.status !== 'unverified' && cacheTtlMs > 0) {
+          cache.set(url, { result, expiresAt: now() + cacheTtlMs });
+        }
+        return result;
+      })
+      .finally(() => inFlight.delete(url));
+    inFlight.set(url, promise);
+    return promise;
+  };
+
+  return {
+    validate,
+    async validateAll(urls: string[]) {
+      const uniqueUrls = Array.from(new Set(urls));
+      const results = await mapWithConcurrency(uniqueUrls, concurrency, url => validate(url));
+      return new Map(uniqueUrls.map((url, index) => [url, results[index]]));
+    },
+    clearCache() {
+      cache.clear();
+    },
+  };
+}
+
+let sharedValidator: LinkValidator | undefined;
+
+/**
+ * Process-wide validator configured from LINK_VALIDATION_TIMEOUT_MS, LINK_VALIDATION_CONCURRENCY
+ * and LINK_VALIDATION_CACHE_TTL_MS, so repeated searches reuse its cache.
+ */
+export function getLinkValidator(env: NodeJS.ProcessEnv = process.env): LinkValidator {
+  if (!sharedValidator) {
+    // A TTL of 0 disables the cache, so it cannot use the `|| undefined` fallback.
+    const cacheTtlMs = Number(env.LINK_VALIDATION_CACHE_TTL_MS);
+    sharedValidator = createLinkValidator({
+      timeoutMs: Number(env.LINK_VALIDATION_TIMEOUT_MS) || undefined,
+      concurrency: Number(env.LINK_VALIDATION_CONCURRENCY) || undefined,
+      cacheTtlMs: env.LINK_VALIDATION_CACHE_TTL_MS && Number.isFinite(cacheTtlMs) ? cacheTtlMs : undefined,
+    });
+  }
+  return sharedValidator;
+}
@@ -0,0 +1,55 @@
+// src/lib/mongodb-client.ts
+
+import { MongoClient, ServerApiVersion } from 'mongodb';
+
+export interface MongoClientProvider {
+  getClient(): Promise<MongoClient>;
+  close(): Promise<void>;
+}
+
+/** Connects lazily and reuses one client, reconnecting when a ping on the cached client fails. */
+export function createMongoClientProvider(uri: string): MongoClientProvider {
+  let client: MongoClient | null = null;
+
+  const getClient = async (): Promise<MongoClient> => {
+    if (client) {
+      try {
+        await client.db('admin').command({ ping: 1 });
+        return client;
+      } catch (pingError) {
+        console.warn("MongoDB ping failed on existing client, attempting to reconnect.", pingError);
+        await client.close().catch(closeError => console.error("Error closing potentially broken MongoDB client:", closeError));
+        client = null;
+      }
+    }
+
+    const newClient = new MongoClient(uri, {
+      serverApi: {
+        version: ServerApiVersion.v1,
+        strict: true,
+        deprecationErrors: true,
+      },
+      tls: true,
+    });
+    try {
+      await newClient.connect();
+      await newClient.db('admin').command({ ping: 1 });
+      console.log("Successfully connected to MongoDB.");
+    } catch (error) {
+      await newClient.close().catch(closeError => console.error("Error closing MongoDB client after connection failure:", closeError));
+      throw error;
+    }
+    client = newClient;
+    return client;
+  };
+
+  return {
+    getClient,
+    async close() {
+      if (client) {
+        await client.close();
+        client = null;
+      }
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { findUnsupportedFigures, getPendingResumeClaims, withUnsupportedFigures } from '@/lib/resume-claims';
+
+const ORIGINAL = ['Ada Lovelace', '', 'WORK EXPERIENCE:', 'Engineer at Analytical Ltd (2019 - 2023)', '- Cut build times by 40%'].join('\n');
+const TAILORED = ['Ada Lovelace', '', 'WORK EXPERIENCE:', 'Senior Engineer at Analytical Ltd (2019 - 2023)', '- Cut build times by 40%'].join('\n');
+
+describe('findUnsupportedFigures', () => {
+  it('accepts dates the builder rewrote as YYYY-MM from month names', () => {
+    const original = ['Ada Lovelace', '', 'WORK EXPERIENCE:', 'Engineer at Analytical Ltd, January 2019 – March 2023'].join('\n');
+    const tailored = ['Ada Lovelace', '', 'WORK EXPERIENCE:', 'Engineer at Analytical Ltd', '2019-01 – 2023-03'].join('\n');
+
+    expect(findUnsupportedFigures(tailored, original)).toEqual([]);
+    expect(findUnsupportedFigures(tailored.replace('2019-01', '03/2019'), original.replace('January 2019', '2019'))).toEqual([]);
+  });
+
+  it('flags a date with a year the original does not have as a date, month included', () => {
+    const original = ['Ada Lovelace', '', 'WORK EXPERIENCE:', 'Engineer at Analytical Ltd, January 2019 – March 2023'].join('\n');
+    const tailored = ['Ada Lovelace', '', 'WORK EXPERIENCE:', 'Engineer at Analytical Ltd', '2017-01 – 2023-03'].join('\n');
+
+    expect(findUnsupportedFigures(tailored, original)).toEqual([{ claim: '2017-01 – 2023-03', category: 'date' }]);
+  });
+});
+
+describe('withUnsupportedFigures', () => {
+  it('adds the figures of later rewrites to the claims flagged when the resume was built', () => {
+    const claims = [{ claim: 'Senior Engineer', category: 'position' as const }];
+    const rewritten = TAILORED.replace('by 40%', 'by 65% for a team of 12');
+
+    expect(withUnsupportedFigures(claims, rewritten, ORIGINAL)).toEqual([
+      { claim: 'Senior Engineer', category: 'position' },
+      { claim: 'Cut build times by 65% for a team of 12', category: 'metric' },
+    ]);
+  });
+
+  it('keeps one entry per claim and leaves unchecked text without figures unchecked', () => {
+    const claims = [{ claim: 'cut build times by 65%', category: 'achievement' as const }];
+    expect(withUnsupportedFigures(claims, TAILORED.replace('by 40%', 'by 65%'), ORIGINAL)).toEqual(claims);
+    expect(withUnsupportedFigures(undefined, TAILORED, ORIGINAL)).toBeUndefined();
+  });
+
+  it('blocks a restored version with new figures until they are confirmed', () => {
+    const restored = TAILORED.replace('(2019 - 2023)', '(2015 - 2023)');
+    const claims = withUnsupportedFigures([], restored, ORIGINAL);
+
+    expect(getPendingResumeClaims(claims, restored, [])).toEqual([{ claim: 'Senior Engineer at Analytical Ltd (2015 - 2023)', category: 'date' }]);
+    expect(getPendingResumeClaims(claims, restored, ['Senior Engineer at Analytical Ltd (2015 - 2023)'])).toEqual([]);
+  });
+});
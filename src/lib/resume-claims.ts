@@ -0,0 +1,143 @@
+// src/lib/resume-claims.ts
+
+import { normalizeText } from '@/lib/compatibility-scoring';
+import { splitResumeTextSections } from '@/lib/resume-document';
+
+/** What a factual claim of the tailored resume is about. */
+export const RESUME_CLAIM_CATEGORIES = ['employer', 'position', 'date', 'degree', 'certification', 'skill', 'language', 'metric', 'achievement', 'other'] as const;
+export type ResumeClaimCategory = typeof RESUME_CLAIM_CATEGORIES[number];
+
+/** One claim of the tailored resume as checked by the AI, with the text of the original resume backing it. */
+export interface ResumeClaimCheck {
+  /** Copied verbatim from the tailored resume. */
+  claim: string;
+  category: ResumeClaimCategory;
+  /** Copied verbatim from the original resume; empty when nothing supports the claim. */
+  evidence: string;
+  supported: boolean;
+  reason?: string;
+}
+
+/** A claim of the tailored resume the original resume does not back, for the user to confirm or delete. */
+export interface UnsupportedResumeClaim {
+  claim: string;
+  category: ResumeClaimCategory;
+  /** Why the claim was flagged; missing when the only problem is that no supporting text was found. */
+  reason?: string;
+}
+
+const collapse = (text: string) => normalizeText(text).replace(/\s+/g, ' ').trim();
+const stripQuotes = (text: string) => text.trim().replace(/^["'“”«»]+|["'“”«»]+$/g, '').trim();
+
+const DIGIT_RUN = /\d+(?:[.,]\d+)*/g;
+const YEAR = /^(19|20)\d{2}$/;
+/** "03/2019", "15.03.2019" and "2019-03", the last one being how the resume builder writes dates. */
+const NUMERIC_DATE = /\b(?:\d{1,2}[-/.])?(?:0?[1-9]|1[0-2])[-/.]((?:19|20)\d{2})\b|\b((?:19|20)\d{2})[-/.](?:0?[1-9]|1[0-2])(?:[-/.]\d{1,2})?\b/g;
+const SECTIONS_WITHOUT_FIGURES = ['header', 'contact'];
+
+/**
+ * Dates are compared by year only: the original resume may spell the month out ("March 2019") where the tailored one
+ * writes "2019-03", and the month alone would look like an invented figure.
+ */
+const datesToYears = (text: string) => text.replace(NUMERIC_DATE, (_date, endYear?: string, startYear?: string) => endYear || startYear || '');
+
+/** "1,000", "1.000" and "1000" are the same figure. */
+const getFigures = (text: string) => new Set((text.match(DIGIT_RUN) || []).map(figure => figure.replace(/[.,]/g, '')));
+
+/**
+ * Lines of the tailored resume with a number or year that appears nowhere in the original resume. Catches invented
+ * dates and metrics even when the AI check misses them or fails. The name, headline and contact details are skipped.
+ */
+export function findUnsupportedFigures(tailoredResume: string, originalResume: string): UnsupportedResumeClaim[] {
+  const known = getFigures(datesToYears(originalResume));
+  const lines = tailoredResume.split('\n');
+  return splitResumeTextSections(tailoredResume)
+    .filter(section => !SECTIONS_WITHOUT_FIGURES.includes(section.section))
+    .flatMap(section => lines.slice(section.startLine, section.endLine))
+    .flatMap(line => {
+      const missing = [...getFigures(datesToYears(line))].filter(figure => !known.has(figure));
+      if (missing.length === 0) return [];
+      const claim = line.trim().replace(/^[-•*]\s+/, '');
+      return [{ claim, category: missing.every(figure => YEAR.test(figure)) ? 'date' as const : 'metric' as const }];
+    });
+}
+
+/** The first of the claims with the same text, ignoring case, accents and spacing. */
+const uniqueClaims = (claims: UnsupportedResumeClaim[]) =>
+  claims.filter((entry, index) => claims.findIndex(other => collapse(other.claim) === collapse(entry.claim)) === index);
+
+/**
+ * Turns the AI's claim check into the claims to flag. A claim only counts as supported when its evidence really is in
+ * the original resume, claims that cannot be found in the tailored resume are dropped, and unsupported figures are added.
+ */
+export function reviewResumeClaims(checks: ResumeClaimCheck[], tailoredResume: string, originalResume: string): UnsupportedResumeClaim[] {
+  const original = collapse(originalResume);
+  const flagged: UnsupportedResumeClaim[] = [];
+  for (const check of checks) {
+    const claim = stripQuotes(check.claim);
+    if (!claim || !findResumeClaim(tailoredResume, claim)) continue;
+    const evidence = collapse(stripQuotes(check.evidence));
+    if (check.supported && evidence && original.includes(evidence)) continue;
+    flagged.push({ claim, category: check.category, reason: check.supported ? undefined : check.reason?.trim() || undefined });
+  }
+  flagged.push(...findUnsupportedFigures(tailoredResume, originalResume));
+
+  return uniqueClaims(flagged);
+}
+
+/**
+ * The claims flagged when the resume was built, plus the unsupported figures of its current text. Section rewrites,
+ * restored versions and manual edits can bring in figures the first check never saw. Undefined while nothing was
+ * checked and the current text has no unsupported figures either.
+ */
+export function withUnsupportedFigures(claims: UnsupportedResumeClaim[] | undefined, text: string, originalResume: string): UnsupportedResumeClaim[] | undefined {
+  const figures = findUnsupportedFigures(text, originalResume);
+  return claims || figures.length > 0 ? uniqueClaims([...(claims || []), ...figures]) : claims;
+}
+
+/** Where the claim is in the text: an exact match first, then one that ignores case. */
+export function findResumeClaim(text: string, claim: string): { start: number; end: number } | null {
+  let start = text.indexOf(claim);
+  if (start < 0) start = text.toLowerCase().indexOf(claim.toLowerCase());
+  return start < 0 ? null : { start, end: start + claim.length };
+}
+
+/** Flagged claims still in the text that the user has not confirmed. */
+export function getPendingResumeClaims(claims: UnsupportedResumeClaim[] | undefined, text: string, confirmedClaims: string[]): UnsupportedResumeClaim[] {
+  return (claims || []).filter(entry => !confirmedClaims.includes(entry.claim) && !!findResumeClaim(text, entry.claim));
+}
+
+const LEFTOVER_LINE = /^\s*([-•*]\s*)?([^:]{0,40}:)?\s*[,;|–-]?\s*$/;
+
+/**
+ * Deletes a claim from the resume text. A claim on the first line of a job or an education entry takes the whole entry
+ * with it; a claim that fills its line takes the line; otherwise only the claim goes, with the separators left around it.
+ */
+export function removeResumeClaim(text: string, claim: string): string {
+  const match = findResumeClaim(text, claim);
+  if (!match) return text;
+  const lines = text.split('\n');
+  const lineIndex = text.slice(0, match.start).split('\n').length - 1;
+
+  const entry = splitResumeTextSections(text)
+    .filter(section => section.section === 'experience' || section.section === 'education')
+    .flatMap(section => section.entries)
+    .find(candidate => candidate.startLine === lineIndex);
+  if (entry) {
+    // Take the blank line after the entry, or before it for the last entry, so the spacing stays even.
+    const end = entry.endLine < lines.length && !lines[entry.endLine].trim() ? entry.endLine + 1 : entry.endLine;
+    const start = end === entry.endLine && entry.startLine > 0 && !lines[entry.startLine - 1].trim() ? entry.startLine - 1 : entry.startLine;
+    return [...lines.slice(0, start), ...lines.slice(end)].join('\n');
+  }
+
+  const lineStart = text.lastIndexOf('\n', match.start - 1) + 1;
+  const line = lines[lineIndex];
+  const remaining = (line.slice(0, match.start - lineStart) + line.slice(match.end - lineStart))
+    .replace(/\s*([,;])\s*[,;]\s*/g, '$1 ')
+    .replace(/:\s*[,;]\s*/, ': ')
+    .replace(/\s*[,;]\s*$/, '')
+    .replace(/ {2,}/g, ' ')
+    .trimEnd();
+  if (LEFTOVER_LINE.test(remaining)) return [...lines.slice(0, lineIndex), ...lines.slice(lineIndex + 1)].join('\n');
+  return [...lines.slice(0, lineIndex), remaining, ...lines.slice(lineIndex + 1)].join('\n');
+}
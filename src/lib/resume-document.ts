@@ -0,0 +1,270 @@
+// src/lib/resume-document.ts
+
+import type { ResumeDocument } from '@/ai/schemas/resume-document';
+import { getTranslation, type Locale } from '@/lib/translations';
+
+export type { ResumeDocument } from '@/ai/schemas/resume-document';
+
+export type ResumeSectionKey = 'contact' | 'profile' | 'experience' | 'education' | 'skills' | 'languages' | 'interests';
+type ContactField = keyof ResumeDocument['contact'];
+
+export const RESUME_SECTION_KEYS: ResumeSectionKey[] = ['contact', 'profile', 'experience', 'education', 'skills', 'languages', 'interests'];
+
+const SECTION_TITLE_KEYS: Record<ResumeSectionKey, string> = {
+  contact: 'sectionTitle_ContactInformation',
+  profile: 'sectionTitle_ProfessionalProfile',
+  experience: 'sectionTitle_WorkExperience',
+  education: 'sectionTitle_Education',
+  skills: 'sectionTitle_Skills',
+  languages: 'sectionTitle_Languages',
+  interests: 'sectionTitle_Interests',
+};
+
+const CONTACT_LABEL_KEYS: Record<ContactField, string> = {
+  email: 'resumeLabel_Email',
+  phone: 'resumeLabel_Phone',
+  location: 'resumeLabel_Location',
+  website: 'resumeLabel_Website',
+  linkedin: 'resumeLabel_LinkedIn',
+  github: 'resumeLabel_GitHub',
+  dateOfBirth: 'resumeLabel_DateOfBirth',
+};
+
+const LOCALES: Locale[] = ['en', 'es'];
+const ENTRY_FIELD_SEPARATOR = ' | ';
+const DATE_RANGE_SEPARATOR = ' – ';
+
+/** Maps the flow language ("English", "Spanish") to the UI locale used for section titles. */
+export function getResumeLocale(language: string): Locale {
+  return /^(es|spanish|español)/i.test(language.trim()) ? 'es' : 'en';
+}
+
+export function getResumeSectionTitle(section: ResumeSectionKey, language: string): string {
+  return getTranslation(getResumeLocale(language), SECTION_TITLE_KEYS[section]);
+}
+
+export function getResumeContactLabel(field: ContactField, language: string): string {
+  return getTranslation(getResumeLocale(language), CONTACT_LABEL_KEYS[field]);
+}
+
+export function createEmptyResumeDocument(): ResumeDocument {
+  return { fullName: '', contact: {}, profile: '', experience: [], education: [], skills: [], languages: [], interests: [] };
+}
+
+export function formatDateRange(startDate?: string, endDate?: string): string {
+  return [startDate, endDate].filter(Boolean).join(DATE_RANGE_SEPARATOR);
+}
+
+/** Contact details in display order, with localized labels. */
+export function getResumeContactEntries(resume: ResumeDocument, language: string): { field: ContactField; label: string; value: string }[] {
+  return (Object.keys(CONTACT_LABEL_KEYS) as ContactField[])
+    .filter(field => !!resume.contact[field]?.trim())
+    .map(field => ({ field, label: getResumeContactLabel(field, language), value: resume.contact[field]!.trim() }));
+}
+
+export function formatSkillGroup(group: ResumeDocument['skills'][number]): string {
+  const items = group.items.join(', ');
+  return group.category ? `${group.category}: ${items}` : items;
+}
+
+export function formatLanguage(entry: ResumeDocument['languages'][number]): string {
+  return entry.proficiency ? `${entry.language} - ${entry.proficiency}` : entry.language;
+}
+
+/**
+ * Renders the resume as the plain text shown in the editor and used by the text download,
+ * the compatibility analysis and the job search. `parseResumeText` reads this format back.
+ */
+export function renderResumeText(resume: ResumeDocument, language: string): string {
+  const blocks: string[] = [[resume.fullName, resume.headline].filter(Boolean).join('\n')];
+  const addSection = (section: ResumeSectionKey, body: string) => {
+    if (body.trim()) blocks.push(`${getResumeSectionTitle(section, language)}:\n${body.trim()}`);
+  };
+
+  addSection('contact', getResumeContactEntries(resume, language).map(({ label, value }) => `${label}: ${value}`).join('\n'));
+  addSection('profile', resume.profile);
+  addSection('experience', resume.experience.map(job => [
+    [job.position, job.company, job.location].filter(Boolean).join(ENTRY_FIELD_SEPARATOR),
+    formatDateRange(job.startDate, job.endDate),
+    job.description,
+    ...(job.highlights || []).map(highlight => `- ${highlight}`),
+  ].filter(Boolean).join('\n')).join('\n\n'));
+  addSection('education', resume.education.map(entry => [
+    [entry.degree, entry.institution, entry.location].filter(Boolean).join(ENTRY_FIELD_SEPARATOR),
+    formatDateRange(entry.startDate, entry.endDate),
+    entry.description,
+  ].filter(Boolean).join('\n')).join('\n\n'));
+  addSection('skills', resume.skills.filter(group => group.items.length > 0).map(formatSkillGroup).join('\n'));
+  addSection('languages', resume.languages.map(formatLanguage).join('\n'));
+  addSection('interests', resume.interests.join(', '));
+
+  return blocks.join('\n\n');
+}
+
+const normalizeLabel = (value: string) => value.trim().replace(/:$/, '').toLowerCase();
+
+const SECTION_BY_TITLE = new Map<string, ResumeSectionKey>(
+  RESUME_SECTION_KEYS.flatMap(section => LOCALES.map(locale => [normalizeLabel(getTranslation(locale, SECTION_TITLE_KEYS[section])), section] as const))
+);
+
+const CONTACT_FIELD_BY_LABEL = new Map<string, ContactField>(
+  (Object.keys(CONTACT_LABEL_KEYS) as ContactField[]).flatMap(field => LOCALES.map(locale => [normalizeLabel(getTranslation(locale, CONTACT_LABEL_KEYS[field])), field] as const))
+);
+
+const DATE_LINE = /^(?=.*(\d{4}|present|actual|hoy))[^|]{1,60}$/i;
+const BULLET = /^\s*[-•*]\s+/;
+
+const splitEntries = (lines: string[]) => lines
+  .join('\n')
+  .split(/\n\s*\n/)
+  .map(block => block.split('\n').map(line => line.trim()).filter(Boolean))
+  .filter(block => block.length > 0);
+
+const splitDateRange = (line: string) => {
+  const [startDate, endDate] = line.split(/\s+[–—-]\s+|\s+(?:to|a|hasta)\s+/i).map(part => part.trim());
+  return { startDate: startDate || undefined, endDate: endDate || undefined };
+};
+
+const parseEntryBody = (lines: string[]) => {
+  const dates = lines[0] && DATE_LINE.test(lines[0]) ? splitDateRange(lines.shift()!) : {};
+  const highlights = lines.filter(line => BULLET.test(line)).map(line => line.replace(BULLET, ''));
+  const description = lines.filter(line => !BULLET.test(line)).join('\n');
+  return { ...dates, description: description || undefined, highlights };
+};
+
+/** The section a line opens, with any text written after the title on the same line. */
+function matchSectionTitle(line: string): { section: ResumeSectionKey; rest: string } | null {
+  // Section titles are written in capitals, so "Skills: ..." inside a description is not a new section.
+  const titleMatch = line.trim().match(/^([^:]+):\s*(.*)$/);
+  if (!titleMatch || titleMatch[1] !== titleMatch[1].toUpperCase()) return null;
+  const section = SECTION_BY_TITLE.get(normalizeLabel(titleMatch[1]));
+  return section ? { section, rest: titleMatch[2] } : null;
+}
+
+/** A part of the resume text, as a range of lines without the leading and trailing blank lines. */
+export interface ResumeTextBlock {
+  startLine: number;
+  /** Exclusive. */
+  endLine: number;
+  text: string;
+}
+
+export interface ResumeTextSection extends ResumeTextBlock {
+  section: ResumeSectionKey | 'header';
+  /** The title line as written, empty for the header (name and headline). */
+  title: string;
+  /** Entries separated by blank lines, such as the jobs of the experience section. */
+  entries: ResumeTextBlock[];
+}
+
+const toBlock = (lines: string[], startLine: number, endLine: number): ResumeTextBlock | null => {
+  while (startLine < endLine && !lines[startLine].trim()) startLine++;
+  while (endLine > startLine && !lines[endLine - 1].trim()) endLine--;
+  return startLine < endLine ? { startLine, endLine, text: lines.slice(startLine, endLine).join('\n') } : null;
+};
+
+/**
+ * Locates the sections of resume text in the `renderResumeText` format by line, so one section or entry can be
+ * replaced without touching the rest. Sections without a body are left out.
+ */
+export function splitResumeTextSections(text: string): ResumeTextSection[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const starts: { section: ResumeSectionKey | 'header'; title: string; titleLine: number }[] = [{ section: 'header', title: '', titleLine: -1 }];
+  lines.forEach((line, index) => {
+    // Text written after a title stays with the title line, which is never replaced.
+    const match = matchSectionTitle(line);
+    if (match) starts.push({ section: match.section, title: line.trim(), titleLine: index });
+  });
+
+  return starts.flatMap((start, index) => {
+    const end = index + 1 < starts.length ? starts[index + 1].titleLine : lines.length;
+    const body = toBlock(lines, start.titleLine + 1, end);
+    if (!body) return [];
+    const entries: ResumeTextBlock[] = [];
+    let entryStart = body.startLine;
+    for (let line = body.startLine; line <= body.endLine; line++) {
+      if (line === body.endLine || !lines[line].trim()) {
+        const entry = toBlock(lines, entryStart, line);
+        if (entry) entries.push(entry);
+        entryStart = line + 1;
+      }
+    }
+    return [{ ...body, section: start.section, title: start.title, entries }];
+  });
+}
+
+/**
+ * Reads resume text in the format produced by `renderResumeText` (section titles in English or Spanish)
+ * back into a document, so edits made in the plain-text editor reach every exporter.
+ */
+export function parseResumeText(text: string): ResumeDocument {
+  const resume = createEmptyResumeDocument();
+  const sections = new Map<ResumeSectionKey | 'header', string[]>([['header', []]]);
+  let current: ResumeSectionKey | 'header' = 'header';
+
+  for (const rawLine of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const match = matchSectionTitle(rawLine);
+    if (match) {
+      current = match.section;
+      sections.set(current, match.rest ? [match.rest] : []);
+    } else {
+      sections.get(current)!.push(rawLine);
+    }
+  }
+
+  const [fullName = '', headline] = (sections.get('header') || []).map(line => line.trim()).filter(Boolean);
+  resume.fullName = fullName;
+  resume.headline = headline;
+
+  for (const line of (sections.get('contact') || []).map(l => l.trim()).filter(Boolean)) {
+    const labelled = line.match(/^([^:]{1,30}):\s*(.+)$/);
+    const field = labelled ? CONTACT_FIELD_BY_LABEL.get(normalizeLabel(labelled[1])) : undefined;
+    const value = field ? labelled![2].trim() : line;
+    const inferredField: ContactField = field
+      || (value.includes('@') ? 'email'
+        : /linkedin\.com/i.test(value) ? 'linkedin'
+        : /github\.com/i.test(value) ? 'github'
+        : /^(https?:\/\/|www\.)/i.test(value) ? 'website'
+        : /^\+?[\d\s().-]{7,}$/.test(value) ? 'phone'
+        : 'location');
+    if (!resume.contact[inferredField]) resume.contact[inferredField] = value;
+  }
+
+  resume.profile = (sections.get('profile') || []).join('\n').trim();
+
+  resume.experience = splitEntries(sections.get('experience') || []).map(lines => {
+    const [position = '', company, location] = lines.shift()!.split('|').map(part => part.trim());
+    const { highlights, ...body } = parseEntryBody(lines);
+    return { position, company: company || undefined, location: location || undefined, ...body, highlights: highlights.length ? highlights : undefined };
+  });
+
+  resume.education = splitEntries(sections.get('education') || []).map(lines => {
+    const [degree = '', institution, location] = lines.shift()!.split('|').map(part => part.trim());
+    const { highlights, description, ...dates } = parseEntryBody(lines);
+    return {
+      degree,
+      institution: institution || undefined,
+      location: location || undefined,
+      ...dates,
+      description: [description, ...highlights.map(item => `- ${item}`)].filter(Boolean).join('\n') || undefined,
+    };
+  });
+
+  resume.skills = (sections.get('skills') || []).map(line => line.trim().replace(BULLET, '')).filter(Boolean).map(line => {
+    const grouped = line.match(/^([^:,]{1,40}):\s*(.*)$/);
+    const items = (grouped ? grouped[2] : line).split(/\s*[,;]\s*/).filter(Boolean);
+    return { category: grouped ? grouped[1].trim() : undefined, items };
+  });
+
+  resume.languages = (sections.get('languages') || []).map(line => line.trim().replace(BULLET, '')).filter(Boolean).map(line => {
+    const [language, ...proficiency] = line.split(/\s+[-–]\s+|:\s*|\s*\(\s*/);
+    return { language: language.trim(), proficiency: proficiency.join(' ').replace(/\)$/, '').trim() || undefined };
+  });
+
+  resume.interests = (sections.get('interests') || [])
+    .flatMap(line => line.replace(BULLET, '').split(/\s*[,;]\s*/))
+    .map(item => item.trim())
+    .filter(Boolean);
+
+  return resume;
+}
@@ -0,0 +1,278 @@
+// src/lib/resume-docx.ts
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  HeadingLevel,
+  ImageRun,
+  LevelFormat,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableBorders,
+  TableCell,
+  TableLayoutType,
+  TableRow,
+  TextRun,
+  VerticalAlign,
+  WidthType,
+} from 'docx';
+import {
+  type ResumeDocument,
+  formatDateRange,
+  formatLanguage,
+  getResumeContactEntries,
+  getResumeSectionTitle,
+} from '@/lib/resume-document';
+
+export interface ResumeDocxOptions {
+  /** Resume language ("English", "Spanish"), used for section titles and labels. */
+  language: string;
+  profilePhotoDataUri?: string;
+}
+
+// Same palette as the modern PDF template (resume-templates.ts), as hex for Word.
+const LEFT_COLUMN_BG = 'F0F3F4';
+const LEFT_TITLE_COLOR = '34495E';
+const LEFT_BODY_COLOR = '566573';
+const NAME_COLOR = '2C3E50';
+const RIGHT_TITLE_COLOR = '2C3E50';
+const RIGHT_BODY_COLOR = '34495E';
+const DATE_COLOR = '808080';
+const RULE_COLOR = 'BDC3C7';
+
+const FONT = 'Arial';
+const BULLET_REFERENCE = 'resume-bullets';
+
+// A4 in twentieths of a point, with 1.5 cm margins.
+const PAGE_WIDTH = 11906;
+const PAGE_MARGIN = 850;
+const CONTENT_WIDTH = PAGE_WIDTH - 2 * PAGE_MARGIN;
+const LEFT_COLUMN_WIDTH = Math.round(CONTENT_WIDTH * 0.33);
+const RIGHT_COLUMN_WIDTH = CONTENT_WIDTH - LEFT_COLUMN_WIDTH;
+const PHOTO_SIZE_PX = 132; // ~35 mm, as in the PDF.
+
+// Word sizes are in half-points.
+const pt = (points: number) => Math.round(points * 2);
+
+const getImageType = (dataUri: string): 'png' | 'jpg' | null => {
+  const format = dataUri.match(/^data:image\/(.*?);/)?.[1]?.toLowerCase();
+  if (format === 'png') return 'png';
+  return format === 'jpeg' || format === 'jpg' ? 'jpg' : null;
+};
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const splitParagraphs = (text?: string) => (text || '').split('\n').map(line => line.trim()).filter(Boolean);
+
+/**
+ * Builds an editable Word document with the two-column layout of the modern PDF template: a shaded sidebar
+ * (name, photo, contact, profile, languages, interests) next to experience, education and skills.
+ * Headings, dates, sidebar text and bullets use named Word styles and a bullet list definition, so
+ * the document can be restyled from Word or LibreOffice. Pack it with `Packer.toBlob`.
+ */
+export function renderResumeDocx(resume: ResumeDocument, options: ResumeDocxOptions): Document {
+  const { language, profilePhotoDataUri } = options;
+
+  const left: Paragraph[] = [
+    new Paragraph({ heading: HeadingLevel.TITLE, text: resume.fullName || 'Candidate Name' }),
+  ];
+  if (resume.headline) {
+    left.push(new Paragraph({ style: 'Subtitle', text: resume.headline }));
+  }
+
+  if (profilePhotoDataUri) {
+    const imageType = getImageType(profilePhotoDataUri);
+    if (imageType) {
+      left.push(new Paragraph({
+        alignment: AlignmentType.CENTER,
+        spacing: { before: 120, after: 240 },
+        children: [new ImageRun({
+          type: imageType,
+          data: base64ToBytes(profilePhotoDataUri.split(',')[1] || ''),
+          transformation: { width: PHOTO_SIZE_PX, height: PHOTO_SIZE_PX },
+          altText: { name: 'Profile photo', description: resume.fullName, title: resume.fullName },
+        })],
+      }));
+    } else {
+      console.warn("Unsupported image type for profile photo:", profilePhotoDataUri.substring(0, 30));
+    }
+  }
+
+  const sidebar = (text: string) => new Paragraph({ style: 'ResumeSidebar', text });
+  const leftTitle = (section: Parameters<typeof getResumeSectionTitle>[0]) =>
+    new Paragraph({ heading: HeadingLevel.HEADING_2, text: getResumeSectionTitle(section, language) });
+
+  const contactEntries = getResumeContactEntries(resume, language);
+  if (contactEntries.length > 0) {
+    left.push(leftTitle('contact'));
+    contactEntries.forEach(({ label, value }) => left.push(new Paragraph({
+      style: 'ResumeSidebar',
+      children: [new TextRun({ text: `${label}: `, bold: true }), new TextRun(value)],
+    })));
+  }
+  if (resume.profile.trim()) {
+    left.push(leftTitle('profile'), ...splitParagraphs(resume.profile).map(sidebar));
+  }
+  if (resume.languages.length > 0) {
+    left.push(leftTitle('languages'), ...resume.languages.map(entry => sidebar(formatLanguage(entry))));
+  }
+  if (resume.interests.length > 0) {
+    left.push(leftTitle('interests'), sidebar(resume.interests.join(', ')));
+  }
+
+  const right: Paragraph[] = [];
+  const rightTitle = (section: Parameters<typeof getResumeSectionTitle>[0]) =>
+    new Paragraph({ heading: HeadingLevel.HEADING_1, text: getResumeSectionTitle(section, language) });
+
+  const pushEntry = (heading: string, dates: string, description?: string, highlights: string[] = []) => {
+    right.push(new Paragraph({ heading: HeadingLevel.HEADING_3, text: heading, keepNext: true }));
+    if (dates) right.push(new Paragraph({ style: 'ResumeDates', text: dates, keepNext: true }));
+    splitParagraphs(description).forEach(line => right.push(new Paragraph({ text: line })));
+    highlights.forEach(highlight => right.push(new Paragraph({
+      style: 'ListBullet',
+      numbering: { reference: BULLET_REFERENCE, level: 0 },
+      text: highlight,
+    })));
+  };
+
+  if (resume.experience.length > 0) {
+    right.push(rightTitle('experience'));
+    resume.experience.forEach(job => pushEntry(
+      [[job.position, job.company].filter(Boolean).join(', '), job.location].filter(Boolean).join(', '),
+      formatDateRange(job.startDate, job.endDate),
+      job.description,
+      job.highlights
+    ));
+  }
+
+  if (resume.education.length > 0) {
+    right.push(rightTitle('education'));
+    resume.education.forEach(entry => pushEntry(
+      [entry.degree, entry.institution, entry.location].filter(Boolean).join(', '),
+      formatDateRange(entry.startDate, entry.endDate),
+      entry.description
+    ));
+  }
+
+  const skillGroups = resume.skills.filter(group => group.items.length > 0);
+  if (skillGroups.length > 0) {
+    right.push(rightTitle('skills'));
+    skillGroups.forEach(group => right.push(new Paragraph({
+      children: [
+        ...(group.category ? [new TextRun({ text: `${group.category}: `, bold: true })] : []),
+        new TextRun(group.items.join(', ')),
+      ],
+    })));
+  }
+
+  const layout = new Table({
+    layout: TableLayoutType.FIXED,
+    width: { size: CONTENT_WIDTH, type: WidthType.DXA },
+    columnWidths: [LEFT_COLUMN_WIDTH, RIGHT_COLUMN_WIDTH],
+    borders: TableBorders.NONE,
+    rows: [new TableRow({
+      children: [
+        new TableCell({
+          width: { size: LEFT_COLUMN_WIDTH, type: WidthType.DXA },
+          shading: { type: ShadingType.CLEAR, color: 'auto', fill: LEFT_COLUMN_BG },
+          margins: { top: 240, bottom: 240, left: 200, right: 200 },
+          verticalAlign: VerticalAlign.TOP,
+          children: left,
+        }),
+        new TableCell({
+          width: { size: RIGHT_COLUMN_WIDTH, type: WidthType.DXA },
+          margins: { top: 120, bottom: 120, left: 300, right: 0 },
+          verticalAlign: VerticalAlign.TOP,
+          // Table cells must contain at least one paragraph.
+          children: right.length > 0 ? right : [new Paragraph('')],
+        }),
+      ],
+    })],
+  });
+
+  return new Document({
+    creator: 'NailedJob',
+    title: resume.fullName || 'Resume',
+    styles: {
+      default: {
+        document: {
+          run: { font: FONT, size: pt(9.5), color: RIGHT_BODY_COLOR },
+          paragraph: { spacing: { after: 60 } },
+        },
+      },
+      paragraphStyles: [
+        {
+          id: 'Title', name: 'Title', basedOn: 'Normal', next: 'Normal', quickFormat: true,
+          run: { font: FONT, size: pt(18), bold: true, allCaps: true, color: NAME_COLOR },
+          paragraph: { spacing: { after: 80 } },
+        },
+        {
+          id: 'Subtitle', name: 'Subtitle', basedOn: 'Normal', next: 'Normal', quickFormat: true,
+          run: { font: FONT, size: pt(10), italics: true, color: LEFT_TITLE_COLOR },
+          paragraph: { spacing: { after: 120 } },
+        },
+        {
+          id: 'Heading1', name: 'Heading 1', basedOn: 'Normal', next: 'Normal', quickFormat: true,
+          run: { font: FONT, size: pt(14), bold: true, allCaps: true, color: RIGHT_TITLE_COLOR },
+          paragraph: {
+            keepNext: true,
+            spacing: { before: 240, after: 120 },
+            border: { bottom: { style: BorderStyle.SINGLE, size: 6, space: 2, color: RULE_COLOR } },
+          },
+        },
+        {
+          id: 'Heading2', name: 'Heading 2', basedOn: 'Normal', next: 'ResumeSidebar', quickFormat: true,
+          run: { font: FONT, size: pt(11), bold: true, allCaps: true, color: LEFT_TITLE_COLOR },
+          paragraph: { keepNext: true, spacing: { before: 240, after: 80 } },
+        },
+        {
+          id: 'Heading3', name: 'Heading 3', basedOn: 'Normal', next: 'ResumeDates', quickFormat: true,
+          run: { font: FONT, size: pt(10.5), bold: true, color: RIGHT_BODY_COLOR },
+          paragraph: { keepNext: true, spacing: { before: 160, after: 20 } },
+        },
+        {
+          id: 'ResumeDates', name: 'Resume Dates', basedOn: 'Normal', next: 'Normal', quickFormat: true,
+          run: { size: pt(9), italics: true, color: DATE_COLOR },
+          paragraph: { spacing: { after: 60 } },
+        },
+        {
+          id: 'ResumeSidebar', name: 'Resume Sidebar', basedOn: 'Normal', next: 'ResumeSidebar', quickFormat: true,
+          run: { size: pt(8.5), color: LEFT_BODY_COLOR },
+          paragraph: { spacing: { after: 40 } },
+        },
+        {
+          id: 'ListBullet', name: 'List Bullet', basedOn: 'Normal', next: 'ListBullet', quickFormat: true,
+          paragraph: { spacing: { after: 40 } },
+        },
+      ],
+    },
+    numbering: {
+      config: [{
+        reference: BULLET_REFERENCE,
+        levels: [{
+          level: 0,
+          format: LevelFormat.BULLET,
+          text: '•',
+          alignment: AlignmentType.LEFT,
+          style: { paragraph: { indent: { left: 360, hanging: 240 } } },
+        }],
+      }],
+    },
+    sections: [{
+      properties: {
+        page: {
+          size: { width: PAGE_WIDTH, height: 16838 },
+          margin: { top: PAGE_MARGIN, bottom: PAGE_MARGIN, left: PAGE_MARGIN, right: PAGE_MARGIN },
+        },
+      },
+      children: [layout],
+    }],
+  });
+}
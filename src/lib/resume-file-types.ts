@@ -0,0 +1,66 @@
+// src/lib/resume-file-types.ts
+
+/** Resume file formats the extraction pipeline can read, by canonical MIME type. */
+export const SUPPORTED_RESUME_MIME_TYPES = [
+  'application/pdf',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.oasis.opendocument.text',
+  'application/rtf',
+] as const;
+export type ResumeMimeType = typeof SUPPORTED_RESUME_MIME_TYPES[number];
+
+const EXTENSION_MIME_TYPES: Record<string, ResumeMimeType> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  odt: 'application/vnd.oasis.opendocument.text',
+  rtf: 'application/rtf',
+};
+
+// Browsers and mail clients report RTF under several names.
+const MIME_TYPE_ALIASES: Record<string, ResumeMimeType> = {
+  'text/rtf': 'application/rtf',
+  'application/x-rtf': 'application/rtf',
+  'text/richtext': 'application/rtf',
+};
+
+/** Largest resume file the upload fields accept. */
+export const MAX_RESUME_FILE_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Largest resume file that is sent to the compatibility analysis only for the ATS layout checks, once its text was
+ * extracted in the browser. The layout of bigger files is not checked, to keep the request small.
+ */
+export const MAX_ATS_LAYOUT_FILE_SIZE = 4 * 1024 * 1024;
+
+/** Value for the `accept` attribute of resume file inputs. */
+export const RESUME_FILE_ACCEPT = [
+  ...Object.keys(EXTENSION_MIME_TYPES).map(extension => `.${extension}`),
+  ...SUPPORTED_RESUME_MIME_TYPES,
+].join(',');
+
+export function isSupportedResumeMimeType(mimeType: string | undefined): mimeType is ResumeMimeType {
+  return !!mimeType && (SUPPORTED_RESUME_MIME_TYPES as readonly string[]).includes(mimeType);
+}
+
+/**
+ * Canonical MIME type of an uploaded resume, from the type the browser reported or, when that is empty
+ * or generic (common for .odt and .rtf), from the file extension. Returns undefined for unsupported files.
+ */
+export function resolveResumeMimeType(fileName: string, reportedType?: string): ResumeMimeType | undefined {
+  const type = (reportedType || '').toLowerCase();
+  if (isSupportedResumeMimeType(type)) return type;
+  if (MIME_TYPE_ALIASES[type]) return MIME_TYPE_ALIASES[type];
+  const extension = fileName.toLowerCase().match(/\.([a-z0-9]+)$/)?.[1];
+  return extension ? EXTENSION_MIME_TYPES[extension] : undefined;
+}
+
+/** Replaces the MIME type of a data URI, e.g. when the browser encoded the file as application/octet-stream. */
+export function withDataUriMimeType(dataUri: string, mimeType: string): string {
+  return dataUri.replace(/^data:[^;,]*/, `data:${mimeType}`);
+}
+
+/** Size in bytes of the file encoded in a base64 data URI. */
+export function getDataUriByteSize(dataUri: string): number {
+  const base64 = dataUri.slice(dataUri.indexOf(',') + 1);
+  return Math.floor(base64.length * 3 / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+}
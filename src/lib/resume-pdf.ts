@@ -0,0 +1,325 @@
+// src/lib/resume-pdf.ts
+
+import { jsPDF } from 'jspdf';
+import {
+  type ResumeDocument,
+  formatDateRange,
+  formatLanguage,
+  formatSkillGroup,
+  getResumeContactEntries,
+  getResumeSectionTitle,
+} from '@/lib/resume-document';
+import {
+  getDefaultResumePdfSettings,
+  getResumeTemplate,
+  isHexColor,
+  type ResumePdfSettings,
+  type ResumeTemplate,
+} from '@/lib/resume-templates';
+
+export interface ResumePdfOptions {
+  /** Resume language ("English", "Spanish"), used for section titles and labels. */
+  language: string;
+  profilePhotoDataUri?: string;
+  /** Template and the user's choices for it; the default template with its own colors and fonts when missing. */
+  settings?: ResumePdfSettings;
+}
+
+type Rgb = [number, number, number];
+
+interface Palette {
+  name: Rgb;
+  title: Rgb;
+  body: Rgb;
+  muted: Rgb;
+  rule: Rgb;
+  sidebar: Rgb;
+}
+
+const WHITE: Rgb = [255, 255, 255];
+const BODY_COLOR: Rgb = [52, 73, 94];
+const MUTED_COLOR: Rgb = [128, 128, 128];
+const MONOCHROME: Palette = { name: [0, 0, 0], title: [0, 0, 0], body: [0, 0, 0], muted: [64, 64, 64], rule: [0, 0, 0], sidebar: WHITE };
+
+/** Line height in millimetres for each point of font size. */
+const LINE_HEIGHT_PER_POINT = 0.47;
+/** Text scales tried in turn by templates that must fit on one page. */
+const ONE_PAGE_SCALES = [1, 0.95, 0.9, 0.85, 0.8];
+
+const hexToRgb = (hex: string): Rgb => [1, 3, 5].map(index => parseInt(hex.slice(index, index + 2), 16)) as Rgb;
+const mix = (color: Rgb, other: Rgb, amount: number): Rgb => color.map((value, index) => Math.round(value + (other[index] - value) * amount)) as Rgb;
+
+/** The accent colors the name, titles and rules; lighter shades of it draw the rules and the sidebar. */
+function getPalette(template: ResumeTemplate, accentColor: string): Palette {
+  if (!template.allowAccentColor) return MONOCHROME;
+  const accent = hexToRgb(isHexColor(accentColor) ? accentColor : template.accentColor);
+  return { name: accent, title: accent, body: BODY_COLOR, muted: MUTED_COLOR, rule: mix(accent, WHITE, 0.65), sidebar: mix(accent, WHITE, 0.92) };
+}
+
+const getImageFormat = (dataUri: string): string | null => {
+  const mimeType = dataUri.match(/^data:(.*?);/)?.[1];
+  const format = mimeType?.split('/')[1]?.toUpperCase();
+  return format === 'PNG' || format === 'JPEG' || format === 'JPG' ? format : null;
+};
+
+/**
+ * Lays the resume out with the chosen template (see resume-templates.ts). Templates that must fit on one page are
+ * laid out again with smaller text until they do, or until the smallest scale is reached.
+ */
+export function renderResumePdf(resume: ResumeDocument, options: ResumePdfOptions): jsPDF {
+  const settings = options.settings || getDefaultResumePdfSettings();
+  const template = getResumeTemplate(settings.templateId);
+  const scales = template.fitToOnePage ? ONE_PAGE_SCALES : [1];
+  let doc = layoutResumePdf(resume, options, settings, template, scales[0]);
+  for (const scale of scales.slice(1)) {
+    if (doc.getNumberOfPages() === 1) break;
+    doc = layoutResumePdf(resume, options, settings, template, scale);
+  }
+  return doc;
+}
+
+interface TextStyle {
+  size: number;
+  font?: 'normal' | 'bold' | 'italic';
+  color: Rgb;
+  indent?: number;
+  align?: 'left' | 'center';
+}
+
+/** A column being written: each one flows onto new pages on its own. */
+interface Column {
+  page: number;
+  y: number;
+  x: number;
+  width: number;
+}
+
+function layoutResumePdf(resume: ResumeDocument, options: ResumePdfOptions, settings: ResumePdfSettings, template: ResumeTemplate, scale: number): jsPDF {
+  const { language, profilePhotoDataUri } = options;
+  const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: settings.paperSize });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const pageHeight = doc.internal.pageSize.getHeight();
+  const palette = getPalette(template, settings.accentColor);
+  const { margin } = template;
+  const twoColumn = template.layout === 'two-column';
+  const sidebarWidth = twoColumn ? pageWidth * 0.33 : 0;
+
+  const size = (factor: number) => template.bodySize * scale * factor;
+  const lineHeight = (fontSize: number) => fontSize * LINE_HEIGHT_PER_POINT * template.lineSpacing;
+  const sectionGap = 4 * scale * template.lineSpacing;
+  const bodyStyle: TextStyle = { size: size(1), color: palette.body };
+
+  let photoFormat: string | null = null;
+  const photo = template.allowPhoto && settings.showPhoto ? profilePhotoDataUri : undefined;
+  if (photo) {
+    photoFormat = getImageFormat(photo);
+    if (!photoFormat) console.warn("Unsupported image type for profile photo:", photo.substring(0, 30));
+  }
+
+  const decoratePage = () => {
+    if (!twoColumn) return;
+    doc.setFillColor(...palette.sidebar);
+    doc.rect(0, 0, sidebarWidth, pageHeight, 'F');
+  };
+  decoratePage();
+
+  const ensureSpace = (column: Column, height: number) => {
+    if (column.y + height > pageHeight - margin) {
+      column.page++;
+      column.y = margin;
+      if (column.page > doc.getNumberOfPages()) {
+        doc.addPage();
+        decoratePage();
+      }
+    }
+    doc.setPage(column.page);
+  };
+
+  const setStyle = (style: TextStyle) => {
+    doc.setFont(settings.font, style.font || 'normal');
+    doc.setFontSize(style.size);
+    doc.setTextColor(...style.color);
+  };
+
+  const writeText = (column: Column, text: string, style: TextStyle) => {
+    setStyle(style);
+    const indent = style.indent || 0;
+    const height = lineHeight(style.size);
+    const lines: string[] = doc.splitTextToSize(text, column.width - indent);
+    lines.forEach(line => {
+      ensureSpace(column, height);
+      if (style.align === 'center') {
+        doc.text(line, column.x + column.width / 2, column.y, { align: 'center' });
+      } else {
+        doc.text(line, column.x + indent, column.y);
+      }
+      column.y += height;
+    });
+  };
+
+  const writeSectionTitle = (column: Column, title: string, fontSize: number, withRule: boolean) => {
+    const bodyLine = lineHeight(bodyStyle.size);
+    // Keep the title on the same page as the first lines of its section.
+    ensureSpace(column, lineHeight(fontSize) + 3 * bodyLine);
+    writeText(column, title.toUpperCase(), { size: fontSize, font: 'bold', color: palette.title });
+    if (withRule && template.sectionTitleStyle === 'rule') {
+      const ruleY = column.y - lineHeight(fontSize) + 1.5;
+      doc.setDrawColor(...palette.rule);
+      doc.setLineWidth(0.3);
+      doc.line(column.x, ruleY, column.x + column.width, ruleY);
+      column.y = ruleY + bodyLine + 1;
+    } else {
+      column.y += 1;
+    }
+  };
+
+  const addPhoto = (x: number, y: number, photoSize: number): boolean => {
+    if (!photo || !photoFormat) return false;
+    try {
+      doc.addImage(photo, photoFormat, x, y, photoSize, photoSize);
+      return true;
+    } catch (e) {
+      console.error("Error adding profile photo to PDF:", e);
+      return false;
+    }
+  };
+
+  const writeEntry = (column: Column, heading: string, dates: string, description?: string, highlights: string[] = []) => {
+    const headingStyle: TextStyle = { size: size(1.1), font: 'bold', color: palette.body };
+    const dateStyle: TextStyle = { size: size(0.95), font: 'italic', color: palette.muted };
+    ensureSpace(column, 2 * lineHeight(headingStyle.size) + lineHeight(bodyStyle.size));
+    if (dates && template.entryDates === 'inline') {
+      setStyle(dateStyle);
+      const datesWidth = doc.getTextWidth(dates);
+      doc.text(dates, column.x + column.width, column.y, { align: 'right' });
+      const headingColumn = { ...column, width: column.width - datesWidth - 4 };
+      writeText(headingColumn, heading, headingStyle);
+      column.page = headingColumn.page;
+      column.y = headingColumn.y;
+    } else {
+      writeText(column, heading, headingStyle);
+      if (dates) writeText(column, dates, dateStyle);
+    }
+    description?.split('\n').filter(line => line.trim()).forEach(line => writeText(column, line.trim(), bodyStyle));
+    highlights.forEach(highlight => writeText(column, `${template.bullet} ${highlight}`, { ...bodyStyle, indent: 2 }));
+    column.y += 2 * template.lineSpacing;
+  };
+
+  const contactEntries = getResumeContactEntries(resume, language);
+  const contactLines = template.contactStyle === 'inline'
+    ? (contactEntries.length > 0 ? [contactEntries.map(({ value }) => value).join('  ·  ')] : [])
+    : contactEntries.map(({ label, value }) => `${label}: ${value}`);
+  const fullName = (resume.fullName || 'Candidate Name').toUpperCase();
+  const profileParagraphs = resume.profile.split('\n').map(paragraph => paragraph.trim()).filter(Boolean);
+  const skillGroups = resume.skills.filter(group => group.items.length > 0);
+
+  const main: Column = twoColumn
+    ? { page: 1, y: margin, x: sidebarWidth + 5, width: pageWidth - sidebarWidth - 5 - margin }
+    : { page: 1, y: margin, x: margin, width: pageWidth - 2 * margin };
+  const mainTitleSize = size(twoColumn ? 1.45 : 1.3);
+
+  if (twoColumn) {
+    const side: Column = { page: 1, y: margin, x: margin / 2, width: sidebarWidth - margin };
+    const sideTitleSize = size(1.15);
+    const sideBody: TextStyle = { size: size(0.9), color: palette.body };
+
+    writeText(side, fullName, { size: size(1.9), font: 'bold', color: palette.name });
+    if (resume.headline) writeText(side, resume.headline, { size: size(1.05), font: 'italic', color: palette.title });
+    side.y += 3;
+
+    const photoSize = 35;
+    if (photoFormat) {
+      ensureSpace(side, photoSize + 7);
+      if (addPhoto((sidebarWidth - photoSize) / 2, side.y, photoSize)) side.y += photoSize + 7;
+    }
+
+    const writeSideSection = (title: string, lines: string[]) => {
+      if (lines.length === 0) return;
+      writeSectionTitle(side, title, sideTitleSize, false);
+      lines.forEach(line => writeText(side, line, sideBody));
+      side.y += sectionGap;
+    };
+    writeSideSection(getResumeSectionTitle('contact', language), contactLines);
+    writeSideSection(getResumeSectionTitle('profile', language), profileParagraphs);
+    writeSideSection(getResumeSectionTitle('languages', language), resume.languages.map(formatLanguage));
+    writeSideSection(getResumeSectionTitle('interests', language), resume.interests.length > 0 ? [resume.interests.join(', ')] : []);
+  } else {
+    const align = template.headerAlign;
+    const nameSize = size(2);
+    const header: Column = { ...main };
+    let photoBottom = 0;
+    if (photoFormat) {
+      const photoSize = 26 * scale;
+      // Top of the photo level with the top of the name.
+      const photoTop = margin - nameSize * 0.26;
+      if (addPhoto(pageWidth - margin - photoSize, photoTop, photoSize)) {
+        header.width -= photoSize + 5;
+        photoBottom = photoTop + photoSize;
+      }
+    }
+    writeText(header, fullName, { size: nameSize, font: 'bold', color: palette.name, align });
+    if (resume.headline) writeText(header, resume.headline, { size: size(1.15), font: 'italic', color: palette.title, align });
+    contactLines.forEach(line => writeText(header, line, { size: size(0.95), color: palette.body, align }));
+    main.y = Math.max(header.y, photoBottom) + sectionGap;
+
+    if (profileParagraphs.length > 0) {
+      writeSectionTitle(main, getResumeSectionTitle('profile', language), mainTitleSize, true);
+      profileParagraphs.forEach(paragraph => writeText(main, paragraph, bodyStyle));
+      main.y += sectionGap;
+    }
+  }
+
+  if (resume.experience.length > 0) {
+    writeSectionTitle(main, getResumeSectionTitle('experience', language), mainTitleSize, true);
+    resume.experience.forEach(job => writeEntry(
+      main,
+      [[job.position, job.company].filter(Boolean).join(', '), job.location].filter(Boolean).join(', '),
+      formatDateRange(job.startDate, job.endDate),
+      job.description,
+      job.highlights
+    ));
+    main.y += sectionGap - 2;
+  }
+
+  if (resume.education.length > 0) {
+    writeSectionTitle(main, getResumeSectionTitle('education', language), mainTitleSize, true);
+    resume.education.forEach(entry => writeEntry(
+      main,
+      [entry.degree, entry.institution, entry.location].filter(Boolean).join(', '),
+      formatDateRange(entry.startDate, entry.endDate),
+      entry.description
+    ));
+    main.y += sectionGap - 2;
+  }
+
+  if (skillGroups.length > 0) {
+    writeSectionTitle(main, getResumeSectionTitle('skills', language), mainTitleSize, true);
+    skillGroups.forEach(group => {
+      if (!twoColumn) {
+        writeText(main, formatSkillGroup(group), bodyStyle);
+        return;
+      }
+      if (group.category) {
+        ensureSpace(main, 2 * lineHeight(bodyStyle.size));
+        writeText(main, `${group.category}:`, { size: size(1.05), font: 'bold', color: palette.body });
+      }
+      writeText(main, group.items.join(', '), bodyStyle);
+      main.y += 2;
+    });
+    main.y += sectionGap;
+  }
+
+  if (!twoColumn) {
+    if (resume.languages.length > 0) {
+      writeSectionTitle(main, getResumeSectionTitle('languages', language), mainTitleSize, true);
+      writeText(main, resume.languages.map(formatLanguage).join('  ·  '), bodyStyle);
+      main.y += sectionGap;
+    }
+    if (resume.interests.length > 0) {
+      writeSectionTitle(main, getResumeSectionTitle('interests', language), mainTitleSize, true);
+      writeText(main, resume.interests.join(', '), bodyStyle);
+    }
+  }
+
+  return doc;
+}
@@ -0,0 +1,64 @@
+// src/lib/resume-rewrite.ts
+
+import { splitResumeTextSections, type ResumeSectionKey, type ResumeTextBlock } from '@/lib/resume-document';
+
+/** AI actions of the resume editor. "custom" follows the user's own instruction. */
+export const RESUME_REWRITE_ACTIONS = ['rewrite', 'quantify', 'shorten', 'custom'] as const;
+export type ResumeRewriteAction = typeof RESUME_REWRITE_ACTIONS[number];
+
+/** What an action applies to: the whole resume, one section, or one entry of a section (such as a job). */
+export const RESUME_REWRITE_SCOPES = ['resume', 'section', 'entry'] as const;
+export type ResumeRewriteScope = typeof RESUME_REWRITE_SCOPES[number];
+
+export interface ResumeRewriteTarget extends ResumeTextBlock {
+  /** Stable while the structure of the text does not change, e.g. "section:experience" or "entry:experience:1". */
+  id: string;
+  scope: ResumeRewriteScope;
+  section?: ResumeSectionKey;
+  /** Title of the section the target belongs to, as written in the text; empty for the whole resume. */
+  sectionTitle: string;
+  /** The section title, or the first line of the entry. */
+  label: string;
+}
+
+/** Sections whose entries can be rewritten one at a time. */
+const SECTIONS_WITH_ENTRIES: ResumeSectionKey[] = ['experience', 'education'];
+/** Facts the AI must never rewrite. */
+const PROTECTED_SECTIONS: (ResumeSectionKey | 'header')[] = ['header', 'contact'];
+
+/** Everything in the resume text an AI action can be applied to, in reading order. */
+export function getResumeRewriteTargets(text: string): ResumeRewriteTarget[] {
+  const lines = text.split('\n');
+  const targets: ResumeRewriteTarget[] = [];
+  if (text.trim()) {
+    targets.push({ id: 'resume', scope: 'resume', sectionTitle: '', label: '', startLine: 0, endLine: lines.length, text });
+  }
+  for (const section of splitResumeTextSections(text)) {
+    if (PROTECTED_SECTIONS.includes(section.section)) continue;
+    const key = section.section as ResumeSectionKey;
+    const { startLine, endLine, text: sectionText } = section;
+    const sectionTitle = section.title.replace(/:.*$/, '');
+    targets.push({ id: `section:${key}`, scope: 'section', section: key, sectionTitle, label: sectionTitle, startLine, endLine, text: sectionText });
+    if (SECTIONS_WITH_ENTRIES.includes(key) && section.entries.length > 1) {
+      section.entries.forEach((entry, index) => targets.push({
+        ...entry,
+        id: `entry:${key}:${index}`,
+        scope: 'entry',
+        section: key,
+        sectionTitle,
+        label: entry.text.split('\n')[0],
+      }));
+    }
+  }
+  return targets;
+}
+
+/**
+ * Puts `replacement` in place of the target's lines. Returns null when the text no longer holds the target
+ * as it was when the rewrite was requested, so a stale preview never overwrites newer edits.
+ */
+export function applyResumeRewrite(text: string, target: ResumeRewriteTarget, replacement: string): string | null {
+  const lines = text.split('\n');
+  if (lines.slice(target.startLine, target.endLine).join('\n') !== target.text) return null;
+  return [...lines.slice(0, target.startLine), ...replacement.trim().split('\n'), ...lines.slice(target.endLine)].join('\n');
+}
@@ -0,0 +1,165 @@
+// src/lib/resume-templates.ts
+
+import type { Locale } from '@/lib/translations';
+
+export const RESUME_PAPER_SIZES = ['a4', 'letter'] as const;
+export type ResumePaperSize = typeof RESUME_PAPER_SIZES[number];
+
+/** The standard PDF fonts, which jsPDF can use without embedding a font file. */
+export const RESUME_PDF_FONTS = ['helvetica', 'times', 'courier'] as const;
+export type ResumePdfFont = typeof RESUME_PDF_FONTS[number];
+
+/**
+ * How a resume PDF looks. Templates are plain data read by `renderResumePdf`; a new one only needs an entry in
+ * RESUME_TEMPLATES. Sizes are in points, distances in millimetres.
+ */
+export interface ResumeTemplate {
+  id: string;
+  name: Record<Locale, string>;
+  description: Record<Locale, string>;
+  /**
+   * "two-column" puts the name, photo, contact details, profile, languages and interests in a shaded sidebar and the
+   * experience, education and skills next to it; "single-column" stacks every section under a header.
+   */
+  layout: 'single-column' | 'two-column';
+  /** Default accent color (hex) for the name, section titles and rules. */
+  accentColor: string;
+  /** Default font. */
+  font: ResumePdfFont;
+  /** False for templates that must stay black and white, or without a photo, such as the ATS one. */
+  allowAccentColor: boolean;
+  allowPhoto: boolean;
+  margin: number;
+  bodySize: number;
+  /** Multiplies the line height of every text. */
+  lineSpacing: number;
+  /** Single-column header alignment. */
+  headerAlign: 'left' | 'center';
+  /** Contact details on one line separated by dots, or one labelled detail per line. */
+  contactStyle: 'inline' | 'lines';
+  /** "rule" underlines section titles in the accent color; "plain" only sets them in bold capitals. */
+  sectionTitleStyle: 'rule' | 'plain';
+  /** Dates of a job or degree on the right of its heading, or on their own line below it. */
+  entryDates: 'inline' | 'below';
+  bullet: string;
+  /** Text is made smaller, down to 80%, until the resume fits on one page. */
+  fitToOnePage?: boolean;
+}
+
+export const RESUME_TEMPLATES: ResumeTemplate[] = [
+  {
+    id: 'modern',
+    name: { en: 'Modern two-column', es: 'Moderna a dos columnas' },
+    description: {
+      en: 'Shaded sidebar with photo, contact details and profile; experience and education on the right.',
+      es: 'Barra lateral sombreada con foto, contacto y perfil; experiencia y formación a la derecha.',
+    },
+    layout: 'two-column',
+    accentColor: '#2c3e50',
+    font: 'helvetica',
+    allowAccentColor: true,
+    allowPhoto: true,
+    margin: 15,
+    bodySize: 9.5,
+    lineSpacing: 1,
+    headerAlign: 'left',
+    contactStyle: 'lines',
+    sectionTitleStyle: 'rule',
+    entryDates: 'below',
+    bullet: '•',
+  },
+  {
+    id: 'classic',
+    name: { en: 'Classic', es: 'Clásica' },
+    description: {
+      en: 'Single column with a centered header and serif type, as in a traditional Harvard-style resume.',
+      es: 'Una columna con encabezado centrado y tipografía con serifa, como un currículum tradicional estilo Harvard.',
+    },
+    layout: 'single-column',
+    accentColor: '#1f3a5f',
+    font: 'times',
+    allowAccentColor: true,
+    allowPhoto: true,
+    margin: 20,
+    bodySize: 10.5,
+    lineSpacing: 1,
+    headerAlign: 'center',
+    contactStyle: 'inline',
+    sectionTitleStyle: 'rule',
+    entryDates: 'inline',
+    bullet: '•',
+  },
+  {
+    id: 'compact',
+    name: { en: 'Compact one-page', es: 'Compacta de una página' },
+    description: {
+      en: 'Dense single column with small margins that shrinks the text to keep the resume on one page.',
+      es: 'Una columna densa con márgenes pequeños que reduce el texto para que el currículum quepa en una página.',
+    },
+    layout: 'single-column',
+    accentColor: '#0f766e',
+    font: 'helvetica',
+    allowAccentColor: true,
+    allowPhoto: true,
+    margin: 12,
+    bodySize: 9,
+    lineSpacing: 0.9,
+    headerAlign: 'left',
+    contactStyle: 'inline',
+    sectionTitleStyle: 'rule',
+    entryDates: 'inline',
+    bullet: '•',
+    fitToOnePage: true,
+  },
+  {
+    id: 'ats-plain',
+    name: { en: 'ATS plain', es: 'Sencilla para ATS' },
+    description: {
+      en: 'Black text in one column, without photo, colors or lines, for applicant tracking systems to read without trouble.',
+      es: 'Texto negro en una columna, sin foto, colores ni líneas, para que los sistemas de selección (ATS) lo lean sin problemas.',
+    },
+    layout: 'single-column',
+    accentColor: '#000000',
+    font: 'helvetica',
+    allowAccentColor: false,
+    allowPhoto: false,
+    margin: 20,
+    bodySize: 10.5,
+    lineSpacing: 1,
+    headerAlign: 'left',
+    contactStyle: 'lines',
+    sectionTitleStyle: 'plain',
+    entryDates: 'below',
+    bullet: '-',
+  },
+];
+
+export const DEFAULT_RESUME_TEMPLATE_ID = 'modern';
+
+/** The choices the user makes in the template gallery. */
+export interface ResumePdfSettings {
+  templateId: string;
+  accentColor: string;
+  font: ResumePdfFont;
+  paperSize: ResumePaperSize;
+  showPhoto: boolean;
+}
+
+export function getResumeTemplate(id: string | undefined): ResumeTemplate {
+  return RESUME_TEMPLATES.find(template => template.id === id)
+    || RESUME_TEMPLATES.find(template => template.id === DEFAULT_RESUME_TEMPLATE_ID)!;
+}
+
+export const isHexColor = (value: string) => /^#[0-9a-f]{6}$/i.test(value);
+
+/** Settings for a template, starting from its own accent color and font. */
+export function getDefaultResumePdfSettings(templateId = DEFAULT_RESUME_TEMPLATE_ID, current?: Pick<ResumePdfSettings, 'paperSize' | 'showPhoto'>): ResumePdfSettings {
+  const template = getResumeTemplate(templateId);
+  return {
+    templateId: template.id,
+    accentColor: template.accentColor,
+    font: template.font,
+    paperSize: current?.paperSize || 'a4',
+    showPhoto: current?.showPhoto ?? true,
+  };
+}
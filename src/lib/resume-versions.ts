@@ -0,0 +1,95 @@
+// src/lib/resume-versions.ts
+
+import type { AIResumeBuilderOutput } from '@/ai/flows/ai-resume-builder';
+import type { CompatibilityOutput } from '@/ai/flows/resume-compatibility-analysis';
+
+/** How a version came to be: written by the AI, saved from the editor, or copied from another version. */
+export const RESUME_VERSION_SOURCES = ['generated', 'edited', 'branch'] as const;
+export type ResumeVersionSource = typeof RESUME_VERSION_SOURCES[number];
+
+/** One tailored resume kept in the session's library, so regenerating never loses an earlier draft. */
+export interface ResumeVersion {
+  id: string;
+  /** 1-based, shown as "v1", "v2"... */
+  number: number;
+  createdAt: string;
+  source: ResumeVersionSource;
+  text: string;
+  /** Version this one was edited or branched from. */
+  parentId?: string;
+  /** The job offer the resume was tailored to: its title (or first line) and URL. */
+  jobOfferTitle: string;
+  jobOfferUrl?: string;
+  /** Full builder output of generated versions, so restoring one brings back its document and explanation. */
+  builderResult?: AIResumeBuilderOutput;
+  /** Analysis of the version against its job offer, when one was run. */
+  compatibility?: CompatibilityOutput;
+}
+
+export type NewResumeVersion = Omit<ResumeVersion, 'id' | 'number' | 'createdAt'>;
+
+/** The id can be chosen up front, so a state updater that runs twice still creates the same version. */
+export const createResumeVersion = (versions: ResumeVersion[], version: NewResumeVersion, id: string = crypto.randomUUID()): ResumeVersion => ({
+  ...version,
+  id,
+  number: versions.reduce((max, existing) => Math.max(max, existing.number), 0) + 1,
+  createdAt: new Date().toISOString(),
+});
+
+/** One row of a side-by-side diff. Changed rows pair a removed line with the added line that replaced it. */
+export interface ResumeDiffRow {
+  kind: 'same' | 'added' | 'removed' | 'changed';
+  left?: string;
+  right?: string;
+}
+
+/** Longest common subsequence table of two line lists, filled from the end. */
+function lcsTable(a: string[], b: string[]): Uint32Array[] {
+  const table = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      table[i][j] = a[i] === b[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  return table;
+}
+
+/**
+ * Line diff of two resumes for a side-by-side view. Trailing spaces are ignored; runs of removed and added
+ * lines are paired row by row so a reworded line shows next to its original.
+ */
+export function diffResumeText(before: string, after: string): ResumeDiffRow[] {
+  const a = before.split('\n').map(line => line.trimEnd());
+  const b = after.split('\n').map(line => line.trimEnd());
+  const table = lcsTable(a, b);
+  const rows: ResumeDiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      const left = removed[k];
+      const right = added[k];
+      rows.push({ kind: left !== undefined && right !== undefined ? 'changed' : left !== undefined ? 'removed' : 'added', left, right });
+    }
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ kind: 'same', left: a[i], right: b[j] });
+      i++;
+      j++;
+    } else if (j < b.length && (i === a.length || table[i][j + 1] >= table[i + 1][j])) {
+      added.push(b[j++]);
+    } else {
+      removed.push(a[i++]);
+    }
+  }
+  flush();
+  return rows;
+}
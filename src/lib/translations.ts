@@ -20,6 +20,24 @@ export const translations: Record<Locale, Record<string, string>> = {
     findJobsButton: 'Find Jobs',
     previousButton: 'Previous',
     startOverButton: 'Start Over',
+    // Wizard sessions
+    sessionSaving: 'Saving...',
+    sessionSaved: 'All changes saved',
+    sessionSaveFailed: 'Could not save your progress in this browser',
+    sessionHistoryButton: 'History',
+    sessionHistoryTitle: 'Session History',
+    sessionHistoryDescription: 'Your previous sessions are saved in this browser. Open one to continue where you left it.',
+    sessionHistoryEmpty: 'No saved sessions yet.',
+    sessionUntitled: 'Untitled session',
+    sessionCurrentBadge: 'Current',
+    sessionOpenButton: 'Open',
+    sessionDeleteButton: 'Delete {title}',
+    sessionResumePromptTitle: 'Resume where you left off?',
+    sessionResumePromptDescription: 'Your last session, "{title}", was saved on {date}.',
+    sessionResumeButton: 'Resume',
+    sessionStartFreshButton: 'Start fresh',
+    sessionNotFoundTitle: 'Session Not Found',
+    sessionNotFoundDescription: 'This session is no longer saved in this browser or on the server.',
     // InformationGatheringStep
     jobOfferDetailsTitle: 'Job Offer Details',
     jobOfferDescription: 'Provide the job offer information. Paste the full text for best results.',
@@ -30,18 +48,143 @@ export const translations: Record<Locale, Record<string, string>> = {
     jobOfferTextPlaceholder: 'Paste the full job description here...',
     jobOfferUrlLabel: 'Job Offer URL',
     jobOfferUrlPlaceholder: 'https://example.com/job-posting',
+    step2BatchTitle: 'Compare Job Offers',
+    analyzeBatchButton: 'Compare Offers',
+    offerModeSingle: 'One offer',
+    offerModeBatch: 'Several offers',
+    batchJobOffersDescription: 'Compare your resume against several job offers at once and choose which one to tailor it to.',
+    batchJobOffersLabel: 'Job Offers',
+    batchJobOffersPlaceholder: 'https://example.com/job-1\nhttps://example.com/job-2\n---\nPaste a full job description here...\n---\nAnother job description...',
+    batchJobOffersCount: '{count} offers (maximum {max}). Put one URL per line, or separate pasted descriptions with a line containing only "---".',
+    batchMissingInfoDescription: 'Please add at least one job offer and your resume (text or file).',
+    batchTooManyOffersDescription: 'You can compare at most {max} job offers at a time.',
+    analyzingBatchMessage: 'Comparing your resume against every offer. This may take a few minutes...',
+    batchComparisonTitle: 'Offer Comparison',
+    batchComparisonDescription: 'Your resume compared against {count} job offers. Sort by any column and tailor your resume to the offer you prefer.',
+    batchComparisonFailedCount: '{count} offers could not be analyzed.',
+    batchColumnOffer: 'Offer',
+    batchColumnScore: 'Score',
+    batchColumnMustHaves: 'Must-haves met',
+    batchColumnAts: 'ATS',
+    batchColumnActions: 'Actions',
+    batchViewOfferLink: 'View offer',
+    batchOfferFailed: 'Analysis failed: {error}',
+    batchTailorButton: 'Tailor',
+    navCandidate: 'Candidate',
+    navRecruiter: 'Recruiter',
+    navMyData: 'My data',
+    navApplications: 'Applications',
+    trackerTitle: 'Application Tracker',
+    trackerSubtitle: 'Follow every job offer you saved or applied to, from first look to final answer.',
+    trackerAddButton: 'Add Application',
+    trackerAddTitle: 'New Application',
+    trackerEditTitle: 'Application',
+    trackerEditDescription: 'Keep the status, contacts, notes and a follow-up reminder for this offer. Drag the card between columns to change its status.',
+    trackerJobTitleLabel: 'Job Title',
+    trackerCompanyLabel: 'Company',
+    trackerLocationLabel: 'Location',
+    trackerStatusLabel: 'Status',
+    trackerReminderLabel: 'Reminder',
+    trackerJobOfferUrlLabel: 'Job Offer URL',
+    trackerContactsLabel: 'Contacts',
+    trackerAddContactButton: 'Add contact',
+    trackerRemoveContactButton: 'Remove contact',
+    trackerNoContacts: 'No contacts yet.',
+    trackerContactNamePlaceholder: 'Name',
+    trackerContactRolePlaceholder: 'Role',
+    trackerContactEmailPlaceholder: 'Email',
+    trackerContactPhonePlaceholder: 'Phone',
+    trackerNotesLabel: 'Notes',
+    trackerTailoredResumeLabel: 'Tailored Resume Sent',
+    trackerSaveButton: 'Save',
+    trackerDeleteButton: 'Delete',
+    trackerEmptyColumn: 'Drop an application here.',
+    trackerScoreBadge: 'Score {score}',
+    trackerStatusSince: 'Since {date}',
+    trackerRemindersTitle: '{count} reminder(s) due',
+    trackerStorageDisabledTitle: 'Application Tracking Unavailable',
+    trackerStorageDisabledDescription: 'This installation does not store any candidate data, so applications cannot be tracked.',
+    trackerErrorTitle: 'Application Tracker Error',
+    trackerTrackOfferButton: 'Add to Tracker',
+    trackerTrackPostingButton: 'Track',
+    trackerTrackedButton: 'Tracked',
+    trackerAddedTitle: 'Added to Tracker',
+    trackerAddedDescription: '"{title}" is now in your application tracker.',
+    trackerConsentTitle: 'Store your data to track this offer?',
+    trackerConsentDescription: 'The tracker keeps the offer, your tailored resume and its score on our server. Agreeing turns on "Store my resume and analyses" for this session. You can export or erase your data at any time from My data.',
+    trackerConsentCancelButton: 'Cancel',
+    trackerConsentConfirmButton: 'Agree and Track',
+    trackerPageConsentDescription: 'The tracker keeps your applications, their contacts and notes on our server, tied to a data access key created in this browser. You can export or erase them at any time from My data.',
+    trackerConsentSaveButton: 'Agree and Save',
+    applicationStatus_saved: 'Saved',
+    applicationStatus_applied: 'Applied',
+    applicationStatus_interview: 'Interview',
+    applicationStatus_offer: 'Offer',
+    applicationStatus_rejected: 'Rejected',
+    recruiterTitle: 'Recruiter Mode',
+    recruiterSubtitle: 'Rank many resumes against one job offer.',
+    recruiterJobOfferDescription: 'Paste the vacancy or enter its URL. Every resume is compared against it.',
+    recruiterResumesTitle: 'Candidate Resumes',
+    recruiterResumesDescription: 'Upload up to {max} resumes (PDF, DOCX, ODT or RTF, 10MB each).',
+    recruiterResumeFilesLabel: 'Resume Files',
+    recruiterTooManyResumesDescription: 'You can rank at most {max} resumes at a time; the extra files were not added.',
+    recruiterSkippedFileDescription: '{fileName} was skipped: only PDF, DOCX, ODT and RTF files up to 10MB are supported.',
+    recruiterMissingInfoDescription: 'Please provide the job offer (text or URL) and at least one resume.',
+    recruiterRemoveResume: 'Remove {fileName}',
+    recruiterResumeStatus_pending: 'Pending',
+    recruiterResumeStatus_analyzing: 'Analyzing...',
+    recruiterResumeStatus_done: 'Analyzed',
+    recruiterResumeStatus_failed: 'Failed',
+    recruiterProgress: '{done} of {total} resumes analyzed',
+    recruiterRankButton: 'Rank Candidates',
+    recruiterRankingButton: 'Ranking...',
+    recruiterAnalysisFailed: 'Analysis failed: {error}',
+    shortlistTitle: 'Shortlist',
+    shortlistDescription: 'Candidates ranked by compatibility score, then by must-have requirements met.',
+    shortlistExportCsvButton: 'Export CSV',
+    shortlistColumnRank: '#',
+    shortlistColumnCandidate: 'Candidate',
+    shortlistColumnName: 'Name',
+    shortlistColumnEmail: 'Email',
+    shortlistColumnScore: 'Score',
+    shortlistColumnMustHaves: 'Must-haves met',
+    shortlistColumnSkills: 'Skills',
+    shortlistColumnExperience: 'Experience',
+    shortlistColumnFile: 'File',
+    shortlistColumnError: 'Error',
+    myDataTitle: 'My Data',
+    myDataSubtitle: 'Export or erase everything stored about you.',
+    myDataRequestTitle: 'Your Stored Data',
+    myDataRequestDescription: 'Your data is found by your data access key, created in this browser when you agreed to have your data stored. Keep a copy of it to manage your data from another device.',
+    myDataKeyLabel: 'Data Access Key',
+    myDataKeyPlaceholder: 'Paste your data access key',
+    myDataNoKeyHint: 'This browser has no data access key: it never agreed to have data stored. Paste the key from the browser that did.',
+    myDataMissingInfoDescription: 'Please enter your data access key.',
+    myDataExportButton: 'Export as JSON',
+    myDataEraseButton: 'Erase My Data',
+    myDataEraseConfirmTitle: 'Erase your data?',
+    myDataEraseConfirmDescription: 'Every resume, analysis, wizard session and tracked application stored with this key will be permanently erased. This cannot be undone.',
+    myDataEraseConfirmButton: 'Erase',
+    myDataCancelButton: 'Cancel',
+    myDataExportedTitle: 'Data Exported',
+    myDataExportedDescription: '{count} stored records were downloaded.',
+    myDataNothingStoredDescription: 'Nothing is stored with this key.',
+    myDataErasedTitle: 'Data Erased',
+    myDataErasedDescription: '{count} stored records were erased.',
+    myDataStorageDisabledDescription: 'This installation does not store any candidate data.',
+    myDataErrorTitle: 'Request Failed',
     jobOfferTextOrUrl: 'Tip: If you provide a URL, pasting text is optional.',
     candidateInfoTitle: 'Candidate Information',
     candidateInfoDescription: 'Provide your resume details and a profile photo.',
     candidateInfoDescriptionEnhanced: 'Provide your resume: paste text directly OR upload a PDF.',
-    candidateInfoDescriptionEnhancedFileUpload: 'Provide your resume: paste text directly OR upload a PDF file.',
+    candidateInfoDescriptionEnhancedFileUpload: 'Provide your resume: paste text directly OR upload a PDF, Word, OpenDocument, RTF or JSON Resume file.',
     resumeTextLabel: 'Resume Text',
     resumeTextPlaceholder: 'Paste your full resume text here...',
     resumePdfHint: 'You can also upload a PDF, but please ensure its text content is pasted above for AI processing.',
     resumeTextOrPdf: 'Tip: If you upload a PDF, pasting text is optional.',
-    resumeTextOrFile: 'Tip: If you upload a PDF file, pasting text is optional.',
+    resumeTextOrFile: 'Tip: If you upload a resume file, pasting text is optional.',
     resumePdfLabel: 'Upload Resume PDF',
-    resumeFileLabel: 'Upload Resume File (PDF)',
+    resumeFileLabel: 'Upload Resume File (PDF, DOCX, ODT, RTF or JSON Resume)',
     fileUploadedLabel: 'File uploaded',
     profilePhotoLabel: 'Profile Photo (Optional)',
     profilePhotoPreviewAlt: 'Profile Preview',
@@ -49,14 +192,20 @@ export const translations: Record<Locale, Record<string, string>> = {
     profilePhotoPlaceholder: 'Preview',
     languageForResumeLabel: 'Language for Resume',
     selectLanguagePlaceholder: 'Select language',
+    storageConsentLabel: 'Store my resume and analyses',
+    storageConsentDescription: 'Optional. Lets us keep your resume text, contact details and work history with the analysis results. Without it nothing is stored. You can export or erase your data at any time from',
+    storageConsentMyDataLink: 'My data.',
     orSeparator: 'OR',
     // Toasts / Errors / Loading
     missingInfoTitle: 'Missing Information',
     missingInfoDescription: 'Please provide job offer (text or URL) and resume (text or PDF).',
-    missingInfoDescriptionEnhanced: 'Please provide job offer (text or URL) and resume (text or PDF).',
+    missingInfoDescriptionEnhanced: 'Please provide job offer (text or URL) and resume (text or file).',
     fileErrorTitle: 'File Error',
     mimeTypeMissingDescription: 'Could not determine file type for the uploaded resume. Please try again.',
-    mimeTypeMissingDescriptionBuild: 'Resume file type is missing or not PDF. Cannot build resume.',
+    mimeTypeMissingDescriptionBuild: 'Resume file type is missing or not supported. Cannot build resume.',
+    unsupportedResumeFileDescription: 'Please select a PDF, Word (.docx), OpenDocument (.odt), RTF or JSON Resume file.',
+    resumeFileUploadedTitle: 'Resume Uploaded',
+    resumeFileServerExtractionDescription: 'The text of {fileName} will be extracted when the analysis starts.',
     aiErrorTitle: 'AI Error',
     aiUnexpectedErrorDescription: 'An unexpected error occurred with the AI service.',
     missingResumeTitle: 'Missing Resume',
@@ -79,8 +228,117 @@ export const translations: Record<Locale, Record<string, string>> = {
     tailoredResumeContentTitle: "Tailored Resume Content (Editable):",
     downloadAsTextButton: "Download as Text",
     downloadAsPdfButton: "Download as PDF",
+    downloadAsJsonResumeButton: "Download JSON Resume",
+    downloadAsDocxButton: "Download DOCX",
+    resumeTabLabel: "Resume",
+    coverLetterTabLabel: "Cover Letter",
+    resumeVersionsTabLabel: "Versions ({count})",
+    resumeVersionsDescription: "Every generated resume and every version you save is kept here, with the job offer it was tailored to and its score.",
+    resumeVersionsSaveButton: "Save current draft",
+    resumeVersionsEmpty: "No versions yet.",
+    resumeVersionsColumnVersion: "Version",
+    resumeVersionsColumnOffer: "Job offer",
+    resumeVersionsColumnScore: "Score",
+    resumeVersionsColumnDate: "Created",
+    resumeVersionsColumnActions: "Actions",
+    resumeVersionsActiveBadge: "In editor",
+    resumeVersionsFrom: "from {version}",
+    resumeVersionsCompareButton: "Compare {version} with the current draft",
+    resumeVersionsRestoreButton: "Restore {version}",
+    resumeVersionsBranchButton: "Branch from {version}",
+    resumeVersionsDiffTitle: "Compare Versions",
+    resumeVersionsDiffLeftLabel: "Before",
+    resumeVersionsDiffRightLabel: "After",
+    resumeVersionsOriginalOption: "Original resume",
+    resumeVersionsDraftOption: "Current draft",
+    resumeVersionsDiffIdentical: "Both texts are identical.",
+    resumeVersionsDiffChangedLines: "{count} line(s) differ.",
+    sectionRewriteTitle: "AI edit",
+    sectionRewriteTargetLabel: "Apply to",
+    sectionRewriteNoTargets: "Nothing to edit yet",
+    sectionRewriteWholeResume: "Whole resume",
+    sectionRewriteActionLabel: "Action",
+    sectionRewriteAction_rewrite: "Rewrite for this job",
+    sectionRewriteAction_quantify: "Quantify achievements",
+    sectionRewriteAction_shorten: "Shorten",
+    sectionRewriteAction_shortenToOnePage: "Shorten to one page",
+    sectionRewriteAction_custom: "Custom instruction",
+    sectionRewritePreviewButton: "Preview",
+    sectionRewriteInstructionsPlaceholder: "e.g., Emphasize leadership and team size",
+    sectionRewritePreviewTitle: "Proposed change",
+    sectionRewriteCurrentLabel: "Current",
+    sectionRewriteProposedLabel: "Proposed",
+    sectionRewriteDiscardButton: "Discard",
+    sectionRewriteApplyButton: "Apply",
+    sectionRewriteStaleTitle: "The text has changed",
+    sectionRewriteStaleDescription: "This part of the resume was edited after the preview was made. Preview the change again.",
+    sectionRewriteMissingInfoDescription: "The resume text and a job offer are needed to edit the resume with AI.",
+    sectionRewritingMessage: "Rewriting the selected text...",
+    resumeClaimsTitle: "{count} claim(s) not found in your resume",
+    resumeClaimsDescription: "These facts are not backed by your original resume. Confirm each one that is true or delete it; the resume can be downloaded once all are reviewed.",
+    resumeClaimsNoEvidence: "No matching text was found in your original resume.",
+    resumeClaimsShowButton: "Show in editor",
+    resumeClaimsConfirmButton: "It's true",
+    resumeClaimsDeleteButton: "Delete",
+    resumeClaimsAllSupported: "Every claim of this resume is backed by your original resume.",
+    resumeClaimsAllReviewed: "All flagged claims have been reviewed.",
+    resumeClaimsNotChecked: "The claims of this resume could not be checked against your original resume. Review it carefully before sending it.",
+    resumeClaimsDownloadBlocked: "Review the {count} flagged claim(s) above to download the resume.",
+    resumeClaimCategory_employer: "Employer",
+    resumeClaimCategory_position: "Job title",
+    resumeClaimCategory_date: "Date",
+    resumeClaimCategory_degree: "Degree",
+    resumeClaimCategory_certification: "Certification",
+    resumeClaimCategory_skill: "Skill",
+    resumeClaimCategory_language: "Language",
+    resumeClaimCategory_metric: "Figure",
+    resumeClaimCategory_achievement: "Achievement",
+    resumeClaimCategory_other: "Other",
+    resumeTemplatesTitle: "PDF Templates",
+    resumeTemplatesDescription: "Choose a template and adjust it; the preview shows the PDF exactly as it will be downloaded.",
+    resumeTemplatesGalleryLabel: "Templates",
+    resumeTemplatesAccentColorLabel: "Accent color",
+    resumeTemplatesFontLabel: "Font",
+    resumeTemplatesFont_helvetica: "Helvetica (sans-serif)",
+    resumeTemplatesFont_times: "Times (serif)",
+    resumeTemplatesFont_courier: "Courier (monospaced)",
+    resumeTemplatesPaperSizeLabel: "Paper size",
+    resumeTemplatesPaperSize_a4: "A4",
+    resumeTemplatesPaperSize_letter: "US Letter",
+    resumeTemplatesShowPhotoLabel: "Show photo",
+    resumeTemplatesPlainNote: "This template is kept free of colors and photos so applicant tracking systems can read it.",
+    resumeTemplatesNoPhotoNote: "Upload a profile photo in step 1 to add it to the PDF.",
+    resumeTemplatesPreviewLabel: "Preview",
+    resumeTemplatesPageCount: "{count} page(s)",
+    resumeTemplatesDownloadButton: "Download PDF",
+    resumeVersionSource_generated: "Generated",
+    resumeVersionSource_edited: "Edited",
+    resumeVersionSource_branch: "Branch",
+    coverLetterDescription: "Generate a cover letter for this job offer from your tailored resume. Choose the tone, length and who it is addressed to.",
+    coverLetterToneLabel: "Tone",
+    coverLetterTone_professional: "Professional",
+    coverLetterTone_enthusiastic: "Enthusiastic",
+    coverLetterTone_friendly: "Friendly",
+    coverLetterTone_confident: "Confident",
+    coverLetterLengthLabel: "Length",
+    coverLetterLength_short: "Short (~200 words)",
+    coverLetterLength_medium: "Medium (~300 words)",
+    coverLetterLength_long: "Long (~450 words)",
+    coverLetterAddresseeLabel: "Addressed to (optional)",
+    coverLetterAddresseePlaceholder: "e.g., Ms. Laura Gómez, Hiring Manager",
+    generateCoverLetterButton: "Generate Cover Letter",
+    regenerateCoverLetterButton: "Regenerate Cover Letter",
+    generatingCoverLetterMessage: "Writing your cover letter...",
+    coverLetterPlaceholder: "Your cover letter will appear here.",
+    editableCoverLetterNote: "You can edit the cover letter before downloading it.",
+    coverLetterMissingInfoDescription: "A tailored resume and the job description are needed to write the cover letter.",
+    docxExportErrorTitle: "DOCX Export Error",
+    jsonResumeExportErrorTitle: "JSON Resume Export Error",
+    jsonResumeImportedTitle: "JSON Resume Imported",
+    jsonResumeImportedDescription: "Loaded {fileName} into the resume text.",
+    jsonResumeInvalidTitle: "Invalid JSON Resume",
     regenerateResumeButton: "Regenerate Resume",
-    pdfDownloadNote: "The PDF version attempts to match a professional resume style using the content above.",
+    pdfDownloadNote: "The PDF button opens a template gallery with a live preview, where you can choose the layout, colors, font, paper size and photo.",
     explanationOfModificationsTitle: "Explanation of Modifications:",
     happyWithResumePrompt: "Happy with your new resume? Click \"Find Jobs\" to discover opportunities matching this CV.",
     compatibilityImprovementTitle: "Compatibility Improvement",
@@ -97,6 +355,53 @@ export const translations: Record<Locale, Record<string, string>> = {
     aiCompatibilityReportDescription: "Here's how your current resume matches the job offer.",
     compatibilityScoreLabel: "Compatibility Score",
     aiExplanationLabel: "AI Explanation:",
+    scoreBreakdownTitle: "Score Breakdown",
+    scoreBreakdownDescription: "The score combines reproducible checks of your resume against the offer with the AI's assessment.",
+    scoreComponent_keywords: "Keyword overlap",
+    scoreComponent_experience: "Years of experience",
+    scoreComponent_seniority: "Seniority",
+    scoreComponent_languages: "Language requirements",
+    scoreComponent_llm: "AI assessment",
+    scoreComponentNotApplicable: "Not required by the offer",
+    scoreComponentWeight: "weight {weight}%",
+    llmRawScoreLabel: "Score given by the AI alone: {score}%",
+    requirementChecklistTitle: "Requirement Checklist",
+    requirementChecklistSummary: "{matched} matched · {partial} partial · {missing} missing",
+    requirementStatus_matched: "Matched",
+    requirementStatus_partial: "Partially matched",
+    requirementStatus_missing: "Missing",
+    requirementMustHave: "Must-have",
+    requirementNiceToHave: "Nice-to-have",
+    requirementWeightLabel: "Weight {weight}/5",
+    requirementNoEvidence: "No evidence found in your resume.",
+    atsReportTitle: "ATS Readiness",
+    atsReportDescription: "How an applicant tracking system is likely to read your resume: the offer's keywords it will look for and what may keep it from parsing the file.",
+    atsReadiness_good: "Ready",
+    atsReadiness_fair: "Needs attention",
+    atsReadiness_poor: "At risk",
+    atsSeverity_high: "High risk",
+    atsSeverity_medium: "Medium risk",
+    atsSeverity_low: "Low risk",
+    atsNoHazards: "No parsing problems found.",
+    atsLayoutCheckSkipped: "The resume file is too large to send again, so its layout (columns, tables, images) was not checked.",
+    atsHazard_extraction_failed: "The uploaded file could not be read. An ATS will probably not read it either.",
+    atsHazard_image_only_pages: "Pages {pages} have no selectable text (scanned or exported as images). Most ATS cannot read them.",
+    atsHazard_multi_column: "Pages {pages} use several columns. Some ATS read across the columns and mix up the content.",
+    atsHazard_tables: "The document uses tables. Their content may be skipped or read out of order.",
+    atsHazard_images: "The document contains {items} image(s). Text inside images (icons, charts, logos) is ignored.",
+    atsHazard_missing_email: "No email address found.",
+    atsHazard_missing_phone: "No phone number found.",
+    atsHazard_missing_sections: "Sections not found: {items}. Use standard headings so the ATS can classify your information.",
+    atsHazard_unusual_headings: "Unusual headings: {items}. An ATS may not recognise these sections.",
+    atsSection_experience: "Experience",
+    atsSection_education: "Education",
+    atsSection_skills: "Skills",
+    atsKeywordColumn: "Keyword",
+    atsSynonymsColumn: "Also accepted",
+    atsKeywordsFoundSummary: "{found}/{total} found",
+    atsKeywordFound: "Found",
+    atsKeywordFoundAs: "Found as \"{term}\"",
+    atsKeywordMissing: "Missing",
     adviceVeryLowTitle: "Very Low Compatibility",
     adviceVeryLowMessage: "Your resume has a very low match with the job offer (less than 60%). It's highly recommended to significantly revise your resume, focusing on highlighting any existing skills and experiences that align with the job description. Consider if this role is a good fit or if your resume needs substantial tailoring.",
     adviceModerateTitle: "Moderate Compatibility",
@@ -112,8 +417,38 @@ export const translations: Record<Locale, Record<string, string>> = {
     noJobPostingsFound: "No job postings found based on your new resume. You might want to refine your resume or try again later.",
     jobListingsPlaceholder: "Job listings based on your new resume will appear here.",
     curatedJobOpportunitiesTitle: "Curated Job Opportunities",
-    curatedJobOpportunitiesDescription: "Here are 10 job postings in Spain that match your AI-tailored resume.",
-    jobPostingLinkText: "Job Posting {index}: {link}",
+    curatedJobOpportunitiesDescription: "Here are up to 10 job postings in {location}, ranked by how well they match your AI-tailored resume.",
+    jobMatchScore: "{score}% match",
+    jobMatchReasonLabel: "Why it matches:",
+    jobSearchFiltersTitle: "Search filters",
+    jobSearchCountryLabel: "Country",
+    jobSearchCityLabel: "City (optional)",
+    jobSearchCityPlaceholder: "e.g., Madrid",
+    jobSearchRadiusLabel: "Radius (km)",
+    jobSearchWorkModeLabel: "Work mode",
+    workMode_any: "Any",
+    workMode_remote: "Remote",
+    workMode_hybrid: "Hybrid",
+    workMode_onsite: "On-site",
+    jobSearchUpdateButton: "Update Search",
+    viewJobPostingLink: "View posting",
+    linkStatus_valid: "Link verified",
+    linkStatus_unverified: "Not verified",
+    linkStatus_invalid: "Broken link",
+    jobFilterTextLabel: "Filter",
+    jobFilterTextPlaceholder: "Title, company, location...",
+    jobFilterPortalLabel: "Portal",
+    jobFilterAllPortals: "All portals",
+    jobFilterStatusLabel: "Link status",
+    jobFilterStatusReachable: "Hide broken links",
+    jobFilterStatusAll: "All links",
+    jobSortLabel: "Sort by",
+    jobSortRelevance: "Best match",
+    jobSortNewest: "Newest first",
+    jobSortTitle: "Job title",
+    jobSortCompany: "Company",
+    jobResultsCount: "Showing {shown} of {total} postings",
+    noJobPostingsMatchFilters: "No postings match the current filters.",
     goodLuckPrompt: "Good luck with your applications! Click \"Start Over\" to process another job offer.",
     // Loading Indicator
     loadingMessageDefault: "Processing...",
@@ -133,6 +468,17 @@ export const translations: Record<Locale, Record<string, string>> = {
     sectionTitle_Skills_es: "HABILIDADES",
     sectionTitle_Languages_es: "IDIOMAS",
     sectionTitle_Interests_es: "INTERESES",
+    resumeLabel_Email: "Email",
+    resumeLabel_Phone: "Phone",
+    resumeLabel_Location: "Location",
+    resumeLabel_Website: "Website",
+    resumeLabel_LinkedIn: "LinkedIn",
+    resumeLabel_GitHub: "GitHub",
+    resumeLabel_DateOfBirth: "Date of Birth",
+    sectionTitle_Projects: "PROJECTS",
+    sectionTitle_Certificates: "CERTIFICATES",
+    sectionTitle_Awards: "AWARDS",
+    sectionTitle_Publications: "PUBLICATIONS",
   },
   es: {
     // AppHeader
@@ -151,6 +497,24 @@ export const translations: Record<Locale, Record<string, string>> = {
     findJobsButton: 'Buscar Empleos',
     previousButton: 'Anterior',
     startOverButton: 'Empezar de Nuevo',
+    // Wizard sessions
+    sessionSaving: 'Guardando...',
+    sessionSaved: 'Todos los cambios guardados',
+    sessionSaveFailed: 'No se ha podido guardar tu progreso en este navegador',
+    sessionHistoryButton: 'Historial',
+    sessionHistoryTitle: 'Historial de Sesiones',
+    sessionHistoryDescription: 'Tus sesiones anteriores se guardan en este navegador. Abre una para continuar donde la dejaste.',
+    sessionHistoryEmpty: 'Todavía no hay sesiones guardadas.',
+    sessionUntitled: 'Sesión sin título',
+    sessionCurrentBadge: 'Actual',
+    sessionOpenButton: 'Abrir',
+    sessionDeleteButton: 'Eliminar {title}',
+    sessionResumePromptTitle: '¿Continuar donde lo dejaste?',
+    sessionResumePromptDescription: 'Tu última sesión, "{title}", se guardó el {date}.',
+    sessionResumeButton: 'Continuar',
+    sessionStartFreshButton: 'Empezar de cero',
+    sessionNotFoundTitle: 'Sesión No Encontrada',
+    sessionNotFoundDescription: 'Esta sesión ya no está guardada en este navegador ni en el servidor.',
     // InformationGatheringStep
     jobOfferDetailsTitle: 'Detalles de la Oferta de Empleo',
     jobOfferDescription: 'Proporcione la información de la oferta de empleo. Pegue el texto completo para obtener los mejores resultados.',
@@ -161,18 +525,143 @@ export const translations: Record<Locale, Record<string, string>> = {
     jobOfferTextPlaceholder: 'Pegue la descripción completa del trabajo aquí...',
     jobOfferUrlLabel: 'URL de la Oferta de Empleo',
     jobOfferUrlPlaceholder: 'https://ejemplo.com/oferta-trabajo',
+    step2BatchTitle: 'Comparar Ofertas de Empleo',
+    analyzeBatchButton: 'Comparar Ofertas',
+    offerModeSingle: 'Una oferta',
+    offerModeBatch: 'Varias ofertas',
+    batchJobOffersDescription: 'Compara tu currículum con varias ofertas a la vez y elige a cuál adaptarlo.',
+    batchJobOffersLabel: 'Ofertas de Empleo',
+    batchJobOffersPlaceholder: 'https://ejemplo.com/oferta-1\nhttps://ejemplo.com/oferta-2\n---\nPega aquí una descripción completa...\n---\nOtra descripción de oferta...',
+    batchJobOffersCount: '{count} ofertas (máximo {max}). Pon una URL por línea o separa las descripciones pegadas con una línea que solo contenga "---".',
+    batchMissingInfoDescription: 'Añade al menos una oferta de empleo y tu currículum (texto o archivo).',
+    batchTooManyOffersDescription: 'Puedes comparar como máximo {max} ofertas a la vez.',
+    analyzingBatchMessage: 'Comparando tu currículum con cada oferta. Puede tardar unos minutos...',
+    batchComparisonTitle: 'Comparativa de Ofertas',
+    batchComparisonDescription: 'Tu currículum comparado con {count} ofertas. Ordena por cualquier columna y adapta tu currículum a la oferta que prefieras.',
+    batchComparisonFailedCount: 'No se han podido analizar {count} ofertas.',
+    batchColumnOffer: 'Oferta',
+    batchColumnScore: 'Puntuación',
+    batchColumnMustHaves: 'Imprescindibles cumplidos',
+    batchColumnAts: 'ATS',
+    batchColumnActions: 'Acciones',
+    batchViewOfferLink: 'Ver oferta',
+    batchOfferFailed: 'Error en el análisis: {error}',
+    batchTailorButton: 'Adaptar',
+    navCandidate: 'Candidato',
+    navRecruiter: 'Reclutador',
+    navMyData: 'Mis datos',
+    navApplications: 'Candidaturas',
+    trackerTitle: 'Seguimiento de Candidaturas',
+    trackerSubtitle: 'Sigue cada oferta que guardaste o a la que te postulaste, desde el primer vistazo hasta la respuesta final.',
+    trackerAddButton: 'Añadir Candidatura',
+    trackerAddTitle: 'Nueva Candidatura',
+    trackerEditTitle: 'Candidatura',
+    trackerEditDescription: 'Guarda el estado, los contactos, las notas y un recordatorio de seguimiento de esta oferta. Arrastra la tarjeta entre columnas para cambiar su estado.',
+    trackerJobTitleLabel: 'Puesto',
+    trackerCompanyLabel: 'Empresa',
+    trackerLocationLabel: 'Ubicación',
+    trackerStatusLabel: 'Estado',
+    trackerReminderLabel: 'Recordatorio',
+    trackerJobOfferUrlLabel: 'URL de la Oferta',
+    trackerContactsLabel: 'Contactos',
+    trackerAddContactButton: 'Añadir contacto',
+    trackerRemoveContactButton: 'Quitar contacto',
+    trackerNoContacts: 'Aún no hay contactos.',
+    trackerContactNamePlaceholder: 'Nombre',
+    trackerContactRolePlaceholder: 'Cargo',
+    trackerContactEmailPlaceholder: 'Email',
+    trackerContactPhonePlaceholder: 'Teléfono',
+    trackerNotesLabel: 'Notas',
+    trackerTailoredResumeLabel: 'Currículum Adaptado Enviado',
+    trackerSaveButton: 'Guardar',
+    trackerDeleteButton: 'Eliminar',
+    trackerEmptyColumn: 'Suelta aquí una candidatura.',
+    trackerScoreBadge: 'Puntuación {score}',
+    trackerStatusSince: 'Desde {date}',
+    trackerRemindersTitle: '{count} recordatorio(s) pendiente(s)',
+    trackerStorageDisabledTitle: 'Seguimiento de Candidaturas No Disponible',
+    trackerStorageDisabledDescription: 'Esta instalación no almacena datos de candidatos, así que no se pueden seguir candidaturas.',
+    trackerErrorTitle: 'Error en el Seguimiento de Candidaturas',
+    trackerTrackOfferButton: 'Añadir al Seguimiento',
+    trackerTrackPostingButton: 'Seguir',
+    trackerTrackedButton: 'En seguimiento',
+    trackerAddedTitle: 'Añadida al Seguimiento',
+    trackerAddedDescription: '"{title}" ya está en tu seguimiento de candidaturas.',
+    trackerConsentTitle: '¿Guardar tus datos para seguir esta oferta?',
+    trackerConsentDescription: 'El seguimiento conserva la oferta, tu currículum adaptado y su puntuación en nuestro servidor. Al aceptar se activa "Guardar mi currículum y mis análisis" en esta sesión. Puedes exportar o borrar tus datos cuando quieras desde Mis datos.',
+    trackerConsentCancelButton: 'Cancelar',
+    trackerConsentConfirmButton: 'Aceptar y Seguir',
+    trackerPageConsentDescription: 'El seguimiento conserva tus candidaturas, sus contactos y tus notas en nuestro servidor, ligados a una clave de acceso creada en este navegador. Puedes exportarlos o borrarlos cuando quieras desde Mis datos.',
+    trackerConsentSaveButton: 'Aceptar y Guardar',
+    applicationStatus_saved: 'Guardada',
+    applicationStatus_applied: 'Postulada',
+    applicationStatus_interview: 'Entrevista',
+    applicationStatus_offer: 'Oferta',
+    applicationStatus_rejected: 'Rechazada',
+    recruiterTitle: 'Modo Reclutador',
+    recruiterSubtitle: 'Ordena muchos currículums frente a una misma oferta.',
+    recruiterJobOfferDescription: 'Pega la vacante o introduce su URL. Todos los currículums se comparan con ella.',
+    recruiterResumesTitle: 'Currículums de Candidatos',
+    recruiterResumesDescription: 'Sube hasta {max} currículums (PDF, DOCX, ODT o RTF, 10MB cada uno).',
+    recruiterResumeFilesLabel: 'Archivos de Currículum',
+    recruiterTooManyResumesDescription: 'Puedes ordenar como máximo {max} currículums a la vez; los archivos sobrantes no se han añadido.',
+    recruiterSkippedFileDescription: 'Se ha omitido {fileName}: solo se admiten archivos PDF, DOCX, ODT y RTF de hasta 10MB.',
+    recruiterMissingInfoDescription: 'Indica la oferta de empleo (texto o URL) y al menos un currículum.',
+    recruiterRemoveResume: 'Quitar {fileName}',
+    recruiterResumeStatus_pending: 'Pendiente',
+    recruiterResumeStatus_analyzing: 'Analizando...',
+    recruiterResumeStatus_done: 'Analizado',
+    recruiterResumeStatus_failed: 'Error',
+    recruiterProgress: '{done} de {total} currículums analizados',
+    recruiterRankButton: 'Ordenar Candidatos',
+    recruiterRankingButton: 'Ordenando...',
+    recruiterAnalysisFailed: 'Error en el análisis: {error}',
+    shortlistTitle: 'Preselección',
+    shortlistDescription: 'Candidatos ordenados por puntuación de compatibilidad y, después, por requisitos imprescindibles cumplidos.',
+    shortlistExportCsvButton: 'Exportar CSV',
+    shortlistColumnRank: '#',
+    shortlistColumnCandidate: 'Candidato',
+    shortlistColumnName: 'Nombre',
+    shortlistColumnEmail: 'Email',
+    shortlistColumnScore: 'Puntuación',
+    shortlistColumnMustHaves: 'Imprescindibles cumplidos',
+    shortlistColumnSkills: 'Habilidades',
+    shortlistColumnExperience: 'Experiencia',
+    shortlistColumnFile: 'Archivo',
+    shortlistColumnError: 'Error',
+    myDataTitle: 'Mis Datos',
+    myDataSubtitle: 'Exporta o borra todo lo que guardamos sobre ti.',
+    myDataRequestTitle: 'Tus Datos Guardados',
+    myDataRequestDescription: 'Tus datos se buscan por tu clave de acceso, que se creó en este navegador cuando aceptaste que se guardaran. Guarda una copia para gestionarlos desde otro dispositivo.',
+    myDataKeyLabel: 'Clave de Acceso a los Datos',
+    myDataKeyPlaceholder: 'Pega tu clave de acceso a los datos',
+    myDataNoKeyHint: 'Este navegador no tiene clave de acceso: nunca aceptó que se guardaran datos. Pega la clave del navegador que sí lo hizo.',
+    myDataMissingInfoDescription: 'Introduce tu clave de acceso a los datos.',
+    myDataExportButton: 'Exportar como JSON',
+    myDataEraseButton: 'Borrar Mis Datos',
+    myDataEraseConfirmTitle: '¿Borrar tus datos?',
+    myDataEraseConfirmDescription: 'Se borrarán definitivamente todos los currículums, análisis, sesiones del asistente y candidaturas guardados con esta clave. No se puede deshacer.',
+    myDataEraseConfirmButton: 'Borrar',
+    myDataCancelButton: 'Cancelar',
+    myDataExportedTitle: 'Datos Exportados',
+    myDataExportedDescription: 'Se han descargado {count} registros guardados.',
+    myDataNothingStoredDescription: 'No hay nada guardado con esta clave.',
+    myDataErasedTitle: 'Datos Borrados',
+    myDataErasedDescription: 'Se han borrado {count} registros guardados.',
+    myDataStorageDisabledDescription: 'Esta instalación no guarda datos de candidatos.',
+    myDataErrorTitle: 'Error en la Solicitud',
     jobOfferTextOrUrl: 'Consejo: Si proporciona una URL, pegar el texto es opcional.',
     candidateInfoTitle: 'Información del Candidato',
     candidateInfoDescription: 'Proporcione los detalles de su currículum y una foto de perfil.',
     candidateInfoDescriptionEnhanced: 'Proporcione su currículum: pegue el texto directamente O cargue un PDF.',
-    candidateInfoDescriptionEnhancedFileUpload: 'Proporcione su currículum: pegue el texto directamente O cargue un archivo PDF.',
+    candidateInfoDescriptionEnhancedFileUpload: 'Proporcione su currículum: pegue el texto directamente O cargue un archivo PDF, Word, OpenDocument, RTF o JSON Resume.',
     resumeTextLabel: 'Texto del Currículum',
     resumeTextPlaceholder: 'Pegue el texto completo de su currículum aquí...',
     resumePdfHint: 'También puede cargar un PDF, pero asegúrese de que su contenido de texto esté pegado arriba para el procesamiento de la IA.',
     resumeTextOrPdf: 'Consejo: Si carga un PDF, pegar el texto es opcional.',
-    resumeTextOrFile: 'Consejo: Si carga un archivo PDF, pegar el texto es opcional.',
+    resumeTextOrFile: 'Consejo: Si carga un archivo de currículum, pegar el texto es opcional.',
     resumePdfLabel: 'Cargar Currículum PDF',
-    resumeFileLabel: 'Cargar Archivo de Currículum (PDF)',
+    resumeFileLabel: 'Cargar Archivo de Currículum (PDF, DOCX, ODT, RTF o JSON Resume)',
     fileUploadedLabel: 'Archivo cargado',
     profilePhotoLabel: 'Foto de Perfil (Opcional)',
     profilePhotoPreviewAlt: 'Vista Previa de Perfil',
@@ -180,14 +669,20 @@ export const translations: Record<Locale, Record<string, string>> = {
     profilePhotoPlaceholder: 'Vista Previa',
     languageForResumeLabel: 'Idioma para el Currículum',
     selectLanguagePlaceholder: 'Seleccionar idioma',
+    storageConsentLabel: 'Guardar mi currículum y mis análisis',
+    storageConsentDescription: 'Opcional. Nos permite conservar el texto de tu currículum, tus datos de contacto y tu experiencia laboral junto a los resultados del análisis. Sin este permiso no se guarda nada. Puedes exportar o borrar tus datos cuando quieras desde',
+    storageConsentMyDataLink: 'Mis datos.',
     orSeparator: 'O',
     // Toasts / Errors / Loading
     missingInfoTitle: 'Información Faltante',
     missingInfoDescription: 'Por favor, proporcione la oferta de empleo (texto o URL) y el currículum (texto o PDF).',
-    missingInfoDescriptionEnhanced: 'Por favor, proporcione la oferta de empleo (texto o URL) y el currículum (texto o PDF).',
+    missingInfoDescriptionEnhanced: 'Por favor, proporcione la oferta de empleo (texto o URL) y el currículum (texto o archivo).',
     fileErrorTitle: 'Error de Archivo',
     mimeTypeMissingDescription: 'No se pudo determinar el tipo de archivo para el currículum cargado. Por favor, inténtalo de nuevo.',
-    mimeTypeMissingDescriptionBuild: 'Falta el tipo de archivo del currículum. No se puede crear el currículum.',
+    mimeTypeMissingDescriptionBuild: 'Falta el tipo de archivo del currículum o no es compatible. No se puede crear el currículum.',
+    unsupportedResumeFileDescription: 'Selecciona un archivo PDF, Word (.docx), OpenDocument (.odt), RTF o JSON Resume.',
+    resumeFileUploadedTitle: 'Currículum cargado',
+    resumeFileServerExtractionDescription: 'El texto de {fileName} se extraerá al iniciar el análisis.',
     aiErrorTitle: 'Error de IA',
     aiUnexpectedErrorDescription: 'Ocurrió un error inesperado con el servicio de IA.',
     missingResumeTitle: 'Falta Currículum',
@@ -210,8 +705,117 @@ export const translations: Record<Locale, Record<string, string>> = {
     tailoredResumeContentTitle: "Contenido del Currículum Personalizado (Editable):",
     downloadAsTextButton: "Descargar como Texto",
     downloadAsPdfButton: "Descargar como PDF",
+    downloadAsJsonResumeButton: "Descargar JSON Resume",
+    downloadAsDocxButton: "Descargar DOCX",
+    resumeTabLabel: "Currículum",
+    coverLetterTabLabel: "Carta de presentación",
+    resumeVersionsTabLabel: "Versiones ({count})",
+    resumeVersionsDescription: "Aquí se guarda cada currículum generado y cada versión que guardes, con la oferta a la que se adaptó y su puntuación.",
+    resumeVersionsSaveButton: "Guardar borrador actual",
+    resumeVersionsEmpty: "Aún no hay versiones.",
+    resumeVersionsColumnVersion: "Versión",
+    resumeVersionsColumnOffer: "Oferta",
+    resumeVersionsColumnScore: "Puntuación",
+    resumeVersionsColumnDate: "Creada",
+    resumeVersionsColumnActions: "Acciones",
+    resumeVersionsActiveBadge: "En el editor",
+    resumeVersionsFrom: "desde {version}",
+    resumeVersionsCompareButton: "Comparar {version} con el borrador actual",
+    resumeVersionsRestoreButton: "Restaurar {version}",
+    resumeVersionsBranchButton: "Crear rama desde {version}",
+    resumeVersionsDiffTitle: "Comparar Versiones",
+    resumeVersionsDiffLeftLabel: "Antes",
+    resumeVersionsDiffRightLabel: "Después",
+    resumeVersionsOriginalOption: "Currículum original",
+    resumeVersionsDraftOption: "Borrador actual",
+    resumeVersionsDiffIdentical: "Ambos textos son idénticos.",
+    resumeVersionsDiffChangedLines: "{count} línea(s) distintas.",
+    sectionRewriteTitle: "Edición con IA",
+    sectionRewriteTargetLabel: "Aplicar a",
+    sectionRewriteNoTargets: "Aún no hay nada que editar",
+    sectionRewriteWholeResume: "Currículum completo",
+    sectionRewriteActionLabel: "Acción",
+    sectionRewriteAction_rewrite: "Reescribir para esta oferta",
+    sectionRewriteAction_quantify: "Cuantificar logros",
+    sectionRewriteAction_shorten: "Acortar",
+    sectionRewriteAction_shortenToOnePage: "Acortar a una página",
+    sectionRewriteAction_custom: "Instrucción personalizada",
+    sectionRewritePreviewButton: "Vista previa",
+    sectionRewriteInstructionsPlaceholder: "p. ej., Destaca el liderazgo y el tamaño del equipo",
+    sectionRewritePreviewTitle: "Cambio propuesto",
+    sectionRewriteCurrentLabel: "Actual",
+    sectionRewriteProposedLabel: "Propuesto",
+    sectionRewriteDiscardButton: "Descartar",
+    sectionRewriteApplyButton: "Aplicar",
+    sectionRewriteStaleTitle: "El texto ha cambiado",
+    sectionRewriteStaleDescription: "Esta parte del currículum se editó después de generar la vista previa. Vuelve a generarla.",
+    sectionRewriteMissingInfoDescription: "Se necesitan el texto del currículum y una oferta para editarlo con IA.",
+    sectionRewritingMessage: "Reescribiendo el texto seleccionado...",
+    resumeClaimsTitle: "{count} dato(s) que no aparecen en tu currículum",
+    resumeClaimsDescription: "Tu currículum original no respalda estos datos. Confirma los que sean ciertos o elimínalos; podrás descargar el currículum cuando los hayas revisado todos.",
+    resumeClaimsNoEvidence: "No se encontró texto que lo respalde en tu currículum original.",
+    resumeClaimsShowButton: "Mostrar en el editor",
+    resumeClaimsConfirmButton: "Es cierto",
+    resumeClaimsDeleteButton: "Eliminar",
+    resumeClaimsAllSupported: "Tu currículum original respalda todos los datos de este currículum.",
+    resumeClaimsAllReviewed: "Has revisado todos los datos señalados.",
+    resumeClaimsNotChecked: "No se pudieron comprobar los datos de este currículum con tu currículum original. Revísalo con atención antes de enviarlo.",
+    resumeClaimsDownloadBlocked: "Revisa los {count} dato(s) señalados arriba para descargar el currículum.",
+    resumeClaimCategory_employer: "Empresa",
+    resumeClaimCategory_position: "Puesto",
+    resumeClaimCategory_date: "Fecha",
+    resumeClaimCategory_degree: "Titulación",
+    resumeClaimCategory_certification: "Certificación",
+    resumeClaimCategory_skill: "Habilidad",
+    resumeClaimCategory_language: "Idioma",
+    resumeClaimCategory_metric: "Cifra",
+    resumeClaimCategory_achievement: "Logro",
+    resumeClaimCategory_other: "Otro",
+    resumeTemplatesTitle: "Plantillas PDF",
+    resumeTemplatesDescription: "Elige una plantilla y ajústala; la vista previa muestra el PDF tal y como se descargará.",
+    resumeTemplatesGalleryLabel: "Plantillas",
+    resumeTemplatesAccentColorLabel: "Color de acento",
+    resumeTemplatesFontLabel: "Tipografía",
+    resumeTemplatesFont_helvetica: "Helvetica (sin serifa)",
+    resumeTemplatesFont_times: "Times (con serifa)",
+    resumeTemplatesFont_courier: "Courier (monoespaciada)",
+    resumeTemplatesPaperSizeLabel: "Tamaño de papel",
+    resumeTemplatesPaperSize_a4: "A4",
+    resumeTemplatesPaperSize_letter: "Carta (EE. UU.)",
+    resumeTemplatesShowPhotoLabel: "Mostrar foto",
+    resumeTemplatesPlainNote: "Esta plantilla no lleva colores ni foto para que los sistemas de selección (ATS) puedan leerla.",
+    resumeTemplatesNoPhotoNote: "Sube una foto de perfil en el paso 1 para añadirla al PDF.",
+    resumeTemplatesPreviewLabel: "Vista previa",
+    resumeTemplatesPageCount: "{count} página(s)",
+    resumeTemplatesDownloadButton: "Descargar PDF",
+    resumeVersionSource_generated: "Generada",
+    resumeVersionSource_edited: "Editada",
+    resumeVersionSource_branch: "Rama",
+    coverLetterDescription: "Genera una carta de presentación para esta oferta a partir de tu currículum adaptado. Elige el tono, la extensión y a quién va dirigida.",
+    coverLetterToneLabel: "Tono",
+    coverLetterTone_professional: "Profesional",
+    coverLetterTone_enthusiastic: "Entusiasta",
+    coverLetterTone_friendly: "Cercano",
+    coverLetterTone_confident: "Seguro",
+    coverLetterLengthLabel: "Extensión",
+    coverLetterLength_short: "Corta (~200 palabras)",
+    coverLetterLength_medium: "Media (~300 palabras)",
+    coverLetterLength_long: "Larga (~450 palabras)",
+    coverLetterAddresseeLabel: "Dirigida a (opcional)",
+    coverLetterAddresseePlaceholder: "p. ej., Sra. Laura Gómez, Responsable de selección",
+    generateCoverLetterButton: "Generar carta de presentación",
+    regenerateCoverLetterButton: "Regenerar carta de presentación",
+    generatingCoverLetterMessage: "Redactando tu carta de presentación...",
+    coverLetterPlaceholder: "Tu carta de presentación aparecerá aquí.",
+    editableCoverLetterNote: "Puedes editar la carta de presentación antes de descargarla.",
+    coverLetterMissingInfoDescription: "Se necesitan el currículum adaptado y la descripción de la oferta para redactar la carta.",
+    docxExportErrorTitle: "Error al exportar DOCX",
+    jsonResumeExportErrorTitle: "Error al exportar JSON Resume",
+    jsonResumeImportedTitle: "JSON Resume importado",
+    jsonResumeImportedDescription: "Se ha cargado {fileName} en el texto del currículum.",
+    jsonResumeInvalidTitle: "JSON Resume no válido",
     regenerateResumeButton: "Regenerar Currículum",
-    pdfDownloadNote: "La versión PDF intenta asemejarse a un estilo de currículum profesional utilizando el contenido de arriba.",
+    pdfDownloadNote: "El botón PDF abre una galería de plantillas con vista previa, donde puedes elegir el diseño, los colores, la tipografía, el tamaño de papel y la foto.",
     explanationOfModificationsTitle: "Explicación de las Modificaciones:",
     happyWithResumePrompt: "Contento con tu nuevo currículum? Haz clic en \"Buscar Empleos\" para descubrir oportunidades que coincidan con este CV.",
     compatibilityImprovementTitle: "Mejora de Compatibilidad",
@@ -228,6 +832,53 @@ export const translations: Record<Locale, Record<string, string>> = {
     aiCompatibilityReportDescription: "Así es como tu currículum actual coincide con la oferta de empleo.",
     compatibilityScoreLabel: "Puntuación de Compatibilidad",
     aiExplanationLabel: "Explicación de IA:",
+    scoreBreakdownTitle: "Desglose de la puntuación",
+    scoreBreakdownDescription: "La puntuación combina comprobaciones reproducibles de tu currículum frente a la oferta con la valoración de la IA.",
+    scoreComponent_keywords: "Palabras clave",
+    scoreComponent_experience: "Años de experiencia",
+    scoreComponent_seniority: "Nivel de seniority",
+    scoreComponent_languages: "Requisitos de idiomas",
+    scoreComponent_llm: "Valoración de la IA",
+    scoreComponentNotApplicable: "La oferta no lo exige",
+    scoreComponentWeight: "peso {weight}%",
+    llmRawScoreLabel: "Puntuación dada solo por la IA: {score}%",
+    requirementChecklistTitle: "Requisitos de la oferta",
+    requirementChecklistSummary: "{matched} cumplidos · {partial} parciales · {missing} sin cubrir",
+    requirementStatus_matched: "Cumplido",
+    requirementStatus_partial: "Cumplido en parte",
+    requirementStatus_missing: "Sin cubrir",
+    requirementMustHave: "Imprescindible",
+    requirementNiceToHave: "Deseable",
+    requirementWeightLabel: "Peso {weight}/5",
+    requirementNoEvidence: "No se ha encontrado evidencia en tu currículum.",
+    atsReportTitle: "Preparación para ATS",
+    atsReportDescription: "Cómo es probable que un sistema de seguimiento de candidatos (ATS) lea tu currículum: las palabras clave de la oferta que buscará y lo que puede impedirle procesar el archivo.",
+    atsReadiness_good: "Preparado",
+    atsReadiness_fair: "Mejorable",
+    atsReadiness_poor: "En riesgo",
+    atsSeverity_high: "Riesgo alto",
+    atsSeverity_medium: "Riesgo medio",
+    atsSeverity_low: "Riesgo bajo",
+    atsNoHazards: "No se han encontrado problemas de lectura.",
+    atsLayoutCheckSkipped: "El archivo del currículum es demasiado grande para enviarlo de nuevo, así que no se ha revisado su formato (columnas, tablas, imágenes).",
+    atsHazard_extraction_failed: "No se ha podido leer el archivo subido. Probablemente un ATS tampoco pueda.",
+    atsHazard_image_only_pages: "Las páginas {pages} no tienen texto seleccionable (escaneadas o exportadas como imagen). La mayoría de los ATS no pueden leerlas.",
+    atsHazard_multi_column: "Las páginas {pages} usan varias columnas. Algunos ATS leen de una columna a otra y mezclan el contenido.",
+    atsHazard_tables: "El documento usa tablas. Su contenido puede omitirse o leerse desordenado.",
+    atsHazard_images: "El documento contiene {items} imagen(es). El texto dentro de imágenes (iconos, gráficos, logotipos) se ignora.",
+    atsHazard_missing_email: "No se ha encontrado ninguna dirección de correo electrónico.",
+    atsHazard_missing_phone: "No se ha encontrado ningún número de teléfono.",
+    atsHazard_missing_sections: "Secciones no encontradas: {items}. Usa encabezados estándar para que el ATS clasifique tu información.",
+    atsHazard_unusual_headings: "Encabezados poco habituales: {items}. Un ATS puede no reconocer estas secciones.",
+    atsSection_experience: "Experiencia",
+    atsSection_education: "Formación",
+    atsSection_skills: "Habilidades",
+    atsKeywordColumn: "Palabra clave",
+    atsSynonymsColumn: "También válido",
+    atsKeywordsFoundSummary: "{found}/{total} encontradas",
+    atsKeywordFound: "Encontrada",
+    atsKeywordFoundAs: "Encontrada como \"{term}\"",
+    atsKeywordMissing: "No encontrada",
     adviceVeryLowTitle: "Compatibilidad Muy Baja",
     adviceVeryLowMessage: "Tu currículum tiene una coincidencia muy baja con la oferta de empleo (menos del 60%). Se recomienda encarecidamente revisar significativamente tu currículum, centrándote en destacar cualquier habilidad y experiencia existente que se alinee con la descripción del trabajo. Considera si este puesto es adecuado o si tu currículum necesita una adaptación sustancial.",
     adviceModerateTitle: "Compatibilidad Moderada",
@@ -243,8 +894,38 @@ export const translations: Record<Locale, Record<string, string>> = {
     noJobPostingsFound: "No se encontraron ofertas de empleo basadas en tu nuevo currículum. Quizás quieras refinar tu currículum o intentarlo de nuevo más tarde.",
     jobListingsPlaceholder: "Las ofertas de empleo basadas en tu nuevo currículum aparecerán aquí.",
     curatedJobOpportunitiesTitle: "Oportunidades de Empleo que te podrían interesar",
-    curatedJobOpportunitiesDescription: "Aquí hay 10 ofertas de empleo en España que coinciden con tu currículum adaptado por IA.",
-    jobPostingLinkText: "Oferta de Empleo {index}: {link}",
+    curatedJobOpportunitiesDescription: "Aquí tienes hasta 10 ofertas de empleo en {location}, ordenadas según su compatibilidad con tu currículum adaptado por IA.",
+    jobMatchScore: "{score}% de compatibilidad",
+    jobMatchReasonLabel: "Por qué encaja:",
+    jobSearchFiltersTitle: "Filtros de búsqueda",
+    jobSearchCountryLabel: "País",
+    jobSearchCityLabel: "Ciudad (opcional)",
+    jobSearchCityPlaceholder: "p. ej., Madrid",
+    jobSearchRadiusLabel: "Radio (km)",
+    jobSearchWorkModeLabel: "Modalidad",
+    workMode_any: "Cualquiera",
+    workMode_remote: "Remoto",
+    workMode_hybrid: "Híbrido",
+    workMode_onsite: "Presencial",
+    jobSearchUpdateButton: "Actualizar búsqueda",
+    viewJobPostingLink: "Ver oferta",
+    linkStatus_valid: "Enlace verificado",
+    linkStatus_unverified: "Sin verificar",
+    linkStatus_invalid: "Enlace roto",
+    jobFilterTextLabel: "Filtrar",
+    jobFilterTextPlaceholder: "Puesto, empresa, ubicación...",
+    jobFilterPortalLabel: "Portal",
+    jobFilterAllPortals: "Todos los portales",
+    jobFilterStatusLabel: "Estado del enlace",
+    jobFilterStatusReachable: "Ocultar enlaces rotos",
+    jobFilterStatusAll: "Todos los enlaces",
+    jobSortLabel: "Ordenar por",
+    jobSortRelevance: "Mejor coincidencia",
+    jobSortNewest: "Más recientes",
+    jobSortTitle: "Puesto",
+    jobSortCompany: "Empresa",
+    jobResultsCount: "Mostrando {shown} de {total} ofertas",
+    noJobPostingsMatchFilters: "Ninguna oferta coincide con los filtros actuales.",
     goodLuckPrompt: "¡Mucha suerte con tus solicitudes! Haz clic en \"Empezar de Nuevo\" para procesar otra oferta de empleo.",
     // Loading Indicator
     loadingMessageDefault: "Procesando...",
@@ -257,6 +938,17 @@ export const translations: Record<Locale, Record<string, string>> = {
     sectionTitle_Skills: "HABILIDADES",
     sectionTitle_Languages: "IDIOMAS",
     sectionTitle_Interests: "INTERESES",
+    resumeLabel_Email: "Email",
+    resumeLabel_Phone: "Teléfono",
+    resumeLabel_Location: "Dirección",
+    resumeLabel_Website: "Web",
+    resumeLabel_LinkedIn: "LinkedIn",
+    resumeLabel_GitHub: "GitHub",
+    resumeLabel_DateOfBirth: "Fecha de nacimiento",
+    sectionTitle_Projects: "PROYECTOS",
+    sectionTitle_Certificates: "CERTIFICACIONES",
+    sectionTitle_Awards: "PREMIOS",
+    sectionTitle_Publications: "PUBLICACIONES",
   },
 };
 
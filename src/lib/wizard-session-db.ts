@@ -0,0 +1,68 @@
+// src/lib/wizard-session-db.ts
+
+import { summarizeWizardSession, type WizardSession, type WizardSessionSummary } from '@/lib/wizard-session';
+
+const DB_NAME = 'nailedjob';
+const DB_VERSION = 1;
+const SESSION_STORE = 'wizardSessions';
+/** Older sessions are dropped from the browser once there are more than this. */
+export const MAX_LOCAL_WIZARD_SESSIONS = 20;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(SESSION_STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch(error => {
+      dbPromise = null;
+      throw error;
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(mode: IDBTransactionMode, task: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase();
+  return requestToPromise(task(db.transaction(SESSION_STORE, mode).objectStore(SESSION_STORE)));
+}
+
+export const getLocalWizardSession = async (id: string): Promise<WizardSession | null> =>
+  (await withStore('readonly', store => store.get(id))) ?? null;
+
+/** All sessions stored in this browser, most recently updated first. */
+export async function listLocalWizardSessions(): Promise<WizardSessionSummary[]> {
+  const sessions: WizardSession[] = await withStore('readonly', store => store.index('updatedAt').getAll());
+  return sessions.reverse().map(summarizeWizardSession);
+}
+
+/**
+ * Drops the oldest sessions beyond the limit. Runs after every autosave, so it only counts the sessions and reads the
+ * ids of the oldest ones from the updatedAt index, never the sessions themselves with their uploaded files.
+ */
+async function pruneLocalWizardSessions(): Promise<void> {
+  const count = await withStore('readonly', store => store.count());
+  if (count <= MAX_LOCAL_WIZARD_SESSIONS) return;
+  const oldestIds = await withStore('readonly', store => store.index('updatedAt').getAllKeys(null, count - MAX_LOCAL_WIZARD_SESSIONS));
+  await Promise.all(oldestIds.map(id => deleteLocalWizardSession(String(id))));
+}
+
+export async function saveLocalWizardSession(session: WizardSession): Promise<void> {
+  await withStore('readwrite', store => store.put(session));
+  await pruneLocalWizardSessions();
+}
+
+export async function deleteLocalWizardSession(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+}
@@ -0,0 +1,71 @@
+'use server';
+
+/**
+ * @fileOverview Server-side copies of candidate wizard sessions, keyed by session id. The browser always keeps its
+ * own copy in IndexedDB; the server copy is only written for users who agreed to storage, and only when
+ * WIZARD_SESSION_STORAGE_BACKEND is set. Each copy belongs to the data access key that saved it: loading,
+ * overwriting or deleting it needs the same key, so knowing a session id is not enough.
+ *
+ * - saveServerWizardSession - Creates or replaces the server copy of a session.
+ * - loadServerWizardSession - Returns the server copy of a session, if any.
+ * - deleteServerWizardSession - Removes the server copy of a session.
+ */
+
+import { hashDataAccessKey, runRetentionPurgeIfDue } from '@/lib/candidate-repository/data-protection';
+import { isWizardSessionId, withoutUploadedFiles, type WizardSession } from '@/lib/wizard-session';
+import { getWizardSessionStore, type StoredWizardSession, type WizardSessionStore } from '@/lib/wizard-session-store';
+
+export interface SaveWizardSessionRequest {
+  session: WizardSession;
+  /** Ties the copy to its owner, so only they can load it and "My data" can export and erase it. */
+  dataAccessKey: string;
+}
+
+export interface WizardSessionRequest {
+  id: string;
+  dataAccessKey: string;
+}
+
+function validateId(id: string) {
+  if (!isWizardSessionId(id)) throw new Error('Invalid wizard session id.');
+}
+
+function validateKey(dataAccessKey: string) {
+  if (!dataAccessKey || dataAccessKey.trim().length < 16) throw new Error('A valid data access key is required.');
+}
+
+/** The stored session, when it belongs to the owner of the key; sessions of other owners are reported as missing. */
+async function findOwnedSession(store: WizardSessionStore, { id, dataAccessKey }: WizardSessionRequest): Promise<StoredWizardSession | null> {
+  const stored = await store.get(id);
+  return stored && stored.ownerKeyHash === hashDataAccessKey(dataAccessKey) ? stored : null;
+}
+
+/** Returns false when server-side session storage is disabled. */
+export async function saveServerWizardSession({ session, dataAccessKey }: SaveWizardSessionRequest): Promise<boolean> {
+  validateId(session.id);
+  validateKey(dataAccessKey);
+  const store = await getWizardSessionStore();
+  if (!store) return false;
+  // The browser already leaves the uploaded files out; this keeps them out of storage whatever a client sends.
+  const saved = await store.put({ ...session, state: withoutUploadedFiles(session.state), ownerKeyHash: hashDataAccessKey(dataAccessKey) });
+  if (!saved) throw new Error('Wizard session not found.');
+  await runRetentionPurgeIfDue(store, 'wizard-session');
+  return true;
+}
+
+export async function loadServerWizardSession(request: WizardSessionRequest): Promise<WizardSession | null> {
+  validateId(request.id);
+  validateKey(request.dataAccessKey);
+  const store = await getWizardSessionStore();
+  const stored = store ? await findOwnedSession(store, request) : null;
+  if (!stored) return null;
+  const { ownerKeyHash, ...session } = stored;
+  return session;
+}
+
+export async function deleteServerWizardSession(request: WizardSessionRequest): Promise<void> {
+  validateId(request.id);
+  validateKey(request.dataAccessKey);
+  const store = await getWizardSessionStore();
+  if (store && await findOwnedSession(store, request)) await store.delete(request.id);
+}
@@ -0,0 +1,74 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { getPiiKeyring, type PiiKeyring } from '@/lib/candidate-repository/pii-encryption';
+import type { WizardSessionState } from '@/lib/wizard-session';
+import { createEncryptedWizardSessionStore, rotateWizardSessionEncryptionKeys } from '@/lib/wizard-session-store/encrypted-store';
+import { createFileWizardSessionStore } from '@/lib/wizard-session-store/file-store';
+import type { StoredWizardSession, WizardSessionStore } from '@/lib/wizard-session-store/types';
+
+const RESUME_TEXT = 'Ada Lovelace, ada@example.com, analytical engine programmer';
+
+const randomKey = () => crypto.randomBytes(32).toString('base64');
+
+function createKeyring(keys: string): PiiKeyring {
+  return getPiiKeyring({ CANDIDATE_ENCRYPTION_KEYS: keys, CANDIDATE_BLIND_INDEX_KEY: randomKey() })!;
+}
+
+function createSession(ownerKeyHash: string, resumeText = RESUME_TEXT): StoredWizardSession {
+  return {
+    id: '0b6f4a52-3c1d-4e8f-9a7b-2d5c6e7f8a9b',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    title: 'Engine programmer',
+    state: { currentStep: 2, formState: { resumeText } } as unknown as WizardSessionState,
+    ownerKeyHash,
+  };
+}
+
+describe('wizard session stores', () => {
+  let directory: string;
+  let inner: WizardSessionStore;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'nailedjob-sessions-'));
+    inner = createFileWizardSessionStore(directory);
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('refuses to overwrite a session saved by another owner', async () => {
+    const session = createSession('owner-a');
+    expect(await inner.put(session)).toBe(true);
+    expect(await inner.put(createSession('owner-b', 'Replaced'))).toBe(false);
+    expect(await inner.get(session.id)).toEqual(session);
+  });
+
+  it('keeps the session contents encrypted on disk and returns them decrypted', async () => {
+    const store = createEncryptedWizardSessionStore(inner, createKeyring(`k1:${randomKey()}`));
+    const session = createSession('owner-a');
+    await store.put(session);
+
+    const onDisk = await fs.readFile(path.join(directory, `${session.id}.json`), 'utf-8');
+    expect(onDisk).not.toContain('Ada Lovelace');
+    expect(onDisk).not.toContain(session.title);
+    expect(await store.get(session.id)).toEqual(session);
+    expect(await store.listByOwner('owner-a')).toEqual([session]);
+  });
+
+  it('encrypts plain-text sessions and moves the others to the active key', async () => {
+    const oldKey = `k1:${randomKey()}`;
+    const session = createSession('owner-a');
+    await inner.put(session);
+    expect(await rotateWizardSessionEncryptionKeys(inner, createKeyring(oldKey))).toEqual({ rewrapped: 0, encrypted: 1 });
+
+    const keyring = createKeyring(`k2:${randomKey()},${oldKey}`);
+    expect(await rotateWizardSessionEncryptionKeys(inner, keyring)).toEqual({ rewrapped: 1, encrypted: 0 });
+    expect((await inner.get(session.id))?.encryptedPii?.keyId).toBe('k2');
+    expect(await createEncryptedWizardSessionStore(inner, keyring).get(session.id)).toEqual(session);
+  });
+});
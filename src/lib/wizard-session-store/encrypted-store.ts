@@ -0,0 +1,66 @@
+// src/lib/wizard-session-store/encrypted-store.ts
+
+import type { KeyRotationResult } from '@/lib/candidate-repository/encrypted-repository';
+import { decryptPii, encryptPii, rewrapPii, type PiiKeyring } from '@/lib/candidate-repository/pii-encryption';
+import type { WizardSession, WizardSessionState } from '@/lib/wizard-session';
+import type { StoredWizardSession, WizardSessionStore } from '@/lib/wizard-session-store/types';
+
+/** The whole state is encrypted: it holds the resume text, the extracted name and email and the tailored resume. */
+type WizardSessionPiiFields = Pick<WizardSession, 'title' | 'state'>;
+
+function encryptSession(keyring: PiiKeyring, session: StoredWizardSession): StoredWizardSession {
+  const { title, state, encryptedPii, ...rest } = session;
+  const pii: WizardSessionPiiFields = { title, state };
+  // title and state are required by the session type; the real values are in the envelope.
+  const statePlaceholder = {} as WizardSessionState;
+  return { ...rest, title: '', state: statePlaceholder, encryptedPii: encryptPii(keyring, pii) };
+}
+
+/** Sessions stored before encryption was enabled have no envelope and are returned as they are. */
+function decryptSession(keyring: PiiKeyring, session: StoredWizardSession): StoredWizardSession {
+  const { encryptedPii, ...rest } = session;
+  return encryptedPii ? { ...rest, ...decryptPii<WizardSessionPiiFields>(keyring, encryptedPii) } : rest;
+}
+
+/** Same as createEncryptedCandidateRepository, for the server copies of wizard sessions. */
+export function createEncryptedWizardSessionStore(inner: WizardSessionStore, keyring: PiiKeyring): WizardSessionStore {
+  const decrypt = (session: StoredWizardSession) => decryptSession(keyring, session);
+
+  return {
+    backend: inner.backend,
+
+    async get(id) {
+      const session = await inner.get(id);
+      return session && decrypt(session);
+    },
+
+    put(session) {
+      return inner.put(encryptSession(keyring, session));
+    },
+
+    async listByOwner(ownerKeyHash) {
+      return (await inner.listByOwner(ownerKeyHash)).map(decrypt);
+    },
+
+    async listAll() {
+      return (await inner.listAll()).map(decrypt);
+    },
+
+    delete: id => inner.delete(id),
+    deleteOlderThan: cutoff => inner.deleteOlderThan(cutoff),
+    close: () => inner.close(),
+  };
+}
+
+/** Same as rotateCandidateEncryptionKeys, for the server copies of wizard sessions. */
+export async function rotateWizardSessionEncryptionKeys(inner: WizardSessionStore, keyring: PiiKeyring): Promise<KeyRotationResult> {
+  const result: KeyRotationResult = { rewrapped: 0, encrypted: 0 };
+  for (const session of await inner.listAll()) {
+    if (!session.encryptedPii) {
+      if (await inner.put(encryptSession(keyring, session))) result.encrypted++;
+    } else if (session.encryptedPii.keyId !== keyring.activeKeyId) {
+      if (await inner.put({ ...session, encryptedPii: rewrapPii(keyring, session.encryptedPii) })) result.rewrapped++;
+    }
+  }
+  return result;
+}
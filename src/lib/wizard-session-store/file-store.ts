@@ -0,0 +1,96 @@
+// src/lib/wizard-session-store/file-store.ts
+
+import fs from 'fs/promises';
+import path from 'path';
+import { withFileLock, writeFileAtomic } from '@/lib/file-lock';
+import { isWizardSessionId } from '@/lib/wizard-session';
+import type { StoredWizardSession, WizardSessionStore } from '@/lib/wizard-session-store/types';
+
+// Like the JSON candidate backend, this is meant for local development: use MongoDB on serverless hosts.
+
+/** Keeps each session in `<directory>/<session id>.json`, written atomically under a per-file lock. */
+export function createFileWizardSessionStore(directory: string): WizardSessionStore {
+  const sessionPath = (id: string) => {
+    // Ids become file names: anything but a UUID could point outside the directory.
+    if (!isWizardSessionId(id)) throw new Error(`Invalid wizard session id "${id}".`);
+    return path.join(directory, `${id}.json`);
+  };
+
+  const read = async (filePath: string): Promise<StoredWizardSession | null> => {
+    try {
+      return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return null;
+      throw error;
+    }
+  };
+
+  const remove = (filePath: string) => withFileLock(filePath, async () => {
+    try {
+      await fs.unlink(filePath);
+      return true;
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return false;
+      throw error;
+    }
+  });
+
+  const listWhere = async (predicate: (session: StoredWizardSession) => boolean): Promise<StoredWizardSession[]> => {
+    let fileNames: string[];
+    try {
+      fileNames = await fs.readdir(directory);
+    } catch (error: any) {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    }
+    const sessions: StoredWizardSession[] = [];
+    for (const fileName of fileNames) {
+      const id = fileName.replace(/\.json$/, '');
+      if (fileName === id || !isWizardSessionId(id)) continue;
+      const session = await read(sessionPath(id));
+      if (session && predicate(session)) sessions.push(session);
+    }
+    return sessions.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  };
+
+  return {
+    backend: 'file',
+
+    get(id) {
+      return read(sessionPath(id));
+    },
+
+    async put(session) {
+      const filePath = sessionPath(session.id);
+      await fs.mkdir(directory, { recursive: true });
+      return withFileLock(filePath, async () => {
+        const existing = await read(filePath);
+        if (existing && existing.ownerKeyHash !== session.ownerKeyHash) return false;
+        await writeFileAtomic(filePath, JSON.stringify(session));
+        return true;
+      });
+    },
+
+    delete(id) {
+      return remove(sessionPath(id));
+    },
+
+    listByOwner(ownerKeyHash) {
+      return listWhere(session => session.ownerKeyHash === ownerKeyHash);
+    },
+
+    listAll() {
+      return listWhere(() => true);
+    },
+
+    async deleteOlderThan(cutoff) {
+      const removed: string[] = [];
+      for (const { id } of await listWhere(session => session.updatedAt < cutoff)) {
+        if (await remove(sessionPath(id))) removed.push(id);
+      }
+      return removed;
+    },
+
+    async close() {},
+  };
+}
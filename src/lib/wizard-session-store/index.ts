@@ -0,0 +1,83 @@
+// src/lib/wizard-session-store/index.ts
+
+import path from 'path';
+import { getPiiKeyring } from '@/lib/candidate-repository/pii-encryption';
+import { createEncryptedWizardSessionStore } from '@/lib/wizard-session-store/encrypted-store';
+import {
+  WIZARD_SESSION_STORAGE_BACKENDS,
+  type WizardSessionStorageBackend,
+  type WizardSessionStore,
+} from '@/lib/wizard-session-store/types';
+
+export * from '@/lib/wizard-session-store/types';
+
+export const DEFAULT_WIZARD_SESSION_DIR = 'wizard_sessions';
+export const DEFAULT_WIZARD_SESSION_COLLECTION = 'wizard_sessions';
+
+export type WizardSessionStorageConfig =
+  | { backend: 'none' }
+  | { backend: 'file'; directory: string }
+  | { backend: 'mongodb'; uri: string; dbName: string; collectionName: string };
+
+/** Reads WIZARD_SESSION_STORAGE_BACKEND. Sessions are only kept in the browser unless it is set. */
+export function getWizardSessionStorageConfig(env: Record<string, string | undefined> = process.env): WizardSessionStorageConfig {
+  const backend = (env.WIZARD_SESSION_STORAGE_BACKEND?.trim().toLowerCase() || 'none') as WizardSessionStorageBackend;
+  if (!WIZARD_SESSION_STORAGE_BACKENDS.includes(backend)) {
+    throw new Error(`Unknown WIZARD_SESSION_STORAGE_BACKEND "${backend}". Use one of: ${WIZARD_SESSION_STORAGE_BACKENDS.join(', ')}.`);
+  }
+
+  switch (backend) {
+    case 'file':
+      return { backend, directory: path.resolve(env.WIZARD_SESSION_DIR || DEFAULT_WIZARD_SESSION_DIR) };
+    case 'mongodb':
+      if (!env.MONGODB_URI || !env.MONGODB_DB_NAME) {
+        throw new Error('The MongoDB wizard session storage needs MONGODB_URI and MONGODB_DB_NAME.');
+      }
+      return {
+        backend,
+        uri: env.MONGODB_URI,
+        dbName: env.MONGODB_DB_NAME,
+        collectionName: env.WIZARD_SESSION_COLLECTION_NAME || DEFAULT_WIZARD_SESSION_COLLECTION,
+      };
+    default:
+      return { backend: 'none' };
+  }
+}
+
+/** Creates the store for a config. Backends are loaded on demand so unused drivers are never required. */
+export async function createWizardSessionStore(config: WizardSessionStorageConfig): Promise<WizardSessionStore | null> {
+  switch (config.backend) {
+    case 'file': {
+      const { createFileWizardSessionStore } = await import('@/lib/wizard-session-store/file-store');
+      return createFileWizardSessionStore(config.directory);
+    }
+    case 'mongodb': {
+      const { createMongoDbWizardSessionStore } = await import('@/lib/wizard-session-store/mongodb-store');
+      return createMongoDbWizardSessionStore(config);
+    }
+    default:
+      return null;
+  }
+}
+
+let configuredStore: Promise<WizardSessionStore | null> | null = null;
+
+async function createConfiguredStore(): Promise<WizardSessionStore | null> {
+  const keyring = getPiiKeyring();
+  const store = await createWizardSessionStore(getWizardSessionStorageConfig());
+  return store && keyring ? createEncryptedWizardSessionStore(store, keyring) : store;
+}
+
+/**
+ * The store configured by the environment. Null when sessions are only kept in the browser.
+ * Sessions are encrypted with the candidate PII keys when CANDIDATE_ENCRYPTION_KEYS is set.
+ */
+export function getWizardSessionStore(): Promise<WizardSessionStore | null> {
+  if (!configuredStore) {
+    configuredStore = createConfiguredStore().catch(error => {
+      configuredStore = null;
+      throw error;
+    });
+  }
+  return configuredStore;
+}
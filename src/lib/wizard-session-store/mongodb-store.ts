@@ -0,0 +1,69 @@
+// src/lib/wizard-session-store/mongodb-store.ts
+
+import type { Collection } from 'mongodb';
+import { createMongoClientProvider } from '@/lib/mongodb-client';
+import type { StoredWizardSession, WizardSessionStore } from '@/lib/wizard-session-store/types';
+
+export interface MongoDbWizardSessionStoreOptions {
+  uri: string;
+  dbName: string;
+  collectionName: string;
+}
+
+/** One document per session, with the session id as `_id`. */
+type SessionDocument = Omit<StoredWizardSession, 'id'> & { _id: string };
+
+const DUPLICATE_KEY_ERROR = 11000;
+
+const toSession = ({ _id, ...document }: SessionDocument): StoredWizardSession => ({ ...document, id: _id });
+
+export function createMongoDbWizardSessionStore(options: MongoDbWizardSessionStoreOptions): WizardSessionStore {
+  const { getClient, close } = createMongoClientProvider(options.uri);
+  const getCollection = async (): Promise<Collection<SessionDocument>> =>
+    (await getClient()).db(options.dbName).collection<SessionDocument>(options.collectionName);
+
+  return {
+    backend: 'mongodb',
+
+    async get(id) {
+      const document = await (await getCollection()).findOne({ _id: id });
+      return document ? toSession(document) : null;
+    },
+
+    async put({ id, ...session }) {
+      try {
+        // With the owner in the filter, a session of another owner is not matched and the upsert fails on its _id.
+        await (await getCollection()).replaceOne({ _id: id, ownerKeyHash: session.ownerKeyHash }, session, { upsert: true });
+        return true;
+      } catch (error: any) {
+        if (error?.code === DUPLICATE_KEY_ERROR) return false;
+        throw error;
+      }
+    },
+
+    async delete(id) {
+      const result = await (await getCollection()).deleteOne({ _id: id });
+      return result.deletedCount > 0;
+    },
+
+    async listByOwner(ownerKeyHash) {
+      const documents = await (await getCollection()).find({ ownerKeyHash }).sort({ updatedAt: -1 }).toArray();
+      return documents.map(toSession);
+    },
+
+    async listAll() {
+      return (await (await getCollection()).find().sort({ updatedAt: -1 }).toArray()).map(toSession);
+    },
+
+    async deleteOlderThan(cutoff) {
+      const collection = await getCollection();
+      const expired = await collection.find({ updatedAt: { $lt: cutoff } }, { projection: { _id: 1 } }).toArray();
+      if (expired.length > 0) {
+        await collection.deleteMany({ _id: { $in: expired.map(document => document._id) } });
+      }
+      return expired.map(document => document._id);
+    },
+
+    close,
+  };
+}
@@ -0,0 +1,35 @@
+// src/lib/wizard-session-store/types.ts
+
+import type { EncryptedPii } from '@/lib/candidate-repository/types';
+import type { WizardSession } from '@/lib/wizard-session';
+
+export const WIZARD_SESSION_STORAGE_BACKENDS = ['file', 'mongodb', 'none'] as const;
+export type WizardSessionStorageBackend = typeof WIZARD_SESSION_STORAGE_BACKENDS[number];
+
+/** A session as kept on the server, tied to the data access key of the browser that saved it. */
+export interface StoredWizardSession extends WizardSession {
+  /** SHA-256 of the data access key: only its owner can load, overwrite or delete the session. */
+  ownerKeyHash: string;
+  /** Set in storage when PII encryption is enabled; the title and state are then empty. Never returned to callers. */
+  encryptedPii?: EncryptedPii;
+}
+
+/** Server-side copies of wizard sessions, looked up by session id. */
+export interface WizardSessionStore {
+  readonly backend: Exclude<WizardSessionStorageBackend, 'none'>;
+  get(id: string): Promise<StoredWizardSession | null>;
+  /**
+   * Creates the session, or replaces the one with the same id and owner. Returns false, without writing anything,
+   * when a session with that id belongs to another owner.
+   */
+  put(session: StoredWizardSession): Promise<boolean>;
+  /** Returns false when no session had that id. */
+  delete(id: string): Promise<boolean>;
+  /** Sessions saved with this data access key hash, most recently updated first. */
+  listByOwner(ownerKeyHash: string): Promise<StoredWizardSession[]>;
+  /** Every session of every owner, for maintenance such as key rotation. */
+  listAll(): Promise<StoredWizardSession[]>;
+  /** Removes every session last updated before `cutoff` (ISO date) and returns their ids. */
+  deleteOlderThan(cutoff: string): Promise<string[]>;
+  close(): Promise<void>;
+}
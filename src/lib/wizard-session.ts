@@ -0,0 +1,82 @@
+// src/lib/wizard-session.ts
+
+import type { CareerCraftFormState } from '@/components/career-craft-wizard';
+import type { CompatibilityOutput } from '@/ai/flows/resume-compatibility-analysis';
+import type { AIResumeBuilderOutput } from '@/ai/flows/ai-resume-builder';
+import type { AutomatedJobSearchOutput } from '@/ai/flows/automated-job-search';
+import type { BatchCompatibilityOutput } from '@/ai/flows/batch-compatibility-analysis';
+import type { ResumeVersion } from '@/lib/resume-versions';
+
+/** Everything the candidate wizard needs to come back exactly where the user left it. */
+export interface WizardSessionState {
+  currentStep: number;
+  formState: CareerCraftFormState;
+  compatibilityResult: CompatibilityOutput | null;
+  tailoredResumeResult: AIResumeBuilderOutput | null;
+  editedTailoredResumeText: string;
+  initialCompatibilityResultForStep3: CompatibilityOutput | null;
+  newCompatibilityAnalysisResultForStep3: CompatibilityOutput | null;
+  jobListingsResult: AutomatedJobSearchOutput | null;
+  batchResult: BatchCompatibilityOutput | null;
+  coverLetterText: string;
+  /** Every generated and saved tailored resume; missing from sessions saved before the library existed. */
+  resumeVersions?: ResumeVersion[];
+  /** Version the editor was loaded from. */
+  activeResumeVersionId?: string | null;
+  /** Claims flagged by the claim check that the user confirmed as true; they stay confirmed across regenerations. */
+  confirmedResumeClaims?: string[];
+}
+
+export interface WizardSession {
+  id: string;
+  /** ISO dates. */
+  createdAt: string;
+  updatedAt: string;
+  /** Label in the session history: the job title, or the start of the job offer. */
+  title: string;
+  state: WizardSessionState;
+}
+
+export type WizardSessionSummary = Pick<WizardSession, 'id' | 'createdAt' | 'updatedAt' | 'title'> & { currentStep: number };
+
+const SESSION_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+const TITLE_MAX_LENGTH = 80;
+
+/** Session ids are random UUIDs: they are safe to use as file names, and the server copy also needs its owner's data access key. */
+export const isWizardSessionId = (id: unknown): id is string => typeof id === 'string' && SESSION_ID_PATTERN.test(id);
+
+export const createWizardSessionId = () => crypto.randomUUID();
+
+export function getWizardSessionTitle({ formState }: WizardSessionState): string {
+  const offer = formState.offerMode === 'batch' ? formState.batchJobOffers : formState.jobOfferText || formState.jobOfferUrl;
+  const title = formState.jobOfferTitle.trim() || offer.trim().split('\n')[0].trim();
+  return title.length > TITLE_MAX_LENGTH ? `${title.slice(0, TITLE_MAX_LENGTH - 1)}…` : title;
+}
+
+/** An untouched wizard is not worth saving or offering to resume. */
+export function hasWizardSessionProgress(state: WizardSessionState): boolean {
+  const { formState } = state;
+  return state.currentStep > 1 || !!(
+    formState.jobOfferText.trim() || formState.jobOfferUrl.trim() || formState.batchJobOffers.trim()
+    || formState.resumeText.trim() || formState.resumeFileDataUri
+  );
+}
+
+export const summarizeWizardSession = (session: WizardSession): WizardSessionSummary => ({
+  id: session.id,
+  createdAt: session.createdAt,
+  updatedAt: session.updatedAt,
+  title: session.title,
+  currentStep: session.state.currentStep,
+});
+
+/**
+ * The copy sent to the server leaves out the uploaded resume file and profile photo, which can weigh megabytes;
+ * the resume text and every result are kept.
+ */
+export function withoutUploadedFiles(state: WizardSessionState): WizardSessionState {
+  return {
+    ...state,
+    formState: { ...state.formState, resumeFileDataUri: '', profilePhotoDataUri: '', profilePhotoName: '' },
+  };
+}
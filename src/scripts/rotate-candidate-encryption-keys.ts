@@ -0,0 +1,42 @@
+// src/scripts/rotate-candidate-encryption-keys.ts
+// Usage: npm run candidates:rotate-keys
+// Put the new key first in CANDIDATE_ENCRYPTION_KEYS, keep the old ones after it, run this script,
+// then remove the old keys. Records stored before encryption was enabled are encrypted as well.
+// Application tracker entries and server copies of wizard sessions are rotated in the same run.
+
+import { config } from 'dotenv';
+config();
+
+import { createApplicationRepository, createCandidateRepository, getCandidateStorageConfig } from '@/lib/candidate-repository';
+import { rotateApplicationEncryptionKeys, rotateCandidateEncryptionKeys } from '@/lib/candidate-repository/encrypted-repository';
+import { getPiiKeyring } from '@/lib/candidate-repository/pii-encryption';
+import { createWizardSessionStore, getWizardSessionStorageConfig } from '@/lib/wizard-session-store';
+import { rotateWizardSessionEncryptionKeys } from '@/lib/wizard-session-store/encrypted-store';
+
+async function main() {
+  const keyring = getPiiKeyring();
+  if (!keyring) throw new Error('CANDIDATE_ENCRYPTION_KEYS is not set; there is nothing to rotate to.');
+  const config = getCandidateStorageConfig();
+  const repository = await createCandidateRepository(config);
+  if (!repository) throw new Error('Candidate storage is disabled (CANDIDATE_STORAGE_BACKEND).');
+  const applications = (await createApplicationRepository(config))!;
+  const sessions = await createWizardSessionStore(getWizardSessionStorageConfig());
+
+  try {
+    const { rewrapped, encrypted } = await rotateCandidateEncryptionKeys(repository, keyring);
+    console.log(`[KeyRotation] ${repository.backend}: ${rewrapped} record(s) moved to key "${keyring.activeKeyId}", ${encrypted} plain-text record(s) encrypted.`);
+    const applicationResult = await rotateApplicationEncryptionKeys(applications, keyring);
+    console.log(`[KeyRotation] ${applications.backend}: ${applicationResult.rewrapped} application(s) moved to key "${keyring.activeKeyId}", ${applicationResult.encrypted} plain-text application(s) encrypted.`);
+    if (sessions) {
+      const sessionResult = await rotateWizardSessionEncryptionKeys(sessions, keyring);
+      console.log(`[KeyRotation] ${sessions.backend}: ${sessionResult.rewrapped} wizard session(s) moved to key "${keyring.activeKeyId}", ${sessionResult.encrypted} plain-text wizard session(s) encrypted.`);
+    }
+  } finally {
+    await Promise.all([repository.close(), applications.close(), sessions?.close()]);
+  }
+}
+
+main().catch(error => {
+  console.error('[KeyRotation] Failed:', error);
+  process.exitCode = 1;
+});